@@ -0,0 +1,20 @@
+-- Migration script for Send Script instance profiles
+-- Users send scripts to one of several named ServiceNow instances (dev, test, prod). Each queued script
+-- remembers the profile and URL it targets, so a retry goes back to the same instance.
+
+ALTER TABLE "servicenow_integration_queue" ADD COLUMN IF NOT EXISTS instance_id VARCHAR(64);
+ALTER TABLE "servicenow_integration_queue" ADD COLUMN IF NOT EXISTS instance_url VARCHAR(255);
+
+COMMENT ON COLUMN "servicenow_integration_queue"."instance_id" IS 'Id of the instance profile the script was sent to, NULL for scripts queued before profiles';
+COMMENT ON COLUMN "servicenow_integration_queue"."instance_url" IS 'URL of the target instance when the script was sent';
+
+-- Log successful migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'servicenow_integration_queue' AND column_name = 'instance_id') THEN
+        RAISE NOTICE 'servicenow_integration_queue instance migration applied successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to apply servicenow_integration_queue instance migration.';
+    END IF;
+END;
+$$;
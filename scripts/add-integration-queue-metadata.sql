@@ -0,0 +1,19 @@
+-- Migration script for Send Script artifact metadata
+-- Send Script queues records of any registered artifact type (UI Actions, Scheduled Jobs, ACLs, ...)
+-- together with type-specific record fields such as table, when, order, condition and UI type.
+
+ALTER TABLE "servicenow_integration_queue" ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+COMMENT ON COLUMN "servicenow_integration_queue"."type" IS 'Artifact type id from the Send Script registry (e.g. business_rule, ui_action, acl)';
+COMMENT ON COLUMN "servicenow_integration_queue"."metadata" IS 'Record fields of the artifact type (name, table, when, order, active, ...)';
+
+-- Log successful migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'servicenow_integration_queue' AND column_name = 'metadata') THEN
+        RAISE NOTICE 'servicenow_integration_queue metadata migration applied successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to apply servicenow_integration_queue metadata migration.';
+    END IF;
+END;
+$$;
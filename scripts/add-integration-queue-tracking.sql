@@ -0,0 +1,27 @@
+-- Migration script for Send Script deployment tracking
+-- The app queues every Send Script request itself and follows it through to ServiceNow, so users can see
+-- their deployments, why one failed, and retry it. The n8n create_task workflow upserts on correlation_id.
+
+ALTER TABLE "servicenow_integration_queue" ADD COLUMN IF NOT EXISTS created_by VARCHAR(255);
+ALTER TABLE "servicenow_integration_queue" ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE "servicenow_integration_queue" ADD COLUMN IF NOT EXISTS result JSONB;
+ALTER TABLE "servicenow_integration_queue" ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 1 NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_servicenow_integration_queue_correlation_id_unique ON "servicenow_integration_queue"(correlation_id);
+CREATE INDEX IF NOT EXISTS idx_servicenow_integration_queue_created_by ON "servicenow_integration_queue"(created_by, created_at DESC);
+
+COMMENT ON COLUMN "servicenow_integration_queue"."created_by" IS 'Username of the user who sent the script';
+COMMENT ON COLUMN "servicenow_integration_queue"."error" IS 'Why the last delivery failed (state failed)';
+COMMENT ON COLUMN "servicenow_integration_queue"."result" IS 'Created or updated ServiceNow record (sys_id, table, action, url) when known';
+COMMENT ON COLUMN "servicenow_integration_queue"."attempts" IS 'Number of deliveries, including retries';
+
+-- Log successful migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'servicenow_integration_queue' AND column_name = 'created_by') THEN
+        RAISE NOTICE 'servicenow_integration_queue tracking migration applied successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to apply servicenow_integration_queue tracking migration.';
+    END IF;
+END;
+$$;
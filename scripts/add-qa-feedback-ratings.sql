@@ -0,0 +1,26 @@
+-- Migration script for answer ratings
+-- qa_feedback rows rate either a knowledge store entry (qa_id) or a generated answer (user_session
+-- holds its session key). Each user keeps one rating per entry or answer, updated when they re-rate.
+
+ALTER TABLE "qa_feedback" ADD COLUMN IF NOT EXISTS rated_by VARCHAR(255);
+ALTER TABLE "qa_feedback" ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_qa_feedback_item_rater
+    ON "qa_feedback"(qa_id, rated_by) WHERE qa_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_qa_feedback_answer_rater
+    ON "qa_feedback"(user_session, rated_by) WHERE qa_id IS NULL;
+
+COMMENT ON COLUMN "qa_feedback"."user_session" IS 'Session key of the rated answer when it is not a knowledge store entry';
+COMMENT ON COLUMN "qa_feedback"."rated_by" IS 'Username of the rater';
+COMMENT ON COLUMN "qa_knowledge_base"."quality_score" IS 'Average qa_feedback rating (1-5), 0 until the entry is rated';
+
+-- Log successful migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'qa_feedback' AND column_name = 'rated_by') THEN
+        RAISE NOTICE 'qa_feedback ratings migration applied successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to apply qa_feedback ratings migration.';
+    END IF;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- Migration script to link conversation history rows to the app's streaming session
+-- Adds session_key to ServiceNowSupportTool so /api/cancel-request can mark the row as cancelled
+
+-- Add session_key column
+ALTER TABLE "ServiceNowSupportTool" ADD COLUMN IF NOT EXISTS session_key VARCHAR(255);
+
+-- Create index for cancellation lookups
+CREATE INDEX IF NOT EXISTS idx_servicenow_support_tool_session_key ON "ServiceNowSupportTool"(session_key);
+
+COMMENT ON COLUMN "ServiceNowSupportTool"."session_key" IS 'Session key sent by the app as sessionId (session_<timestamp>_<random>)';
+COMMENT ON COLUMN "ServiceNowSupportTool"."state" IS 'processing, done or cancelled';
+
+-- Log successful migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'ServiceNowSupportTool' AND column_name = 'session_key') THEN
+        RAISE NOTICE 'ServiceNowSupportTool.session_key column added successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to add ServiceNowSupportTool.session_key column.';
+    END IF;
+END;
+$$;
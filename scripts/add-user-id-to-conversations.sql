@@ -0,0 +1,28 @@
+-- Migration script to scope conversation history to the owning user
+-- Adds user_id to ServiceNowSupportTool; populated by the n8n workflow from metadata.userId
+
+-- Add user_id column
+ALTER TABLE "ServiceNowSupportTool" ADD COLUMN IF NOT EXISTS user_id VARCHAR(255);
+
+-- Assign pre-existing conversations to the initial account (they were all created under the single shared login)
+UPDATE "ServiceNowSupportTool"
+SET user_id = (SELECT username FROM "users" ORDER BY id ASC LIMIT 1)
+WHERE user_id IS NULL
+  AND EXISTS (SELECT 1 FROM "users");
+
+-- Create indexes for per-user history queries
+CREATE INDEX IF NOT EXISTS idx_servicenow_support_tool_user_id ON "ServiceNowSupportTool"(user_id);
+CREATE INDEX IF NOT EXISTS idx_servicenow_support_tool_user_created ON "ServiceNowSupportTool"(user_id, created_at DESC);
+
+COMMENT ON COLUMN "ServiceNowSupportTool"."user_id" IS 'Username of the user who asked the question (matches users.username)';
+
+-- Log successful migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'ServiceNowSupportTool' AND column_name = 'user_id') THEN
+        RAISE NOTICE 'ServiceNowSupportTool.user_id column added successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to add ServiceNowSupportTool.user_id column.';
+    END IF;
+END;
+$$;
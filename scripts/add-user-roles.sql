@@ -0,0 +1,38 @@
+-- Migration script to add role-based authorization to user accounts
+-- Roles: 'admin' (full access) and 'member' (ask questions, manage own settings)
+
+-- Add role column to users table
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'member';
+
+-- Restrict role values
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE table_name = 'users' AND constraint_name = 'users_role_check'
+    ) THEN
+        ALTER TABLE "users" ADD CONSTRAINT users_role_check CHECK (role IN ('admin', 'member'));
+    END IF;
+END;
+$$;
+
+-- Promote the oldest account to admin if no admin exists yet (the bootstrapped AUTH_USERNAME account)
+UPDATE "users"
+SET role = 'admin', updated_at = CURRENT_TIMESTAMP
+WHERE id = (SELECT MIN(id) FROM "users")
+  AND NOT EXISTS (SELECT 1 FROM "users" WHERE role = 'admin');
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON "users"(role);
+
+COMMENT ON COLUMN "users"."role" IS 'Authorization role: admin (provider, knowledge store, prompt and script management) or member';
+
+-- Log successful migration
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'users' AND column_name = 'role') THEN
+        RAISE NOTICE 'users.role column added successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to add users.role column.';
+    END IF;
+END;
+$$;
@@ -0,0 +1,63 @@
+-- Migration script for agent prompt version history
+-- Every saved prompt becomes an immutable row in agent_prompt_versions; agent_prompts keeps the current content
+
+-- Immutable history per (agent_name, prompt_type)
+CREATE TABLE IF NOT EXISTS "agent_prompt_versions" (
+    id SERIAL PRIMARY KEY,
+    agent_name VARCHAR(100) NOT NULL,
+    prompt_type VARCHAR(50) NOT NULL DEFAULT 'system',
+    version INTEGER NOT NULL,
+    prompt_content TEXT NOT NULL,
+    change_note TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(agent_name, prompt_type, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_prompt_versions_agent_type ON "agent_prompt_versions"(agent_name, prompt_type, version DESC);
+
+-- Versions are never changed or removed once written; a rollback adds a new version
+CREATE OR REPLACE FUNCTION prevent_agent_prompt_version_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'agent_prompt_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS agent_prompt_versions_immutable ON "agent_prompt_versions";
+CREATE TRIGGER agent_prompt_versions_immutable
+    BEFORE UPDATE OR DELETE ON "agent_prompt_versions"
+    FOR EACH ROW EXECUTE FUNCTION prevent_agent_prompt_version_changes();
+
+-- Record the prompts that exist today as version 1 (only if agent_prompts exists)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'agent_prompts') THEN
+        INSERT INTO "agent_prompt_versions" (agent_name, prompt_type, version, prompt_content, change_note, created_by, created_at)
+        SELECT p.agent_name, p.prompt_type, 1, p.prompt_content, 'Initial version', 'system', COALESCE(p.updated_at, CURRENT_TIMESTAMP)
+        FROM "agent_prompts" p
+        WHERE NOT EXISTS (
+            SELECT 1 FROM "agent_prompt_versions" v
+            WHERE v.agent_name = p.agent_name AND v.prompt_type = p.prompt_type
+        );
+    ELSE
+        RAISE NOTICE 'agent_prompts table does not exist yet. Run create-agent-prompts-table.sql first if you need prompt management.';
+    END IF;
+END;
+$$;
+
+-- Add helpful comments
+COMMENT ON TABLE "agent_prompt_versions" IS 'Immutable version history of agent prompts';
+COMMENT ON COLUMN "agent_prompt_versions"."version" IS 'Increments per (agent_name, prompt_type), starting at 1';
+COMMENT ON COLUMN "agent_prompt_versions"."created_by" IS 'Username of the admin who saved the version';
+
+-- Log successful creation
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'agent_prompt_versions') THEN
+        RAISE NOTICE 'agent_prompt_versions table created successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to create agent_prompt_versions table.';
+    END IF;
+END;
+$$;
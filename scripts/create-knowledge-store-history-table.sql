@@ -0,0 +1,29 @@
+-- Migration script for knowledge store edit history
+-- Editing an entry copies its previous question, answer, category and tags here first
+
+CREATE TABLE IF NOT EXISTS "qa_knowledge_base_history" (
+    id SERIAL PRIMARY KEY,
+    qa_id INTEGER NOT NULL REFERENCES "qa_knowledge_base"(id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    category VARCHAR(50),
+    tags TEXT[],
+    edited_by VARCHAR(255),
+    edited_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_qa_history_qa_id ON "qa_knowledge_base_history"(qa_id, edited_at DESC);
+
+COMMENT ON TABLE "qa_knowledge_base_history" IS 'Previous versions of edited knowledge store entries';
+COMMENT ON COLUMN "qa_knowledge_base_history"."edited_by" IS 'Username of the admin whose edit replaced this version';
+
+-- Log successful creation
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'qa_knowledge_base_history') THEN
+        RAISE NOTICE 'qa_knowledge_base_history table created successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to create qa_knowledge_base_history table.';
+    END IF;
+END;
+$$;
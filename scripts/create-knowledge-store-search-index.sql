@@ -0,0 +1,17 @@
+-- Migration script for knowledge store full-text search
+-- GET /api/knowledge-store searches question and answer text in Postgres instead of in memory
+
+-- The expression must match SEARCH_DOCUMENT in src/lib/knowledge-store.ts
+CREATE INDEX IF NOT EXISTS idx_qa_search ON "qa_knowledge_base"
+    USING GIN (to_tsvector('english', question || ' ' || answer));
+
+-- Log successful creation
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'idx_qa_search') THEN
+        RAISE NOTICE 'qa_knowledge_base full-text search index created successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to create qa_knowledge_base full-text search index.';
+    END IF;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- Migration script for prompt A/B experiments
+-- An experiment splits live traffic for one agent prompt between weighted variants and collects thumbs up/down per variant
+
+CREATE TABLE IF NOT EXISTS "prompt_experiments" (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    agent_name VARCHAR(100) NOT NULL,
+    prompt_type VARCHAR(50) NOT NULL DEFAULT 'system',
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+    created_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP,
+    ended_at TIMESTAMP
+);
+
+-- Prompt variants and their share of traffic (weights are relative)
+CREATE TABLE IF NOT EXISTS "prompt_experiment_variants" (
+    id SERIAL PRIMARY KEY,
+    experiment_id INTEGER NOT NULL REFERENCES "prompt_experiments"(id) ON DELETE CASCADE,
+    label VARCHAR(50) NOT NULL,
+    prompt_content TEXT NOT NULL,
+    weight INTEGER NOT NULL DEFAULT 50 CHECK (weight > 0),
+    UNIQUE(experiment_id, label)
+);
+
+-- Which variant answered each request, and the asker's rating of that answer
+CREATE TABLE IF NOT EXISTS "prompt_experiment_assignments" (
+    id SERIAL PRIMARY KEY,
+    experiment_id INTEGER NOT NULL REFERENCES "prompt_experiments"(id) ON DELETE CASCADE,
+    variant_id INTEGER NOT NULL REFERENCES "prompt_experiment_variants"(id) ON DELETE CASCADE,
+    session_key VARCHAR(255) NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    rating SMALLINT CHECK (rating IN (-1, 1)),
+    rated_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(experiment_id, session_key)
+);
+
+-- Create indexes for performance
+-- At most one running experiment per agent prompt
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_one_running
+    ON "prompt_experiments"(agent_name, prompt_type) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_variants_experiment ON "prompt_experiment_variants"(experiment_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_assignments_session ON "prompt_experiment_assignments"(session_key, user_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_assignments_variant ON "prompt_experiment_assignments"(variant_id);
+
+-- Add helpful comments
+COMMENT ON TABLE "prompt_experiments" IS 'A/B experiments comparing prompt variants for one agent prompt';
+COMMENT ON COLUMN "prompt_experiments"."status" IS 'draft (editable), running (assigning traffic) or stopped';
+COMMENT ON COLUMN "prompt_experiment_variants"."weight" IS 'Relative share of requests; 50/50 and 1/1 split the same way';
+COMMENT ON COLUMN "prompt_experiment_assignments"."session_key" IS 'Links the request to ServiceNowSupportTool.session_key';
+COMMENT ON COLUMN "prompt_experiment_assignments"."rating" IS '1 = thumbs up, -1 = thumbs down, NULL = not rated';
+
+-- Log successful creation
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'prompt_experiments')
+       AND EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'prompt_experiment_variants')
+       AND EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'prompt_experiment_assignments') THEN
+        RAISE NOTICE 'Prompt experiment tables created successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to create prompt experiment tables.';
+    END IF;
+END;
+$$;
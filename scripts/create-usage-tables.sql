@@ -0,0 +1,62 @@
+-- Migration script for token usage and cost accounting
+-- Creates model_prices (per-model price table) and request_usage (token usage per request, agent and model)
+
+-- Per-model prices in USD per million tokens
+CREATE TABLE IF NOT EXISTS "model_prices" (
+    id SERIAL PRIMARY KEY,
+    model_name VARCHAR(500) UNIQUE NOT NULL,
+    input_price_per_million NUMERIC(12, 4) NOT NULL DEFAULT 0,
+    output_price_per_million NUMERIC(12, 4) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Token usage reported by the n8n workflow, one row per agent/model per request
+CREATE TABLE IF NOT EXISTS "request_usage" (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    session_key VARCHAR(255),
+    request_type VARCHAR(50),
+    agent_name VARCHAR(255),
+    model_name VARCHAR(500),
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    cost NUMERIC(14, 6) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_model_prices_model_name ON "model_prices"(model_name);
+CREATE INDEX IF NOT EXISTS idx_request_usage_user_created ON "request_usage"(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_request_usage_created ON "request_usage"(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_request_usage_session_key ON "request_usage"(session_key);
+
+-- Seed prices for the default models (free models cost nothing and need no entry)
+INSERT INTO "model_prices" (model_name, input_price_per_million, output_price_per_million)
+VALUES
+    ('anthropic/claude-sonnet-4', 3.00, 15.00),
+    ('anthropic/claude-opus-4', 15.00, 75.00),
+    ('openai/gpt-4.1', 2.00, 8.00),
+    ('openai/gpt-4.1-mini', 0.40, 1.60)
+ON CONFLICT (model_name) DO NOTHING;
+
+-- Add helpful comments
+COMMENT ON TABLE "model_prices" IS 'Per-model token prices used to cost each request';
+COMMENT ON COLUMN "model_prices"."input_price_per_million" IS 'USD per million prompt tokens';
+COMMENT ON COLUMN "model_prices"."output_price_per_million" IS 'USD per million completion tokens';
+COMMENT ON TABLE "request_usage" IS 'Token usage and cost per request, agent and model';
+COMMENT ON COLUMN "request_usage"."session_key" IS 'Links usage to ServiceNowSupportTool.session_key';
+COMMENT ON COLUMN "request_usage"."cost" IS 'USD cost at the prices in effect when the request ran';
+
+-- Log successful creation
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'request_usage')
+       AND EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'model_prices') THEN
+        RAISE NOTICE 'Usage accounting tables created successfully!';
+    ELSE
+        RAISE EXCEPTION 'Failed to create usage accounting tables.';
+    END IF;
+END;
+$$;
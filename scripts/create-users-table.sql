@@ -0,0 +1,38 @@
+-- Migration script to create users table for multi-user authentication
+-- This script creates the users table that replaces the single AUTH_USERNAME/AUTH_PASSWORD login
+
+-- Create users table
+CREATE TABLE IF NOT EXISTS "users" (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(255) UNIQUE NOT NULL,
+    display_name VARCHAR(255),
+    password_hash TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_login_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_users_username ON "users"(username);
+CREATE INDEX IF NOT EXISTS idx_users_active ON "users"(is_active);
+
+-- Add helpful comments
+COMMENT ON TABLE "users" IS 'Application user accounts with salted password hashes';
+COMMENT ON COLUMN "users"."username" IS 'Login name - also used as user_id in user_settings, agent_models and ai_models';
+COMMENT ON COLUMN "users"."password_hash" IS 'scrypt hash in the format scrypt$<salt>$<hash> (hex encoded)';
+COMMENT ON COLUMN "users"."is_active" IS 'Disabled users cannot log in';
+COMMENT ON COLUMN "users"."last_login_at" IS 'Timestamp of the last successful login';
+
+-- Log successful creation
+DO $$
+BEGIN
+    -- Check if users table was created successfully
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'users') THEN
+        RAISE NOTICE 'users table created successfully!';
+        RAISE NOTICE 'The first login with AUTH_USERNAME/AUTH_PASSWORD bootstraps the initial account.';
+    ELSE
+        RAISE EXCEPTION 'Failed to create users table.';
+    END IF;
+END;
+$$;
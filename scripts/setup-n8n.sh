@@ -384,6 +384,110 @@ if [ -f /.dockerenv ]; then
         echo "⚠️ Visible request types migration script not found, skipping..."
     fi
 
+    # Create users table
+    echo "Creating users table..."
+    if [ -f scripts/create-users-table.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-users-table.sql > /dev/null 2>&1 && echo "✅ Users table created" || echo "⚠️ Users table creation failed"
+    else
+        echo "⚠️ Users table migration script not found, skipping..."
+    fi
+
+    # Add user roles
+    echo "Adding user roles..."
+    if [ -f scripts/add-user-roles.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-user-roles.sql > /dev/null 2>&1 && echo "✅ User roles added" || echo "⚠️ User roles migration failed"
+    else
+        echo "⚠️ User roles migration script not found, skipping..."
+    fi
+
+    # Scope conversation history to users
+    echo "Adding user ownership to conversation history..."
+    if [ -f scripts/add-user-id-to-conversations.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-user-id-to-conversations.sql > /dev/null 2>&1 && echo "✅ Conversation history user ownership added" || echo "⚠️ Conversation history ownership migration failed"
+    else
+        echo "⚠️ Conversation history ownership migration script not found, skipping..."
+    fi
+
+    # Link conversation history to streaming sessions (used for cancellation)
+    echo "Adding session keys to conversation history..."
+    if [ -f scripts/add-session-key-to-conversations.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-session-key-to-conversations.sql > /dev/null 2>&1 && echo "✅ Conversation history session keys added" || echo "⚠️ Conversation history session key migration failed"
+    else
+        echo "⚠️ Conversation history session key migration script not found, skipping..."
+    fi
+
+    # Create usage accounting tables
+    echo "Creating token usage and model price tables..."
+    if [ -f scripts/create-usage-tables.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-usage-tables.sql > /dev/null 2>&1 && echo "✅ Usage accounting tables created" || echo "⚠️ Usage accounting tables creation failed"
+    else
+        echo "⚠️ Usage accounting migration script not found, skipping..."
+    fi
+
+    # Create agent prompt version history
+    echo "Creating agent prompt version history..."
+    if [ -f scripts/create-agent-prompt-versions-table.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-agent-prompt-versions-table.sql > /dev/null 2>&1 && echo "✅ Agent prompt version history created" || echo "⚠️ Agent prompt version history creation failed"
+    else
+        echo "⚠️ Agent prompt version history migration script not found, skipping..."
+    fi
+
+    # Create prompt A/B experiment tables
+    echo "Creating prompt experiment tables..."
+    if [ -f scripts/create-prompt-experiments-tables.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-prompt-experiments-tables.sql > /dev/null 2>&1 && echo "✅ Prompt experiment tables created" || echo "⚠️ Prompt experiment tables creation failed"
+    else
+        echo "⚠️ Prompt experiment migration script not found, skipping..."
+    fi
+
+    # Full-text search index for the knowledge store
+    echo "Creating knowledge store search index..."
+    if [ -f scripts/create-knowledge-store-search-index.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-knowledge-store-search-index.sql > /dev/null 2>&1 && echo "✅ Knowledge store search index created" || echo "⚠️ Knowledge store search index creation failed"
+    else
+        echo "⚠️ Knowledge store search index script not found, skipping..."
+    fi
+
+    # Edit history for knowledge store entries
+    echo "Creating knowledge store edit history..."
+    if [ -f scripts/create-knowledge-store-history-table.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-knowledge-store-history-table.sql > /dev/null 2>&1 && echo "✅ Knowledge store edit history created" || echo "⚠️ Knowledge store edit history creation failed"
+    else
+        echo "⚠️ Knowledge store edit history script not found, skipping..."
+    fi
+
+    # One rating per user per answer or knowledge store entry
+    echo "Applying answer rating migration..."
+    if [ -f scripts/add-qa-feedback-ratings.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-qa-feedback-ratings.sql > /dev/null 2>&1 && echo "✅ Answer rating migration applied" || echo "⚠️ Answer rating migration failed"
+    else
+        echo "⚠️ Answer rating migration script not found, skipping..."
+    fi
+
+    # Type-specific record fields for Send Script artifacts
+    echo "Applying integration queue metadata migration..."
+    if [ -f scripts/add-integration-queue-metadata.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-integration-queue-metadata.sql > /dev/null 2>&1 && echo "✅ Integration queue metadata migration applied" || echo "⚠️ Integration queue metadata migration failed"
+    else
+        echo "⚠️ Integration queue metadata migration script not found, skipping..."
+    fi
+
+    # Deployment tracking for Send Script (owner, errors, retries)
+    echo "Applying integration queue tracking migration..."
+    if [ -f scripts/add-integration-queue-tracking.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-integration-queue-tracking.sql > /dev/null 2>&1 && echo "✅ Integration queue tracking migration applied" || echo "⚠️ Integration queue tracking migration failed"
+    else
+        echo "⚠️ Integration queue tracking migration script not found, skipping..."
+    fi
+
+    # Target instance profile of each Send Script deployment
+    echo "Applying integration queue instance migration..."
+    if [ -f scripts/add-integration-queue-instance.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-integration-queue-instance.sql > /dev/null 2>&1 && echo "✅ Integration queue instance migration applied" || echo "⚠️ Integration queue instance migration failed"
+    else
+        echo "⚠️ Integration queue instance migration script not found, skipping..."
+    fi
+
     # Mark as initialized inside container
     docker exec $N8N_CONTAINER touch /home/node/.n8n/.initialized > /dev/null 2>&1
 else
@@ -529,6 +633,110 @@ else
         echo "⚠️ Visible request types migration script not found, skipping..."
     fi
 
+    # Create users table
+    echo "Creating users table..."
+    if [ -f scripts/create-users-table.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-users-table.sql > /dev/null 2>&1 && echo "✅ Users table created" || echo "⚠️ Users table creation failed"
+    else
+        echo "⚠️ Users table migration script not found, skipping..."
+    fi
+
+    # Add user roles
+    echo "Adding user roles..."
+    if [ -f scripts/add-user-roles.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-user-roles.sql > /dev/null 2>&1 && echo "✅ User roles added" || echo "⚠️ User roles migration failed"
+    else
+        echo "⚠️ User roles migration script not found, skipping..."
+    fi
+
+    # Scope conversation history to users
+    echo "Adding user ownership to conversation history..."
+    if [ -f scripts/add-user-id-to-conversations.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-user-id-to-conversations.sql > /dev/null 2>&1 && echo "✅ Conversation history user ownership added" || echo "⚠️ Conversation history ownership migration failed"
+    else
+        echo "⚠️ Conversation history ownership migration script not found, skipping..."
+    fi
+
+    # Link conversation history to streaming sessions (used for cancellation)
+    echo "Adding session keys to conversation history..."
+    if [ -f scripts/add-session-key-to-conversations.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-session-key-to-conversations.sql > /dev/null 2>&1 && echo "✅ Conversation history session keys added" || echo "⚠️ Conversation history session key migration failed"
+    else
+        echo "⚠️ Conversation history session key migration script not found, skipping..."
+    fi
+
+    # Create usage accounting tables
+    echo "Creating token usage and model price tables..."
+    if [ -f scripts/create-usage-tables.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-usage-tables.sql > /dev/null 2>&1 && echo "✅ Usage accounting tables created" || echo "⚠️ Usage accounting tables creation failed"
+    else
+        echo "⚠️ Usage accounting migration script not found, skipping..."
+    fi
+
+    # Create agent prompt version history
+    echo "Creating agent prompt version history..."
+    if [ -f scripts/create-agent-prompt-versions-table.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-agent-prompt-versions-table.sql > /dev/null 2>&1 && echo "✅ Agent prompt version history created" || echo "⚠️ Agent prompt version history creation failed"
+    else
+        echo "⚠️ Agent prompt version history migration script not found, skipping..."
+    fi
+
+    # Create prompt A/B experiment tables
+    echo "Creating prompt experiment tables..."
+    if [ -f scripts/create-prompt-experiments-tables.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-prompt-experiments-tables.sql > /dev/null 2>&1 && echo "✅ Prompt experiment tables created" || echo "⚠️ Prompt experiment tables creation failed"
+    else
+        echo "⚠️ Prompt experiment migration script not found, skipping..."
+    fi
+
+    # Full-text search index for the knowledge store
+    echo "Creating knowledge store search index..."
+    if [ -f scripts/create-knowledge-store-search-index.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-knowledge-store-search-index.sql > /dev/null 2>&1 && echo "✅ Knowledge store search index created" || echo "⚠️ Knowledge store search index creation failed"
+    else
+        echo "⚠️ Knowledge store search index script not found, skipping..."
+    fi
+
+    # Edit history for knowledge store entries
+    echo "Creating knowledge store edit history..."
+    if [ -f scripts/create-knowledge-store-history-table.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/create-knowledge-store-history-table.sql > /dev/null 2>&1 && echo "✅ Knowledge store edit history created" || echo "⚠️ Knowledge store edit history creation failed"
+    else
+        echo "⚠️ Knowledge store edit history script not found, skipping..."
+    fi
+
+    # One rating per user per answer or knowledge store entry
+    echo "Applying answer rating migration..."
+    if [ -f scripts/add-qa-feedback-ratings.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-qa-feedback-ratings.sql > /dev/null 2>&1 && echo "✅ Answer rating migration applied" || echo "⚠️ Answer rating migration failed"
+    else
+        echo "⚠️ Answer rating migration script not found, skipping..."
+    fi
+
+    # Type-specific record fields for Send Script artifacts
+    echo "Applying integration queue metadata migration..."
+    if [ -f scripts/add-integration-queue-metadata.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-integration-queue-metadata.sql > /dev/null 2>&1 && echo "✅ Integration queue metadata migration applied" || echo "⚠️ Integration queue metadata migration failed"
+    else
+        echo "⚠️ Integration queue metadata migration script not found, skipping..."
+    fi
+
+    # Deployment tracking for Send Script (owner, errors, retries)
+    echo "Applying integration queue tracking migration..."
+    if [ -f scripts/add-integration-queue-tracking.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-integration-queue-tracking.sql > /dev/null 2>&1 && echo "✅ Integration queue tracking migration applied" || echo "⚠️ Integration queue tracking migration failed"
+    else
+        echo "⚠️ Integration queue tracking migration script not found, skipping..."
+    fi
+
+    # Target instance profile of each Send Script deployment
+    echo "Applying integration queue instance migration..."
+    if [ -f scripts/add-integration-queue-instance.sql ]; then
+        docker exec -i $POSTGRES_CONTAINER psql -U n8n -d n8n < scripts/add-integration-queue-instance.sql > /dev/null 2>&1 && echo "✅ Integration queue instance migration applied" || echo "⚠️ Integration queue instance migration failed"
+    else
+        echo "⚠️ Integration queue instance migration script not found, skipping..."
+    fi
+
     # Mark as initialized inside container
     docker exec $N8N_CONTAINER touch /home/node/.n8n/.initialized > /dev/null 2>&1
 fi
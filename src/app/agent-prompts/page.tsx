@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect } from 'react';
+import { ArrowLeft, FileText } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+
+import { useSettings } from '@/contexts/SettingsContext';
+import AgentPromptEditor from '@/components/AgentPromptEditor';
+
+export default function AgentPromptsPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useSettings();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  // Show loading while checking authentication
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-blue-500 dark:border-blue-400 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <button
+              onClick={() => router.push('/settings')}
+              className="p-2 mr-3 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 rounded-lg transition-colors"
+              aria-label="Back to settings"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <FileText className="w-8 h-8 text-blue-600 dark:text-blue-400 mr-3" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                Agent Prompts
+              </h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Edit the system prompts the AI agents run with. Every save is kept as a version you can restore.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <AgentPromptEditor />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { AgentPromptManager } from '@/lib/database';
+import { validatePromptKey } from '@/lib/request-validation';
+import type { AgentPromptVersionApiResponse } from '@/types/index';
+
+// POST /api/agent-prompts/rollback - Make an earlier version current by saving it as a new version (Admin only)
+export async function POST(request: NextRequest): Promise<NextResponse<AgentPromptVersionApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+    const { agent_name, prompt_type = 'system', version } = body || {};
+
+    const keyError = validatePromptKey(agent_name, prompt_type);
+    if (keyError) {
+      return NextResponse.json(
+        { success: false, error: keyError },
+        { status: 400 }
+      );
+    }
+
+    if (typeof version !== 'number' || !Number.isInteger(version) || version <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const promptManager = new AgentPromptManager();
+    const newVersion = await promptManager.rollbackAgentPrompt(agent_name, prompt_type, version, auth.user.username);
+
+    if (!newVersion) {
+      return NextResponse.json(
+        { success: false, error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: newVersion
+    });
+  } catch (error) {
+    console.error('Agent Prompt rollback error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
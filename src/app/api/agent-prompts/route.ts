@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { AgentPromptManager } from '@/lib/database';
+import { validatePromptKey } from '@/lib/request-validation';
+import type { AgentPromptsApiResponse, AgentPromptVersionApiResponse } from '@/types/index';
+
+// Prompts are sent to the model on every request - keep them within a sane size
+const MAX_PROMPT_LENGTH = 100000;
+
+// GET /api/agent-prompts - List agent prompts with their current version (Admin only)
+export async function GET(): Promise<NextResponse<AgentPromptsApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const promptManager = new AgentPromptManager();
+    const prompts = await promptManager.getAgentPromptsWithVersions();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        prompts,
+        agents: promptManager.getAvailableAgents(),
+        prompt_types: promptManager.getAvailablePromptTypes().map(({ type, displayName, description }) => ({
+          name: type,
+          displayName,
+          description
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Agent Prompts GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/agent-prompts - Save a prompt as a new version (Admin only)
+export async function PUT(request: NextRequest): Promise<NextResponse<AgentPromptVersionApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const { agent_name, prompt_type = 'system', prompt_content, change_note } = body;
+
+    const keyError = validatePromptKey(agent_name, prompt_type);
+    if (keyError) {
+      return NextResponse.json(
+        { success: false, error: keyError },
+        { status: 400 }
+      );
+    }
+
+    if (typeof prompt_content !== 'string' || prompt_content.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'prompt_content is required and must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (prompt_content.length > MAX_PROMPT_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `prompt_content must be at most ${MAX_PROMPT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (change_note !== undefined && change_note !== null && typeof change_note !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'change_note must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const promptManager = new AgentPromptManager();
+    const version = await promptManager.setAgentPrompt(agent_name, prompt_type, prompt_content, {
+      createdBy: auth.user.username,
+      changeNote: change_note?.trim() || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: version
+    });
+  } catch (error) {
+    console.error('Agent Prompts PUT error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/agent-prompts - Activate or deactivate a prompt (Admin only)
+export async function PATCH(request: NextRequest): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+    const { agent_name, prompt_type = 'system', is_active } = body || {};
+
+    const keyError = validatePromptKey(agent_name, prompt_type);
+    if (keyError) {
+      return NextResponse.json(
+        { success: false, error: keyError },
+        { status: 400 }
+      );
+    }
+
+    if (typeof is_active !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'is_active must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const promptManager = new AgentPromptManager();
+    const updated = is_active
+      ? await promptManager.activateAgentPrompt(agent_name, prompt_type)
+      : await promptManager.deactivateAgentPrompt(agent_name, prompt_type);
+
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Agent Prompts PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/agent-prompts?agent_name=&prompt_type= - Remove a prompt; its version history is kept (Admin only)
+export async function DELETE(request: NextRequest): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const url = new URL(request.url);
+    const agentName = url.searchParams.get('agent_name');
+    const promptType = url.searchParams.get('prompt_type') || 'system';
+
+    const keyError = validatePromptKey(agentName, promptType);
+    if (keyError) {
+      return NextResponse.json(
+        { success: false, error: keyError },
+        { status: 400 }
+      );
+    }
+
+    const promptManager = new AgentPromptManager();
+    const deleted = await promptManager.deleteAgentPrompt(agentName as string, promptType);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Agent Prompts DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { AgentPromptManager } from '@/lib/database';
+import { validatePromptKey } from '@/lib/request-validation';
+import type { AgentPromptVersionsApiResponse } from '@/types/index';
+
+// GET /api/agent-prompts/versions?agent_name=&prompt_type= - Version history, newest first (Admin only)
+export async function GET(request: NextRequest): Promise<NextResponse<AgentPromptVersionsApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const url = new URL(request.url);
+    const agentName = url.searchParams.get('agent_name');
+    const promptType = url.searchParams.get('prompt_type') || 'system';
+
+    const keyError = validatePromptKey(agentName, promptType);
+    if (keyError) {
+      return NextResponse.json(
+        { success: false, error: keyError },
+        { status: 400 }
+      );
+    }
+
+    const promptManager = new AgentPromptManager();
+    const versions = await promptManager.getAgentPromptVersions(agentName as string, promptType);
+
+    return NextResponse.json({
+      success: true,
+      data: versions
+    });
+  } catch (error) {
+    console.error('Agent Prompt versions GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeRequest } from '@/lib/authorization';
+import { parseScriptAnalysisRequest } from '@/lib/request-validation';
+import { analyzeScript } from '@/lib/script-analysis';
+import { loadUserInstance } from '@/lib/script-deployment';
+import { getInstanceScope } from '@/lib/servicenow-instances';
+import type { ScriptAnalysisApiResponse } from '@/types';
+
+// POST /api/analyze-script - Check a generated ServiceNow script for anti-patterns before it is sent
+export async function POST(request: NextRequest): Promise<NextResponse<ScriptAnalysisApiResponse>> {
+  try {
+    const auth = await authorizeRequest();
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseScriptAnalysisRequest(body || {});
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { script, type, metadata, instance_id } = parsed.request;
+    const instance = await loadUserInstance(auth.user.username, instance_id);
+    if (instance_id && !instance) {
+      return NextResponse.json(
+        { success: false, error: `Unknown ServiceNow instance profile: ${instance_id}` },
+        { status: 400 }
+      );
+    }
+
+    const scope = instance ? getInstanceScope(instance) : undefined;
+    return NextResponse.json({ success: true, data: analyzeScript(script, { type, metadata, scope }) });
+  } catch (error) {
+    console.error('Script analysis API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to analyze script'
+      },
+      { status: 500 }
+    );
+  }
+}
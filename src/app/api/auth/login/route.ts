@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 
-// WARNING: It is strongly recommended to use a secure database with hashed passwords for production environments.
+import { UserManager } from '@/lib/users';
+
 const JWT_SECRET = process.env.JWT_SECRET!;
-const AUTH_USERNAME = process.env.AUTH_USERNAME!;
-const AUTH_PASSWORD = process.env.AUTH_PASSWORD!;
 
 const loginAttempts = new Map<string, { count: number; lastAttempt: number }>();
 const MAX_ATTEMPTS = 5;
@@ -33,20 +32,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!JWT_SECRET || !AUTH_USERNAME || !AUTH_PASSWORD) {
-      console.error('Server configuration error: Missing JWT_SECRET, AUTH_USERNAME, or AUTH_PASSWORD');
+    if (!JWT_SECRET) {
+      console.error('Server configuration error: Missing JWT_SECRET');
       return NextResponse.json(
         { success: false, error: 'Server configuration error' },
         { status: 500 }
       );
     }
 
-    if (username === AUTH_USERNAME && password === AUTH_PASSWORD) {
+    const userManager = new UserManager();
+    await userManager.ensureBootstrapUser();
+
+    const user = await userManager.verifyCredentials(username, password);
+
+    if (user) {
       loginAttempts.delete(ip); // Clear attempts on successful login
 
       const token = jwt.sign(
         { 
-          username,
+          uid: user.id,
+          username: user.username,
+          role: user.role,
           exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60), // 24 hours
         },
         JWT_SECRET
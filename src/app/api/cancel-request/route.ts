@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getServerAuthState } from '@/lib/server-auth';
+import { StreamRegistry } from '@/lib/stream-registry';
+import { ConversationHistory } from '@/lib/database';
 
 export async function POST(request: NextRequest) {
   try {
-    const { isAuthenticated } = await getServerAuthState();
-    if (!isAuthenticated) {
+    const authResult = await getServerAuthState();
+    if (!authResult.isAuthenticated || !authResult.user) {
       return NextResponse.json(
         { success: false, error: 'Unauthorized' },
         { status: 401 }
@@ -29,12 +31,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Note: Streaming cancellation is now handled client-side via StreamingCancellationManager
-    // This endpoint is kept for backwards compatibility and potential server-side cleanup
-    
+    // Tear down the upstream n8n request so the model stops generating
+    const aborted = StreamRegistry.getInstance().cancel(sessionkey, authResult.user.username);
+
+    // Mark the history row as cancelled - a failure here must not hide the abort itself
+    try {
+      const conversationHistory = new ConversationHistory();
+      await conversationHistory.markConversationCancelled(authResult.user.username, sessionkey);
+    } catch (error) {
+      console.error('Failed to mark conversation as cancelled:', error);
+    }
+
     return NextResponse.json({
       success: true,
-      message: 'Request cancelled successfully'
+      message: aborted ? 'Request cancelled successfully' : 'No active request found for session'
     });
   } catch (error) {
     console.error('Cancel request error:', error);
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeRequest } from '@/lib/authorization';
+import { AnswerFeedbackManager } from '@/lib/answer-feedback';
+import { PromptExperimentManager } from '@/lib/prompt-experiments';
+import { parseAnswerFeedback } from '@/lib/request-validation';
+import { AnswerFeedbackApiResponse } from '@/types';
+
+// POST /api/feedback - Rate a knowledge store entry (qa_id) or a generated answer (sessionkey) from 1 to 5
+export async function POST(request: NextRequest): Promise<NextResponse<AnswerFeedbackApiResponse>> {
+  try {
+    const auth = await authorizeRequest();
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseAnswerFeedback(body || {});
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { qa_id, sessionkey, rating, comment } = parsed.feedback;
+    const feedbackManager = new AnswerFeedbackManager();
+
+    if (qa_id !== undefined) {
+      const result = await feedbackManager.rateKnowledgeStoreItem(qa_id, auth.user.username, rating, comment);
+      if (!result) {
+        return NextResponse.json(
+          { success: false, error: 'Knowledge store item not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, data: result });
+    }
+
+    const result = await feedbackManager.rateAnswer(sessionkey as string, auth.user.username, rating, comment);
+
+    // Clear ratings also count towards a running prompt experiment; 3 stars is neither a win nor a loss
+    if (rating !== 3) {
+      const experimentManager = new PromptExperimentManager();
+      await experimentManager.recordFeedback(sessionkey as string, auth.user.username, rating > 3 ? 1 : -1);
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Answer feedback API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save rating'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,8 +7,8 @@ import { HistoryQueryOptions, HistoryApiResponse } from '@/types';
 export async function GET(request: NextRequest) {
   try {
     // Verify authentication
-    const { isAuthenticated } = await getServerAuthState();
-    if (!isAuthenticated) {
+    const authResult = await getServerAuthState();
+    if (!authResult.isAuthenticated || !authResult.user) {
       return NextResponse.json(
         { success: false, error: 'Unauthorized' },
         { status: 401 }
@@ -73,12 +73,12 @@ export async function GET(request: NextRequest) {
     // Initialize database connection
     const conversationHistory = new ConversationHistory();
 
-    // Get conversations
+    // Get the caller's conversations
     let result;
     if (search && search.trim()) {
-      result = await conversationHistory.searchConversations(search.trim(), queryOptions);
+      result = await conversationHistory.searchConversations(authResult.user.username, search.trim(), queryOptions);
     } else {
-      result = await conversationHistory.getConversations(queryOptions);
+      result = await conversationHistory.getConversations(authResult.user.username, queryOptions);
     }
 
     const response: HistoryApiResponse = {
@@ -102,8 +102,8 @@ export async function GET(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     // Verify authentication
-    const { isAuthenticated } = await getServerAuthState();
-    if (!isAuthenticated) {
+    const authResult = await getServerAuthState();
+    if (!authResult.isAuthenticated || !authResult.user) {
       return NextResponse.json(
         { success: false, error: 'Unauthorized' },
         { status: 401 }
@@ -131,8 +131,8 @@ export async function DELETE(request: NextRequest) {
     // Initialize database connection
     const conversationHistory = new ConversationHistory();
 
-    // Delete conversation
-    const deleted = await conversationHistory.deleteConversation(id);
+    // Delete conversation (only if owned by the caller)
+    const deleted = await conversationHistory.deleteConversation(authResult.user.username, id);
 
     if (!deleted) {
       return NextResponse.json(
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { IntegrationQueueManager } from '@/lib/integration-queue';
+import { parseDeploymentTarget, parseSendScriptRequest } from '@/lib/request-validation';
+import { deliverQueuedScript, getScriptAnalysisRestriction, loadUserInstance } from '@/lib/script-deployment';
+import { getPushRestriction } from '@/lib/servicenow-instances';
+import type { IntegrationQueueItemApiResponse } from '@/types/index';
+
+// POST /api/integration-queue/[id]/retry - Deliver a failed deployment again to the same instance, keeping
+// its correlation id
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<IntegrationQueueItemApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+    const itemId = parseInt(id, 10);
+    if (isNaN(itemId) || itemId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid deployment ID' },
+        { status: 400 }
+      );
+    }
+
+    const queue = new IntegrationQueueManager();
+    const existing = await queue.getUserItem(itemId, auth.user.username);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.state !== 'failed') {
+      return NextResponse.json(
+        { success: false, error: `Only failed deployments can be retried (this one is ${existing.state})` },
+        { status: 409 }
+      );
+    }
+
+    // The artifact registry may have changed since the script was queued
+    const parsed = parseSendScriptRequest({
+      payload: existing.payload,
+      type: existing.type,
+      target_table: existing.target_table,
+      metadata: existing.metadata
+    });
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    // The body is optional; it only carries confirm_production
+    const body = await request.json().catch(() => ({}));
+    const parsedTarget = parseDeploymentTarget(body ?? {});
+    if ('error' in parsedTarget) {
+      return NextResponse.json(
+        { success: false, error: parsedTarget.error },
+        { status: 400 }
+      );
+    }
+
+    // Deployments queued before instance profiles existed go to the active instance
+    const instance = await loadUserInstance(auth.user.username, existing.instance_id ?? undefined);
+    if (existing.instance_id && !instance) {
+      return NextResponse.json(
+        { success: false, error: `The instance profile this script was sent to (${existing.instance_id}) no longer exists` },
+        { status: 409 }
+      );
+    }
+
+    const restriction = instance && getPushRestriction(instance, parsedTarget.target.confirm_production);
+    if (restriction) {
+      return NextResponse.json(
+        { success: false, error: restriction.error },
+        { status: restriction.status }
+      );
+    }
+
+    // The user may have turned on blocking, or the profile's scope changed, since the script was queued
+    const unsafe = await getScriptAnalysisRestriction(parsed.request, auth.user.username, instance);
+    if (unsafe) {
+      return NextResponse.json(
+        { success: false, error: unsafe.error, findings: unsafe.findings },
+        { status: 422 }
+      );
+    }
+
+    const item = await queue.resetForRetry(itemId, auth.user.username);
+    if (!item) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment is already being retried' },
+        { status: 409 }
+      );
+    }
+
+    const outcome = await deliverQueuedScript(item, parsed.request, auth.user.username, instance);
+
+    return NextResponse.json(
+      outcome.error
+        ? { success: false, error: outcome.error, data: outcome.item }
+        : { success: true, data: outcome.item },
+      { status: outcome.status === 201 ? 200 : outcome.status }
+    );
+  } catch (error) {
+    console.error('Error retrying deployment:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to retry deployment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeRequest } from '@/lib/authorization';
+import { IntegrationQueueManager } from '@/lib/integration-queue';
+import type { IntegrationQueueItemApiResponse } from '@/types/index';
+
+// GET /api/integration-queue/[id] - One of the current user's deployments, polled for its live state
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<IntegrationQueueItemApiResponse>> {
+  try {
+    const auth = await authorizeRequest();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+    const itemId = parseInt(id, 10);
+    if (isNaN(itemId) || itemId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid deployment ID' },
+        { status: 400 }
+      );
+    }
+
+    const item = await new IntegrationQueueManager().getUserItem(itemId, auth.user.username);
+    if (!item) {
+      return NextResponse.json(
+        { success: false, error: 'Deployment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: item });
+  } catch (error) {
+    console.error('Error fetching deployment:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch deployment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeRequest } from '@/lib/authorization';
+import { IntegrationQueueManager } from '@/lib/integration-queue';
+import type { IntegrationQueueApiResponse, IntegrationQueueState } from '@/types/index';
+
+const QUEUE_STATES: IntegrationQueueState[] = ['new', 'processing', 'completed', 'failed'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET /api/integration-queue - The current user's Send Script deployments, newest first
+export async function GET(request: NextRequest): Promise<NextResponse<IntegrationQueueApiResponse>> {
+  try {
+    const auth = await authorizeRequest();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const url = new URL(request.url);
+    const state = url.searchParams.get('state');
+    if (state && !QUEUE_STATES.includes(state as IntegrationQueueState)) {
+      return NextResponse.json(
+        { success: false, error: `state must be one of: ${QUEUE_STATES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const items = await new IntegrationQueueManager().getUserItems(
+      auth.user.username,
+      (state as IntegrationQueueState) || undefined,
+      limit
+    );
+
+    return NextResponse.json({ success: true, data: items });
+  } catch (error) {
+    console.error('Error fetching integration queue:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch deployments' },
+      { status: 500 }
+    );
+  }
+}
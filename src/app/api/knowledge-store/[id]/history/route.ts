@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { KnowledgeStoreManager } from '@/lib/knowledge-store';
+import type { KnowledgeStoreHistoryApiResponse } from '@/types';
+
+// GET /api/knowledge-store/[id]/history - Previous versions of an edited entry, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<KnowledgeStoreHistoryApiResponse>> {
+  try {
+    const { isAuthenticated } = await getServerAuthState();
+    if (!isAuthenticated) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID parameter' },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeStore = new KnowledgeStoreManager();
+    const history = await knowledgeStore.getItemHistory(id);
+
+    return NextResponse.json({
+      success: true,
+      data: history
+    });
+
+  } catch (error) {
+    console.error('Knowledge store history API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch edit history'
+      },
+      { status: 500 }
+    );
+  }
+}
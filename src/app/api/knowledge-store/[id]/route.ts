@@ -1,18 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getServerAuthState } from '@/lib/server-auth';
+import { requireAdmin } from '@/lib/authorization';
+import { KnowledgeStoreEditConflictError, KnowledgeStoreManager } from '@/lib/knowledge-store';
 import { N8NClient } from '@/lib/n8n-client';
+import { parseKnowledgeStoreItem } from '@/lib/request-validation';
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { isAuthenticated } = await getServerAuthState();
-    if (!isAuthenticated) {
+    const auth = await requireAdmin();
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -106,4 +109,93 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID parameter' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseKnowledgeStoreItem(body || {});
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeStore = new KnowledgeStoreManager();
+    const existing = await knowledgeStore.getItemById(id);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Knowledge store item not found' },
+        { status: 404 }
+      );
+    }
+
+    // Similarity search runs on the embeddings, so they must follow the text they describe.
+    // updateItem checks the stored text again under a row lock before writing them
+    const n8nClient = N8NClient.getInstance();
+    const embeddings: { question?: number[]; answer?: number[] } = {};
+    for (const field of ['question', 'answer'] as const) {
+      if (parsed.item[field] === existing[field]) continue;
+
+      const embedding = await n8nClient.generateEmbedding(parsed.item[field]);
+      if (!embedding) {
+        return NextResponse.json(
+          { success: false, error: `Could not generate an embedding for the new ${field}; the entry was not changed` },
+          { status: 502 }
+        );
+      }
+      embeddings[field] = embedding;
+    }
+
+    const updated = await knowledgeStore.updateItem(id, parsed.item, embeddings, auth.user.username);
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: 'Knowledge store item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updated
+    });
+
+  } catch (error) {
+    if (error instanceof KnowledgeStoreEditConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Knowledge store update API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update knowledge store item'
+      },
+      { status: 500 }
+    );
+  }
+}
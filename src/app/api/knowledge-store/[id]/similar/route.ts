@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { KnowledgeStoreManager } from '@/lib/knowledge-store';
+import type { KnowledgeStoreSimilarApiResponse } from '@/types';
+
+// GET /api/knowledge-store/[id]/similar - Semantically similar questions by embedding cosine distance
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<KnowledgeStoreSimilarApiResponse>> {
+  try {
+    const { isAuthenticated } = await getServerAuthState();
+    if (!isAuthenticated) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID parameter' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '5');
+    const threshold = parseFloat(searchParams.get('threshold') || '0.7');
+
+    if (isNaN(limit) || isNaN(threshold) || threshold < 0 || threshold > 1) {
+      return NextResponse.json(
+        { success: false, error: 'limit must be a number and threshold between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeStore = new KnowledgeStoreManager();
+    const similar = await knowledgeStore.findSimilarToItem(id, { limit, threshold });
+
+    if (similar === null) {
+      return NextResponse.json(
+        { success: false, error: 'Knowledge store item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: similar
+    });
+
+  } catch (error) {
+    console.error('Knowledge store similar questions API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to find similar questions'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { KnowledgeStoreManager } from '@/lib/knowledge-store';
+
+// POST /api/knowledge-store/[id]/use - Open a stored answer in place of a new request; counts towards usage_count
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { isAuthenticated } = await getServerAuthState();
+    if (!isAuthenticated) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID parameter' },
+        { status: 400 }
+      );
+    }
+
+    const knowledgeStore = new KnowledgeStoreManager();
+    const item = await knowledgeStore.incrementUsageCount(id);
+
+    if (!item) {
+      return NextResponse.json(
+        { success: false, error: 'Knowledge store item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: item
+    });
+
+  } catch (error) {
+    console.error('Knowledge store use API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to open knowledge store item'
+      },
+      { status: 500 }
+    );
+  }
+}
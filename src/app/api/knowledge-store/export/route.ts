@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { KnowledgeStoreManager } from '@/lib/knowledge-store';
+import {
+  EXPORT_FILE_TYPES,
+  buildMarkdownBundle,
+  serializeCsv,
+  serializeJsonl
+} from '@/lib/knowledge-store-transfer';
+import { KnowledgeStoreExportFormat } from '@/types';
+
+// GET /api/knowledge-store/export - Download the knowledge store as JSONL, CSV or zipped Markdown
+export async function GET(request: NextRequest) {
+  try {
+    const { isAuthenticated } = await getServerAuthState();
+    if (!isAuthenticated) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'jsonl') as KnowledgeStoreExportFormat;
+    if (!Object.hasOwn(EXPORT_FILE_TYPES, format)) {
+      return NextResponse.json(
+        { success: false, error: 'format must be one of jsonl, csv or markdown' },
+        { status: 400 }
+      );
+    }
+    const includeEmbeddings = searchParams.get('include_embeddings') === 'true';
+    const category = searchParams.get('category') || '';
+
+    const knowledgeStore = new KnowledgeStoreManager();
+    const items = await knowledgeStore.getAllItems({ category, includeEmbeddings });
+
+    const body = format === 'markdown'
+      ? buildMarkdownBundle(items, includeEmbeddings)
+      : format === 'csv'
+        ? serializeCsv(items, includeEmbeddings)
+        : serializeJsonl(items, includeEmbeddings);
+
+    const { extension, contentType } = EXPORT_FILE_TYPES[format];
+    const filename = `knowledge-store-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Knowledge store export API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export knowledge store'
+      },
+      { status: 500 }
+    );
+  }
+}
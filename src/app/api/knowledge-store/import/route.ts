@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { KnowledgeStoreManager } from '@/lib/knowledge-store';
+import { N8NClient } from '@/lib/n8n-client';
+import { parseImportFile, runKnowledgeStoreImport } from '@/lib/knowledge-store-transfer';
+
+const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+// POST /api/knowledge-store/import - Import a JSONL, CSV or zipped Markdown file (multipart field "file");
+// with dry_run=true rows are only validated and checked for duplicates
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin();
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing import file' },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'Import files may be at most 10 MB' },
+        { status: 413 }
+      );
+    }
+
+    const parsed = parseImportFile(file.name, new Uint8Array(await file.arrayBuffer()));
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const dryRun = formData.get('dry_run') === 'true';
+    const knowledgeStore = new KnowledgeStoreManager();
+    const n8nClient = N8NClient.getInstance();
+
+    const report = await runKnowledgeStoreImport(parsed.format, parsed.rows, dryRun, {
+      findSimilar: (embedding, options) => knowledgeStore.findSimilar(embedding, options),
+      createItem: (item, embeddings) => knowledgeStore.createItem(item, embeddings),
+      generateEmbedding: text => n8nClient.generateEmbedding(text)
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Knowledge store import API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import knowledge store items'
+      },
+      { status: 500 }
+    );
+  }
+}
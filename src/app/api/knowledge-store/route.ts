@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getServerAuthState } from '@/lib/server-auth';
+import { requireAdmin } from '@/lib/authorization';
+import { KnowledgeStoreManager } from '@/lib/knowledge-store';
 import { N8NClient } from '@/lib/n8n-client';
 import { KnowledgeStoreQueryResult } from '@/types';
 
@@ -20,61 +22,14 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get('search') || '';
     const category = searchParams.get('category') || '';
 
-    const n8nClient = N8NClient.getInstance();
-
-    // ARCHITECTURAL LIMITATION: N8N API does not support server-side filtering with pagination
-    // We must fetch all items when filtering, then apply pagination client-side
-    // This is acceptable for moderately-sized knowledge stores (<10k items)
-    // For larger datasets, consider implementing server-side filtering in N8N workflows
-
-    let allItems;
-
-    if (search || category) {
-      // When filtering: fetch all items (up to 1000) to apply filters client-side
-      // This ensures accurate pagination and "hasMore" calculation
-      allItems = await n8nClient.getAllQAPairs(1000, 0);
-    } else {
-      // When not filtering: fetch only what we need plus some extra to check if there's more
-      // This optimizes performance for non-filtered queries
-      allItems = await n8nClient.getAllQAPairs(limit + 20, offset);
-    }
-
-    // Apply client-side filtering
-    let filteredItems = allItems;
-
-    if (search) {
-      const searchLower = search.toLowerCase();
-      filteredItems = filteredItems.filter(item =>
-        item.question.toLowerCase().includes(searchLower) ||
-        item.answer.toLowerCase().includes(searchLower)
-      );
-    }
-
-    if (category && category !== 'all') {
-      filteredItems = filteredItems.filter(item =>
-        item.category === category
-      );
-    }
-
-    // Apply pagination AFTER filtering (critical for correct results)
-    // When filtering: offset and limit apply to filtered results
-    // When not filtering: offset was already applied in the N8N fetch, so start from 0
-    const startIndex = (search || category) ? offset : 0;
-    const paginatedItems = filteredItems.slice(startIndex, startIndex + limit);
-    const hasMore = filteredItems.length > startIndex + limit;
-
-    // Convert string dates to Date objects
-    const itemsWithDates = paginatedItems.map(item => ({
-      ...item,
-      created_at: new Date(item.created_at),
-      updated_at: new Date(item.updated_at)
-    }));
-
-    const result: KnowledgeStoreQueryResult = {
-      items: itemsWithDates,
-      total: filteredItems.length,
-      hasMore
-    };
+    // Filtering, search and pagination run in Postgres; the manager clamps limit and offset
+    const knowledgeStore = new KnowledgeStoreManager();
+    const result: KnowledgeStoreQueryResult = await knowledgeStore.getItems({
+      limit: isNaN(limit) ? undefined : limit,
+      offset: isNaN(offset) ? undefined : offset,
+      search: search.trim(),
+      category
+    });
 
     return NextResponse.json({
       success: true,
@@ -95,11 +50,11 @@ export async function GET(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const { isAuthenticated } = await getServerAuthState();
-    if (!isAuthenticated) {
+    const auth = await requireAdmin();
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
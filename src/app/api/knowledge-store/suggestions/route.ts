@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { KnowledgeStoreManager } from '@/lib/knowledge-store';
+import { N8NClient } from '@/lib/n8n-client';
+import type { KnowledgeStoreSimilarApiResponse } from '@/types';
+
+const MAX_QUESTION_LENGTH = 2000;
+const SUGGESTION_LIMIT = 3;
+const SUGGESTION_THRESHOLD = 0.8;
+
+// POST /api/knowledge-store/suggestions - Stored answers to questions like the one being typed
+export async function POST(request: NextRequest): Promise<NextResponse<KnowledgeStoreSimilarApiResponse>> {
+  try {
+    const { isAuthenticated } = await getServerAuthState();
+    if (!isAuthenticated) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const question = typeof body?.question === 'string' ? body.question.trim() : '';
+
+    if (!question) {
+      return NextResponse.json(
+        { success: false, error: 'question is required' },
+        { status: 400 }
+      );
+    }
+
+    // The embedding only needs the gist of the question; long pastes are cut to keep it cheap
+    const embedding = await N8NClient.getInstance().generateEmbedding(question.slice(0, MAX_QUESTION_LENGTH));
+    if (!embedding) {
+      return NextResponse.json(
+        { success: false, error: 'Embedding service unavailable' },
+        { status: 502 }
+      );
+    }
+
+    const knowledgeStore = new KnowledgeStoreManager();
+    const suggestions = await knowledgeStore.findSimilar(embedding, {
+      limit: SUGGESTION_LIMIT,
+      threshold: SUGGESTION_THRESHOLD
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: suggestions
+    });
+
+  } catch (error) {
+    console.error('Knowledge store suggestions API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to find suggestions'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { requireAdmin } from '@/lib/authorization';
+import { ModelPriceManager } from '@/lib/ai-models';
+import type { ModelPricesApiResponse, ModelPriceApiResponse, ModelPriceInput } from '@/types/index';
+
+const isValidPrice = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= 0;
+
+// GET /api/model-prices - List per-model token prices
+export async function GET(): Promise<NextResponse<ModelPricesApiResponse>> {
+  try {
+    const authResult = await getServerAuthState();
+
+    if (!authResult.isAuthenticated || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const priceManager = new ModelPriceManager();
+    const prices = await priceManager.getAllPrices();
+
+    return NextResponse.json({
+      success: true,
+      data: prices
+    });
+  } catch (error) {
+    console.error('Model prices GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/model-prices - Create or update the price for a model (Admin only)
+export async function PUT(request: NextRequest): Promise<NextResponse<ModelPriceApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.model_name || typeof body.model_name !== 'string' || !body.model_name.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'model_name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidPrice(body.input_price_per_million) || !isValidPrice(body.output_price_per_million)) {
+      return NextResponse.json(
+        { success: false, error: 'input_price_per_million and output_price_per_million must be non-negative numbers' },
+        { status: 400 }
+      );
+    }
+
+    const priceInput: ModelPriceInput = {
+      model_name: body.model_name.trim(),
+      input_price_per_million: body.input_price_per_million,
+      output_price_per_million: body.output_price_per_million
+    };
+
+    const priceManager = new ModelPriceManager();
+    const price = await priceManager.upsertPrice(priceInput);
+
+    return NextResponse.json({
+      success: true,
+      data: price
+    });
+  } catch (error) {
+    console.error('Model prices PUT error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/model-prices?model_name=... - Remove the price for a model (Admin only)
+export async function DELETE(request: NextRequest): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const url = new URL(request.url);
+    const modelName = url.searchParams.get('model_name');
+
+    if (!modelName) {
+      return NextResponse.json(
+        { success: false, error: 'model_name parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const priceManager = new ModelPriceManager();
+    const deleted = await priceManager.deletePrice(modelName);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Price not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Model prices DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { PromptExperimentManager } from '@/lib/prompt-experiments';
+import type { PromptExperimentApiResponse } from '@/types/index';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const parseExperimentId = async (params: RouteContext['params']): Promise<number | null> => {
+  const id = parseInt((await params).id);
+  return isNaN(id) || id <= 0 ? null : id;
+};
+
+// PATCH /api/prompt-experiments/[id] - Start or stop an experiment (Admin only)
+export async function PATCH(request: NextRequest, context: RouteContext): Promise<NextResponse<PromptExperimentApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const experimentId = await parseExperimentId(context.params);
+    if (experimentId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid experiment ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const status = body?.status;
+
+    if (status !== 'running' && status !== 'stopped') {
+      return NextResponse.json(
+        { success: false, error: "status must be 'running' or 'stopped'" },
+        { status: 400 }
+      );
+    }
+
+    const experimentManager = new PromptExperimentManager();
+
+    try {
+      const updated = await experimentManager.setStatus(experimentId, status);
+      if (!updated) {
+        return NextResponse.json(
+          { success: false, error: status === 'stopped' ? 'Experiment not found or not running' : 'Experiment not found' },
+          { status: 404 }
+        );
+      }
+    } catch (error) {
+      // Handle unique constraint violation
+      if (error instanceof Error && error.message.includes('unique constraint')) {
+        return NextResponse.json(
+          { success: false, error: 'Another experiment for this agent prompt is already running' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const experiment = await experimentManager.getExperimentById(experimentId);
+
+    return NextResponse.json({
+      success: true,
+      data: experiment || undefined
+    });
+  } catch (error) {
+    console.error('Prompt Experiments PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/prompt-experiments/[id] - Delete an experiment and its results (Admin only)
+export async function DELETE(_request: NextRequest, context: RouteContext): Promise<NextResponse<{ success: boolean; error?: string }>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const experimentId = await parseExperimentId(context.params);
+    if (experimentId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid experiment ID' },
+        { status: 400 }
+      );
+    }
+
+    const experimentManager = new PromptExperimentManager();
+    const deleted = await experimentManager.deleteExperiment(experimentId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Experiment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Prompt Experiments DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
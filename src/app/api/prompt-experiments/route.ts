@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { PromptExperimentManager, isWorkflowPrompt } from '@/lib/prompt-experiments';
+import { validatePromptKey } from '@/lib/request-validation';
+import type { PromptExperimentApiResponse, PromptExperimentInput, PromptExperimentsApiResponse } from '@/types/index';
+
+const MAX_VARIANTS = 4;
+
+// GET /api/prompt-experiments?agent_name= - Experiments with per-variant win rates (Admin only)
+export async function GET(request: NextRequest): Promise<NextResponse<PromptExperimentsApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const agentName = new URL(request.url).searchParams.get('agent_name') || undefined;
+
+    const experimentManager = new PromptExperimentManager();
+    const experiments = await experimentManager.getExperiments({ agentName });
+
+    return NextResponse.json({
+      success: true,
+      data: experiments
+    });
+  } catch (error) {
+    console.error('Prompt Experiments GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/prompt-experiments - Create a draft experiment (Admin only)
+export async function POST(request: NextRequest): Promise<NextResponse<PromptExperimentApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const { name, agent_name, prompt_type = 'system', variants } = body;
+
+    if (typeof name !== 'string' || name.trim() === '' || name.length > 200) {
+      return NextResponse.json(
+        { success: false, error: 'name is required (max 200 characters)' },
+        { status: 400 }
+      );
+    }
+
+    const keyError = validatePromptKey(agent_name, prompt_type);
+    if (keyError) {
+      return NextResponse.json(
+        { success: false, error: keyError },
+        { status: 400 }
+      );
+    }
+
+    // Variants of a prompt the workflow never reads would all produce the same answers
+    if (!isWorkflowPrompt(agent_name, prompt_type)) {
+      return NextResponse.json(
+        { success: false, error: `The n8n workflow does not use the ${prompt_type} prompt of ${agent_name}; experiments can only test the system prompt of an agent listed in the prompt editor` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(variants) || variants.length < 2 || variants.length > MAX_VARIANTS) {
+      return NextResponse.json(
+        { success: false, error: `An experiment needs between 2 and ${MAX_VARIANTS} variants` },
+        { status: 400 }
+      );
+    }
+
+    const input: PromptExperimentInput = {
+      name: name.trim(),
+      agent_name,
+      prompt_type,
+      variants: []
+    };
+
+    for (const variant of variants) {
+      const label = typeof variant?.label === 'string' ? variant.label.trim() : '';
+      if (!label || label.length > 50) {
+        return NextResponse.json(
+          { success: false, error: 'Each variant needs a label (max 50 characters)' },
+          { status: 400 }
+        );
+      }
+      if (typeof variant.prompt_content !== 'string' || variant.prompt_content.trim() === '') {
+        return NextResponse.json(
+          { success: false, error: `Variant ${label} needs prompt_content` },
+          { status: 400 }
+        );
+      }
+      if (typeof variant.weight !== 'number' || !Number.isInteger(variant.weight) || variant.weight <= 0) {
+        return NextResponse.json(
+          { success: false, error: `Variant ${label} needs a positive integer weight` },
+          { status: 400 }
+        );
+      }
+      if (input.variants.some(existing => existing.label === label)) {
+        return NextResponse.json(
+          { success: false, error: 'Variant labels must be unique' },
+          { status: 400 }
+        );
+      }
+      input.variants.push({ label, prompt_content: variant.prompt_content, weight: variant.weight });
+    }
+
+    const experimentManager = new PromptExperimentManager();
+    const experimentId = await experimentManager.createExperiment(input, auth.user.username);
+    const experiment = await experimentManager.getExperimentById(experimentId);
+
+    return NextResponse.json({
+      success: true,
+      data: experiment || undefined
+    });
+  } catch (error) {
+    console.error('Prompt Experiments POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { ProviderManager } from '@/lib/providers';
+import type { ProviderApiResponse, ProviderDeleteApiResponse, ProviderInput } from '@/types/index';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Columns an update may touch - keys are interpolated into the UPDATE statement
+const UPDATABLE_FIELDS = ['name', 'display_name', 'endpoint', 'is_active', 'priority', 'rate_limit_per_minute'] as const;
+
+const parseProviderId = async (params: RouteContext['params']): Promise<number | null> => {
+  const id = parseInt((await params).id);
+  return isNaN(id) || id <= 0 ? null : id;
+};
+
+/**
+ * Validate provider fields. With requireAll (PUT) name, display_name and endpoint must be present.
+ * Returns the updates to apply or an error message.
+ */
+const parseProviderUpdates = (
+  body: Record<string, unknown>,
+  requireAll: boolean
+): { updates: Partial<ProviderInput> } | { error: string } => {
+  const updates: Partial<ProviderInput> = {};
+
+  for (const field of ['name', 'display_name', 'endpoint'] as const) {
+    const value = body[field];
+    if (value === undefined) {
+      if (requireAll) return { error: `${field} is required` };
+      continue;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      return { error: `${field} must be a non-empty string` };
+    }
+    updates[field] = value.trim();
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') return { error: 'is_active must be a boolean' };
+    updates.is_active = body.is_active;
+  }
+
+  if (body.priority !== undefined) {
+    if (typeof body.priority !== 'number' || !Number.isInteger(body.priority)) {
+      return { error: 'priority must be an integer' };
+    }
+    updates.priority = body.priority;
+  }
+
+  if (body.rate_limit_per_minute !== undefined) {
+    const limit = body.rate_limit_per_minute;
+    if (limit !== null && (typeof limit !== 'number' || !Number.isInteger(limit) || limit <= 0)) {
+      return { error: 'rate_limit_per_minute must be a positive integer or null' };
+    }
+    updates.rate_limit_per_minute = limit;
+  }
+
+  const hasUpdates = UPDATABLE_FIELDS.some(field => field in updates);
+  if (!hasUpdates) {
+    return { error: `Nothing to update - provide ${UPDATABLE_FIELDS.join(', ')}` };
+  }
+
+  return { updates };
+};
+
+const updateProvider = async (
+  request: NextRequest,
+  context: RouteContext,
+  requireAll: boolean
+): Promise<NextResponse<ProviderApiResponse>> => {
+  const auth = await requireAdmin();
+
+  if (!auth.authorized) {
+    return NextResponse.json(
+      { success: false, error: auth.error },
+      { status: auth.status }
+    );
+  }
+
+  const providerId = await parseProviderId(context.params);
+  if (providerId === null) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid provider ID' },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json();
+
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseProviderUpdates(body, requireAll);
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { success: false, error: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const providerManager = new ProviderManager();
+    const provider = await providerManager.updateProvider(providerId, parsed.updates);
+
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: 'Provider not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: provider
+    });
+  } catch (error) {
+    // Handle unique constraint violation
+    if (error instanceof Error && error.message.includes('unique constraint')) {
+      return NextResponse.json(
+        { success: false, error: 'Provider with this name already exists' },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
+};
+
+// PUT /api/providers/[id] - Replace a provider's configuration (Admin only)
+export async function PUT(request: NextRequest, context: RouteContext): Promise<NextResponse<ProviderApiResponse>> {
+  try {
+    return await updateProvider(request, context, true);
+  } catch (error) {
+    console.error('Providers PUT error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/providers/[id] - Update some provider fields (Admin only)
+export async function PATCH(request: NextRequest, context: RouteContext): Promise<NextResponse<ProviderApiResponse>> {
+  try {
+    return await updateProvider(request, context, false);
+  } catch (error) {
+    console.error('Providers PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/providers/[id]?reassign_to=<id> - Delete a provider (Admin only)
+// Refused with 409 while AI models still reference it, unless they are moved to reassign_to first
+export async function DELETE(request: NextRequest, context: RouteContext): Promise<NextResponse<ProviderDeleteApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const providerId = await parseProviderId(context.params);
+    if (providerId === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid provider ID' },
+        { status: 400 }
+      );
+    }
+
+    const providerManager = new ProviderManager();
+    const provider = await providerManager.getProviderById(providerId);
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: 'Provider not found' },
+        { status: 404 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const reassignParam = url.searchParams.get('reassign_to');
+    let reassignTo: number | undefined;
+
+    if (reassignParam) {
+      reassignTo = parseInt(reassignParam);
+      const target = isNaN(reassignTo) || reassignTo === providerId ? null : await providerManager.getProviderById(reassignTo);
+      if (!target) {
+        return NextResponse.json(
+          { success: false, error: 'reassign_to must be the ID of another provider' },
+          { status: 400 }
+        );
+      }
+    } else {
+      const modelCount = await providerManager.getProviderModelCount(providerId);
+      if (modelCount > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `${provider.display_name} is used by ${modelCount} AI ${modelCount === 1 ? 'model' : 'models'}. Move them to another provider first.`,
+            model_count: modelCount
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const deleted = await providerManager.deleteProvider(providerId, reassignTo);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Provider not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Providers DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
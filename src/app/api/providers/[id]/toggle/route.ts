@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { ProviderManager } from '@/lib/providers';
+import type { ProviderApiResponse } from '@/types/index';
+
+// POST /api/providers/[id]/toggle - Activate or deactivate a provider (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ProviderApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const resolvedParams = await params;
+    const providerId = parseInt(resolvedParams.id);
+
+    if (isNaN(providerId) || providerId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid provider ID' },
+        { status: 400 }
+      );
+    }
+
+    const providerManager = new ProviderManager();
+    const provider = await providerManager.toggleProviderStatus(providerId);
+
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: 'Provider not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: provider
+    });
+  } catch (error) {
+    console.error('Providers toggle error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeRequest, hasRole } from '@/lib/authorization';
+import { ProviderManager } from '@/lib/providers';
+import { ProviderHealthMonitor } from '@/lib/provider-health';
+import type { ProviderHealthApiResponse } from '@/types/index';
+
+// GET /api/providers/health - Health of the active providers (refresh=true probes them now, Admin only)
+// Background polling starts with the server in src/instrumentation.ts
+export async function GET(request: NextRequest): Promise<NextResponse<ProviderHealthApiResponse>> {
+  try {
+    const auth = await authorizeRequest();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const url = new URL(request.url);
+    const refresh = url.searchParams.get('refresh') === 'true';
+    const isAdmin = hasRole(auth.user, 'admin');
+
+    // Every refresh sends a request to each provider endpoint
+    if (refresh && !isAdmin) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden - admin privileges required' },
+        { status: 403 }
+      );
+    }
+
+    const providerManager = new ProviderManager();
+    const providers = await providerManager.getActiveProviders();
+
+    const monitor = ProviderHealthMonitor.getInstance();
+    if (refresh || monitor.isStale(providers)) {
+      await monitor.probeAll(providers);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: providers.map(provider => monitor.getHealth(provider)),
+      can_refresh: isAdmin
+    }, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      }
+    });
+  } catch (error) {
+    console.error('Provider health GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getServerAuthState } from '@/lib/server-auth';
+import { requireAdmin } from '@/lib/authorization';
 import { ProviderManager } from '@/lib/providers';
-import type { ProvidersApiResponse, ProviderApiResponse } from '@/types/index';
+import type { ProvidersApiResponse, ProviderApiResponse, ProviderInput } from '@/types/index';
 
-// GET /api/providers - Get active providers
-export async function GET(): Promise<NextResponse<ProvidersApiResponse>> {
+// GET /api/providers - Get active providers (?include_inactive=true lists all of them, Admin only)
+export async function GET(request: NextRequest): Promise<NextResponse<ProvidersApiResponse>> {
   try {
+    const includeInactive = new URL(request.url).searchParams.get('include_inactive') === 'true';
+
+    if (includeInactive) {
+      const auth = await requireAdmin();
+
+      if (!auth.authorized) {
+        return NextResponse.json(
+          { success: false, error: auth.error },
+          { status: auth.status }
+        );
+      }
+
+      const providerManager = new ProviderManager();
+      const providers = await providerManager.getAllProviders();
+
+      return NextResponse.json({
+        success: true,
+        data: providers
+      }, {
+        headers: {
+          // The management screen must see its own edits straight away
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        }
+      });
+    }
+
     const authResult = await getServerAuthState();
 
     if (!authResult.isAuthenticated || !authResult.user) {
@@ -48,26 +75,18 @@ export async function GET(): Promise<NextResponse<ProvidersApiResponse>> {
   }
 }
 
-// POST /api/providers - Add new provider (Admin only - future enhancement)
+// POST /api/providers - Add new provider (Admin only)
 export async function POST(request: NextRequest): Promise<NextResponse<ProviderApiResponse>> {
   try {
-    const authResult = await getServerAuthState();
+    const auth = await requireAdmin();
 
-    if (!authResult.isAuthenticated || !authResult.user) {
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
-    // For now, return method not allowed - this would be admin-only in future
-    return NextResponse.json(
-      { success: false, error: 'Method not allowed - provider management requires admin privileges' },
-      { status: 405 }
-    );
-
-    // Future implementation for admin users:
-    /*
     const body = await request.json();
 
     if (!body || typeof body !== 'object') {
@@ -115,7 +134,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<ProviderA
       success: true,
       data: provider
     });
-    */
   } catch (error) {
     console.error('Providers POST error:', error);
 
@@ -1,72 +1,78 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getServerAuthState } from '@/lib/server-auth';
-import N8NClient from '@/lib/n8n-client';
+import { requireAdmin } from '@/lib/authorization';
+import { IntegrationQueueManager } from '@/lib/integration-queue';
+import { parseDeploymentTarget, parseSendScriptRequest } from '@/lib/request-validation';
+import { deliverQueuedScript, getScriptAnalysisRestriction, loadUserInstance } from '@/lib/script-deployment';
+import { getPushRestriction } from '@/lib/servicenow-instances';
+import type { SendScriptApiResponse } from '@/types/index';
 
-interface SendScriptRequest {
-  payload: string;
-  type: 'business_rule' | 'script_include' | 'client_script';
-  target_table: 'sys_script' | 'sys_script_include' | 'sys_script_client';
-}
-
-export async function POST(request: NextRequest) {
+// POST /api/send-script - Queue a script for the user and create or update its ServiceNow record on the
+// selected instance profile, directly or via the n8n workflow
+export async function POST(request: NextRequest): Promise<NextResponse<SendScriptApiResponse>> {
   try {
-    const { isAuthenticated } = await getServerAuthState();
-    if (!isAuthenticated) {
+    const auth = await requireAdmin();
+    if (!auth.authorized) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
-    const body: SendScriptRequest = await request.json();
-
-    // Validate request body
-    if (!body.payload || !body.type || !body.target_table) {
-      console.error('Missing required fields:', body);
+    const body = await request.json();
+    const parsed = parseSendScriptRequest(body);
+    if ('error' in parsed) {
       return NextResponse.json(
-        { success: false, error: 'Missing required fields: payload, type, and target_table' },
+        { success: false, error: parsed.error },
         { status: 400 }
       );
     }
 
-    // Validate script type and target table combination
-    const validCombinations = {
-      'business_rule': 'sys_script',
-      'script_include': 'sys_script_include',
-      'client_script': 'sys_script_client'
-    } as const;
+    const parsedTarget = parseDeploymentTarget(body);
+    if ('error' in parsedTarget) {
+      return NextResponse.json(
+        { success: false, error: parsedTarget.error },
+        { status: 400 }
+      );
+    }
+    const { target } = parsedTarget;
 
-    if (validCombinations[body.type] !== body.target_table) {
+    const instance = await loadUserInstance(auth.user.username, target.instance_id);
+    if (target.instance_id && !instance) {
       return NextResponse.json(
-        { success: false, error: 'Invalid type and target_table combination' },
+        { success: false, error: `Unknown ServiceNow instance profile: ${target.instance_id}` },
         { status: 400 }
       );
     }
 
-    console.log('Sending script to ServiceNow via N8N client');
-    
-    // Use N8NClient to send the script
-    const n8nClient = N8NClient.getInstance();
-    const result = await n8nClient.createTask({
-      payload: body.payload.trim(),
-      type: body.type,
-      target_table: body.target_table
-    });
+    const restriction = instance && getPushRestriction(instance, target.confirm_production);
+    if (restriction) {
+      return NextResponse.json(
+        { success: false, error: restriction.error },
+        { status: restriction.status }
+      );
+    }
 
-    if (result.success) {
-      console.log('Script sent to ServiceNow successfully');
-      return NextResponse.json({
-        success: true
-      }, { status: 201 });
-    } else {
-      console.error('Failed to send script via N8N:', result.error);
+    // Users who opt in never push a script the analyzer reports errors for; nothing is queued
+    const unsafe = await getScriptAnalysisRestriction(parsed.request, auth.user.username, instance);
+    if (unsafe) {
       return NextResponse.json(
-        { success: false, error: result.error || 'Failed to send script to ServiceNow' },
-        { status: 500 }
+        { success: false, error: unsafe.error, findings: unsafe.findings },
+        { status: 422 }
       );
     }
 
+    const item = await new IntegrationQueueManager().enqueue(parsed.request, auth.user.username, instance);
+    const outcome = await deliverQueuedScript(item, parsed.request, auth.user.username, instance);
+
+    // The queued item is returned either way so the caller can show its correlation id and state
+    return NextResponse.json(
+      outcome.error
+        ? { success: false, error: outcome.error, data: outcome.item }
+        : { success: true, data: outcome.item },
+      { status: outcome.status }
+    );
+
   } catch (error) {
     console.error('API Error:', error);
     
@@ -78,4 +84,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 
 import { getServerAuthState } from '@/lib/server-auth';
 import { UserSettingsManager, AgentModelManager } from '@/lib/database';
+import { validateInstanceProfiles } from '@/lib/servicenow-instances';
+import { validateCredentialsReference } from '@/lib/servicenow-client';
 import type { UserSettings, SettingsApiResponse } from '@/types/index';
 
 export async function GET(): Promise<NextResponse<SettingsApiResponse>> {
@@ -64,7 +66,7 @@ export async function PUT(request: NextRequest): Promise<NextResponse<SettingsAp
     const agentModelManager = new AgentModelManager();
     
     // Validate the settings object structure
-    const validKeys = ['welcome_section_visible', 'default_search_mode', 'default_request_type', 'servicenow_instance_url', 'default_ai_model', 'agent_models', 'visible_request_types', 'voice_mode_enabled', 'voice_auto_submit', 'voice_auto_send'];
+    const validKeys = ['welcome_section_visible', 'default_search_mode', 'default_request_type', 'servicenow_instance_url', 'default_ai_model', 'agent_models', 'visible_request_types', 'voice_mode_enabled', 'voice_auto_submit', 'voice_auto_send', 'block_unsafe_scripts', 'servicenow_instances', 'active_servicenow_instance'];
     const settings: Partial<UserSettings> = {};
     let agentModelsToUpdate: Record<string, string> | null = null;
     
@@ -110,7 +112,27 @@ export async function PUT(request: NextRequest): Promise<NextResponse<SettingsAp
               );
             }
           }
-        } else if (key === 'servicenow_instance_url' || key === 'default_ai_model') {
+        } else if (key === 'servicenow_instances') {
+          const validated = validateInstanceProfiles(value);
+          if ('error' in validated) {
+            return NextResponse.json(
+              { success: false, error: validated.error },
+              { status: 400 }
+            );
+          }
+          // A credentials reference may only be used for the instance its SERVICENOW_<REF>_URL names
+          for (const profile of validated.profiles) {
+            const credentialsError = profile.credentials_ref && validateCredentialsReference(profile.url, profile.credentials_ref);
+            if (credentialsError) {
+              return NextResponse.json(
+                { success: false, error: `${profile.name}: ${credentialsError}` },
+                { status: 400 }
+              );
+            }
+          }
+          settings.servicenow_instances = validated.profiles;
+          continue;
+        } else if (key === 'servicenow_instance_url' || key === 'default_ai_model' || key === 'active_servicenow_instance') {
           if (typeof value !== 'string') {
             return NextResponse.json(
               { success: false, error: `Invalid value for ${key}, expected string` },
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { StreamingResponseHandler } from '@/lib/streaming-response-handler';
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await getServerAuthState();
+    if (!authResult.isAuthenticated || !authResult.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), { status: 401, headers: { 'Content-Type': 'application/json' } });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sessionkey = searchParams.get('sessionkey');
+
+    if (!sessionkey || !/^session_\d+_[a-z0-9]+$/.test(sessionkey)) {
+      return new Response(JSON.stringify({ success: false, error: 'Valid session key required' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    }
+
+    // Standard SSE reconnects send Last-Event-ID; the query parameter covers fetch-based clients
+    const lastEventIdParam = request.headers.get('last-event-id') ?? searchParams.get('lastEventId') ?? '0';
+    const lastEventId = parseInt(lastEventIdParam);
+    if (isNaN(lastEventId) || lastEventId < 0) {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid lastEventId parameter' }), { status: 400, headers: { 'Content-Type': 'application/json' } });
+    }
+
+    const stream = StreamingResponseHandler.createResumeResponse(sessionkey, authResult.user.username, lastEventId);
+    if (!stream) {
+      return new Response(JSON.stringify({ success: false, error: 'Stream not found or expired' }), { status: 404, headers: { 'Content-Type': 'application/json' } });
+    }
+
+    return new Response(stream, {
+      headers: StreamingResponseHandler.getStreamingHeaders(),
+    });
+
+  } catch (error) {
+    console.error('Stream resume API Error:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return new Response(JSON.stringify({ success: false, error: message }), { status: 500, headers: { 'Content-Type': 'application/json' } });
+  }
+}
@@ -6,6 +6,8 @@ import { getServerAuthState } from '@/lib/server-auth';
 import { validateRequest } from '@/lib/request-validation';
 import { StreamingResponseHandler } from '@/lib/streaming-response-handler';
 import { UserSettingsManager } from '@/lib/database';
+import { ProviderRateLimitError } from '@/lib/rate-limiter';
+import { SessionKeyInUseError } from '@/lib/stream-registry';
 
 
 
@@ -39,7 +41,23 @@ export async function POST(request: NextRequest) {
       console.warn('Failed to get selected provider ID, using default:', error);
     }
 
-    const stream = StreamingResponseHandler.createStreamingResponse(body, selectedProviderId);
+    // Each provider's requests-per-minute limit is enforced when the request is sent to it; only when
+    // every provider in the failover chain is at its limit does the client have to wait
+    let stream: ReadableStream;
+    try {
+      stream = await StreamingResponseHandler.createStreamingResponse(body, authResult.user.username, selectedProviderId);
+    } catch (error) {
+      if (error instanceof SessionKeyInUseError) {
+        return new Response(JSON.stringify({ success: false, error: error.message }), { status: 409, headers: { 'Content-Type': 'application/json' } });
+      }
+      if (!(error instanceof ProviderRateLimitError)) {
+        throw error;
+      }
+      return new Response(
+        JSON.stringify({ success: false, error: error.message, retryAfter: error.retryAfterSeconds }),
+        { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
 
     return new Response(stream, {
       headers: StreamingResponseHandler.getStreamingHeaders(),
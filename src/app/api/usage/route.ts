@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeRequest, hasRole } from '@/lib/authorization';
+import { UsageManager } from '@/lib/usage';
+import type { UsageApiResponse } from '@/types/index';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/usage - Token usage and cost for the current user (scope=all: every user, Admin only)
+export async function GET(request: NextRequest): Promise<NextResponse<UsageApiResponse>> {
+  try {
+    const auth = await authorizeRequest();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const url = new URL(request.url);
+    const scope = url.searchParams.get('scope') || 'user';
+    const canViewAllUsers = hasRole(auth.user, 'admin');
+
+    if (scope !== 'user' && scope !== 'all') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid scope parameter' },
+        { status: 400 }
+      );
+    }
+
+    if (scope === 'all' && !canViewAllUsers) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden - admin privileges required' },
+        { status: 403 }
+      );
+    }
+
+    const daysParam = url.searchParams.get('days');
+    const days = daysParam ? parseInt(daysParam, 10) : DEFAULT_DAYS;
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    // Whole days, counted back from the end of today (UTC)
+    const endDate = new Date();
+    endDate.setUTCHours(0, 0, 0, 0);
+    endDate.setTime(endDate.getTime() + DAY_MS);
+    const startDate = new Date(endDate.getTime() - days * DAY_MS);
+
+    const usageManager = new UsageManager();
+    const report = await usageManager.getUsageReport({
+      userId: scope === 'all' ? null : auth.user.username,
+      startDate,
+      endDate
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...report, can_view_all_users: canViewAllUsers }
+    });
+  } catch (error) {
+    console.error('Usage GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
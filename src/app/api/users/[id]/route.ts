@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeRequest, hasRole } from '@/lib/authorization';
+import { UserManager, MIN_PASSWORD_LENGTH } from '@/lib/users';
+import type { User, UserApiResponse, UserRole } from '@/types/index';
+
+const USER_ROLES: UserRole[] = ['admin', 'member'];
+
+// PATCH /api/users/[id] - Disable/enable a user, change their role or reset their password
+// Admins can update any account; members can only change their own password, giving the current one
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<UserApiResponse>> {
+  try {
+    const auth = await authorizeRequest();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const resolvedParams = await params;
+    const userId = parseInt(resolvedParams.id);
+
+    if (isNaN(userId) || userId <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid user ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    if (body.is_active === undefined && body.password === undefined && body.role === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Nothing to update - provide is_active, role and/or password' },
+        { status: 400 }
+      );
+    }
+
+    const isAdmin = hasRole(auth.user, 'admin');
+    const isSelf = userId === auth.user.id;
+
+    if (!isAdmin && (!isSelf || body.is_active !== undefined || body.role !== undefined)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden - admin privileges required' },
+        { status: 403 }
+      );
+    }
+
+    if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'is_active must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (body.role !== undefined && !USER_ROLES.includes(body.role)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid role. Allowed roles: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.password !== undefined && (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH)) {
+      return NextResponse.json(
+        { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Prevent locking yourself out
+    if (isSelf && (body.is_active === false || body.role === 'member')) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot disable or demote your own account' },
+        { status: 400 }
+      );
+    }
+
+    const userManager = new UserManager();
+    let updatedUser: User | null = null;
+
+    // A stolen session alone must not be enough to take over a member's account
+    if (body.password !== undefined && !isAdmin) {
+      if (typeof body.current_password !== 'string' || !body.current_password) {
+        return NextResponse.json(
+          { success: false, error: 'current_password is required to change your password' },
+          { status: 400 }
+        );
+      }
+      if (!(await userManager.checkPassword(userId, body.current_password))) {
+        return NextResponse.json(
+          { success: false, error: 'Current password is incorrect' },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (body.password !== undefined) {
+      updatedUser = await userManager.resetPassword(userId, body.password);
+    }
+
+    if (body.role !== undefined) {
+      updatedUser = await userManager.setUserRole(userId, body.role);
+    }
+
+    if (body.is_active !== undefined) {
+      updatedUser = await userManager.setUserActive(userId, body.is_active);
+    }
+
+    if (!updatedUser) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updatedUser
+    });
+  } catch (error) {
+    console.error('Users PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAdmin } from '@/lib/authorization';
+import { UserManager, MIN_PASSWORD_LENGTH } from '@/lib/users';
+import type { UsersApiResponse, UserApiResponse, UserInput, UserRole } from '@/types/index';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._@-]{3,255}$/;
+const USER_ROLES: UserRole[] = ['admin', 'member'];
+
+// GET /api/users - List user accounts (Admin only)
+export async function GET(): Promise<NextResponse<UsersApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const userManager = new UserManager();
+    const users = await userManager.getAllUsers();
+
+    return NextResponse.json({
+      success: true,
+      data: users
+    });
+  } catch (error) {
+    console.error('Users GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users - Create a user account (Admin only)
+export async function POST(request: NextRequest): Promise<NextResponse<UserApiResponse>> {
+  try {
+    const auth = await requireAdmin();
+
+    if (!auth.authorized) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const userInput: UserInput = {
+      username: body.username,
+      password: body.password,
+      display_name: body.display_name,
+      role: body.role,
+      is_active: body.is_active
+    };
+
+    if (typeof userInput.username !== 'string' || !USERNAME_PATTERN.test(userInput.username)) {
+      return NextResponse.json(
+        { success: false, error: 'Username must be 3-255 characters (letters, digits, ".", "_", "@" or "-")' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof userInput.password !== 'string' || userInput.password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (userInput.display_name !== undefined && typeof userInput.display_name !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Display name must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (userInput.role !== undefined && !USER_ROLES.includes(userInput.role)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid role. Allowed roles: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (userInput.is_active !== undefined && typeof userInput.is_active !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'is_active must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const userManager = new UserManager();
+    const user = await userManager.createUser(userInput);
+
+    return NextResponse.json({
+      success: true,
+      data: user
+    });
+  } catch (error) {
+    console.error('Users POST error:', error);
+
+    // Handle unique constraint violation
+    if (error instanceof Error && error.message.includes('unique constraint')) {
+      return NextResponse.json(
+        { success: false, error: 'A user with this username already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect } from 'react';
+import { ArrowLeft, Rocket } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+
+import { useSettings } from '@/contexts/SettingsContext';
+import DeploymentsPanel from '@/components/DeploymentsPanel';
+
+export default function DeploymentsPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useSettings();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  // Show loading while checking authentication
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-blue-500 dark:border-blue-400 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center">
+              <Rocket className="w-8 h-8 text-blue-600 dark:text-blue-400 mr-3" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                  My Deployments
+                </h1>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Track scripts sent to ServiceNow and retry failed ones
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => router.push('/')}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <DeploymentsPanel />
+        </div>
+      </div>
+    </div>
+  );
+}
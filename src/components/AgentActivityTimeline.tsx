@@ -0,0 +1,104 @@
+'use client';
+
+import React, { memo, useState } from 'react';
+import { Workflow, Hammer, Check, X, Loader2, ChevronDown, ChevronRight } from 'lucide-react';
+
+import { AgentActivity, AgentToolCall } from '@/types';
+import { AGENT_DISPLAY_NAMES } from '@/lib/constants';
+
+interface AgentActivityTimelineProps {
+  activities: AgentActivity[];
+  isStreaming: boolean;
+}
+
+const getAgentDisplayName = (agent: string): string => AGENT_DISPLAY_NAMES[agent] || agent;
+
+const ToolCallStatusIcon = ({ call, isStreaming }: { call: AgentToolCall; isStreaming: boolean }) => {
+  if (call.status === 'error') {
+    return <X className="w-3 h-3 text-red-500 flex-shrink-0" />;
+  }
+  if (call.status === 'running' && isStreaming) {
+    return <Loader2 className="w-3 h-3 text-orange-500 animate-spin flex-shrink-0" />;
+  }
+  return <Check className="w-3 h-3 text-green-500 flex-shrink-0" />;
+};
+
+const AgentActivityTimeline = memo(function AgentActivityTimeline({ activities, isStreaming }: AgentActivityTimelineProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  if (activities.length === 0) return null;
+
+  const toolCallCount = activities.reduce((total, activity) => total + activity.toolCalls.length, 0);
+
+  return (
+    <div className="mb-4 rounded-xl border border-indigo-200/60 dark:border-indigo-700/50 bg-white/80 dark:bg-gray-900/40">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-left"
+        aria-expanded={isExpanded}
+        aria-label="Toggle agent activity"
+      >
+        <span className="flex items-center gap-2 text-sm font-medium text-indigo-800 dark:text-indigo-300">
+          <Workflow className="w-4 h-4 flex-shrink-0" />
+          Agent activity
+          <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+            {activities.length} {activities.length === 1 ? 'agent' : 'agents'}, {toolCallCount} {toolCallCount === 1 ? 'tool call' : 'tool calls'}
+          </span>
+        </span>
+        {isExpanded ? (
+          <ChevronDown className="w-4 h-4 text-gray-500" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-gray-500" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <ol className="px-4 pb-3 space-y-3 border-l-2 border-indigo-200 dark:border-indigo-700 ml-6">
+          {activities.map((activity, index) => {
+            const isRunning = activity.status === 'running' && isStreaming;
+            return (
+              <li key={`${activity.agent}-${index}`} className="relative pl-3">
+                <span
+                  className={`absolute -left-[calc(0.75rem+1px)] top-1.5 w-2.5 h-2.5 rounded-full ${
+                    isRunning ? 'bg-indigo-500 animate-pulse' : 'bg-green-500'
+                  }`}
+                />
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium text-gray-800 dark:text-gray-200">
+                    {getAgentDisplayName(activity.agent)}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {isRunning ? 'running' : 'done'}
+                  </span>
+                  {activity.usage && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400" title={activity.model}>
+                      · {activity.usage.totalTokens.toLocaleString()} tokens
+                    </span>
+                  )}
+                </div>
+
+                {activity.toolCalls.length > 0 && (
+                  <ul className="mt-1 space-y-1">
+                    {activity.toolCalls.map(call => (
+                      <li
+                        key={call.id}
+                        className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400"
+                        title={call.error || call.input}
+                      >
+                        <Hammer className="w-3 h-3 text-orange-500 flex-shrink-0" />
+                        <span className="font-mono truncate">{call.tool}</span>
+                        <ToolCallStatusIcon call={call} isStreaming={isStreaming} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+});
+
+export default AgentActivityTimeline;
@@ -0,0 +1,435 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Bot, History, RotateCcw, Save, GitCompare } from 'lucide-react';
+
+import PromptExperimentsPanel from './PromptExperimentsPanel';
+import { diffLines, countChanges, type DiffLine } from '@/lib/text-diff';
+import type { AgentPrompt, AgentPromptOption, AgentPromptVersion } from '@/types/index';
+
+const DIFF_LINE_STYLES: Record<DiffLine['type'], string> = {
+  added: 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+  removed: 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200',
+  unchanged: 'text-gray-600 dark:text-gray-400',
+};
+
+const DIFF_LINE_PREFIX: Record<DiffLine['type'], string> = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+function DiffView({ oldText, newText, emptyMessage }: { oldText: string; newText: string; emptyMessage: string }) {
+  const diff = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const { added, removed } = countChanges(diff);
+
+  if (added === 0 && removed === 0) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">{emptyMessage}</div>;
+  }
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        <span className="text-green-700 dark:text-green-400">+{added}</span>{' '}
+        <span className="text-red-700 dark:text-red-400">-{removed}</span> lines
+      </div>
+      <pre className="max-h-96 overflow-auto rounded-lg border border-gray-200 dark:border-gray-600 text-xs font-mono">
+        {diff.map((line, index) => (
+          <div key={index} className={`px-3 whitespace-pre-wrap ${DIFF_LINE_STYLES[line.type]}`}>
+            {DIFF_LINE_PREFIX[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+const formatDateTime = (value: Date | string): string => new Date(value).toLocaleString();
+
+export default function AgentPromptEditor() {
+  const [prompts, setPrompts] = useState<AgentPrompt[]>([]);
+  const [agents, setAgents] = useState<AgentPromptOption[]>([]);
+  const [promptTypes, setPromptTypes] = useState<AgentPromptOption[]>([]);
+  const [selectedAgent, setSelectedAgent] = useState<string | null>(null);
+  const [selectedType, setSelectedType] = useState('system');
+  const [draft, setDraft] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [versions, setVersions] = useState<AgentPromptVersion[]>([]);
+  const [comparedVersion, setComparedVersion] = useState<number | null>(null);
+  const [showDraftDiff, setShowDraftDiff] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [forbidden, setForbidden] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const currentPrompt = prompts.find(p => p.agent_name === selectedAgent && p.prompt_type === selectedType) || null;
+
+  // Agents from the workflow, plus any agent that only exists in the database
+  const agentOptions = useMemo(() => {
+    const known = new Set(agents.map(agent => agent.name));
+    const extra = prompts
+      .filter(prompt => !known.has(prompt.agent_name))
+      .map(prompt => prompt.agent_name)
+      .filter((name, index, all) => all.indexOf(name) === index)
+      .map(name => ({ name, displayName: `${name} (unused)`, description: 'The n8n workflow does not read a prompt for this agent' }));
+    return [...agents, ...extra];
+  }, [agents, prompts]);
+
+  const fetchPrompts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/agent-prompts', { method: 'GET', credentials: 'include' });
+
+      if (response.status === 403) {
+        setForbidden(true);
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch agent prompts');
+      }
+      setPrompts(data.data.prompts);
+      setAgents(data.data.agents);
+      setPromptTypes(data.data.prompt_types);
+      setSelectedAgent(prev => prev ?? data.data.agents[0]?.name ?? data.data.prompts[0]?.agent_name ?? null);
+    } catch (err) {
+      console.error('Failed to fetch agent prompts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load agent prompts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchVersions = useCallback(async (agentName: string, promptType: string) => {
+    try {
+      const params = new URLSearchParams({ agent_name: agentName, prompt_type: promptType });
+      const response = await fetch(`/api/agent-prompts/versions?${params}`, { method: 'GET', credentials: 'include' });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch version history');
+      }
+      setVersions(data.data);
+    } catch (err) {
+      console.error('Failed to fetch prompt versions:', err);
+      setVersions([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPrompts();
+  }, [fetchPrompts]);
+
+  const savedContent = currentPrompt?.prompt_content || '';
+
+  // Load the selected prompt into the editor whenever the selection or the saved content changes
+  useEffect(() => {
+    setDraft(savedContent);
+    setChangeNote('');
+    setShowDraftDiff(false);
+    setComparedVersion(null);
+  }, [selectedAgent, selectedType, savedContent]);
+
+  useEffect(() => {
+    if (selectedAgent) {
+      fetchVersions(selectedAgent, selectedType);
+    }
+  }, [selectedAgent, selectedType, fetchVersions]);
+
+  const isDirty = draft !== savedContent;
+
+  const afterChange = async (successMessage: string) => {
+    setMessage(successMessage);
+    await fetchPrompts();
+    if (selectedAgent) {
+      await fetchVersions(selectedAgent, selectedType);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedAgent || !draft.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/agent-prompts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          agent_name: selectedAgent,
+          prompt_type: selectedType,
+          prompt_content: draft,
+          change_note: changeNote,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save prompt');
+      }
+      await afterChange(`Saved as version ${data.data.version}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save prompt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!selectedAgent) return;
+    if (isDirty && !window.confirm('Discard your unsaved changes and restore this version?')) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/agent-prompts/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ agent_name: selectedAgent, prompt_type: selectedType, version }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to restore version');
+      }
+      await afterChange(`Restored version ${version} as version ${data.data.version}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!selectedAgent || !currentPrompt) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/agent-prompts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ agent_name: selectedAgent, prompt_type: selectedType, is_active: !currentPrompt.is_active }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update prompt');
+      }
+      await afterChange(currentPrompt.is_active ? 'Prompt deactivated' : 'Prompt activated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update prompt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin w-8 h-8 border-4 border-blue-500 dark:border-blue-400 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (forbidden) {
+    return (
+      <div className="p-6 text-gray-600 dark:text-gray-400">
+        Only administrators can view and edit agent prompts.
+      </div>
+    );
+  }
+
+  // Versions are newest first, so the previous version is the next entry
+  const comparedIndex = versions.findIndex(v => v.version === comparedVersion);
+  const compared = comparedIndex >= 0 ? versions[comparedIndex] : null;
+  const comparedPrevious = comparedIndex >= 0 ? versions[comparedIndex + 1] : undefined;
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Agent list */}
+      <div className="lg:col-span-1 space-y-2">
+        {agentOptions.map(agent => {
+          const prompt = prompts.find(p => p.agent_name === agent.name && p.prompt_type === selectedType);
+          return (
+            <button
+              key={agent.name}
+              onClick={() => setSelectedAgent(agent.name)}
+              title={agent.description}
+              className={`w-full p-3 rounded-lg border text-left transition-colors ${
+                selectedAgent === agent.name
+                  ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/30'
+                  : 'border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 hover:border-blue-300'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <Bot className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{agent.displayName}</span>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {!prompt ? 'No prompt' : `${prompt.is_active ? 'Active' : 'Inactive'}${prompt.current_version ? ` · v${prompt.current_version}` : ''}`}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Editor */}
+      <div className="lg:col-span-3 space-y-6">
+        {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+        {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+
+        {selectedAgent && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center space-x-3">
+                <select
+                  value={selectedType}
+                  onChange={e => setSelectedType(e.target.value)}
+                  className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  aria-label="Prompt type"
+                >
+                  {promptTypes.map(type => (
+                    <option key={type.name} value={type.name}>{type.displayName}</option>
+                  ))}
+                </select>
+                {currentPrompt && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    Last saved {formatDateTime(currentPrompt.updated_at)}
+                  </span>
+                )}
+              </div>
+              {currentPrompt && (
+                <button
+                  onClick={handleToggleActive}
+                  disabled={saving}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {currentPrompt.is_active ? 'Deactivate' : 'Activate'}
+                </button>
+              )}
+            </div>
+
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              rows={20}
+              className="w-full px-3 py-2 text-sm font-mono rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Prompt content"
+              placeholder="Write the system prompt for this agent..."
+            />
+
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                value={changeNote}
+                onChange={e => setChangeNote(e.target.value)}
+                placeholder="What changed? (optional)"
+                aria-label="Change note"
+                className="flex-1 min-w-[12rem] px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <button
+                onClick={() => setShowDraftDiff(prev => !prev)}
+                disabled={!isDirty}
+                className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center space-x-1"
+              >
+                <GitCompare className="w-4 h-4" />
+                <span>{showDraftDiff ? 'Hide changes' : 'Show changes'}</span>
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !isDirty || !draft.trim()}
+                className="px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 flex items-center space-x-1"
+              >
+                <Save className="w-4 h-4" />
+                <span>{saving ? 'Saving...' : 'Save new version'}</span>
+              </button>
+            </div>
+
+            {showDraftDiff && isDirty && (
+              <DiffView
+                oldText={savedContent}
+                newText={draft}
+                emptyMessage="No changes."
+              />
+            )}
+          </div>
+        )}
+
+        {/* Version history */}
+        {selectedAgent && (
+          <div>
+            <div className="flex items-center space-x-2 mb-3">
+              <History className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+              <h3 className="font-medium text-gray-900 dark:text-gray-100">Version history</h3>
+            </div>
+
+            {versions.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400">No saved versions yet.</div>
+            ) : (
+              <ul className="space-y-2">
+                {versions.map(version => (
+                  <li key={version.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800">
+                    <div className="flex items-center justify-between gap-3">
+                      <button
+                        onClick={() => setComparedVersion(comparedVersion === version.version ? null : version.version)}
+                        className="text-left min-w-0"
+                        aria-expanded={comparedVersion === version.version}
+                      >
+                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                          Version {version.version}
+                          {version.version === latestVersion && <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">current</span>}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {formatDateTime(version.created_at)}
+                          {version.created_by && ` · ${version.created_by}`}
+                          {version.change_note && ` · ${version.change_note}`}
+                        </div>
+                      </button>
+                      {version.version !== latestVersion && (
+                        <button
+                          onClick={() => handleRollback(version.version)}
+                          disabled={saving}
+                          className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center space-x-1 flex-shrink-0"
+                          title={`Make version ${version.version} current again`}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>Restore</span>
+                        </button>
+                      )}
+                    </div>
+
+                    {compared?.id === version.id && (
+                      <div className="mt-3">
+                        <DiffView
+                          oldText={comparedPrevious?.prompt_content || ''}
+                          newText={version.prompt_content}
+                          emptyMessage="Same content as the previous version."
+                        />
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {selectedAgent && (
+          <PromptExperimentsPanel
+            agentName={selectedAgent}
+            promptType={selectedType}
+            currentPrompt={savedContent}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
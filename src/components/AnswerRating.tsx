@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { ThumbsUp, ThumbsDown, Star, MessageSquare } from 'lucide-react';
+
+interface AnswerRatingProps {
+  onRate: (rating: number, comment: string | null) => Promise<void>;
+  initialRating?: number | null;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+/**
+ * Thumbs up/down (5 and 1 stars) or a 1-5 star rating, with an optional comment once rated.
+ * The rating is saved as soon as it is picked and rolled back if saving fails.
+ */
+export default function AnswerRating({ onRate, initialRating = null }: AnswerRatingProps) {
+  const [rating, setRating] = useState<number | null>(initialRating);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [showComment, setShowComment] = useState(false);
+  const [comment, setComment] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [commentSent, setCommentSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRate = async (value: number) => {
+    if (value === rating) return;
+
+    const previous = rating;
+    setRating(value);
+    setError(null);
+    try {
+      await onRate(value, comment.trim() || null);
+    } catch (err) {
+      console.error('Error saving answer rating:', err);
+      setRating(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save rating');
+    }
+  };
+
+  const handleSendComment = async () => {
+    if (rating === null || !comment.trim()) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await onRate(rating, comment.trim());
+      setCommentSent(true);
+      setShowComment(false);
+    } catch (err) {
+      console.error('Error saving answer comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save comment');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const shown = hovered ?? rating ?? 0;
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1" role="group" aria-label="Rate this answer">
+        <button
+          onClick={() => handleRate(5)}
+          className={`p-1.5 rounded-full transition-colors ${rating !== null && rating >= 4 ? 'text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30' : 'text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400'}`}
+          title="Good answer"
+          aria-label="Good answer"
+          aria-pressed={rating !== null && rating >= 4}
+        >
+          <ThumbsUp className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => handleRate(1)}
+          className={`p-1.5 rounded-full transition-colors ${rating !== null && rating <= 2 ? 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30' : 'text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400'}`}
+          title="Poor answer"
+          aria-label="Poor answer"
+          aria-pressed={rating !== null && rating <= 2}
+        >
+          <ThumbsDown className="w-3.5 h-3.5" />
+        </button>
+        <div className="flex items-center" onMouseLeave={() => setHovered(null)}>
+          {STARS.map(star => (
+            <button
+              key={star}
+              onClick={() => handleRate(star)}
+              onMouseEnter={() => setHovered(star)}
+              className="p-0.5 text-amber-500 dark:text-amber-400"
+              title={`${star} star${star === 1 ? '' : 's'}`}
+              aria-label={`Rate ${star} star${star === 1 ? '' : 's'}`}
+              aria-pressed={rating === star}
+            >
+              <Star className={`w-3.5 h-3.5 ${star <= shown ? 'fill-current' : 'opacity-50'}`} />
+            </button>
+          ))}
+        </div>
+        {rating !== null && !commentSent && (
+          <button
+            onClick={() => setShowComment(!showComment)}
+            className={`p-1.5 rounded-full transition-colors ${showComment ? 'text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/30' : 'text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400'}`}
+            title="Add a comment"
+            aria-label="Add a comment"
+          >
+            <MessageSquare className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {showComment && (
+        <div className="flex items-start gap-2 w-full max-w-sm">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            maxLength={2000}
+            placeholder="What was good or missing?"
+            aria-label="Rating comment"
+            className="flex-1 px-2 py-1 text-xs rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleSendComment}
+            disabled={isSending || !comment.trim()}
+            className="px-2.5 py-1 text-xs font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSending ? 'Sending...' : 'Send'}
+          </button>
+        </div>
+      )}
+
+      {commentSent && <span className="text-xs text-gray-500 dark:text-gray-400">Thanks for the feedback</span>}
+      {error && <span className="text-xs text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { LogOut, Settings, BookOpen, Database } from 'lucide-react';
+import { LogOut, Settings, BookOpen, Database, Rocket } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 
 import { useAuth } from '@/contexts/AuthContext';
@@ -99,6 +99,24 @@ export default function BurgerMenu() {
             <Database className="w-4 h-4 mr-3 transition-transform duration-200 group-hover:scale-110" />
             <span className="text-sm font-medium">Knowledge Store</span>
           </button>
+          <button
+            onClick={() => {
+              router.push('/deployments');
+              setIsOpen(false);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                router.push('/deployments');
+                setIsOpen(false);
+              }
+            }}
+            className="flex items-center w-full px-4 py-3 text-left hover:bg-gradient-to-r hover:from-blue-50 hover:to-cyan-50 dark:hover:from-blue-900/30 dark:hover:to-cyan-900/30 text-gray-700 dark:text-gray-300 hover:text-cyan-700 dark:hover:text-cyan-300 transition-all duration-200 focus:outline-none focus:bg-cyan-50 dark:focus:bg-cyan-900/30 rounded-lg mx-1"
+            role="menuitem"
+          >
+            <Rocket className="w-4 h-4 mr-3 transition-transform duration-200 group-hover:scale-110" />
+            <span className="text-sm font-medium">My Deployments</span>
+          </button>
           <button
             onClick={() => {
               router.push('/manual');
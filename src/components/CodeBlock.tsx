@@ -2,20 +2,26 @@
 
 import React, { useState, useEffect, useCallback, lazy, Suspense } from 'react';
 import { createPortal } from 'react-dom';
-import { Copy, Check, Maximize2, X, Code as CodeIcon } from 'lucide-react';
+import { Copy, Check, Maximize2, X, Code as CodeIcon, AlertTriangle } from 'lucide-react';
 
+import ScriptFindingsList from './ScriptFindingsList';
 import SendScriptButton from './SendScriptButton';
+import { useScriptAnalysis } from '@/hooks/useScriptAnalysis';
 
 // Lazy load MermaidDiagram component
 const MermaidDiagram = lazy(() => import('./MermaidDiagram'));
 
+// Languages the ServiceNow script analyzer understands
+const ANALYZED_LANGUAGES = ['javascript', 'js'];
+
 interface CodeBlockProps {
   children: React.ReactNode;
   className?: string;
   isStreaming?: boolean;
+  context?: string; // Markdown around the block, used to pre-fill Send Script
 }
 
-const CodeBlock = React.memo(({ children, className, isStreaming = false, ...props }: CodeBlockProps & React.HTMLAttributes<HTMLElement>) => {
+const CodeBlock = React.memo(({ children, className, isStreaming = false, context, ...props }: CodeBlockProps & React.HTMLAttributes<HTMLElement>) => {
   const [copied, setCopied] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
@@ -92,6 +98,15 @@ const CodeBlock = React.memo(({ children, className, isStreaming = false, ...pro
     return '';
   };
 
+  // Annotate finished JavaScript blocks with script analysis findings
+  const language = className?.match(/language-([\w-]+)/)?.[1] ?? '';
+  const { findings } = useScriptAnalysis(
+    extractTextContent(children),
+    context,
+    Boolean(isCodeBlock) && !isStreaming && ANALYZED_LANGUAGES.includes(language)
+  );
+  const errorCount = findings.filter(finding => finding.severity === 'error').length;
+
   // Get code snippet for mobile preview - preserve React elements for syntax highlighting
   const getCodeSnippet = () => {
     const code = extractTextContent(children);
@@ -134,6 +149,7 @@ const CodeBlock = React.memo(({ children, className, isStreaming = false, ...pro
           <div className="flex items-center gap-2">
             <SendScriptButton 
               scriptContent={extractTextContent(children)}
+              context={context}
               size="sm"
               className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm transition-colors"
             />
@@ -237,6 +253,7 @@ const CodeBlock = React.memo(({ children, className, isStreaming = false, ...pro
                 }
               `}</style>
             </pre>
+            <ScriptFindingsList findings={findings} variant="dark" />
           </div>
         </div>
 
@@ -363,11 +380,25 @@ const CodeBlock = React.memo(({ children, className, isStreaming = false, ...pro
                   <span className="text-sm font-medium text-emerald-800 dark:text-emerald-300">
                     Code
                   </span>
+                  {findings.length > 0 && (
+                    <span
+                      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                        errorCount > 0
+                          ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                          : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'
+                      }`}
+                      title="Script analysis findings"
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      {findings.length} {findings.length === 1 ? 'issue' : 'issues'}
+                    </span>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-2">
                   <SendScriptButton
                     scriptContent={extractTextContent(children)}
+                    context={context}
                     size="sm"
                   />
 
@@ -421,6 +452,7 @@ const CodeBlock = React.memo(({ children, className, isStreaming = false, ...pro
                   </pre>
                 </div>
               </div>
+              <ScriptFindingsList findings={findings} />
             </div>
           </div>
         )}
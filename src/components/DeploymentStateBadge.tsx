@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, CheckCircle, Clock, Loader2 } from 'lucide-react';
+
+import type { IntegrationQueueState } from '@/types';
+
+const STATE_STYLES: Record<IntegrationQueueState, { label: string; className: string; icon: React.ReactNode }> = {
+  new: {
+    label: 'Queued',
+    className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+    icon: <Clock className="w-3 h-3" />
+  },
+  processing: {
+    label: 'Processing',
+    className: 'bg-gradient-to-r from-blue-100 to-indigo-100 dark:from-blue-900/30 dark:to-indigo-900/30 text-blue-700 dark:text-blue-300',
+    icon: <Loader2 className="w-3 h-3 animate-spin" />
+  },
+  completed: {
+    label: 'Completed',
+    className: 'bg-gradient-to-r from-green-100 to-emerald-100 dark:from-green-900/30 dark:to-emerald-900/30 text-green-700 dark:text-green-300',
+    icon: <CheckCircle className="w-3 h-3" />
+  },
+  failed: {
+    label: 'Failed',
+    className: 'bg-gradient-to-r from-red-100 to-pink-100 dark:from-red-900/30 dark:to-pink-900/30 text-red-700 dark:text-red-300',
+    icon: <AlertCircle className="w-3 h-3" />
+  }
+};
+
+// Deployments in these states can still change, so their views keep polling
+export const ACTIVE_DEPLOYMENT_STATES: IntegrationQueueState[] = ['new', 'processing'];
+
+export default function DeploymentStateBadge({ state }: { state: IntegrationQueueState }) {
+  const style = STATE_STYLES[state] ?? STATE_STYLES.new;
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${style.className}`}>
+      {style.icon}
+      {style.label}
+    </span>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink, RefreshCw, RotateCcw } from 'lucide-react';
+
+import DeploymentStateBadge, { ACTIVE_DEPLOYMENT_STATES } from './DeploymentStateBadge';
+import { useServiceNowUrl } from '@/hooks/useServiceNowUrl';
+import { getArtifactType } from '@/lib/servicenow-artifacts';
+import { isProductionInstance } from '@/lib/servicenow-instances';
+import type { IntegrationQueueItem, IntegrationQueueState, ServiceNowInstanceProfile } from '@/types/index';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATE_FILTERS: { value: IntegrationQueueState | ''; label: string }[] = [
+  { value: '', label: 'All states' },
+  { value: 'new', label: 'Queued' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' }
+];
+
+const formatTimestamp = (value: Date | string): string => new Date(value).toLocaleString();
+
+const recordName = (item: IntegrationQueueItem): string => {
+  const name = item.metadata.name ?? item.metadata.table;
+  return typeof name === 'string' && name ? name : item.target_table;
+};
+
+export default function DeploymentsPanel() {
+  const [items, setItems] = useState<IntegrationQueueItem[]>([]);
+  const [stateFilter, setStateFilter] = useState<IntegrationQueueState | ''>('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [retryingId, setRetryingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { instances, activeInstance } = useServiceNowUrl();
+
+  // Retries go to the deployment's own instance; ones sent before instance profiles go to the active one
+  const retryInstance = (item: IntegrationQueueItem): ServiceNowInstanceProfile | null =>
+    item.instance_id ? instances.find(instance => instance.id === item.instance_id) ?? null : activeInstance;
+
+  const fetchDeployments = useCallback(async (showLoading = true) => {
+    if (showLoading) setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (stateFilter) {
+        params.set('state', stateFilter);
+      }
+
+      const response = await fetch(`/api/integration-queue?${params.toString()}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch deployments');
+      }
+      setItems(data.data);
+    } catch (err) {
+      console.error('Failed to fetch deployments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load deployments');
+    } finally {
+      if (showLoading) setLoading(false);
+    }
+  }, [stateFilter]);
+
+  useEffect(() => {
+    fetchDeployments();
+  }, [fetchDeployments]);
+
+  // Keep refreshing quietly while a deployment is still on its way to ServiceNow
+  const hasActiveItems = items.some(item => ACTIVE_DEPLOYMENT_STATES.includes(item.state));
+  useEffect(() => {
+    if (!hasActiveItems) return;
+
+    const timer = setInterval(() => fetchDeployments(false), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveItems, fetchDeployments]);
+
+  const handleRetry = async (item: IntegrationQueueItem) => {
+    const instance = retryInstance(item);
+    const confirmProduction = isProductionInstance(instance);
+    if (confirmProduction && !window.confirm(`Retry this deployment on the production instance ${instance?.name}?`)) {
+      return;
+    }
+
+    setRetryingId(item.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/integration-queue/${item.id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ confirm_production: confirmProduction }),
+      });
+
+      const data = await response.json();
+      if (data.data) {
+        setItems(prev => prev.map(candidate => (candidate.id === item.id ? data.data : candidate)));
+      }
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Retry failed');
+      }
+    } catch (err) {
+      console.error('Failed to retry deployment:', err);
+      setError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Scripts you sent to ServiceNow, newest first
+        </p>
+        <div className="flex items-center space-x-2">
+          <select
+            value={stateFilter}
+            onChange={(e) => setStateFilter(e.target.value as IntegrationQueueState | '')}
+            disabled={loading}
+            aria-label="Filter by state"
+            className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+          >
+            {STATE_FILTERS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fetchDeployments()}
+            disabled={loading}
+            className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg text-sm text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {!loading && items.length === 0 && !error && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">
+          No deployments yet. Use Send on a code block in an answer to push a script to ServiceNow.
+        </p>
+      )}
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {items.map(item => {
+          const expanded = expandedId === item.id;
+
+          return (
+            <li key={item.id} className="py-3">
+              <div className="flex items-start gap-3">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : item.id)}
+                  className="mt-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  aria-label={expanded ? 'Hide details' : 'Show details'}
+                  aria-expanded={expanded}
+                >
+                  {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-gray-900 dark:text-gray-100 truncate">{recordName(item)}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {getArtifactType(item.type)?.label ?? item.type} · {item.target_table}
+                      {item.instance_id && ` · ${instances.find(instance => instance.id === item.instance_id)?.name ?? item.instance_url ?? item.instance_id}`}
+                    </span>
+                    <DeploymentStateBadge state={item.state} />
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Sent {formatTimestamp(item.created_at)}
+                    {new Date(item.updated_at).getTime() !== new Date(item.created_at).getTime() && ` · Updated ${formatTimestamp(item.updated_at)}`}
+                    {item.attempts > 1 && ` · ${item.attempts} attempts`}
+                  </p>
+                  {item.state === 'failed' && item.error && (
+                    <p className="text-sm text-red-700 dark:text-red-300 mt-1">{item.error}</p>
+                  )}
+                  {item.result && (
+                    <a
+                      href={item.result.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 mt-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {item.result.action === 'updated' ? 'Updated' : 'Created'} record {item.result.sys_id}
+                      <ExternalLink className="w-3.5 h-3.5" />
+                    </a>
+                  )}
+                  {expanded && (
+                    <div className="mt-3 space-y-2">
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Correlation ID: <span className="font-mono select-all">{item.correlation_id}</span>
+                      </p>
+                      <pre className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg text-xs text-gray-800 dark:text-gray-200 overflow-x-auto max-h-64">
+                        {item.payload}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+                {item.state === 'failed' && (
+                  <button
+                    onClick={() => handleRetry(item)}
+                    disabled={retryingId !== null}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                  >
+                    <RotateCcw className={`w-3.5 h-3.5 ${retryingId === item.id ? 'animate-spin' : ''}`} />
+                    Retry
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
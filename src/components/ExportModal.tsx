@@ -1,9 +1,15 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
-import { X, Download, FileText, FileDown, CheckCircle, AlertCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { X, Download, FileText, FileDown, Package, CheckCircle, AlertCircle } from 'lucide-react';
 import { ExportFormat, ExportOptions } from '@/types';
 import { getDefaultFilename, detectFileSystemAccess } from '@/lib/export-utils';
+import { getArtifactType } from '@/lib/servicenow-artifacts';
+import { extractUpdateSetArtifacts, validateUpdateSetOptions } from '@/lib/update-set-xml';
+
+const DEFAULT_UPDATE_SET_SCOPE = 'global';
+
+const getDefaultUpdateSetName = (): string => `ServiceNow Helper ${new Date().toISOString().slice(0, 10)}`;
 
 interface ExportModalProps {
   isOpen: boolean;
@@ -29,10 +35,22 @@ export default function ExportModal({
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('markdown');
   const [filename, setFilename] = useState<string>(getDefaultFilename('markdown'));
   const [includeQuestion, setIncludeQuestion] = useState<boolean>(true);
+  const [updateSetName, setUpdateSetName] = useState<string>(getDefaultUpdateSetName);
+  const [updateSetScope, setUpdateSetScope] = useState<string>(DEFAULT_UPDATE_SET_SCOPE);
   const modalRef = useRef<HTMLDivElement>(null);
   const filenameInputRef = useRef<HTMLInputElement>(null);
 
   const hasFileSystemAccess = detectFileSystemAccess();
+  const isUpdateSet = selectedFormat === 'update_set';
+
+  // The records the update set will contain, shown so the user can check the detected types
+  const updateSetArtifacts = useMemo(
+    () => (isUpdateSet ? extractUpdateSetArtifacts(answer, updateSetName.trim()) : []),
+    [isUpdateSet, answer, updateSetName]
+  );
+  const updateSetError = isUpdateSet
+    ? validateUpdateSetOptions({ name: updateSetName, scope: updateSetScope })
+    : null;
 
   // Update filename when format changes
   useEffect(() => {
@@ -87,6 +105,7 @@ export default function ExportModal({
       includeQuestion,
       question,
       answer,
+      ...(isUpdateSet && { updateSet: { name: updateSetName.trim(), scope: updateSetScope.trim() } }),
     };
 
     await onExport(exportOptions);
@@ -97,6 +116,8 @@ export default function ExportModal({
       setSelectedFormat('markdown');
       setFilename(getDefaultFilename('markdown'));
       setIncludeQuestion(true);
+      setUpdateSetName(getDefaultUpdateSetName());
+      setUpdateSetScope(DEFAULT_UPDATE_SET_SCOPE);
       onClose();
     }
   };
@@ -165,7 +186,7 @@ export default function ExportModal({
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
               Export Format <span className="text-red-500">*</span>
             </label>
-            <div className="grid grid-cols-2 gap-3">
+            <div className="grid grid-cols-3 gap-3">
               {/* Markdown Option */}
               <button
                 type="button"
@@ -225,6 +246,36 @@ export default function ExportModal({
                   .pdf file
                 </span>
               </button>
+
+              {/* Update Set Option */}
+              <button
+                type="button"
+                onClick={() => handleFormatChange('update_set')}
+                disabled={isExporting}
+                className={`flex flex-col items-center p-4 border-2 rounded-xl transition-all ${
+                  selectedFormat === 'update_set'
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                    : 'border-gray-200 dark:border-gray-600 hover:border-blue-300 dark:hover:border-blue-700'
+                } ${isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                aria-pressed={selectedFormat === 'update_set'}
+                aria-label="Export as update set"
+              >
+                <Package className={`w-8 h-8 mb-2 ${
+                  selectedFormat === 'update_set'
+                    ? 'text-blue-600 dark:text-blue-400'
+                    : 'text-gray-400 dark:text-gray-500'
+                }`} />
+                <span className={`font-medium ${
+                  selectedFormat === 'update_set'
+                    ? 'text-blue-700 dark:text-blue-300'
+                    : 'text-gray-700 dark:text-gray-300'
+                }`}>
+                  Update Set
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  .xml file
+                </span>
+              </button>
             </div>
           </div>
 
@@ -249,8 +300,70 @@ export default function ExportModal({
             </p>
           </div>
 
+          {/* Update Set Name, Scope and Contents */}
+          {isUpdateSet && (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="updateSetName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Update Set Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="updateSetName"
+                  value={updateSetName}
+                  onChange={(e) => setUpdateSetName(e.target.value)}
+                  disabled={isExporting}
+                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="updateSetScope" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Application Scope <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="updateSetScope"
+                  value={updateSetScope}
+                  onChange={(e) => setUpdateSetScope(e.target.value)}
+                  disabled={isExporting}
+                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  placeholder="global"
+                  required
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  global, or the scope of an application such as x_acme_app
+                </p>
+              </div>
+
+              {updateSetError ? (
+                <p className="text-sm text-red-600 dark:text-red-400">{updateSetError}</p>
+              ) : updateSetArtifacts.length === 0 ? (
+                <p className="text-sm text-amber-700 dark:text-amber-300">
+                  This answer has no JavaScript code blocks to export.
+                </p>
+              ) : (
+                <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                  <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {updateSetArtifacts.length} {updateSetArtifacts.length === 1 ? 'record' : 'records'}
+                  </p>
+                  <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                    {updateSetArtifacts.map((artifact, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{getArtifactType(artifact.type)?.label ?? artifact.type}</span>
+                        {' · '}
+                        {String(artifact.metadata.name ?? artifact.metadata.table ?? '')}
+                        {!artifact.recognized && ' (type not recognized)'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Include Question Checkbox */}
-          {question && (
+          {question && !isUpdateSet && (
             <div className="flex items-start space-x-3 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
               <input
                 type="checkbox"
@@ -300,7 +413,7 @@ export default function ExportModal({
             </button>
             <button
               type="submit"
-              disabled={isExporting || !filename.trim()}
+              disabled={isExporting || !filename.trim() || (isUpdateSet && (updateSetError !== null || updateSetArtifacts.length === 0))}
               className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors disabled:cursor-not-allowed flex items-center justify-center space-x-2"
             >
               {isExporting ? (
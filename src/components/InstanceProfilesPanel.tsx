@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Server, Pencil, Trash2, Plus, Save, X } from 'lucide-react';
+
+import { useSettings } from '@/contexts/SettingsContext';
+import { INSTANCE_ENVIRONMENTS, slugifyInstanceName, validateInstanceProfiles } from '@/lib/servicenow-instances';
+import type { ServiceNowInstanceEnvironment, ServiceNowInstanceProfile } from '@/types/index';
+
+interface InstanceProfilesPanelProps {
+  isAuthenticated: boolean;
+}
+
+interface InstanceDraft {
+  name: string;
+  url: string;
+  environment: ServiceNowInstanceEnvironment;
+  scope: string;
+  credentials_ref: string;
+  allow_push: boolean;
+}
+
+// Id of the profile being edited, or NEW_PROFILE while adding one
+const NEW_PROFILE = '';
+
+const emptyDraft: InstanceDraft = { name: '', url: '', environment: 'dev', scope: '', credentials_ref: '', allow_push: true };
+
+const toDraft = (profile: ServiceNowInstanceProfile): InstanceDraft => ({
+  name: profile.name,
+  url: profile.url,
+  environment: profile.environment,
+  scope: profile.scope ?? '',
+  credentials_ref: profile.credentials_ref ?? '',
+  allow_push: profile.allow_push,
+});
+
+const withProtocol = (url: string): string => {
+  const trimmed = url.trim();
+  return trimmed && !/^https?:\/\//i.test(trimmed) ? `https://${trimmed}` : trimmed;
+};
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Named ServiceNow instances (dev, test, prod) to send scripts to; the header switcher picks the active one.
+ * Credentials stay in the server environment - a profile only names them.
+ */
+export default function InstanceProfilesPanel({ isAuthenticated }: InstanceProfilesPanelProps) {
+  const { settings, updateSettings } = useSettings();
+  const profiles = settings.servicenow_instances ?? [];
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InstanceDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = (profile?: ServiceNowInstanceProfile) => {
+    setEditingId(profile ? profile.id : NEW_PROFILE);
+    setDraft(profile ? toDraft(profile) : emptyDraft);
+    setError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const saveProfiles = async (next: ServiceNowInstanceProfile[]) => {
+    const validated = validateInstanceProfiles(next);
+    if ('error' in validated) {
+      setError(validated.error);
+      return false;
+    }
+
+    // Keep the active profile pointing at one that still exists
+    const active = settings.active_servicenow_instance;
+    const activeId = validated.profiles.some(profile => profile.id === active) ? active : validated.profiles[0]?.id ?? '';
+
+    setSaving(true);
+    setError(null);
+    try {
+      await updateSettings({ servicenow_instances: validated.profiles, active_servicenow_instance: activeId });
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save instance profiles');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    if (!draft || editingId === null) return;
+
+    let id = editingId;
+    if (id === NEW_PROFILE) {
+      const base = slugifyInstanceName(draft.name);
+      id = base;
+      for (let suffix = 2; profiles.some(profile => profile.id === id); suffix++) {
+        id = `${base}-${suffix}`;
+      }
+    }
+
+    const profile: ServiceNowInstanceProfile = {
+      id,
+      name: draft.name,
+      url: withProtocol(draft.url),
+      environment: draft.environment,
+      scope: draft.scope,
+      credentials_ref: draft.credentials_ref.toUpperCase(),
+      allow_push: draft.allow_push,
+    };
+    const next = editingId === NEW_PROFILE
+      ? [...profiles, profile]
+      : profiles.map(existing => (existing.id === editingId ? profile : existing));
+
+    if (await saveProfiles(next)) {
+      cancelEditing();
+    }
+  };
+
+  const removeProfile = async (profile: ServiceNowInstanceProfile) => {
+    if (!window.confirm(`Remove instance profile "${profile.name}"?`)) {
+      return;
+    }
+    await saveProfiles(profiles.filter(existing => existing.id !== profile.id));
+  };
+
+  const renderForm = () => draft && (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          className={inputClassName}
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Name, e.g. ACME Prod"
+          aria-label="Profile name"
+        />
+        <select
+          className={inputClassName}
+          value={draft.environment}
+          onChange={e => setDraft({ ...draft, environment: e.target.value as ServiceNowInstanceEnvironment })}
+          aria-label="Environment"
+        >
+          {INSTANCE_ENVIRONMENTS.map(environment => (
+            <option key={environment.value} value={environment.value}>{environment.label}</option>
+          ))}
+        </select>
+      </div>
+      <input
+        className={inputClassName}
+        type="url"
+        value={draft.url}
+        onChange={e => setDraft({ ...draft, url: e.target.value })}
+        placeholder="https://mycompany.service-now.com"
+        aria-label="Instance URL"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          className={inputClassName}
+          value={draft.scope}
+          onChange={e => setDraft({ ...draft, scope: e.target.value })}
+          placeholder="Scope (global)"
+          aria-label="Scope"
+        />
+        <input
+          className={inputClassName}
+          value={draft.credentials_ref}
+          onChange={e => setDraft({ ...draft, credentials_ref: e.target.value })}
+          placeholder="Credentials reference"
+          aria-label="Credentials reference"
+        />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        The credentials reference names environment variables on the server, e.g. ACME_PROD reads SERVICENOW_ACME_PROD_USERNAME and _PASSWORD
+        (or _CLIENT_ID and _CLIENT_SECRET), and SERVICENOW_ACME_PROD_URL must be this profile&apos;s URL. Secrets are never stored in settings.
+      </p>
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={draft.allow_push}
+          onChange={e => setDraft({ ...draft, allow_push: e.target.checked })}
+          className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+        />
+        Allow Send Script to push to this instance
+      </label>
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={cancelEditing}
+          className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-1"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+        <button
+          onClick={saveDraft}
+          disabled={saving || !draft.name.trim() || !draft.url.trim()}
+          className="px-3 py-1.5 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 flex items-center space-x-1"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50/50 dark:bg-gray-700/30">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-3">
+          <Server className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          <div>
+            <label className="text-gray-900 dark:text-gray-100 font-medium">Instance Profiles</label>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Dev, test and prod instances to switch between in the header</p>
+          </div>
+        </div>
+        <button
+          onClick={() => startEditing()}
+          disabled={!isAuthenticated || saving || editingId !== null}
+          className="p-2 rounded-lg text-gray-600 hover:text-blue-700 dark:text-gray-400 dark:hover:text-blue-300 transition-colors disabled:opacity-50"
+          title="Add instance profile"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {profiles.length === 0 && editingId === null && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No profiles yet - Send Script uses the instance URL above.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {profiles.map(profile => (
+          <li key={profile.id} className="p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600">
+            {editingId === profile.id ? renderForm() : (
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {profile.name}
+                    <span className={`ml-2 text-xs uppercase ${profile.environment === 'prod' ? 'text-red-600 dark:text-red-400' : 'text-gray-500'}`}>
+                      {profile.environment}
+                    </span>
+                    {settings.active_servicenow_instance === profile.id && <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">(active)</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={profile.url}>
+                    {profile.url}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Scope {profile.scope ?? 'global'}
+                    {profile.credentials_ref && ` · credentials ${profile.credentials_ref}`}
+                    {` · ${profile.allow_push ? 'push allowed' : 'push disabled'}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => startEditing(profile)}
+                    disabled={saving || editingId !== null}
+                    className="p-2 rounded-lg text-gray-600 hover:text-blue-700 dark:text-gray-400 dark:hover:text-blue-300 transition-colors disabled:opacity-50"
+                    title="Edit instance profile"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeProfile(profile)}
+                    disabled={saving || editingId !== null}
+                    className="p-2 rounded-lg text-gray-600 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                    title="Remove instance profile"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+        {editingId === NEW_PROFILE && (
+          <li className="p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600">
+            {renderForm()}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { memo } from 'react';
+import { Server } from 'lucide-react';
+
+import { useSettings } from '@/contexts/SettingsContext';
+import { useServiceNowUrl } from '@/hooks/useServiceNowUrl';
+import type { ServiceNowInstanceEnvironment } from '@/types';
+
+const ENVIRONMENT_CLASSES: Record<ServiceNowInstanceEnvironment, string> = {
+  dev: 'text-green-700 bg-green-50 border-green-200 dark:text-green-300 dark:bg-green-900/20 dark:border-green-700',
+  test: 'text-amber-700 bg-amber-50 border-amber-200 dark:text-amber-300 dark:bg-amber-900/20 dark:border-amber-700',
+  prod: 'text-red-700 bg-red-50 border-red-200 dark:text-red-300 dark:bg-red-900/20 dark:border-red-700'
+};
+
+// Picks the instance profile Send Script targets; hidden until the user has set up profiles in Settings
+const InstanceSwitcher = memo(() => {
+  const { settings, updateSetting, savingSettings } = useSettings();
+  const { activeInstance } = useServiceNowUrl();
+  const profiles = settings.servicenow_instances ?? [];
+
+  if (profiles.length === 0 || !activeInstance) {
+    return null;
+  }
+
+  const handleChange = async (id: string) => {
+    try {
+      await updateSetting('active_servicenow_instance', id);
+    } catch (err) {
+      console.error('Failed to switch ServiceNow instance:', err);
+    }
+  };
+
+  return (
+    <label
+      className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border text-xs font-medium ${ENVIRONMENT_CLASSES[activeInstance.environment]}`}
+      title={`Scripts are sent to ${activeInstance.url}`}
+    >
+      <Server className="w-4 h-4 flex-shrink-0" />
+      {activeInstance.environment === 'prod' && <span className="hidden sm:inline uppercase">Prod</span>}
+      <select
+        value={activeInstance.id}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={savingSettings.active_servicenow_instance}
+        className="max-w-[7rem] sm:max-w-[10rem] bg-transparent focus:outline-none cursor-pointer truncate disabled:cursor-wait"
+        aria-label="Active ServiceNow instance"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+});
+
+export default InstanceSwitcher;
@@ -1,13 +1,15 @@
 'use client';
 
 import { useState, memo, lazy, Suspense } from 'react';
-import { Clock, MessageCircle, Trash2, ChevronDown, ChevronUp, Tag, TrendingUp, Star } from 'lucide-react';
+import { Clock, MessageCircle, Trash2, ChevronDown, ChevronUp, Tag, TrendingUp, Star, Sparkles, Pencil, History } from 'lucide-react';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
 
-import { KnowledgeStoreItem } from '@/types';
+import { KnowledgeStoreItem, KnowledgeStoreItemUpdate, KnowledgeStoreEdit, KnowledgeStoreSimilarItem } from '@/types';
+import { KNOWLEDGE_STORE_CATEGORIES } from '@/lib/constants';
 
 import CodeBlock from './CodeBlock';
+import AnswerRating from './AnswerRating';
 
 // Lazy load markdown component
 const ReactMarkdown = lazy(() => import('react-markdown'));
@@ -15,6 +17,8 @@ const ReactMarkdown = lazy(() => import('react-markdown'));
 interface KnowledgeStoreItemProps {
   item: KnowledgeStoreItem;
   onDelete?: (id: number) => void;
+  onUpdate?: (id: number, updates: KnowledgeStoreItemUpdate) => Promise<void>; // Rejects with the error to show
+  onRate?: (id: number, rating: number, comment: string | null) => Promise<void>;
   onSelect?: (item: KnowledgeStoreItem) => void;
   isSelected?: boolean;
   onSelectionChange?: (id: number, selected: boolean) => void;
@@ -24,6 +28,8 @@ interface KnowledgeStoreItemProps {
 const KnowledgeStoreItemComponent = memo(({ 
   item, 
   onDelete, 
+  onUpdate,
+  onRate,
   onSelect, 
   isSelected = false,
   onSelectionChange,
@@ -31,6 +37,15 @@ const KnowledgeStoreItemComponent = memo(({
 }: KnowledgeStoreItemProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showSimilar, setShowSimilar] = useState(false);
+  const [similarItems, setSimilarItems] = useState<KnowledgeStoreSimilarItem[] | null>(null);
+  const [similarError, setSimilarError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ question: '', answer: '', category: '', tags: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [history, setHistory] = useState<KnowledgeStoreEdit[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
   const formatDate = (date: Date) => {
     const now = new Date();
@@ -69,6 +84,91 @@ const KnowledgeStoreItemComponent = memo(({
     }
   };
 
+  const toggleSimilar = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const opening = !showSimilar;
+    setShowSimilar(opening);
+    if (!opening || similarItems !== null) return;
+
+    try {
+      setSimilarError(null);
+      const response = await fetch(`/api/knowledge-store/${item.id}/similar`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load similar questions');
+      }
+      setSimilarItems(data.data.map((match: KnowledgeStoreSimilarItem) => ({
+        ...match,
+        item: { ...match.item, created_at: new Date(match.item.created_at), updated_at: new Date(match.item.updated_at) }
+      })));
+    } catch (err) {
+      setSimilarError(err instanceof Error ? err.message : 'Failed to load similar questions');
+    }
+  };
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft({
+      question: item.question,
+      answer: item.answer,
+      category: item.category || '',
+      tags: (item.tags || []).join(', ')
+    });
+    setEditError(null);
+    setShowHistory(false);
+    setHistory(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!onUpdate) return;
+
+    setIsSaving(true);
+    setEditError(null);
+    try {
+      await onUpdate(item.id, {
+        question: draft.question,
+        answer: draft.answer,
+        category: draft.category || null,
+        tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+      });
+      setIsEditing(false);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to save changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleHistory = async () => {
+    const opening = !showHistory;
+    setShowHistory(opening);
+    if (!opening || history !== null) return;
+
+    try {
+      const response = await fetch(`/api/knowledge-store/${item.id}/history`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load edit history');
+      }
+      setHistory(data.data.map((edit: KnowledgeStoreEdit) => ({ ...edit, edited_at: new Date(edit.edited_at) })));
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to load edit history');
+      setShowHistory(false);
+    }
+  };
+
+  const restoreVersion = (edit: KnowledgeStoreEdit) => {
+    setDraft({
+      question: edit.question,
+      answer: edit.answer,
+      category: edit.category || '',
+      tags: (edit.tags || []).join(', ')
+    });
+  };
+
+  const isEdited = item.updated_at.getTime() - item.created_at.getTime() > 1000;
+
   const handleSelect = () => {
     if (onSelect) {
       onSelect(item);
@@ -82,6 +182,115 @@ const KnowledgeStoreItemComponent = memo(({
     }
   };
 
+  const inputClassName = 'w-full text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  if (isEditing) {
+    return (
+      <div className="border border-purple-300 dark:border-purple-600/60 rounded-2xl bg-white/80 dark:bg-gray-800/80 p-4 space-y-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Question</label>
+          <input
+            className={inputClassName}
+            value={draft.question}
+            onChange={e => setDraft(prev => ({ ...prev, question: e.target.value }))}
+            aria-label="Question"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Answer (Markdown)</label>
+          <textarea
+            className={`${inputClassName} font-mono`}
+            rows={12}
+            value={draft.answer}
+            onChange={e => setDraft(prev => ({ ...prev, answer: e.target.value }))}
+            aria-label="Answer"
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Category</label>
+            <select
+              className={inputClassName}
+              value={draft.category}
+              onChange={e => setDraft(prev => ({ ...prev, category: e.target.value }))}
+              aria-label="Category"
+            >
+              <option value="">None</option>
+              {KNOWLEDGE_STORE_CATEGORIES.map(category => (
+                <option key={category.value} value={category.value}>{category.label}</option>
+              ))}
+              {draft.category && !KNOWLEDGE_STORE_CATEGORIES.some(category => category.value === draft.category) && (
+                <option value={draft.category}>{draft.category}</option>
+              )}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Tags (comma separated)</label>
+            <input
+              className={inputClassName}
+              value={draft.tags}
+              onChange={e => setDraft(prev => ({ ...prev, tags: e.target.value }))}
+              aria-label="Tags"
+            />
+          </div>
+        </div>
+
+        {editError && <div className="text-sm text-red-600 dark:text-red-400">{editError}</div>}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <button
+            onClick={toggleHistory}
+            className="flex items-center gap-1.5 text-sm text-purple-600 dark:text-purple-400 hover:text-purple-800 dark:hover:text-purple-300 px-2.5 py-1 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 font-medium"
+          >
+            <History className="w-4 h-4" />
+            {showHistory ? 'Hide previous versions' : 'Previous versions'}
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.question.trim() || !draft.answer.trim()}
+              className="px-3 py-1.5 text-sm rounded-lg bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save changes'}
+            </button>
+          </div>
+        </div>
+
+        {showHistory && history !== null && (
+          history.length === 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">This entry has not been edited before.</div>
+          ) : (
+            <ul className="space-y-1">
+              {history.map(edit => (
+                <li key={edit.id} className="flex items-center justify-between gap-3 text-sm px-2.5 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700/40">
+                  <span className="min-w-0">
+                    <span className="block text-gray-800 dark:text-gray-200 truncate">{edit.question}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      Replaced {edit.edited_at.toLocaleString()}{edit.edited_by ? ` by ${edit.edited_by}` : ''}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => restoreVersion(edit)}
+                    className="flex-shrink-0 text-xs font-medium text-purple-600 dark:text-purple-400 hover:underline"
+                  >
+                    Load into form
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="border border-gray-200/50 dark:border-gray-700/50 rounded-2xl hover:bg-gradient-to-r hover:from-purple-50/50 hover:to-pink-50/50 dark:hover:from-purple-900/20 dark:hover:to-pink-900/20 transition-all duration-200 shadow-sm hover:shadow-md hover:shadow-purple-500/10 bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm">
       {/* Clickable main area */}
@@ -109,6 +318,12 @@ const KnowledgeStoreItemComponent = memo(({
                 <Clock className="w-4 h-4" />
                 <span>{formatDate(item.created_at)}</span>
 
+                {isEdited && (
+                  <span className="text-xs" title={item.updated_at.toLocaleString()}>
+                    · edited {formatDate(item.updated_at)}
+                  </span>
+                )}
+
                 {item.category && (
                   <span className="flex items-center gap-1 bg-gradient-to-r from-purple-100 to-pink-100 dark:from-purple-900/30 dark:to-pink-900/30 text-purple-700 dark:text-purple-300 px-2.5 py-1 rounded-full text-xs font-medium">
                     <Tag className="w-3 h-3" />
@@ -197,6 +412,15 @@ const KnowledgeStoreItemComponent = memo(({
                             </ReactMarkdown>
                           </Suspense>
                         </div>
+                        {onRate && (
+                          <div
+                            className="mt-3 pt-2 flex flex-wrap items-center justify-between gap-2 border-t border-purple-200/50 dark:border-purple-600/50"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <span className="text-xs text-gray-500 dark:text-gray-400">Was this answer helpful?</span>
+                            <AnswerRating onRate={(rating, comment) => onRate(item.id, rating, comment)} />
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -216,11 +440,54 @@ const KnowledgeStoreItemComponent = memo(({
                   ))}
                 </div>
               )}
+
+              <div className="mt-2">
+                <button
+                  onClick={toggleSimilar}
+                  className="flex items-center gap-1.5 text-sm text-purple-600 dark:text-purple-400 hover:text-purple-800 dark:hover:text-purple-300 transition-all duration-200 px-2.5 py-1 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 font-medium"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  {showSimilar ? 'Hide similar questions' : 'Similar questions'}
+                </button>
+
+                {showSimilar && (
+                  <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+                    {similarError && (
+                      <div className="text-sm text-red-600 dark:text-red-400">{similarError}</div>
+                    )}
+                    {!similarError && similarItems === null && (
+                      <div className="text-sm text-gray-500 dark:text-gray-400">Searching...</div>
+                    )}
+                    {similarItems?.length === 0 && (
+                      <div className="text-sm text-gray-500 dark:text-gray-400">No similar questions found.</div>
+                    )}
+                    {similarItems?.map(match => (
+                      <button
+                        key={match.item.id}
+                        onClick={() => onSelect?.(match.item)}
+                        className="w-full flex items-center justify-between gap-3 text-left text-sm px-2.5 py-1.5 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20"
+                      >
+                        <span className="text-gray-700 dark:text-gray-300 truncate">{match.item.question}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{Math.round(match.similarity * 100)}%</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
 
           {/* Delete button - prevent event propagation */}
           <div className="flex items-center gap-2 ml-4">
+            {onUpdate && (
+              <button
+                onClick={startEditing}
+                className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 transition-all duration-200 hover:scale-110 active:scale-95 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20"
+                title="Edit entry"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
             {onDelete && (
               <button
                 onClick={handleDelete}
@@ -1,11 +1,13 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Database, Search, X, Filter, RefreshCw, AlertCircle, Trash2, CheckSquare, Square } from 'lucide-react';
+import { Database, Search, X, Filter, RefreshCw, AlertCircle, Trash2, CheckSquare, Square, ArrowDownUp } from 'lucide-react';
 
-import { KnowledgeStoreItem, KnowledgeStoreQueryResult, KnowledgeStoreFilters } from '@/types';
+import { KnowledgeStoreItem, KnowledgeStoreItemUpdate, KnowledgeStoreQueryResult, KnowledgeStoreFilters } from '@/types';
+import { KNOWLEDGE_STORE_CATEGORIES } from '@/lib/constants';
 
 import KnowledgeStoreItemComponent from './KnowledgeStoreItem';
+import KnowledgeStoreTransfer from './KnowledgeStoreTransfer';
 
 interface KnowledgeStorePanelProps {
   isOpen: boolean;
@@ -26,6 +28,7 @@ export default function KnowledgeStorePanel({ isOpen, onClose, onSelectItem }: K
     dateRange: { start: null, end: null },
   });
   const [showFilters, setShowFilters] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
   const [searchInput, setSearchInput] = useState('');
   const [selectedItems, setSelectedItems] = useState<Set<number>>(new Set());
   const [showBulkActions, setShowBulkActions] = useState(false);
@@ -132,6 +135,48 @@ export default function KnowledgeStorePanel({ isOpen, onClose, onSelectItem }: K
     }
   };
 
+  // Errors are rethrown so the item can show them next to its edit form
+  const handleUpdateItem = async (id: number, updates: KnowledgeStoreItemUpdate) => {
+    const response = await fetch(`/api/knowledge-store/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to update knowledge store item');
+    }
+
+    const updated: KnowledgeStoreItem = {
+      ...data.data,
+      created_at: new Date(data.data.created_at),
+      updated_at: new Date(data.data.updated_at),
+    };
+    setItems(prev => prev.map(item => (item.id === id ? updated : item)));
+  };
+
+  // Ratings recompute the entry's quality_score, which search ranking uses
+  const handleRateItem = async (id: number, rating: number, comment: string | null) => {
+    const response = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ qa_id: id, rating, comment }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to save rating');
+    }
+
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, quality_score: data.data.quality_score } : item)));
+  };
+
   const handleBulkDelete = async () => {
     if (selectedItems.size === 0) return;
 
@@ -313,6 +358,17 @@ export default function KnowledgeStorePanel({ isOpen, onClose, onSelectItem }: K
                 >
                   <Filter className="w-4 h-4" />
                 </button>
+                <button
+                  onClick={() => setShowTransfer(!showTransfer)}
+                  className={`p-2 transition-all duration-200 hover:scale-110 active:scale-95 rounded-lg ${
+                    showTransfer
+                      ? 'text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/30'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-purple-600 dark:hover:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20'
+                  }`}
+                  title="Import / Export"
+                >
+                  <ArrowDownUp className="w-4 h-4" />
+                </button>
                 <button
                   onClick={onClose}
                   className="p-2 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-all duration-200 hover:scale-110 active:scale-95 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
@@ -392,15 +448,21 @@ export default function KnowledgeStorePanel({ isOpen, onClose, onSelectItem }: K
                       className="w-full text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100 rounded px-2 py-1"
                     >
                       <option value="">All categories</option>
-                      <option value="general">General</option>
-                      <option value="scripting">Scripting</option>
-                      <option value="configuration">Configuration</option>
-                      <option value="troubleshooting">Troubleshooting</option>
+                      {KNOWLEDGE_STORE_CATEGORIES.map(category => (
+                        <option key={category.value} value={category.value}>{category.label}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
               </div>
             )}
+
+            {/* Import / Export */}
+            {showTransfer && (
+              <div className="mt-3 p-3 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/30 dark:to-pink-900/30 rounded-xl border border-purple-200/50 dark:border-purple-700/50 animate-in slide-in-from-top-2 fade-in-0 duration-200">
+                <KnowledgeStoreTransfer category={filters.category} onImported={handleRefresh} />
+              </div>
+            )}
           </div>
 
           {/* Content */}
@@ -430,6 +492,8 @@ export default function KnowledgeStorePanel({ isOpen, onClose, onSelectItem }: K
                   key={item.id}
                   item={item}
                   onDelete={handleDeleteItem}
+                  onUpdate={handleUpdateItem}
+                  onRate={handleRateItem}
                   onSelect={onSelectItem}
                   isSelected={itemSelectionStates.get(item.id) || false}
                   onSelectionChange={handleSelectionChange}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+
+import type {
+  KnowledgeStoreExportFormat,
+  KnowledgeStoreImportReport,
+  KnowledgeStoreImportRowStatus
+} from '@/types';
+
+interface KnowledgeStoreTransferProps {
+  category: string;
+  onImported: () => void;
+}
+
+const EXPORT_FORMATS: { value: KnowledgeStoreExportFormat; label: string }[] = [
+  { value: 'jsonl', label: 'JSON Lines (.jsonl)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'markdown', label: 'Markdown files (.zip)' },
+];
+
+const STATUS_STYLES: Record<KnowledgeStoreImportRowStatus, string> = {
+  created: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  valid: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  duplicate: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  invalid: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const buttonClassName = 'flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * Export the knowledge store to a file, and import one back: a dry run reports what would
+ * happen to every row before anything is written.
+ */
+export default function KnowledgeStoreTransfer({ category, onImported }: KnowledgeStoreTransferProps) {
+  const [format, setFormat] = useState<KnowledgeStoreExportFormat>('jsonl');
+  const [includeEmbeddings, setIncludeEmbeddings] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [report, setReport] = useState<KnowledgeStoreImportReport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ format, include_embeddings: String(includeEmbeddings) });
+      if (category && category !== 'all') {
+        params.append('category', category);
+      }
+
+      const response = await fetch(`/api/knowledge-store/export?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export knowledge store');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `knowledge-store.${format === 'markdown' ? 'zip' : format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.style.display = 'none';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 100);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export knowledge store');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const runImport = async (file: File, dryRun: boolean) => {
+    setImporting(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dry_run', String(dryRun));
+
+      const response = await fetch('/api/knowledge-store/import', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to import knowledge store file');
+      }
+
+      setReport(data.data);
+      if (!dryRun && data.data.created > 0) {
+        onImported();
+      }
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to import knowledge store file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setImportFile(file);
+    runImport(file, true);
+  };
+
+  const resetImport = () => {
+    setImportFile(null);
+    setReport(null);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Export {category && category !== 'all' ? `"${category}" entries` : 'all entries'}
+        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as KnowledgeStoreExportFormat)}
+            aria-label="Export format"
+            className="text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100 rounded px-2 py-1"
+          >
+            {EXPORT_FORMATS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={includeEmbeddings}
+              onChange={(e) => setIncludeEmbeddings(e.target.checked)}
+            />
+            Include embeddings
+          </label>
+          <button onClick={handleExport} disabled={exporting} className={buttonClassName}>
+            <Download className="w-3.5 h-3.5" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Import</span>
+        {!importFile ? (
+          <label className={`${buttonClassName} w-fit cursor-pointer`}>
+            <Upload className="w-3.5 h-3.5" />
+            Choose file
+            <input
+              type="file"
+              accept=".jsonl,.ndjson,.csv,.zip"
+              onChange={handleFileChange}
+              className="hidden"
+              aria-label="Import file"
+            />
+          </label>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-medium truncate max-w-[16rem]">{importFile.name}</span>
+            {importing && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {report?.dry_run ? 'Importing...' : 'Checking entries...'}
+              </span>
+            )}
+            {report?.dry_run && report.valid > 0 && (
+              <button onClick={() => runImport(importFile, false)} disabled={importing} className={buttonClassName}>
+                <Upload className="w-3.5 h-3.5" />
+                Import {report.valid} {report.valid === 1 ? 'entry' : 'entries'}
+              </button>
+            )}
+            <button
+              onClick={resetImport}
+              disabled={importing}
+              className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded"
+              title="Clear import"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          JSON Lines, CSV or a zip of Markdown files as exported here. Questions already in the store are skipped.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {report && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {report.dry_run
+              ? `Dry run: ${report.valid} of ${report.total} would be imported`
+              : `Imported ${report.created} of ${report.total}`}
+            {report.duplicates > 0 && ` · ${report.duplicates} duplicate${report.duplicates === 1 ? '' : 's'}`}
+            {report.invalid > 0 && ` · ${report.invalid} invalid`}
+            {report.failed > 0 && ` · ${report.failed} failed`}
+          </p>
+          <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 dark:bg-gray-700/50 text-gray-600 dark:text-gray-400">
+                <tr>
+                  <th className="px-2 py-1 text-left">Row</th>
+                  <th className="px-2 py-1 text-left">Status</th>
+                  <th className="px-2 py-1 text-left">Question / details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {report.rows.map(row => (
+                  <tr key={`${row.row}-${row.source || ''}`} className="align-top text-gray-700 dark:text-gray-300">
+                    <td className="px-2 py-1 whitespace-nowrap" title={row.source}>{row.row}</td>
+                    <td className="px-2 py-1">
+                      <span className={`px-1.5 py-0.5 rounded-full font-medium ${STATUS_STYLES[row.status]}`}>
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="px-2 py-1">
+                      {row.question && <div className="line-clamp-1">{row.question}</div>}
+                      {row.message && <div className="text-red-600 dark:text-red-400">{row.message}</div>}
+                      {row.duplicate_of && (
+                        <div className="text-amber-700 dark:text-amber-400">
+                          {Math.round(row.duplicate_of.similarity * 100)}% match with{' '}
+                          {row.duplicate_of.id !== null ? `#${row.duplicate_of.id}` : 'an earlier row'}: {row.duplicate_of.question}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,12 +9,14 @@ interface ProcessingOverlayProps {
   isVisible: boolean;
   isStreaming?: boolean;
   streamingStatus?: StreamingStatus;
+  retryAfterSeconds?: number | null; // Set while queued behind a provider rate limit
 }
 
 export default function ProcessingOverlay({ 
   isVisible, 
   isStreaming = false, 
-  streamingStatus = StreamingStatus.CONNECTING 
+  streamingStatus = StreamingStatus.CONNECTING,
+  retryAfterSeconds = null
 }: ProcessingOverlayProps) {
   if (!isVisible) return null;
 
@@ -27,6 +29,12 @@ export default function ProcessingOverlay({
         return 'Connecting to AI service';
       case StreamingStatus.STREAMING:
         return 'AI is responding';
+      case StreamingStatus.RECONNECTING:
+        return 'Connection lost - resuming where we left off';
+      case StreamingStatus.QUEUED:
+        return retryAfterSeconds
+          ? `The AI provider is busy - retrying in ${retryAfterSeconds}s`
+          : 'The AI provider is busy - your question will be sent shortly';
       default:
         return 'Processing your request';
     }
@@ -40,6 +48,10 @@ export default function ProcessingOverlay({
         return 'Establishing Connection';
       case StreamingStatus.STREAMING:
         return 'Streaming Response';
+      case StreamingStatus.RECONNECTING:
+        return 'Reconnecting';
+      case StreamingStatus.QUEUED:
+        return 'Waiting in Queue';
       default:
         return 'Processing Request';
     }
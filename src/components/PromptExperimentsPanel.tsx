@@ -0,0 +1,276 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { FlaskConical, Play, Square, Trash2, Plus } from 'lucide-react';
+
+import type { PromptExperiment, PromptExperimentStatus } from '@/types/index';
+
+interface PromptExperimentsPanelProps {
+  agentName: string;
+  promptType: string;
+  currentPrompt: string;
+}
+
+const STATUS_STYLES: Record<PromptExperimentStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  running: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  stopped: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+};
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatWinRate = (winRate: number | null): string => (winRate === null ? '–' : `${Math.round(winRate * 100)}%`);
+
+/**
+ * A/B experiments for one agent prompt: create a two-variant split, start/stop it and compare win rates.
+ */
+export default function PromptExperimentsPanel({ agentName, promptType, currentPrompt }: PromptExperimentsPanelProps) {
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [variantA, setVariantA] = useState('');
+  const [variantB, setVariantB] = useState('');
+  const [weightA, setWeightA] = useState(50);
+
+  const fetchExperiments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/prompt-experiments?agent_name=${encodeURIComponent(agentName)}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch experiments');
+      }
+      setExperiments(data.data.filter((experiment: PromptExperiment) => experiment.prompt_type === promptType));
+    } catch (err) {
+      console.error('Failed to fetch prompt experiments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load experiments');
+    }
+  }, [agentName, promptType]);
+
+  useEffect(() => {
+    setIsCreating(false);
+    setError(null);
+    fetchExperiments();
+  }, [fetchExperiments]);
+
+  const startCreating = () => {
+    setName('');
+    // Variant A is the prompt in use today; B starts as a copy to edit
+    setVariantA(currentPrompt);
+    setVariantB(currentPrompt);
+    setWeightA(50);
+    setIsCreating(true);
+  };
+
+  const request = async (url: string, init: RequestInit, failureMessage: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || failureMessage);
+      }
+      await fetchExperiments();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failureMessage);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await request('/api/prompt-experiments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name,
+        agent_name: agentName,
+        prompt_type: promptType,
+        variants: [
+          { label: 'A', prompt_content: variantA, weight: weightA },
+          { label: 'B', prompt_content: variantB, weight: 100 - weightA },
+        ],
+      }),
+    }, 'Failed to create experiment');
+
+    if (created) {
+      setIsCreating(false);
+    }
+  };
+
+  const setStatus = (experiment: PromptExperiment, status: 'running' | 'stopped') =>
+    request(`/api/prompt-experiments/${experiment.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status }),
+    }, 'Failed to update experiment');
+
+  const handleDelete = (experiment: PromptExperiment) => {
+    if (!window.confirm(`Delete experiment "${experiment.name}" and its results?`)) return;
+    request(`/api/prompt-experiments/${experiment.id}`, { method: 'DELETE' }, 'Failed to delete experiment');
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <FlaskConical className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          <h3 className="font-medium text-gray-900 dark:text-gray-100">A/B experiments</h3>
+        </div>
+        {!isCreating && (
+          <button
+            onClick={startCreating}
+            className="px-3 py-1.5 text-sm rounded-lg text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-blue-900/20 flex items-center space-x-1"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New experiment</span>
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {isCreating && (
+        <div className="mb-4 p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/30 space-y-3">
+          <input
+            className={inputClassName}
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Experiment name, e.g. Shorter coder instructions"
+            aria-label="Experiment name"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Variant A ({weightA}%)</label>
+              <textarea
+                className={`${inputClassName} font-mono`}
+                rows={10}
+                value={variantA}
+                onChange={e => setVariantA(e.target.value)}
+                aria-label="Variant A prompt"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Variant B ({100 - weightA}%)</label>
+              <textarea
+                className={`${inputClassName} font-mono`}
+                rows={10}
+                value={variantB}
+                onChange={e => setVariantB(e.target.value)}
+                aria-label="Variant B prompt"
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-600 dark:text-gray-400">Traffic split</span>
+            <input
+              type="range"
+              min={5}
+              max={95}
+              step={5}
+              value={weightA}
+              onChange={e => setWeightA(parseInt(e.target.value, 10))}
+              className="flex-1"
+              aria-label="Share of traffic for variant A"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsCreating(false)}
+              className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={busy || !name.trim() || !variantA.trim() || !variantB.trim()}
+              className="px-3 py-1.5 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              Create draft
+            </button>
+          </div>
+        </div>
+      )}
+
+      {experiments.length === 0 && !isCreating ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No experiments for this prompt yet.</div>
+      ) : (
+        <ul className="space-y-2">
+          {experiments.map(experiment => (
+            <li key={experiment.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800">
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{experiment.name}</span>
+                  <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[experiment.status]}`}>{experiment.status}</span>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  {experiment.status === 'running' ? (
+                    <button
+                      onClick={() => setStatus(experiment, 'stopped')}
+                      disabled={busy}
+                      className="p-2 rounded-lg text-gray-600 hover:text-amber-600 dark:text-gray-400 disabled:opacity-50"
+                      title="Stop experiment"
+                    >
+                      <Square className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setStatus(experiment, 'running')}
+                      disabled={busy}
+                      className="p-2 rounded-lg text-gray-600 hover:text-green-600 dark:text-gray-400 disabled:opacity-50"
+                      title="Start experiment"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(experiment)}
+                    disabled={busy}
+                    className="p-2 rounded-lg text-gray-600 hover:text-red-600 dark:text-gray-400 disabled:opacity-50"
+                    title="Delete experiment"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <table className="w-full text-xs text-gray-600 dark:text-gray-400">
+                <thead>
+                  <tr className="text-left">
+                    <th className="font-medium py-1">Variant</th>
+                    <th className="font-medium py-1 text-right">Share</th>
+                    <th className="font-medium py-1 text-right">Requests</th>
+                    <th className="font-medium py-1 text-right">👍 / 👎</th>
+                    <th className="font-medium py-1 text-right">Win rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {experiment.variants.map(variant => {
+                    const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+                    return (
+                      <tr key={variant.id} className="border-t border-gray-100 dark:border-gray-700">
+                        <td className="py-1 font-medium text-gray-900 dark:text-gray-100">{variant.label}</td>
+                        <td className="py-1 text-right">{Math.round((variant.weight / totalWeight) * 100)}%</td>
+                        <td className="py-1 text-right">{variant.stats.requests}</td>
+                        <td className="py-1 text-right">{variant.stats.thumbs_up} / {variant.stats.thumbs_down}</td>
+                        <td className="py-1 text-right">{formatWinRate(variant.stats.win_rate)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
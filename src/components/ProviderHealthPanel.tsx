@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Activity, RefreshCw, ChevronDown } from 'lucide-react';
+
+import type { ProviderHealth, ProviderHealthStatus } from '@/types/index';
+
+interface ProviderHealthPanelProps {
+  isAuthenticated: boolean;
+}
+
+const STATUS_STYLES: Record<ProviderHealthStatus, { dot: string; label: string }> = {
+  healthy: { dot: 'bg-green-500', label: 'Operational' },
+  degraded: { dot: 'bg-amber-500', label: 'Degraded' },
+  down: { dot: 'bg-red-500', label: 'Unavailable' },
+  unknown: { dot: 'bg-gray-400', label: 'Not checked yet' },
+};
+
+const formatRelative = (value: Date | string | null): string => {
+  if (!value) return 'never';
+  const date = new Date(value);
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60));
+
+  if (diffMinutes < 1) return 'just now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  if (diffMinutes < 24 * 60) return `${Math.floor(diffMinutes / 60)}h ago`;
+  return date.toLocaleDateString();
+};
+
+export default function ProviderHealthPanel({ isAuthenticated }: ProviderHealthPanelProps) {
+  const [health, setHealth] = useState<ProviderHealth[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedProvider, setExpandedProvider] = useState<number | null>(null);
+  const [canRefresh, setCanRefresh] = useState(false);
+
+  const fetchHealth = useCallback(async (refresh: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/providers/health${refresh ? '?refresh=true' : ''}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch provider health');
+      }
+      setHealth(data.data);
+      setCanRefresh(data.can_refresh === true);
+    } catch (err) {
+      console.error('Failed to fetch provider health:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load provider health');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchHealth(false);
+    }
+  }, [isAuthenticated, fetchHealth]);
+
+  return (
+    <div className="p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50/50 dark:bg-gray-700/30">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-3">
+          <Activity className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          <div>
+            <label className="text-gray-900 dark:text-gray-100 font-medium">Provider Status</label>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Endpoint health and recent failures</p>
+          </div>
+        </div>
+        {canRefresh && (
+          <button
+            onClick={() => fetchHealth(true)}
+            disabled={!isAuthenticated || loading}
+            className="p-2 text-gray-600 hover:text-blue-700 dark:text-gray-400 dark:hover:text-blue-300 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Check providers now"
+          >
+            <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {health.length === 0 && !loading && !error && (
+        <div className="text-gray-500 dark:text-gray-400 text-sm">No active providers to check.</div>
+      )}
+
+      <ul className="space-y-2">
+        {health.map(item => {
+          const style = STATUS_STYLES[item.status];
+          const isExpanded = expandedProvider === item.provider_id;
+          const hasDetails = item.recent_failures.length > 0 || item.warnings.length > 0;
+
+          return (
+            <li key={item.provider_id} className="rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600">
+              <button
+                onClick={() => setExpandedProvider(isExpanded ? null : item.provider_id)}
+                disabled={!hasDetails}
+                aria-expanded={isExpanded}
+                className="w-full px-3 py-2 flex items-center justify-between text-left disabled:cursor-default"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${style.dot}`} aria-hidden="true" />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{item.display_name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {style.label}
+                      {item.latency_ms !== null && ` · ${item.latency_ms} ms`}
+                      {` · last success ${formatRelative(item.last_success_at)}`}
+                    </div>
+                  </div>
+                </div>
+                {hasDetails && (
+                  <ChevronDown className={`w-4 h-4 text-gray-500 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                )}
+              </button>
+
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-1 text-xs">
+                  {item.warnings.map(warning => (
+                    <div key={warning} className="text-amber-700 dark:text-amber-400">{warning}</div>
+                  ))}
+                  {item.recent_failures.map(failure => (
+                    <div key={`${failure.at}-${failure.error}`} className="flex justify-between gap-3 text-gray-600 dark:text-gray-400">
+                      <span className="truncate" title={failure.error}>{failure.error}</span>
+                      <span className="flex-shrink-0">{formatRelative(failure.at)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Settings2, Pencil, Trash2, Power, Save, X } from 'lucide-react';
+
+import { useProviders } from '@/contexts/ProviderContext';
+import type { Provider } from '@/types/index';
+
+interface ProviderManagementPanelProps {
+  isAuthenticated: boolean;
+}
+
+interface ProviderDraft {
+  display_name: string;
+  endpoint: string;
+  priority: string;
+  rate_limit_per_minute: string;
+}
+
+// Deletion that was refused because models still use the provider
+interface PendingDelete {
+  provider: Provider;
+  modelCount: number;
+  reassignTo: string;
+}
+
+const toDraft = (provider: Provider): ProviderDraft => ({
+  display_name: provider.display_name,
+  endpoint: provider.endpoint,
+  priority: String(provider.priority),
+  rate_limit_per_minute: provider.rate_limit_per_minute ? String(provider.rate_limit_per_minute) : '',
+});
+
+const inputClassName = 'w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Admin-only provider management. Hidden for members - the list endpoint answers 403.
+ */
+export default function ProviderManagementPanel({ isAuthenticated }: ProviderManagementPanelProps) {
+  const { refreshProviders } = useProviders();
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ProviderDraft | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const fetchProviders = useCallback(async () => {
+    try {
+      const response = await fetch('/api/providers?include_inactive=true', {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        setIsAdmin(false);
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch providers');
+      }
+      setIsAdmin(true);
+      setProviders(data.data);
+    } catch (err) {
+      console.error('Failed to fetch providers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load providers');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchProviders();
+    }
+  }, [isAuthenticated, fetchProviders]);
+
+  // Reload the list and the provider selector after any change
+  const afterChange = useCallback(async () => {
+    await fetchProviders();
+    await refreshProviders();
+  }, [fetchProviders, refreshProviders]);
+
+  const startEditing = (provider: Provider) => {
+    setEditingId(provider.id);
+    setDraft(toDraft(provider));
+    setError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const saveProvider = async (provider: Provider) => {
+    if (!draft) return;
+
+    const priority = parseInt(draft.priority, 10);
+    const rateLimit = draft.rate_limit_per_minute.trim() === '' ? null : parseInt(draft.rate_limit_per_minute, 10);
+
+    if (isNaN(priority)) {
+      setError('Priority must be a whole number');
+      return;
+    }
+    if (rateLimit !== null && (isNaN(rateLimit) || rateLimit <= 0)) {
+      setError('Rate limit must be a positive whole number, or empty for no limit');
+      return;
+    }
+
+    setBusyId(provider.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/providers/${provider.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          display_name: draft.display_name,
+          endpoint: draft.endpoint,
+          priority,
+          rate_limit_per_minute: rateLimit,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save provider');
+      }
+      cancelEditing();
+      await afterChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save provider');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleProvider = async (provider: Provider) => {
+    setBusyId(provider.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/providers/${provider.id}/toggle`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update provider');
+      }
+      await afterChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update provider');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteProvider = async (provider: Provider, reassignTo?: string) => {
+    if (!reassignTo && !window.confirm(`Delete provider "${provider.display_name}"?`)) {
+      return;
+    }
+
+    setBusyId(provider.id);
+    setError(null);
+    try {
+      const query = reassignTo ? `?reassign_to=${encodeURIComponent(reassignTo)}` : '';
+      const response = await fetch(`/api/providers/${provider.id}${query}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (response.status === 409 && data.model_count) {
+        // Models still use this provider - ask where to move them
+        const fallback = providers.find(p => p.id !== provider.id);
+        setPendingDelete({ provider, modelCount: data.model_count, reassignTo: fallback ? String(fallback.id) : '' });
+        return;
+      }
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete provider');
+      }
+      setPendingDelete(null);
+      await afterChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete provider');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50/50 dark:bg-gray-700/30">
+      <div className="flex items-center space-x-3 mb-3">
+        <Settings2 className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        <div>
+          <label className="text-gray-900 dark:text-gray-100 font-medium">Manage Providers</label>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Endpoints, failover priority and rate limits (admin only)</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      <ul className="space-y-2">
+        {providers.map(provider => {
+          const isEditing = editingId === provider.id && draft !== null;
+          const isBusy = busyId === provider.id;
+          const isPendingDelete = pendingDelete?.provider.id === provider.id;
+
+          return (
+            <li key={provider.id} className="p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600">
+              {isEditing ? (
+                <div className="space-y-2">
+                  <input
+                    className={inputClassName}
+                    value={draft.display_name}
+                    onChange={e => setDraft({ ...draft, display_name: e.target.value })}
+                    placeholder="Display name"
+                    aria-label="Display name"
+                  />
+                  <input
+                    className={inputClassName}
+                    value={draft.endpoint}
+                    onChange={e => setDraft({ ...draft, endpoint: e.target.value })}
+                    placeholder="Webhook endpoint"
+                    aria-label="Endpoint"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      className={inputClassName}
+                      type="number"
+                      value={draft.priority}
+                      onChange={e => setDraft({ ...draft, priority: e.target.value })}
+                      placeholder="Priority"
+                      aria-label="Priority"
+                    />
+                    <input
+                      className={inputClassName}
+                      type="number"
+                      min={1}
+                      value={draft.rate_limit_per_minute}
+                      onChange={e => setDraft({ ...draft, rate_limit_per_minute: e.target.value })}
+                      placeholder="Requests/min (no limit)"
+                      aria-label="Rate limit per minute"
+                    />
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={cancelEditing}
+                      className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center space-x-1"
+                    >
+                      <X className="w-4 h-4" />
+                      <span>Cancel</span>
+                    </button>
+                    <button
+                      onClick={() => saveProvider(provider)}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <Save className="w-4 h-4" />
+                      <span>Save</span>
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {provider.display_name}
+                      {!provider.is_active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={provider.endpoint}>
+                      {provider.endpoint}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Priority {provider.priority} · {provider.rate_limit_per_minute ? `${provider.rate_limit_per_minute} req/min` : 'no rate limit'}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button
+                      onClick={() => toggleProvider(provider)}
+                      disabled={isBusy}
+                      className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${provider.is_active ? 'text-green-600 hover:text-green-700' : 'text-gray-400 hover:text-gray-600'}`}
+                      title={provider.is_active ? 'Deactivate provider' : 'Activate provider'}
+                    >
+                      <Power className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => startEditing(provider)}
+                      disabled={isBusy}
+                      className="p-2 rounded-lg text-gray-600 hover:text-blue-700 dark:text-gray-400 dark:hover:text-blue-300 transition-colors disabled:opacity-50"
+                      title="Edit provider"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteProvider(provider)}
+                      disabled={isBusy}
+                      className="p-2 rounded-lg text-gray-600 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                      title="Delete provider"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {isPendingDelete && pendingDelete && (
+                <div className="mt-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 text-sm text-amber-800 dark:text-amber-200 space-y-2">
+                  <div>
+                    {pendingDelete.modelCount} AI {pendingDelete.modelCount === 1 ? 'model uses' : 'models use'} this provider.
+                    Move {pendingDelete.modelCount === 1 ? 'it' : 'them'} to another provider before deleting.
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      className={inputClassName}
+                      value={pendingDelete.reassignTo}
+                      onChange={e => setPendingDelete({ ...pendingDelete, reassignTo: e.target.value })}
+                      aria-label="Move models to"
+                    >
+                      {providers.filter(p => p.id !== provider.id).map(p => (
+                        <option key={p.id} value={p.id}>{p.display_name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => deleteProvider(provider, pendingDelete.reassignTo)}
+                      disabled={isBusy || !pendingDelete.reassignTo}
+                      className="px-3 py-2 text-sm rounded-lg bg-red-600 hover:bg-red-700 text-white whitespace-nowrap disabled:opacity-50"
+                    >
+                      Move &amp; delete
+                    </button>
+                    <button
+                      onClick={() => setPendingDelete(null)}
+                      className="px-3 py-2 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
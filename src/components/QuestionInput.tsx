@@ -1,7 +1,10 @@
 'use client';
 
-import React, { forwardRef, useEffect } from 'react';
-import { Pen } from 'lucide-react';
+import React, { forwardRef, useEffect, useState } from 'react';
+import { Pen, Sparkles, X } from 'lucide-react';
+
+import { useSimilarQuestions } from '@/hooks/useSimilarQuestions';
+import type { KnowledgeStoreItem } from '@/types';
 
 interface QuestionInputProps {
   value: string;
@@ -11,10 +14,16 @@ interface QuestionInputProps {
   disabled: boolean;
   isLoadedFromHistory: boolean;
   onClearHistory: () => void;
+  onSelectSuggestion?: (item: KnowledgeStoreItem) => void; // Enables knowledge store suggestions while typing
 }
 
 const QuestionInput = forwardRef<HTMLTextAreaElement, QuestionInputProps>(
-  ({ value, onChange, onKeyDown, placeholder, disabled, isLoadedFromHistory, onClearHistory }, ref) => {
+  ({ value, onChange, onKeyDown, placeholder, disabled, isLoadedFromHistory, onClearHistory, onSelectSuggestion }, ref) => {
+    const [dismissedSuggestions, setDismissedSuggestions] = useState(false);
+    const { suggestions } = useSimilarQuestions(
+      value,
+      Boolean(onSelectSuggestion) && !disabled && !isLoadedFromHistory && !dismissedSuggestions
+    );
 
     // Auto-resize textarea based on content
     useEffect(() => {
@@ -41,6 +50,10 @@ const QuestionInput = forwardRef<HTMLTextAreaElement, QuestionInputProps>(
           value={value}
           onChange={(e) => {
             onChange(e.target.value);
+            // Dismissing only lasts until the question is rewritten from scratch
+            if (!e.target.value.trim()) {
+              setDismissedSuggestions(false);
+            }
             // Clear history indicator when user starts typing a new question
             if (isLoadedFromHistory) {
               onClearHistory();
@@ -69,6 +82,41 @@ const QuestionInput = forwardRef<HTMLTextAreaElement, QuestionInputProps>(
           disabled={disabled}
 
         />
+
+        {onSelectSuggestion && suggestions.length > 0 && (
+          <div className="mt-2 p-3 rounded-xl border border-purple-200/70 dark:border-purple-700/50 bg-purple-50/60 dark:bg-purple-900/20">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-1.5 text-sm font-medium text-purple-700 dark:text-purple-300">
+                <Sparkles className="w-4 h-4" />
+                Similar answers already in the Knowledge Store
+              </div>
+              <button
+                type="button"
+                onClick={() => setDismissedSuggestions(true)}
+                className="p-1 rounded-lg text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                aria-label="Hide suggestions"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <ul className="space-y-1">
+              {suggestions.map(({ item, similarity }) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectSuggestion(item)}
+                    className="w-full flex items-center justify-between gap-3 text-left text-sm px-2.5 py-1.5 rounded-lg hover:bg-purple-100 dark:hover:bg-purple-800/30 transition-colors"
+                  >
+                    <span className="text-gray-800 dark:text-gray-200 truncate">{item.question}</span>
+                    <span className="flex-shrink-0 text-xs text-purple-600 dark:text-purple-400">
+                      {Math.round(similarity * 100)}% match · Open answer
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     );
   }
@@ -1,14 +1,16 @@
 'use client';
 
 import React, { useState, memo } from 'react';
-import { History, Database, Check, Download, BotMessageSquare } from 'lucide-react';
+import { History, Database, Check, Download, BotMessageSquare, Info } from 'lucide-react';
 import axios from 'axios';
 
-import { ServiceNowResponse, StreamingStatus, ExportOptions } from '@/types';
+import { ServiceNowResponse, StreamingStatus, ExportOptions, AgentActivity } from '@/types';
 import { exportAnswer } from '@/lib/export-utils';
 
 import StreamingMarkdownRenderer from './StreamingMarkdownRenderer';
 import ExportModal from './ExportModal';
+import AgentActivityTimeline from './AgentActivityTimeline';
+import AnswerRating from './AnswerRating';
 
 interface ResultsSectionProps {
   response: ServiceNowResponse | null;
@@ -19,6 +21,8 @@ interface ResultsSectionProps {
   streamingContent?: string;
   isStreaming?: boolean;
   streamingStatus?: StreamingStatus;
+  agentActivity?: AgentActivity[];
+  notice?: string | null; // Informational stream notice, e.g. the answer came from a fallback provider
 }
 
 // Custom comparison function for React.memo
@@ -29,6 +33,8 @@ const areResultsEqual = (prevProps: ResultsSectionProps, nextProps: ResultsSecti
   // streamingContent changes won't cause unnecessary cascading re-renders
   if (prevProps.response?.message !== nextProps.response?.message) return false;
   if (prevProps.response?.type !== nextProps.response?.type) return false;
+  if (prevProps.response?.sessionkey !== nextProps.response?.sessionkey) return false;
+  if (prevProps.response?.knowledgeStoreId !== nextProps.response?.knowledgeStoreId) return false;
   if (prevProps.error !== nextProps.error) return false;
   if (prevProps.isLoadedFromHistory !== nextProps.isLoadedFromHistory) return false;
   if (prevProps.selectedType !== nextProps.selectedType) return false;
@@ -36,9 +42,14 @@ const areResultsEqual = (prevProps: ResultsSectionProps, nextProps: ResultsSecti
   if (prevProps.streamingContent !== nextProps.streamingContent) return false;
   if (prevProps.isStreaming !== nextProps.isStreaming) return false;
   if (prevProps.streamingStatus !== nextProps.streamingStatus) return false;
+  if (prevProps.agentActivity !== nextProps.agentActivity) return false;
+  if (prevProps.notice !== nextProps.notice) return false;
   return true;
 };
 
+// Stable default so memo comparison doesn't see a new array on every render
+const EMPTY_AGENT_ACTIVITY: AgentActivity[] = [];
+
 const ResultsSection = memo(function ResultsSection({
   response,
   error,
@@ -47,7 +58,9 @@ const ResultsSection = memo(function ResultsSection({
   question,
   streamingContent = '',
   isStreaming = false,
-  streamingStatus = StreamingStatus.CONNECTING
+  streamingStatus = StreamingStatus.CONNECTING,
+  agentActivity = EMPTY_AGENT_ACTIVITY,
+  notice = null
 }: ResultsSectionProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
@@ -59,6 +72,16 @@ const ResultsSection = memo(function ResultsSection({
   const [exportError, setExportError] = useState<string | null>(null);
   const [exportSuccess, setExportSuccess] = useState(false);
 
+  // Answers opened from the knowledge store rate the stored entry; generated answers are rated by
+  // session key, which also feeds prompt experiment win rates
+  const sessionKey = response?.sessionkey;
+  const knowledgeStoreId = response?.knowledgeStoreId;
+
+  const handleRate = async (rating: number, comment: string | null) => {
+    const target = knowledgeStoreId ? { qa_id: knowledgeStoreId } : { sessionkey: sessionKey };
+    await axios.post('/api/feedback', { ...target, rating, comment });
+  };
+
   const handleSaveQA = async () => {
     if (!response || !question) return;
 
@@ -119,7 +142,7 @@ const ResultsSection = memo(function ResultsSection({
   };
 
   // Show streaming content or regular response
-  const hasContent = response || error || (isStreaming && streamingContent);
+  const hasContent = response || error || (isStreaming && (streamingContent || agentActivity.length > 0));
   if (!hasContent) return null;
 
   // Determine what content to show
@@ -145,6 +168,13 @@ const ResultsSection = memo(function ResultsSection({
               </span>
             )}
 
+            {response?.knowledgeStoreId && (
+              <span className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300 rounded-full">
+                <Database className="w-3 h-3 flex-shrink-0" />
+                Knowledge Store
+              </span>
+            )}
+
             {/* Streaming status indicator in header */}
             {showStreamingIndicators && (
               <span className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400 rounded-full">
@@ -155,18 +185,25 @@ const ResultsSection = memo(function ResultsSection({
                 </div>
                 {streamingStatus === StreamingStatus.CONNECTING && 'Connecting...'}
                 {streamingStatus === StreamingStatus.STREAMING && 'Streaming...'}
+                {streamingStatus === StreamingStatus.RECONNECTING && 'Reconnecting...'}
+                {streamingStatus === StreamingStatus.QUEUED && 'Queued...'}
               </span>
             )}
           </div>
 
           <div className="flex items-center gap-2">
+            {/* Answer rating */}
+            {response && !isStreaming && (sessionKey || knowledgeStoreId) && (
+              <AnswerRating key={knowledgeStoreId ?? sessionKey} onRate={handleRate} />
+            )}
+
             {/* Export button in header */}
             {response && !isStreaming && (
               <button
                 onClick={() => setIsExportModalOpen(true)}
                 className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-white/95 dark:bg-gray-800/95 text-gray-700 dark:text-gray-200 text-xs font-medium rounded-full shadow-sm border border-gray-200/60 dark:border-gray-600/60 backdrop-blur-sm hover:bg-white dark:hover:bg-gray-700 hover:shadow-md transition-all duration-200 hover:scale-105 active:scale-95"
-                title="Export answer as Markdown or PDF"
-                aria-label="Export answer as Markdown or PDF"
+                title="Export answer as Markdown, PDF or update set"
+                aria-label="Export answer as Markdown, PDF or update set"
               >
                 <Download className="w-3.5 h-3.5" />
                 Export
@@ -188,6 +225,16 @@ const ResultsSection = memo(function ResultsSection({
             </div>
           )}
 
+          {notice && (
+            <div className="flex items-start gap-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 rounded-xl px-4 py-2.5 mb-4 text-sm text-amber-800 dark:text-amber-300">
+              <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{notice}</span>
+            </div>
+          )}
+
+          {/* Live agent activity from structured streaming events */}
+          <AgentActivityTimeline activities={agentActivity} isStreaming={isStreaming} />
+
           {/* Response content */}
           {(response || (isStreaming && displayContent)) && (
             <div className="space-y-4">
@@ -217,8 +264,8 @@ const ResultsSection = memo(function ResultsSection({
                   prose-td:border prose-td:border-gray-300 dark:prose-td:border-gray-600 prose-td:px-8 prose-td:py-4 prose-td:text-gray-700 dark:prose-td:text-gray-200"
               />
 
-              {/* Add to Knowledge Store Button - show for all responses with questions */}
-              {question && (
+              {/* Add to Knowledge Store Button - show for all responses with questions that are not already stored */}
+              {question && !response?.knowledgeStoreId && (
                 <div className={`mt-6 p-4 rounded-xl border ${
                   isLoadedFromHistory
                     ? 'bg-gradient-to-r from-amber-50 to-yellow-50 dark:from-amber-900/20 dark:to-yellow-900/20 border-amber-200 dark:border-amber-700/50'
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react';
+
+import type { ScriptFinding, ScriptFindingSeverity } from '@/types';
+
+const SEVERITY_STYLES: Record<ScriptFindingSeverity, { icon: React.ReactNode; className: string; darkClassName: string }> = {
+  error: {
+    icon: <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />,
+    className: 'text-red-700 dark:text-red-300',
+    darkClassName: 'text-red-300'
+  },
+  warning: {
+    icon: <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />,
+    className: 'text-amber-700 dark:text-amber-300',
+    darkClassName: 'text-amber-300'
+  },
+  info: {
+    icon: <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />,
+    className: 'text-blue-700 dark:text-blue-300',
+    darkClassName: 'text-blue-300'
+  }
+};
+
+interface ScriptFindingsListProps {
+  findings: ScriptFinding[];
+  variant?: 'default' | 'dark'; // dark is used by the fullscreen code viewer
+}
+
+// Script analysis annotations shown under a code block, one line per finding
+export default function ScriptFindingsList({ findings, variant = 'default' }: ScriptFindingsListProps) {
+  if (findings.length === 0) return null;
+
+  return (
+    <ul
+      aria-label="Script analysis findings"
+      className={variant === 'dark'
+        ? 'mt-4 space-y-1.5 rounded-lg border border-gray-700/40 bg-gray-900/80 p-4 text-sm'
+        : 'space-y-1.5 px-4 sm:px-6 py-3 border-t border-emerald-200/50 dark:border-emerald-700/50 bg-white/60 dark:bg-gray-800/60 text-sm'}
+    >
+      {findings.map((finding, index) => {
+        const style = SEVERITY_STYLES[finding.severity] ?? SEVERITY_STYLES.info;
+        return (
+          <li
+            key={`${finding.rule}-${finding.line}-${finding.column}-${index}`}
+            className={`flex items-start gap-2 ${variant === 'dark' ? style.darkClassName : style.className}`}
+            title={finding.rule}
+          >
+            {style.icon}
+            <span>
+              <span className="font-mono font-medium">Line {finding.line}:</span> {finding.message}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -3,11 +3,12 @@
 import React, { useState, useEffect, useRef, lazy, Suspense, useCallback, useMemo } from 'react';
 import { History } from 'lucide-react';
 
-import { ServiceNowResponse, ConversationHistoryItem, StreamingRequest, StreamingChunk, StreamingStatus, VoiceToTextResponse } from '@/types';
+import { ServiceNowResponse, ConversationHistoryItem, StreamingRequest, StreamingChunk, StreamingStatus, VoiceToTextResponse, AgentActivity, KnowledgeStoreItem } from '@/types';
 import { cancelRequest, submitQuestionStreaming } from '@/lib/api';
 import { StreamingClient } from '@/lib/streaming-client';
 import { streamingCancellation } from '@/lib/streaming-cancellation';
 import { StreamingBuffer, getSmartBatchInterval, StreamingPerformanceMonitor, analyzeContentType } from '@/lib/streaming-buffer';
+import { applyAgentEvent } from '@/lib/agent-activity';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useAIModels } from '@/contexts/AIModelContext';
 import { useAgentModels } from '@/contexts/AgentModelContext';
@@ -18,6 +19,7 @@ import { RequestType, DEFAULT_VISIBLE_MODES } from '@/lib/constants';
 import { isIOSPWAStandalone } from '@/lib/platform-detection';
 
 import BurgerMenu from './BurgerMenu';
+import InstanceSwitcher from './InstanceSwitcher';
 import ThemeToggle from './ThemeToggle';
 import WelcomeSection from './WelcomeSection';
 import ProcessingOverlay from './ProcessingOverlay';
@@ -56,12 +58,15 @@ export default function SearchInterface() {
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [streamingClient, setStreamingClient] = useState<StreamingClient | null>(null);
   const [streamingContent, setStreamingContent] = useState<string>('');
+  const [agentActivity, setAgentActivity] = useState<AgentActivity[]>([]);
   const streamingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const streamingCompletedRef = useRef<boolean>(false);
   const [batchTimeout, setBatchTimeout] = useState<NodeJS.Timeout | null>(null);
   const streamingBufferRef = useRef<StreamingBuffer>(new StreamingBuffer());
   const performanceMonitorRef = useRef<StreamingPerformanceMonitor>(new StreamingPerformanceMonitor());
   const [streamingStatus, setStreamingStatus] = useState<StreamingStatus>(StreamingStatus.CONNECTING);
+  const [queuedRetryAfter, setQueuedRetryAfter] = useState<number | null>(null);
+  const [streamNotice, setStreamNotice] = useState<string | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isLoadedFromHistory, setIsLoadedFromHistory] = useState(false);
@@ -291,6 +296,9 @@ export default function SearchInterface() {
     setResponse(null);
     setIsLoadedFromHistory(false);
     setStreamingContent('');
+    setAgentActivity([]);
+    setQueuedRetryAfter(null);
+    setStreamNotice(null);
     
     // Clear streaming buffer and reset performance monitoring
     streamingBufferRef.current.clear();
@@ -362,6 +370,18 @@ export default function SearchInterface() {
           // Use batched chunk processing for better performance
           addChunkToBatch(chunk.content);
         },
+
+        onAgentEvent: (chunk: StreamingChunk) => {
+          setAgentActivity(prev => applyAgentEvent(prev, chunk));
+        },
+
+        onQueued: (retryAfterSeconds: number) => {
+          setQueuedRetryAfter(retryAfterSeconds);
+        },
+
+        onNotice: (message: string) => {
+          setStreamNotice(message);
+        },
         
          
         onComplete: (_totalContent: string) => {
@@ -527,7 +547,7 @@ export default function SearchInterface() {
         abortController.abort();
       }
       
-      // Cancel the server-side polling (fallback compatibility)
+      // Abort the upstream n8n request and mark the history row as cancelled
       if (currentSessionKey) {
         await cancelRequest(currentSessionKey);
       }
@@ -571,6 +591,8 @@ export default function SearchInterface() {
     setIsLoading(false);
     setAbortController(null);
     setIsLoadedFromHistory(true);
+    setAgentActivity([]);
+    setStreamNotice(null);
     setSelectedFile(null); // Clear any selected file when loading from history
 
     setIsHistoryOpen(false);
@@ -588,6 +610,39 @@ export default function SearchInterface() {
     }
   }, [updateSetting]);
 
+  // Open a stored answer suggested while typing, instead of sending the question to the model
+  const handleKnowledgeSuggestionSelect = useCallback(async (item: KnowledgeStoreItem) => {
+    let answer = item.answer;
+    try {
+      const res = await fetch(`/api/knowledge-store/${item.id}/use`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await res.json();
+      if (res.ok && data.success) {
+        answer = data.data.answer;
+      }
+    } catch (err) {
+      // The suggestion already carries the answer; only the usage count is lost
+      console.warn('Failed to record knowledge store usage:', err);
+    }
+
+    setResponse({
+      message: answer,
+      type: selectedType,
+      timestamp: new Date().toISOString(),
+      status: 'done',
+      knowledgeStoreId: item.id
+    });
+    setError(null);
+    setIsLoadedFromHistory(false);
+    setAgentActivity([]);
+    setStreamNotice(null);
+    setTimeout(() => {
+      smoothScrollToResults();
+    }, SCROLL_DELAY_HISTORY_MS);
+  }, [selectedType, smoothScrollToResults]);
+
   const handleClearHistory = useCallback(() => {
     setIsLoadedFromHistory(false);
     setSelectedFile(null); // Also clear any selected file
@@ -755,6 +810,7 @@ export default function SearchInterface() {
               </h1>
             </div>
             <div className="flex items-center space-x-3">
+              <InstanceSwitcher />
               <ThemeToggle />
               <button
                 onClick={() => setIsHistoryOpen(true)}
@@ -787,6 +843,7 @@ export default function SearchInterface() {
             isVisible={isLoading} 
             isStreaming={isStreaming}
             streamingStatus={streamingStatus} 
+            retryAfterSeconds={queuedRetryAfter}
           />
           
           <div className={`space-y-6 transition-all duration-500 ease-in-out ${
@@ -802,6 +859,7 @@ export default function SearchInterface() {
               disabled={isLoading}
               isLoadedFromHistory={isLoadedFromHistory}
               onClearHistory={handleClearHistory}
+              onSelectSuggestion={handleKnowledgeSuggestionSelect}
             />
 
             {/* Type Selection and Expert Mode */}
@@ -898,6 +956,8 @@ export default function SearchInterface() {
             streamingContent={streamingContent}
             isStreaming={isStreaming}
             streamingStatus={streamingStatus}
+            agentActivity={agentActivity}
+            notice={streamNotice}
           />
         </div>
 
@@ -1,18 +1,31 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Send } from 'lucide-react';
 
+import { ACTIVE_DEPLOYMENT_STATES } from './DeploymentStateBadge';
 import SendScriptModal from './SendScriptModal';
+import { useServiceNowUrl } from '@/hooks/useServiceNowUrl';
+import { isProductionInstance } from '@/lib/servicenow-instances';
+import type {
+  IntegrationQueueItem,
+  IntegrationQueueItemApiResponse,
+  SendScriptApiResponse,
+  ServiceNowArtifactMetadata
+} from '@/types';
+
+const DEPLOYMENT_POLL_INTERVAL_MS = 3000;
 
 interface SendScriptButtonProps {
   scriptContent: string;
+  context?: string;
   className?: string;
   size?: 'sm' | 'md' | 'lg';
 }
 
 export default function SendScriptButton({ 
   scriptContent, 
+  context,
   className = '',
   size = 'sm'
 }: SendScriptButtonProps) {
@@ -20,14 +33,35 @@ export default function SendScriptButton({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [deployment, setDeployment] = useState<IntegrationQueueItem | null>(null);
+  const { activeInstance } = useServiceNowUrl();
+
+  // Follow the deployment while the modal is open until ServiceNow has finished with it
+  useEffect(() => {
+    if (!isModalOpen || !deployment || !ACTIVE_DEPLOYMENT_STATES.includes(deployment.state)) {
+      return;
+    }
 
-  const handleSendScript = async (
-    type: 'business_rule' | 'script_include' | 'client_script',
-    targetTable: 'sys_script' | 'sys_script_include' | 'sys_script_client'
-  ) => {
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/integration-queue/${deployment.id}`, { credentials: 'include' });
+        const data: IntegrationQueueItemApiResponse = await response.json();
+        if (response.ok && data.success && data.data) {
+          setDeployment(data.data);
+        }
+      } catch (err) {
+        console.error('Error fetching deployment state:', err);
+      }
+    }, DEPLOYMENT_POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [isModalOpen, deployment]);
+
+  const handleSendScript = async (type: string, targetTable: string, metadata: ServiceNowArtifactMetadata) => {
     setIsSubmitting(true);
     setError(null);
     setSuccess(false);
+    setDeployment(null);
 
     try {
       const response = await fetch('/api/send-script', {
@@ -39,20 +73,24 @@ export default function SendScriptButton({
         body: JSON.stringify({
           payload: scriptContent,
           type,
-          target_table: targetTable
+          target_table: targetTable,
+          metadata,
+          // The modal only sends to a production instance after the user has confirmed it
+          ...(activeInstance && {
+            instance_id: activeInstance.id,
+            confirm_production: isProductionInstance(activeInstance)
+          })
         }),
       });
 
-      const data = await response.json();
+      const data: SendScriptApiResponse = await response.json();
+
+      // Failed deliveries are queued too, so they can be followed up in My Deployments
+      setDeployment(data.data ?? null);
 
-      // API returns 201 for successful task creation
+      // API returns 201 for successful task creation; the modal stays open to show the live state
       if ((response.status === 201 || response.ok) && data.success) {
         setSuccess(true);
-        // Auto-close modal after 2 seconds on success
-        setTimeout(() => {
-          setIsModalOpen(false);
-          setSuccess(false);
-        }, 2000);
       } else {
         setError(data.error || 'Failed to send script to ServiceNow');
       }
@@ -69,6 +107,7 @@ export default function SendScriptButton({
       setIsModalOpen(false);
       setError(null);
       setSuccess(false);
+      setDeployment(null);
     }
   };
 
@@ -115,9 +154,13 @@ export default function SendScriptButton({
         isOpen={isModalOpen}
         onClose={handleCloseModal}
         onSend={handleSendScript}
+        scriptContent={scriptContent}
+        context={context}
         isSubmitting={isSubmitting}
         error={error}
         success={success}
+        deployment={deployment}
+        instance={activeInstance}
       />
     </>
   );
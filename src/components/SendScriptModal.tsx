@@ -1,39 +1,29 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
-import { X, Send, AlertCircle, CheckCircle, Code } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { X, Send, AlertCircle, AlertTriangle, CheckCircle, Code, Sparkles, ExternalLink } from 'lucide-react';
 
-interface ScriptType {
-  value: 'business_rule' | 'script_include' | 'client_script';
-  label: string;
-  targetTable: 'sys_script' | 'sys_script_include' | 'sys_script_client';
-}
+import DeploymentStateBadge from './DeploymentStateBadge';
+import { parseScriptMetadata, prefillArtifactMetadata } from '@/lib/script-metadata';
+import { getArtifactType, getArtifactTypes, isArtifactFieldRequired, validateArtifactMetadata } from '@/lib/servicenow-artifacts';
+import { isProductionInstance } from '@/lib/servicenow-instances';
+import type { IntegrationQueueItem, ServiceNowArtifactField, ServiceNowArtifactMetadata, ServiceNowInstanceProfile } from '@/types';
+
+const DEFAULT_ARTIFACT_TYPE = 'business_rule';
 
-const SCRIPT_TYPES: ScriptType[] = [
-  {
-    value: 'business_rule',
-    label: 'Business Rule',
-    targetTable: 'sys_script'
-  },
-  {
-    value: 'script_include',
-    label: 'Script Include',
-    targetTable: 'sys_script_include'
-  },
-  {
-    value: 'client_script',
-    label: 'Client Script',
-    targetTable: 'sys_script_client'
-  }
-];
+const inputClassName = 'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors';
 
 interface SendScriptModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSend: (type: ScriptType['value'], targetTable: ScriptType['targetTable']) => Promise<void>;
+  onSend: (type: string, targetTable: string, metadata: ServiceNowArtifactMetadata) => Promise<void>;
   isSubmitting: boolean;
   error: string | null;
   success: boolean;
+  deployment?: IntegrationQueueItem | null; // The queued deployment once the script has been sent
+  scriptContent?: string;
+  context?: string; // Markdown around the script in the answer
+  instance?: ServiceNowInstanceProfile | null; // Target instance; a production one needs a second, confirming click
 }
 
 export default function SendScriptModal({ 
@@ -42,12 +32,46 @@ export default function SendScriptModal({
   onSend, 
   isSubmitting, 
   error, 
-  success 
+  success,
+  deployment = null,
+  scriptContent = '',
+  context,
+  instance = null
 }: SendScriptModalProps) {
-  const [selectedType, setSelectedType] = useState<ScriptType['value']>('business_rule');
+  const artifactTypes = getArtifactTypes();
+  const parsed = useMemo(() => parseScriptMetadata(scriptContent, context), [scriptContent, context]);
+  const [selectedType, setSelectedType] = useState(DEFAULT_ARTIFACT_TYPE);
+  const [metadata, setMetadata] = useState<ServiceNowArtifactMetadata>({});
+  const [prefilled, setPrefilled] = useState<string[]>([]);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [confirmingProduction, setConfirmingProduction] = useState(false);
+  const pushBlocked = instance !== null && !instance.allow_push;
+  const selectedArtifact = getArtifactType(selectedType);
   const modalRef = useRef<HTMLDivElement>(null);
   const selectRef = useRef<HTMLSelectElement>(null);
 
+  const selectType = (typeId: string) => {
+    const artifactType = getArtifactType(typeId);
+    const filled = artifactType ? prefillArtifactMetadata(artifactType, parsed) : { metadata: {}, prefilled: [] };
+    setSelectedType(typeId);
+    setMetadata(filled.metadata);
+    setPrefilled(filled.prefilled);
+    setValidationError(null);
+  };
+
+  // Pre-fill type and fields from the script and the answer each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const artifactType = (parsed.type && getArtifactType(parsed.type)) || getArtifactType(DEFAULT_ARTIFACT_TYPE);
+    const filled = artifactType ? prefillArtifactMetadata(artifactType, parsed) : { metadata: {}, prefilled: [] };
+    setSelectedType(artifactType?.id ?? DEFAULT_ARTIFACT_TYPE);
+    setMetadata(filled.metadata);
+    setPrefilled(filled.prefilled);
+    setValidationError(null);
+    setConfirmingProduction(false);
+  }, [isOpen, parsed]);
+
   // Focus select when modal opens
   useEffect(() => {
     if (isOpen && selectRef.current) {
@@ -85,24 +109,95 @@ export default function SendScriptModal({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const selectedScriptType = SCRIPT_TYPES.find(type => type.value === selectedType);
-    if (selectedScriptType) {
-      await onSend(selectedScriptType.value, selectedScriptType.targetTable);
+    if (!selectedArtifact || pushBlocked) return;
+
+    const validated = validateArtifactMetadata(selectedArtifact, metadata);
+    if ('error' in validated) {
+      setValidationError(validated.error);
+      setConfirmingProduction(false);
+      return;
+    }
+    setValidationError(null);
+
+    if (isProductionInstance(instance) && !confirmingProduction) {
+      setConfirmingProduction(true);
+      return;
     }
+    setConfirmingProduction(false);
+    await onSend(selectedArtifact.id, selectedArtifact.targetTable, validated.metadata);
   };
 
   const handleCancel = () => {
-    setSelectedType('business_rule');
+    setValidationError(null);
+    setConfirmingProduction(false);
     onClose();
   };
 
+  const renderField = (field: ServiceNowArtifactField) => {
+    const id = `artifact-${field.key}`;
+    const value = metadata[field.key];
+    const setValue = (next: string | number | boolean) => setMetadata(prev => ({ ...prev, [field.key]: next }));
+
+    if (field.input === 'checkbox') {
+      return (
+        <label key={field.key} htmlFor={id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValue(e.target.checked)}
+            disabled={isSubmitting}
+            className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+          />
+          {field.label}
+        </label>
+      );
+    }
+
+    return (
+      <div key={field.key}>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          {field.label} {isArtifactFieldRequired(field, metadata) && <span className="text-red-500">*</span>}
+        </label>
+        {field.input === 'select' ? (
+          <select
+            id={id}
+            value={String(value ?? '')}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClassName}
+            disabled={isSubmitting}
+          >
+            {field.options?.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            id={id}
+            type={field.input === 'number' ? 'number' : 'text'}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.input === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value)}
+            placeholder={field.placeholder}
+            className={inputClassName}
+            disabled={isSubmitting}
+          />
+        )}
+        {field.helpText && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.helpText}</p>
+        )}
+      </div>
+    );
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 backdrop-blur-md bg-black/40 flex items-center justify-center p-4 z-50 overflow-y-auto animate-in fade-in-0 duration-200">
       <div
         ref={modalRef}
-        className="bg-white/95 dark:bg-gray-800/95 backdrop-blur-xl rounded-2xl shadow-2xl shadow-blue-500/10 border border-gray-200/50 dark:border-gray-700/50 w-full max-w-md my-8 mx-auto animate-in slide-in-from-bottom-4 duration-300"
+        className="bg-white/95 dark:bg-gray-800/95 backdrop-blur-xl rounded-2xl shadow-2xl shadow-blue-500/10 border border-gray-200/50 dark:border-gray-700/50 w-full max-w-lg my-8 mx-auto animate-in slide-in-from-bottom-4 duration-300"
         style={{
           position: 'relative',
           top: 'auto',
@@ -131,8 +226,38 @@ export default function SendScriptModal({
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          {/* Success Message */}
-          {success && (
+          {/* Deployment status, kept up to date while ServiceNow processes the script */}
+          {deployment ? (
+            <div className="bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-xl p-4 space-y-2 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium text-gray-700 dark:text-gray-300">Deployment</span>
+                <DeploymentStateBadge state={deployment.state} />
+              </div>
+              <p className="text-gray-600 dark:text-gray-400">
+                Correlation ID: <span className="font-mono text-xs select-all">{deployment.correlation_id}</span>
+              </p>
+              {deployment.state === 'failed' && deployment.error && deployment.error !== error && (
+                <p className="text-red-700 dark:text-red-300">{deployment.error}</p>
+              )}
+              {deployment.result && (
+                <div className="text-green-800 dark:text-green-200 space-y-1">
+                  <p>
+                    {deployment.result.action === 'updated' ? 'Updated' : 'Created'} {deployment.result.table} record{' '}
+                    <span className="font-mono text-xs">{deployment.result.sys_id}</span>
+                  </p>
+                  <a
+                    href={deployment.result.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 font-medium underline hover:text-green-900 dark:hover:text-green-100"
+                  >
+                    Open in ServiceNow
+                    <ExternalLink className="w-3.5 h-3.5" />
+                  </a>
+                </div>
+              )}
+            </div>
+          ) : success && (
             <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-xl p-4 flex items-center space-x-3">
               <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400 flex-shrink-0" />
               <span className="text-green-800 dark:text-green-200 text-sm">
@@ -142,10 +267,10 @@ export default function SendScriptModal({
           )}
 
           {/* Error Message */}
-          {error && (
+          {(validationError || error) && (
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-xl p-4 flex items-center space-x-3">
               <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0" />
-              <span className="text-red-800 dark:text-red-200 text-sm">{error}</span>
+              <span className="text-red-800 dark:text-red-200 text-sm">{validationError ?? error}</span>
             </div>
           )}
 
@@ -158,29 +283,75 @@ export default function SendScriptModal({
               ref={selectRef}
               id="scriptType"
               value={selectedType}
-              onChange={(e) => setSelectedType(e.target.value as ScriptType['value'])}
-              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+              onChange={(e) => selectType(e.target.value)}
+              className={inputClassName}
               disabled={isSubmitting}
             >
-              {SCRIPT_TYPES.map((type) => (
-                <option key={type.value} value={type.value}>
+              {artifactTypes.map((type) => (
+                <option key={type.id} value={type.id}>
                   {type.label}
                 </option>
               ))}
             </select>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              Choose the type of ServiceNow script to create
+              {selectedArtifact?.description ?? 'Choose the type of ServiceNow script to create'}
             </p>
           </div>
 
-          {/* Target Table Info */}
-          <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3">
+          {/* Target Table and Instance Info */}
+          <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3 space-y-1">
             <p className="text-sm text-gray-600 dark:text-gray-400">
               <span className="font-medium">Target Table:</span>{' '}
-              {SCRIPT_TYPES.find(type => type.value === selectedType)?.targetTable}
+              {selectedArtifact?.targetTable}
             </p>
+            {instance && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                <span className="font-medium">Instance:</span>{' '}
+                {instance.name} <span className="text-xs">({instance.url})</span>
+                {isProductionInstance(instance) && (
+                  <span className="ml-2 px-1.5 py-0.5 text-xs font-semibold uppercase rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                    Production
+                  </span>
+                )}
+              </p>
+            )}
           </div>
 
+          {pushBlocked && (
+            <div className="bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-xl p-4 text-sm text-gray-700 dark:text-gray-300">
+              Pushing scripts to {instance?.name} is turned off. Switch instance in the header or allow pushes in Settings.
+            </div>
+          )}
+
+          {/* Fields read from the script and the answer */}
+          {prefilled.length > 0 && (
+            <div className="flex items-start gap-2 text-xs text-blue-700 dark:text-blue-300">
+              <Sparkles className="w-4 h-4 flex-shrink-0" />
+              <span>
+                Pre-filled from the answer:{' '}
+                {selectedArtifact?.fields.filter(field => prefilled.includes(field.key)).map(field => field.label).join(', ')}. Check them before sending.
+              </span>
+            </div>
+          )}
+
+          {/* Type-specific record fields */}
+          {selectedArtifact?.fields.filter(field => field.input !== 'checkbox').map(renderField)}
+          {selectedArtifact?.fields.some(field => field.input === 'checkbox') && (
+            <div className="grid grid-cols-2 gap-2">
+              {selectedArtifact.fields.filter(field => field.input === 'checkbox').map(renderField)}
+            </div>
+          )}
+
+          {/* Production confirmation step */}
+          {confirmingProduction && instance && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-xl p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+              <span className="text-red-800 dark:text-red-200 text-sm">
+                {instance.name} is a production instance. Sending writes the record to {instance.url}; confirm to continue.
+              </span>
+            </div>
+          )}
+
           {/* Buttons */}
           <div className="flex space-x-3 pt-4">
             <button
@@ -193,7 +364,7 @@ export default function SendScriptModal({
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || pushBlocked}
               className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 disabled:from-gray-400 disabled:to-gray-400 text-white rounded-full shadow-md shadow-blue-500/25 hover:shadow-lg hover:shadow-blue-500/30 transition-all duration-200 hover:scale-105 active:scale-95 disabled:cursor-not-allowed disabled:hover:scale-100 flex items-center justify-center space-x-2 font-medium"
             >
               {isSubmitting ? (
@@ -204,7 +375,7 @@ export default function SendScriptModal({
               ) : (
                 <>
                   <Send className="w-4 h-4" />
-                  <span>Send to ServiceNow</span>
+                  <span>{confirmingProduction ? 'Confirm push to production' : 'Send to ServiceNow'}</span>
                 </>
               )}
             </button>
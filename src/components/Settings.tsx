@@ -14,7 +14,11 @@ import { isIOSPWAStandalone } from '@/lib/platform-detection';
 import BurgerMenu from './BurgerMenu';
 import ThemeToggle from './ThemeToggle';
 import AIModelModal from './AIModelModal';
+import UsageDashboard from './UsageDashboard';
+import ProviderHealthPanel from './ProviderHealthPanel';
+import ProviderManagementPanel from './ProviderManagementPanel';
 import FilterModal, { type FilterSettings, type FilterOptions, type SortOption } from './FilterModal';
+import InstanceProfilesPanel from './InstanceProfilesPanel';
 
 export default function Settings() {
   const router = useRouter();
@@ -497,9 +501,39 @@ export default function Settings() {
                     )}
                   </div>
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                    Example: https://mycompany.service-now.com (without trailing slash)
+                    Example: https://mycompany.service-now.com (without trailing slash). Used until you add instance profiles.
                   </p>
                 </div>
+
+                {/* Named instance profiles */}
+                <InstanceProfilesPanel isAuthenticated={isAuthenticated} />
+
+                {/* Block Unsafe Scripts */}
+                <div className="flex items-center justify-between p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50/50 dark:bg-gray-700/30">
+                  <div>
+                    <label className="text-gray-900 dark:text-gray-100 font-medium">Block Unsafe Scripts</label>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Refuse to send scripts when script analysis reports errors</p>
+                  </div>
+                  <button
+                    onClick={() => handleToggle('block_unsafe_scripts', !settings.block_unsafe_scripts)}
+                    disabled={saving === 'block_unsafe_scripts' || isLoading || !isAuthenticated}
+                    className="flex items-center space-x-2"
+                  >
+                    {saving === 'block_unsafe_scripts' ? (
+                      <div className="animate-spin w-5 h-5 border-2 border-gray-300 border-t-blue-500 rounded-full"></div>
+                    ) : (
+                      <div className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 ${
+                        settings.block_unsafe_scripts ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-600'
+                      }`}>
+                        <span
+                          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ${
+                            settings.block_unsafe_scripts ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                        />
+                      </div>
+                    )}
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -795,6 +829,10 @@ export default function Settings() {
                     </div>
                   )}
                 </div>
+
+                <ProviderHealthPanel isAuthenticated={isAuthenticated} />
+
+                <ProviderManagementPanel isAuthenticated={isAuthenticated} />
               </div>
             </div>
 
@@ -834,6 +872,14 @@ export default function Settings() {
                       >
                         <Plus className="w-5 h-5" />
                       </button>
+                      <button
+                        onClick={() => router.push('/agent-prompts')}
+                        disabled={!isAuthenticated}
+                        className="p-2 text-gray-600 hover:text-blue-700 dark:text-gray-400 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Edit agent prompts (admin only)"
+                      >
+                        <FileText className="w-5 h-5" />
+                      </button>
                     </div>
                   </div>
 
@@ -1165,6 +1211,12 @@ export default function Settings() {
                 </div>
               </div>
             </div>
+
+            {/* Token Usage */}
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-6">Usage</h2>
+              <UsageDashboard isAuthenticated={isAuthenticated} />
+            </div>
           </div>
         </div>
       </div>
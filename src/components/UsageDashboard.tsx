@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { BarChart3, RefreshCw, Users } from 'lucide-react';
+
+import { AGENT_DISPLAY_NAMES } from '@/lib/constants';
+import type { UsageBreakdownItem, UsageReport } from '@/types/index';
+
+interface UsageDashboardProps {
+  isAuthenticated: boolean;
+}
+
+const PERIOD_OPTIONS = [7, 30, 90];
+
+const formatCost = (cost: number): string =>
+  `$${cost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: cost > 0 && cost < 0.01 ? 4 : 2 })}`;
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+const formatRequestType = (type: string): string =>
+  type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' ');
+
+const formatAgent = (agent: string): string => AGENT_DISPLAY_NAMES[agent] || agent;
+
+interface BreakdownTableProps {
+  title: string;
+  items: UsageBreakdownItem[];
+  formatKey?: (key: string) => string;
+}
+
+const BreakdownTable = ({ title, items, formatKey = key => key }: BreakdownTableProps) => (
+  <div>
+    <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">{title}</h3>
+    {items.length === 0 ? (
+      <p className="text-sm text-gray-500 dark:text-gray-400">No usage recorded</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+              <th className="py-1.5 pr-3 font-medium">{title.replace(/^By /, '')}</th>
+              <th className="py-1.5 pr-3 font-medium text-right">Requests</th>
+              <th className="py-1.5 pr-3 font-medium text-right">Tokens</th>
+              <th className="py-1.5 font-medium text-right">Spend</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.key} className="border-b border-gray-100 dark:border-gray-700 last:border-0">
+                <td className="py-1.5 pr-3 text-gray-800 dark:text-gray-200 truncate max-w-[12rem]" title={item.key}>
+                  {formatKey(item.key)}
+                </td>
+                <td className="py-1.5 pr-3 text-right text-gray-600 dark:text-gray-400">{item.requests}</td>
+                <td
+                  className="py-1.5 pr-3 text-right text-gray-600 dark:text-gray-400"
+                  title={`${formatTokens(item.prompt_tokens)} prompt / ${formatTokens(item.completion_tokens)} completion`}
+                >
+                  {formatTokens(item.total_tokens)}
+                </td>
+                <td className="py-1.5 text-right text-gray-800 dark:text-gray-200">{formatCost(item.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+export default function UsageDashboard({ isAuthenticated }: UsageDashboardProps) {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [days, setDays] = useState(30);
+  const [showAllUsers, setShowAllUsers] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ days: String(days) });
+      if (showAllUsers) {
+        params.set('scope', 'all');
+      }
+
+      const response = await fetch(`/api/usage?${params.toString()}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch usage');
+      }
+      setReport(data.data);
+    } catch (err) {
+      console.error('Failed to fetch usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, showAllUsers]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchUsage();
+    }
+  }, [isAuthenticated, fetchUsage]);
+
+  return (
+    <div className="p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50/50 dark:bg-gray-700/30">
+      <div className="flex items-center justify-between mb-4 gap-3 flex-wrap">
+        <div className="flex items-center space-x-3">
+          <BarChart3 className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          <div>
+            <label className="text-gray-900 dark:text-gray-100 font-medium">Token Usage & Spend</label>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {showAllUsers ? 'All users' : 'Your requests'} over the last {days} days
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            disabled={!isAuthenticated || loading}
+            aria-label="Usage period"
+            className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+          >
+            {PERIOD_OPTIONS.map(option => (
+              <option key={option} value={option}>{option} days</option>
+            ))}
+          </select>
+          {report?.can_view_all_users && (
+            <button
+              onClick={() => setShowAllUsers(!showAllUsers)}
+              disabled={loading}
+              aria-pressed={showAllUsers}
+              className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                showAllUsers
+                  ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20'
+                  : 'text-gray-600 hover:text-blue-700 dark:text-gray-400 dark:hover:text-blue-300'
+              }`}
+              title="Show usage for all users"
+            >
+              <Users className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={fetchUsage}
+            disabled={!isAuthenticated || loading}
+            className="p-2 text-gray-600 hover:text-blue-700 dark:text-gray-400 dark:hover:text-blue-300 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Refresh usage"
+          >
+            <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {!report && loading && (
+        <div className="flex items-center space-x-2">
+          <div className="animate-spin w-5 h-5 border-2 border-gray-300 border-t-blue-500 rounded-full"></div>
+          <span className="text-gray-600 dark:text-gray-400">Loading usage...</span>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Requests', value: report.totals.requests.toLocaleString() },
+              { label: 'Prompt tokens', value: formatTokens(report.totals.prompt_tokens) },
+              { label: 'Completion tokens', value: formatTokens(report.totals.completion_tokens) },
+              { label: 'Spend', value: formatCost(report.totals.cost) },
+            ].map(stat => (
+              <div key={stat.label} className="p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600">
+                <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+                <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <BreakdownTable title="By Day" items={report.by_day} />
+            <BreakdownTable title="By Model" items={report.by_model} />
+            <BreakdownTable title="By Agent" items={report.by_agent} formatKey={formatAgent} />
+            <BreakdownTable title="By Request Type" items={report.by_request_type} formatKey={formatRequestType} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
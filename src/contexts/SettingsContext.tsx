@@ -33,7 +33,10 @@ const defaultSettings: UserSettings = {
   agent_block_display_mode: 'styled', // Default to styled markdown display
   voice_mode_enabled: true, // Voice input enabled by default
   voice_auto_submit: true, // Auto-submit after transcription by default
-  voice_auto_send: false // Show confirmation modal by default (safer UX)
+  voice_auto_send: false, // Show confirmation modal by default (safer UX)
+  block_unsafe_scripts: false, // Analysis findings are advisory by default
+  servicenow_instances: [], // servicenow_instance_url stands in until profiles are added
+  active_servicenow_instance: ''
 };
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useServiceNowUrl } from '@/hooks/useServiceNowUrl';
+import { SCRIPT_ANALYSIS_DEBOUNCE } from '@/lib/constants';
+import { parseScriptMetadata, prefillArtifactMetadata } from '@/lib/script-metadata';
+import { getArtifactType } from '@/lib/servicenow-artifacts';
+import type { ScriptFinding } from '@/types';
+
+interface UseScriptAnalysisReturn {
+  findings: ScriptFinding[];
+  isAnalyzing: boolean;
+}
+
+/**
+ * Runs the server-side script analyzer on a finished code block, using the artifact type and
+ * metadata Send Script would pre-fill and the scope of the active instance profile. Failures are swallowed: annotations are advice, never a blocker.
+ */
+export function useScriptAnalysis(script: string, context: string | undefined, enabled: boolean): UseScriptAnalysisReturn {
+  const [findings, setFindings] = useState<ScriptFinding[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const instanceId = useServiceNowUrl().activeInstance?.id;
+
+  useEffect(() => {
+    if (!enabled || !script.trim()) {
+      setFindings([]);
+      setIsAnalyzing(false);
+      return;
+    }
+
+    const parsed = parseScriptMetadata(script, context);
+    const artifactType = parsed.type ? getArtifactType(parsed.type) : undefined;
+    const body = {
+      script,
+      type: artifactType?.id,
+      metadata: artifactType ? prefillArtifactMetadata(artifactType, parsed).metadata : undefined,
+      instance_id: instanceId,
+    };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsAnalyzing(true);
+      try {
+        const response = await fetch('/api/analyze-script', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        setFindings(response.ok && data.success ? data.data.findings : []);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn('Script analysis unavailable:', error);
+          setFindings([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsAnalyzing(false);
+        }
+      }
+    }, SCRIPT_ANALYSIS_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [script, context, enabled, instanceId]);
+
+  return { findings, isAnalyzing };
+}
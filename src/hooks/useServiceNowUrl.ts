@@ -1,22 +1,29 @@
 'use client';
 
 import { useSettings } from '../contexts/SettingsContext';
+import { getInstanceProfiles, resolveInstanceProfile } from '@/lib/servicenow-instances';
+import type { ServiceNowInstanceProfile } from '@/types';
 
 interface UseServiceNowUrlReturn {
   serviceNowUrl: string;
   hasValidUrl: boolean;
   isLoading: boolean;
+  activeInstance: ServiceNowInstanceProfile | null; // The profile selected in the header
+  instances: ServiceNowInstanceProfile[];
 }
 
 export function useServiceNowUrl(): UseServiceNowUrlReturn {
   const { settings, isLoading } = useSettings();
-  
-  const serviceNowUrl = settings.servicenow_instance_url;
+
+  const activeInstance = resolveInstanceProfile(settings);
+  const serviceNowUrl = activeInstance?.url ?? '';
   const hasValidUrl = Boolean(serviceNowUrl && serviceNowUrl.trim().length > 0);
-  
+
   return {
     serviceNowUrl,
     hasValidUrl,
-    isLoading
+    isLoading,
+    activeInstance,
+    instances: getInstanceProfiles(settings)
   };
-}
\ No newline at end of file
+}
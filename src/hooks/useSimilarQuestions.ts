@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { SIMILAR_QUESTION_DEBOUNCE, SIMILAR_QUESTION_MIN_LENGTH } from '@/lib/constants';
+import type { KnowledgeStoreSimilarItem } from '@/types';
+
+interface UseSimilarQuestionsReturn {
+  suggestions: KnowledgeStoreSimilarItem[];
+  isSearching: boolean;
+}
+
+/**
+ * Looks up knowledge store answers to questions like the one being typed, once typing pauses.
+ * Lookup failures are swallowed: suggestions are a shortcut, never a blocker.
+ */
+export function useSimilarQuestions(question: string, enabled: boolean): UseSimilarQuestionsReturn {
+  const [suggestions, setSuggestions] = useState<KnowledgeStoreSimilarItem[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const trimmed = question.trim();
+    if (!enabled || trimmed.length < SIMILAR_QUESTION_MIN_LENGTH) {
+      setSuggestions([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch('/api/knowledge-store/suggestions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ question: trimmed }),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        setSuggestions(response.ok && data.success ? data.data : []);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn('Knowledge store suggestions unavailable:', error);
+          setSuggestions([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, SIMILAR_QUESTION_DEBOUNCE);
+
+    // A new keystroke cancels both the pending timer and any lookup in flight
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [question, enabled]);
+
+  return { suggestions, isSearching };
+}
@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Polling needs the database and timers of the Node.js runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { ProviderHealthMonitor } = await import('@/lib/provider-health');
+  const { ProviderManager } = await import('@/lib/providers');
+  ProviderHealthMonitor.getInstance().startPolling(() => new ProviderManager().getActiveProviders());
+}
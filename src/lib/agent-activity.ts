@@ -0,0 +1,136 @@
+import { AgentActivity, AgentEventData, AgentEventType, StreamingChunk } from '@/types';
+
+export const AGENT_EVENT_TYPES: AgentEventType[] = ['agent_start', 'tool_call', 'tool_result', 'agent_end', 'usage'];
+
+export function isAgentEventType(type: string): type is AgentEventType {
+  return (AGENT_EVENT_TYPES as string[]).includes(type);
+}
+
+const stringify = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && !isNaN(parsed) ? parsed : undefined;
+};
+
+/**
+ * Normalize the content of an n8n agent event into AgentEventData.
+ * A plain string is treated as the agent name; object fields are accepted in camelCase or snake_case.
+ */
+export function toAgentEventData(content: unknown): AgentEventData {
+  if (typeof content === 'string') {
+    return { agent: content };
+  }
+  if (!content || typeof content !== 'object') {
+    return {};
+  }
+
+  const raw = content as Record<string, unknown>;
+  const data: AgentEventData = {
+    agent: stringify(raw.agent ?? raw.agent_name),
+    tool: stringify(raw.tool ?? raw.tool_name),
+    callId: stringify(raw.callId ?? raw.call_id),
+    input: stringify(raw.input),
+    output: stringify(raw.output),
+    error: stringify(raw.error),
+    model: stringify(raw.model),
+    promptTokens: toNumber(raw.promptTokens ?? raw.prompt_tokens),
+    completionTokens: toNumber(raw.completionTokens ?? raw.completion_tokens),
+    totalTokens: toNumber(raw.totalTokens ?? raw.total_tokens),
+  };
+
+  // Drop unset fields so the SSE payload stays small
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as AgentEventData;
+}
+
+// Latest activity for the agent (or the latest running one when the event names no agent)
+const findActivityIndex = (activities: AgentActivity[], agent?: string): number => {
+  for (let i = activities.length - 1; i >= 0; i--) {
+    if (agent ? activities[i].agent === agent : activities[i].status === 'running') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Apply one agent event to the activity timeline. Returns a new array; the input is not mutated.
+ */
+export function applyAgentEvent(activities: AgentActivity[], chunk: StreamingChunk): AgentActivity[] {
+  const data = chunk.data || {};
+  const next = activities.map(activity => ({ ...activity, toolCalls: [...activity.toolCalls] }));
+
+  if (chunk.type === 'agent_start') {
+    next.push({
+      agent: data.agent || 'unknown',
+      status: 'running',
+      toolCalls: [],
+      startedAt: chunk.timestamp,
+      model: data.model,
+    });
+    return next;
+  }
+
+  let index = findActivityIndex(next, data.agent);
+  if (index === -1) {
+    if (chunk.type !== 'tool_call' && chunk.type !== 'usage') {
+      return activities;
+    }
+    // Tool call or usage from an agent whose start event we missed
+    next.push({
+      agent: data.agent || 'unknown',
+      status: 'running',
+      toolCalls: [],
+      startedAt: chunk.timestamp,
+    });
+    index = next.length - 1;
+  }
+
+  const activity = next[index];
+
+  switch (chunk.type) {
+    case 'tool_call':
+      activity.toolCalls.push({
+        id: data.callId || `${data.tool || 'tool'}-${activity.toolCalls.length + 1}`,
+        tool: data.tool || 'unknown',
+        status: 'running',
+        input: data.input,
+      });
+      break;
+
+    case 'tool_result': {
+      const callIndex = activity.toolCalls.findIndex(call =>
+        data.callId ? call.id === data.callId : call.status === 'running' && (!data.tool || call.tool === data.tool)
+      );
+      if (callIndex !== -1) {
+        activity.toolCalls[callIndex] = {
+          ...activity.toolCalls[callIndex],
+          status: data.error ? 'error' : 'success',
+          output: data.output,
+          error: data.error,
+        };
+      }
+      break;
+    }
+
+    case 'agent_end':
+      activity.status = 'done';
+      activity.endedAt = chunk.timestamp;
+      break;
+
+    case 'usage':
+      activity.model = data.model || activity.model;
+      activity.usage = {
+        promptTokens: (activity.usage?.promptTokens || 0) + (data.promptTokens || 0),
+        completionTokens: (activity.usage?.completionTokens || 0) + (data.completionTokens || 0),
+        totalTokens: (activity.usage?.totalTokens || 0) +
+          (data.totalTokens ?? (data.promptTokens || 0) + (data.completionTokens || 0)),
+      };
+      break;
+  }
+
+  return next;
+}
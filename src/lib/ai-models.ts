@@ -1,6 +1,6 @@
 import { Pool, PoolClient } from 'pg';
 
-import type { AIModel, AIModelInput, Capability } from '@/types/index';
+import type { AIModel, AIModelInput, Capability, ModelPrice, ModelPriceInput } from '@/types/index';
 
 interface DatabaseConfig {
   connectionString: string;
@@ -305,6 +305,20 @@ export class AIModelManager {
     }
   }
 
+  /**
+   * Names of a user's models on one provider, the default first - used to pick models after a failover
+   */
+  async getProviderModelNames(userId: string, providerId: number): Promise<string[]> {
+    const result = await this.db.query(`
+      SELECT model_name
+      FROM "ai_models"
+      WHERE user_id = $1 AND provider_id = $2
+      ORDER BY is_default DESC, created_at ASC
+    `, [userId, providerId]);
+
+    return result.rows.map(row => (row as { model_name: string }).model_name);
+  }
+
   async getDefaultModel(userId: string): Promise<AIModel | null> {
     const query = `
       SELECT id, user_id, model_name, display_name, is_free, is_default, provider_id, created_at, updated_at
@@ -544,4 +558,92 @@ export class AIModelManager {
     });
   }
 
-}
\ No newline at end of file
+}
+
+/**
+ * Cost in USD for a number of prompt and completion tokens at the given per-million prices.
+ */
+export function calculateTokenCost(
+  price: Pick<ModelPrice, 'input_price_per_million' | 'output_price_per_million'> | null | undefined,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  if (!price) return 0;
+  return (promptTokens * price.input_price_per_million + completionTokens * price.output_price_per_million) / 1_000_000;
+}
+
+export class ModelPriceManager {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  private mapRow(row: unknown): ModelPrice {
+    const r = row as {
+      id: number;
+      model_name: string;
+      input_price_per_million: string | number;
+      output_price_per_million: string | number;
+      created_at: string;
+      updated_at: string;
+    };
+    // NUMERIC columns come back from pg as strings
+    return {
+      id: r.id,
+      model_name: r.model_name,
+      input_price_per_million: Number(r.input_price_per_million),
+      output_price_per_million: Number(r.output_price_per_million),
+      created_at: new Date(r.created_at),
+      updated_at: new Date(r.updated_at),
+    };
+  }
+
+  async getAllPrices(): Promise<ModelPrice[]> {
+    const result = await this.db.query(
+      'SELECT * FROM "model_prices" ORDER BY model_name ASC'
+    );
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async getPricesForModels(modelNames: string[]): Promise<Map<string, ModelPrice>> {
+    const prices = new Map<string, ModelPrice>();
+    if (modelNames.length === 0) return prices;
+
+    const result = await this.db.query(
+      'SELECT * FROM "model_prices" WHERE model_name = ANY($1)',
+      [modelNames]
+    );
+    for (const row of result.rows) {
+      const price = this.mapRow(row);
+      prices.set(price.model_name, price);
+    }
+    return prices;
+  }
+
+  async upsertPrice(input: ModelPriceInput): Promise<ModelPrice> {
+    const query = `
+      INSERT INTO "model_prices" (model_name, input_price_per_million, output_price_per_million)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (model_name) DO UPDATE SET
+        input_price_per_million = EXCLUDED.input_price_per_million,
+        output_price_per_million = EXCLUDED.output_price_per_million,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      input.model_name,
+      input.input_price_per_million,
+      input.output_price_per_million,
+    ]);
+    return this.mapRow(result.rows[0]);
+  }
+
+  async deletePrice(modelName: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM "model_prices" WHERE model_name = $1',
+      [modelName]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,91 @@
+import type { AnswerFeedbackResult } from '@/types/index';
+
+import { DatabaseConnection } from './database';
+
+/**
+ * Ratings of knowledge store entries and generated answers, stored in qa_feedback. Each user keeps
+ * one rating per entry or answer; rating again replaces it.
+ */
+export class AnswerFeedbackManager {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * Save a rating of a knowledge store entry and recompute the entry's quality_score as the average
+   * of all its ratings. The entry row is locked so concurrent ratings cannot overwrite each other's
+   * average. Returns null when the entry does not exist.
+   */
+  async rateKnowledgeStoreItem(
+    qaId: number,
+    ratedBy: string,
+    rating: number,
+    comment: string | null
+  ): Promise<AnswerFeedbackResult | null> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const item = await client.query(`
+        SELECT id FROM "qa_knowledge_base" WHERE id = $1 FOR UPDATE
+      `, [qaId]);
+
+      if (item.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(`
+        INSERT INTO "qa_feedback" (qa_id, rated_by, rating, feedback_text)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (qa_id, rated_by) WHERE qa_id IS NOT NULL
+        DO UPDATE SET rating = EXCLUDED.rating, feedback_text = EXCLUDED.feedback_text, updated_at = CURRENT_TIMESTAMP
+      `, [qaId, ratedBy, rating, comment]);
+
+      // updated_at is left alone: it marks edits of the entry itself
+      const result = await client.query(`
+        WITH stats AS (
+          SELECT AVG(rating)::float AS average, COUNT(*) AS total
+          FROM "qa_feedback"
+          WHERE qa_id = $1
+        )
+        UPDATE "qa_knowledge_base"
+        SET quality_score = stats.average
+        FROM stats
+        WHERE id = $1
+        RETURNING quality_score, stats.total AS rating_count
+      `, [qaId]);
+
+      await client.query('COMMIT');
+
+      const row = result.rows[0] as { quality_score: number; rating_count: string };
+      return {
+        rating,
+        quality_score: Number(row.quality_score),
+        rating_count: Number(row.rating_count)
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Save a rating of a generated answer, identified by the session key of its request
+   */
+  async rateAnswer(sessionKey: string, ratedBy: string, rating: number, comment: string | null): Promise<AnswerFeedbackResult> {
+    await this.db.query(`
+      INSERT INTO "qa_feedback" (user_session, rated_by, rating, feedback_text)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (user_session, rated_by) WHERE qa_id IS NULL
+      DO UPDATE SET rating = EXCLUDED.rating, feedback_text = EXCLUDED.feedback_text, updated_at = CURRENT_TIMESTAMP
+    `, [sessionKey, ratedBy, rating, comment]);
+
+    return { rating };
+  }
+}
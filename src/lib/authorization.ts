@@ -0,0 +1,40 @@
+import { getServerAuthState, AuthUser } from '@/lib/server-auth';
+import type { UserRole } from '@/types/index';
+
+export type AuthorizationResult =
+  | { authorized: true; user: AuthUser }
+  | { authorized: false; status: 401 | 403; error: string };
+
+/**
+ * Check whether a user's role satisfies the required role.
+ * Admins satisfy every role; members only satisfy 'member'.
+ */
+export function hasRole(user: AuthUser, requiredRole: UserRole): boolean {
+  return user.role === 'admin' || user.role === requiredRole;
+}
+
+/**
+ * Reusable guard for API routes. Resolves the JWT from the auth cookie and checks the caller's role.
+ * Routes turn a failed result into a JSON error response with the returned status.
+ */
+export async function authorizeRequest(requiredRole: UserRole = 'member'): Promise<AuthorizationResult> {
+  const authResult = await getServerAuthState();
+
+  if (!authResult.isAuthenticated || !authResult.user) {
+    return { authorized: false, status: 401, error: 'Unauthorized' };
+  }
+
+  if (!hasRole(authResult.user, requiredRole)) {
+    return { authorized: false, status: 403, error: 'Forbidden - admin privileges required' };
+  }
+
+  return { authorized: true, user: authResult.user };
+}
+
+/**
+ * Shorthand for admin-only routes (provider management, knowledge store deletion,
+ * agent prompt edits, ServiceNow script pushes, user management).
+ */
+export function requireAdmin(): Promise<AuthorizationResult> {
+  return authorizeRequest('admin');
+}
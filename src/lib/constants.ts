@@ -24,6 +24,28 @@ export const TYPE_OPTIONS = [
   { value: 'ai-skill' as const, label: 'AI Skill', icon: Brain },
 ];
 
+// Display names for the agents in the n8n multi-agent workflow
+export const AGENT_DISPLAY_NAMES: Record<string, string> = {
+  orchestration: 'Orchestration Agent',
+  business_rule: 'Business Rule Agent',
+  client_script: 'Client Script Agent',
+  planner_large: 'Planner Agent (Large)',
+  planner_small: 'Planner Agent (Small)',
+  coder_large: 'Coder Agent (Large)',
+  coder_small: 'Coder Agent (Small)',
+  architect_large: 'Architect Agent (Large)',
+  architect_small: 'Architect Agent (Small)',
+  process_sme_large: 'Process SME Agent (Large)',
+  process_sme_small: 'Process SME Agent (Small)',
+};
+
+// Agent nodes of the shipped n8n workflow (n8n/init/workflow-template.json) by node name
+export const WORKFLOW_AGENT_NODES: Record<string, string> = {
+  'Orchestration Agent': 'orchestration',
+  'Business Rule Agent': 'business_rule',
+  'Client Script Agent': 'client_script',
+};
+
 export const DEFAULT_VISIBLE_MODES: RequestType[] = [
   'recommendation', 'script', 'troubleshoot', 'ai-agent', 'ai-skill'
 ];
@@ -36,4 +58,17 @@ export const QUICK_ACTIONS = [
 ];
 
 // Placeholder rotation interval in milliseconds
-export const PLACEHOLDER_ROTATION_INTERVAL = 7000;
\ No newline at end of file
+export const PLACEHOLDER_ROTATION_INTERVAL = 7000;
+// Knowledge store suggestions while typing a question
+export const SIMILAR_QUESTION_MIN_LENGTH = 15;
+export const SIMILAR_QUESTION_DEBOUNCE = 600; // ms after the last keystroke
+// Script analysis of JavaScript code blocks in answers
+export const SCRIPT_ANALYSIS_DEBOUNCE = 400; // ms after the block stops changing
+
+// Categories offered when filtering and editing knowledge store entries
+export const KNOWLEDGE_STORE_CATEGORIES = [
+  { value: 'general', label: 'General' },
+  { value: 'scripting', label: 'Scripting' },
+  { value: 'configuration', label: 'Configuration' },
+  { value: 'troubleshooting', label: 'Troubleshooting' },
+];
@@ -53,6 +53,21 @@ interface ActiveAgentPromptRow {
   prompt_content: string;
 }
 
+interface AgentPromptWithVersionRow extends AgentPromptRow {
+  current_version: number | null;
+}
+
+interface AgentPromptVersionRow {
+  id: number;
+  agent_name: string;
+  prompt_type: string;
+  version: number;
+  prompt_content: string;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
 interface DatabaseConfig {
   connectionString: string;
   max?: number;
@@ -60,7 +75,10 @@ interface DatabaseConfig {
   connectionTimeoutMillis?: number;
 }
 
-class DatabaseConnection {
+/**
+ * Process-wide pg pool from DATABASE_URL, shared by every manager in src/lib
+ */
+export class DatabaseConnection {
   private pool: Pool;
   private static instance: DatabaseConnection;
 
@@ -112,6 +130,8 @@ class DatabaseConnection {
 }
 
 import type {
+  AgentPrompt,
+  AgentPromptVersion,
   ConversationHistoryItem,
   HistoryQueryOptions,
   HistoryQueryResult,
@@ -126,7 +146,7 @@ export class ConversationHistory {
     this.db = DatabaseConnection.getInstance();
   }
 
-  async getConversations(options: HistoryQueryOptions = {}): Promise<HistoryQueryResult> {
+  async getConversations(userId: string, options: HistoryQueryOptions = {}): Promise<HistoryQueryResult> {
     const {
       limit = 20,
       offset = 0,
@@ -135,9 +155,9 @@ export class ConversationHistory {
       state = 'done'
     } = options;
 
-    let whereClause = 'WHERE state = $1';
-    const params: unknown[] = [state];
-    let paramIndex = 2;
+    let whereClause = 'WHERE user_id = $1 AND state = $2';
+    const params: unknown[] = [userId, state];
+    let paramIndex = 3;
 
     if (startDate) {
       whereClause += ` AND created_at >= $${paramIndex}`;
@@ -193,14 +213,14 @@ export class ConversationHistory {
     };
   }
 
-  async getConversationById(id: number): Promise<ConversationHistoryItem | null> {
+  async getConversationById(userId: string, id: number): Promise<ConversationHistoryItem | null> {
     const query = `
       SELECT id, created_at, prompt, response, model, state, key, question
       FROM "ServiceNowSupportTool"
-      WHERE id = $1
+      WHERE id = $1 AND user_id = $2
     `;
     
-    const result = await this.db.query(query, [id]);
+    const result = await this.db.query(query, [id, userId]);
     
     if (result.rows.length === 0) {
       return null;
@@ -219,7 +239,7 @@ export class ConversationHistory {
     };
   }
 
-  async searchConversations(searchTerm: string, options: HistoryQueryOptions = {}): Promise<HistoryQueryResult> {
+  async searchConversations(userId: string, searchTerm: string, options: HistoryQueryOptions = {}): Promise<HistoryQueryResult> {
     const {
       limit = 20,
       offset = 0,
@@ -228,9 +248,9 @@ export class ConversationHistory {
       state = 'done'
     } = options;
 
-    let whereClause = 'WHERE state = $1 AND (prompt ILIKE $2 OR response ILIKE $2)';
-    const params: unknown[] = [state, `%${searchTerm}%`];
-    let paramIndex = 3;
+    let whereClause = 'WHERE user_id = $1 AND state = $2 AND (prompt ILIKE $3 OR response ILIKE $3)';
+    const params: unknown[] = [userId, state, `%${searchTerm}%`];
+    let paramIndex = 4;
 
     if (startDate) {
       whereClause += ` AND created_at >= $${paramIndex}`;
@@ -286,22 +306,32 @@ export class ConversationHistory {
     };
   }
 
-  async deleteConversation(id: number): Promise<boolean> {
-    const query = 'DELETE FROM "ServiceNowSupportTool" WHERE id = $1';
-    const result = await this.db.query(query, [id]);
+  async deleteConversation(userId: string, id: number): Promise<boolean> {
+    const query = 'DELETE FROM "ServiceNowSupportTool" WHERE id = $1 AND user_id = $2';
+    const result = await this.db.query(query, [id, userId]);
     return (result.rowCount || 0) > 0;
   }
 
-  async getRecentConversations(limit: number = 10): Promise<ConversationHistoryItem[]> {
+  async markConversationCancelled(userId: string, sessionKey: string): Promise<boolean> {
+    const query = `
+      UPDATE "ServiceNowSupportTool"
+      SET state = 'cancelled'
+      WHERE session_key = $1 AND user_id = $2 AND state = 'processing'
+    `;
+    const result = await this.db.query(query, [sessionKey, userId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getRecentConversations(userId: string, limit: number = 10): Promise<ConversationHistoryItem[]> {
     const query = `
       SELECT id, created_at, prompt, response, model, state, key, question
       FROM "ServiceNowSupportTool"
-      WHERE state = 'done'
+      WHERE user_id = $1 AND state = 'done'
       ORDER BY created_at DESC
-      LIMIT $1
+      LIMIT $2
     `;
     
-    const result = await this.db.query(query, [limit]);
+    const result = await this.db.query(query, [userId, limit]);
     
     return result.rows.map((row: unknown) => {
       const r = row as ServiceNowSupportToolRow;
@@ -394,7 +424,10 @@ export class UserSettingsManager {
       agent_tool_block_display_mode: 'styled',
       voice_mode_enabled: true,
       voice_auto_submit: true,
-      voice_auto_send: false
+      voice_auto_send: false,
+      block_unsafe_scripts: false,
+      servicenow_instances: [],
+      active_servicenow_instance: ''
     };
 
     if (result.rows.length === 0) {
@@ -624,6 +657,25 @@ export class AgentModelManager {
 }
 
 
+// The agents whose prompt n8n/init/workflow-template.json reads from metadata.agentPrompts
+export const WORKFLOW_PROMPT_AGENTS: Array<{ name: string; displayName: string; description: string }> = [
+  {
+    name: 'orchestration',
+    displayName: 'Orchestration Agent',
+    description: 'Coordinates overall response and routing between different specialized agents'
+  },
+  {
+    name: 'business_rule',
+    displayName: 'Business Rule Agent',
+    description: 'Specializes in ServiceNow business rules, server-side scripts, and workflow logic'
+  },
+  {
+    name: 'client_script',
+    displayName: 'Client Script Agent',
+    description: 'Handles ServiceNow client scripts, UI policies, and front-end customizations'
+  }
+];
+
 export class AgentPromptManager {
   private db: DatabaseConnection;
 
@@ -648,17 +700,143 @@ export class AgentPromptManager {
     return row.prompt_content;
   }
 
-  async setAgentPrompt(agentName: string, promptType: string, promptContent: string): Promise<void> {
+  /**
+   * Save prompt content as the current prompt and append it to the version history.
+   * Saving content identical to the latest version records nothing and returns that version.
+   */
+  async setAgentPrompt(
+    agentName: string,
+    promptType: string,
+    promptContent: string,
+    options: { createdBy?: string; changeNote?: string } = {}
+  ): Promise<AgentPromptVersion> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      // The upsert locks the prompt row, so concurrent saves get consecutive version numbers
+      await client.query(`
+        INSERT INTO "agent_prompts" (agent_name, prompt_type, prompt_content, is_active, updated_at)
+        VALUES ($1, $2, $3, TRUE, CURRENT_TIMESTAMP)
+        ON CONFLICT (agent_name, prompt_type)
+        DO UPDATE SET 
+          prompt_content = EXCLUDED.prompt_content,
+          updated_at = CURRENT_TIMESTAMP
+      `, [agentName, promptType, promptContent]);
+
+      const latestResult = await client.query(`
+        SELECT id, agent_name, prompt_type, version, prompt_content, change_note, created_by, created_at
+        FROM "agent_prompt_versions"
+        WHERE agent_name = $1 AND prompt_type = $2
+        ORDER BY version DESC
+        LIMIT 1
+      `, [agentName, promptType]);
+      const latest = latestResult.rows[0] as AgentPromptVersionRow | undefined;
+
+      if (latest && latest.prompt_content === promptContent) {
+        await client.query('COMMIT');
+        return this.mapVersionRow(latest);
+      }
+
+      const versionResult = await client.query(`
+        INSERT INTO "agent_prompt_versions" (agent_name, prompt_type, version, prompt_content, change_note, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING id, agent_name, prompt_type, version, prompt_content, change_note, created_by, created_at
+      `, [agentName, promptType, (latest?.version || 0) + 1, promptContent, options.changeNote || null, options.createdBy || null]);
+
+      await client.query('COMMIT');
+      return this.mapVersionRow(versionResult.rows[0] as AgentPromptVersionRow);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Make an earlier version current again. History stays immutable - the rollback is saved as a new version.
+   */
+  async rollbackAgentPrompt(agentName: string, promptType: string, version: number, createdBy?: string): Promise<AgentPromptVersion | null> {
+    const target = await this.getAgentPromptVersion(agentName, promptType, version);
+
+    if (!target) {
+      return null;
+    }
+
+    return this.setAgentPrompt(agentName, promptType, target.prompt_content, {
+      createdBy,
+      changeNote: `Rolled back to version ${version}`
+    });
+  }
+
+  async getAgentPromptVersions(agentName: string, promptType: string): Promise<AgentPromptVersion[]> {
     const query = `
-      INSERT INTO "agent_prompts" (agent_name, prompt_type, prompt_content, is_active, updated_at)
-      VALUES ($1, $2, $3, TRUE, CURRENT_TIMESTAMP)
-      ON CONFLICT (agent_name, prompt_type)
-      DO UPDATE SET 
-        prompt_content = EXCLUDED.prompt_content,
-        updated_at = CURRENT_TIMESTAMP
+      SELECT id, agent_name, prompt_type, version, prompt_content, change_note, created_by, created_at
+      FROM "agent_prompt_versions"
+      WHERE agent_name = $1 AND prompt_type = $2
+      ORDER BY version DESC
     `;
-    
-    await this.db.query(query, [agentName, promptType, promptContent]);
+
+    const result = await this.db.query(query, [agentName, promptType]);
+    return result.rows.map(row => this.mapVersionRow(row as AgentPromptVersionRow));
+  }
+
+  async getAgentPromptVersion(agentName: string, promptType: string, version: number): Promise<AgentPromptVersion | null> {
+    const query = `
+      SELECT id, agent_name, prompt_type, version, prompt_content, change_note, created_by, created_at
+      FROM "agent_prompt_versions"
+      WHERE agent_name = $1 AND prompt_type = $2 AND version = $3
+    `;
+
+    const result = await this.db.query(query, [agentName, promptType, version]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapVersionRow(result.rows[0] as AgentPromptVersionRow);
+  }
+
+  /**
+   * All prompts with the version number of their current content
+   */
+  async getAgentPromptsWithVersions(): Promise<AgentPrompt[]> {
+    const query = `
+      SELECT p.agent_name, p.prompt_type, p.prompt_content, p.is_active, p.updated_at,
+             (SELECT MAX(v.version) FROM "agent_prompt_versions" v
+              WHERE v.agent_name = p.agent_name AND v.prompt_type = p.prompt_type) AS current_version
+      FROM "agent_prompts" p
+      ORDER BY p.agent_name, p.prompt_type
+    `;
+
+    const result = await this.db.query(query);
+
+    return result.rows.map((row: unknown) => {
+      const r = row as AgentPromptWithVersionRow;
+      return {
+        agent_name: r.agent_name,
+        prompt_type: r.prompt_type,
+        prompt_content: r.prompt_content,
+        is_active: r.is_active,
+        current_version: r.current_version,
+        updated_at: new Date(r.updated_at)
+      };
+    });
+  }
+
+  private mapVersionRow(row: AgentPromptVersionRow): AgentPromptVersion {
+    return {
+      id: row.id,
+      agent_name: row.agent_name,
+      prompt_type: row.prompt_type,
+      version: row.version,
+      prompt_content: row.prompt_content,
+      change_note: row.change_note,
+      created_by: row.created_by,
+      created_at: new Date(row.created_at)
+    };
   }
 
   async getAllAgentPrompts(): Promise<Array<{ agentName: string; promptType: string; promptContent: string; isActive: boolean; updatedAt: Date }>> {
@@ -727,6 +905,7 @@ export class AgentPromptManager {
     return (result.rowCount || 0) > 0;
   }
 
+  // Version history is kept, so a prompt saved again later continues its numbering
   async deleteAgentPrompt(agentName: string, promptType: string): Promise<boolean> {
     const query = 'DELETE FROM "agent_prompts" WHERE agent_name = $1 AND prompt_type = $2';
     const result = await this.db.query(query, [agentName, promptType]);
@@ -734,23 +913,7 @@ export class AgentPromptManager {
   }
 
   getAvailableAgents(): Array<{ name: string; displayName: string; description: string }> {
-    return [
-      {
-        name: 'orchestration',
-        displayName: 'Orchestration Agent',
-        description: 'Coordinates overall response and routing between different specialized agents'
-      },
-      {
-        name: 'business_rule',
-        displayName: 'Business Rule Agent',
-        description: 'Specializes in ServiceNow business rules, server-side scripts, and workflow logic'
-      },
-      {
-        name: 'client_script',
-        displayName: 'Client Script Agent',
-        description: 'Handles ServiceNow client scripts, UI policies, and front-end customizations'
-      }
-    ];
+    return WORKFLOW_PROMPT_AGENTS;
   }
 
   getAvailablePromptTypes(): Array<{ type: string; displayName: string; description: string }> {
@@ -1,6 +1,6 @@
 /**
  * Export Utilities
- * Handles exporting answers as Markdown and PDF files
+ * Handles exporting answers as Markdown, PDF and ServiceNow update set XML files
  */
 
 import { jsPDF } from 'jspdf';
@@ -26,13 +26,20 @@ import {
   drawBlockquoteBackground,
 } from './pdf-styles';
 import { renderMermaidToImage, calculateImageDimensions, svgToPngDataUrl } from './mermaid-export';
+import { buildUpdateSetXml, extractUpdateSetArtifacts } from './update-set-xml';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  pdf: 'pdf',
+  update_set: 'xml',
+};
 
 /**
  * Generate default filename with timestamp
  */
 export function getDefaultFilename(format: ExportFormat): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-  const extension = format === 'pdf' ? 'pdf' : 'md';
+  const extension = FILE_EXTENSIONS[format] ?? 'md';
   return `ServiceNow-Helper-${timestamp}.${extension}`;
 }
 
@@ -516,6 +523,36 @@ export async function exportAsPDF(options: ExportOptions): Promise<void> {
   }
 }
 
+/**
+ * Export the answer's script blocks as a ServiceNow update set XML file
+ */
+export async function exportAsUpdateSet(options: ExportOptions): Promise<void> {
+  if (!options.updateSet) {
+    throw new Error('Update set name and scope are required');
+  }
+
+  const artifacts = extractUpdateSetArtifacts(options.answer, options.updateSet.name.trim());
+  const content = buildUpdateSetXml(artifacts, options.updateSet);
+  const filename = sanitizeFilename(options.filename);
+  const mimeType = 'application/xml';
+
+  try {
+    // Try File System Access API first
+    if (detectFileSystemAccess()) {
+      await saveWithFilePicker(content, filename, mimeType);
+    } else {
+      // Fallback to download
+      saveWithDownload(content, filename, mimeType);
+    }
+  } catch (error) {
+    if ((error as Error).message === 'Save cancelled by user') {
+      throw error;
+    }
+    // If File System Access fails, use download fallback
+    saveWithDownload(content, filename, mimeType);
+  }
+}
+
 /**
  * Main export function that routes to appropriate handler
  */
@@ -524,6 +561,8 @@ export async function exportAnswer(options: ExportOptions): Promise<void> {
     await exportAsMarkdown(options);
   } else if (options.format === 'pdf') {
     await exportAsPDF(options);
+  } else if (options.format === 'update_set') {
+    await exportAsUpdateSet(options);
   } else {
     throw new Error(`Unsupported export format: ${options.format}`);
   }
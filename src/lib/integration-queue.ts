@@ -0,0 +1,183 @@
+import type {
+  IntegrationQueueItem,
+  IntegrationQueueState,
+  SendScriptRequest,
+  SendScriptResult,
+  ServiceNowArtifactMetadata,
+  ServiceNowInstanceProfile
+} from '@/types/index';
+
+import { DatabaseConnection } from './database';
+
+interface IntegrationQueueRow {
+  id: number;
+  correlation_id: string;
+  payload: string;
+  type: string;
+  target_table: string;
+  metadata: ServiceNowArtifactMetadata | null;
+  state: IntegrationQueueState;
+  error: string | null;
+  result: SendScriptResult | null;
+  attempts: number;
+  created_by: string | null;
+  instance_id: string | null;
+  instance_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const QUEUE_COLUMNS = 'id, correlation_id, payload, type, target_table, metadata, state, error, result, attempts, created_by, instance_id, instance_url, created_at, updated_at';
+
+/**
+ * Send Script deployments in servicenow_integration_queue. The app queues each request before delivering
+ * it (directly or through the n8n create_task workflow) and records how the delivery went.
+ */
+export class IntegrationQueueManager {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  private mapItemRow(row: unknown): IntegrationQueueItem {
+    const r = row as IntegrationQueueRow;
+    return {
+      id: r.id,
+      correlation_id: r.correlation_id,
+      payload: r.payload,
+      type: r.type,
+      target_table: r.target_table,
+      metadata: r.metadata || {},
+      state: r.state,
+      error: r.error,
+      result: r.result,
+      attempts: r.attempts,
+      created_by: r.created_by,
+      instance_id: r.instance_id,
+      instance_url: r.instance_url,
+      created_at: new Date(r.created_at),
+      updated_at: new Date(r.updated_at),
+    };
+  }
+
+  /**
+   * Move an item to a state, but only from one of the given states, so a late write cannot overtake the
+   * ServiceNow side or a concurrent delivery. Returns the item as stored, unchanged when the guard failed.
+   */
+  private async setState(
+    id: number,
+    state: IntegrationQueueState,
+    fromStates: IntegrationQueueState[],
+    error: string | null,
+    result: SendScriptResult | null
+  ): Promise<IntegrationQueueItem> {
+    const { rows } = await this.db.query(`
+      UPDATE "servicenow_integration_queue"
+      SET state = $2, error = $3, result = $4, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND state = ANY($5::varchar[])
+      RETURNING ${QUEUE_COLUMNS}
+    `, [id, state, error, result ? JSON.stringify(result) : null, fromStates]);
+    if (rows.length > 0) {
+      return this.mapItemRow(rows[0]);
+    }
+
+    const current = await this.db.query(`
+      SELECT ${QUEUE_COLUMNS}
+      FROM "servicenow_integration_queue"
+      WHERE id = $1
+    `, [id]);
+    if (current.rows.length === 0) {
+      throw new Error(`Integration queue item ${id} not found`);
+    }
+    const item = this.mapItemRow(current.rows[0]);
+    console.warn(`Integration queue item ${id} stays ${item.state}, not marked ${state}`);
+    return item;
+  }
+
+  /**
+   * Queue a validated Send Script request for a user, in state new with a generated correlation_id,
+   * remembering the instance profile it targets so a retry goes to the same instance
+   */
+  async enqueue(
+    request: SendScriptRequest,
+    createdBy: string,
+    instance: ServiceNowInstanceProfile | null = null
+  ): Promise<IntegrationQueueItem> {
+    const { rows } = await this.db.query(`
+      INSERT INTO "servicenow_integration_queue" (payload, type, target_table, metadata, created_by, instance_id, instance_url)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING ${QUEUE_COLUMNS}
+    `, [
+      request.payload,
+      request.type,
+      request.target_table,
+      JSON.stringify(request.metadata),
+      createdBy,
+      instance?.id ?? null,
+      instance?.url ?? null
+    ]);
+    return this.mapItemRow(rows[0]);
+  }
+
+  /**
+   * A user's deployments, newest first, optionally only those in one state
+   */
+  async getUserItems(createdBy: string, state?: IntegrationQueueState, limit = 50): Promise<IntegrationQueueItem[]> {
+    const params: unknown[] = [createdBy, limit];
+    let where = 'WHERE created_by = $1';
+    if (state) {
+      params.push(state);
+      where += ' AND state = $3';
+    }
+
+    const { rows } = await this.db.query(`
+      SELECT ${QUEUE_COLUMNS}
+      FROM "servicenow_integration_queue"
+      ${where}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $2
+    `, params);
+    return rows.map(row => this.mapItemRow(row));
+  }
+
+  /**
+   * One of a user's deployments, or null when it does not exist or belongs to someone else
+   */
+  async getUserItem(id: number, createdBy: string): Promise<IntegrationQueueItem | null> {
+    const { rows } = await this.db.query(`
+      SELECT ${QUEUE_COLUMNS}
+      FROM "servicenow_integration_queue"
+      WHERE id = $1 AND created_by = $2
+    `, [id, createdBy]);
+    return rows.length > 0 ? this.mapItemRow(rows[0]) : null;
+  }
+
+  /**
+   * Put a failed deployment back in state new for another delivery. Returns null unless the item is
+   * the user's and failed, so a retry cannot race a delivery that is still running.
+   */
+  async resetForRetry(id: number, createdBy: string): Promise<IntegrationQueueItem | null> {
+    const { rows } = await this.db.query(`
+      UPDATE "servicenow_integration_queue"
+      SET state = 'new', error = NULL, result = NULL, attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND created_by = $2 AND state = 'failed'
+      RETURNING ${QUEUE_COLUMNS}
+    `, [id, createdBy]);
+    return rows.length > 0 ? this.mapItemRow(rows[0]) : null;
+  }
+
+  // Handed to n8n; the companion app may already have finished the item, so only a new one moves
+  async markProcessing(id: number): Promise<IntegrationQueueItem> {
+    return this.setState(id, 'processing', ['new'], null, null);
+  }
+
+  // completed and failed are terminal: a later outcome never replaces an earlier one
+  async markCompleted(id: number, result: SendScriptResult): Promise<IntegrationQueueItem> {
+    return this.setState(id, 'completed', ['new', 'processing'], null, result);
+  }
+
+  async markFailed(id: number, error: string): Promise<IntegrationQueueItem> {
+    return this.setState(id, 'failed', ['new', 'processing'], error, null);
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Knowledge Store Transfer
+ * Reads and writes knowledge store items as JSONL, CSV and zipped Markdown, and runs imports
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+import { parseKnowledgeStoreItem } from '@/lib/request-validation';
+import type {
+  KnowledgeStoreExportFormat,
+  KnowledgeStoreImportReport,
+  KnowledgeStoreImportRowResult,
+  KnowledgeStoreItem,
+  KnowledgeStoreItemUpdate,
+  KnowledgeStoreSimilarItem
+} from '@/types';
+
+// qa_knowledge_base stores vector(1536) embeddings (text-embedding-3-small)
+export const EMBEDDING_DIMENSIONS = 1536;
+export const MAX_IMPORT_ROWS = 1000;
+// Questions this close are treated as the same question asked again
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.95;
+
+export const EXPORT_FILE_TYPES: Record<KnowledgeStoreExportFormat, { extension: string; contentType: string }> = {
+  jsonl: { extension: 'jsonl', contentType: 'application/x-ndjson; charset=utf-8' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  markdown: { extension: 'zip', contentType: 'application/zip' }
+};
+
+const CSV_COLUMNS = ['id', 'question', 'answer', 'category', 'tags', 'quality_score', 'usage_count', 'created_at', 'updated_at'];
+const EMBEDDING_COLUMNS = ['question_embedding', 'answer_embedding'];
+const MARKDOWN_FOLDER = 'knowledge-store';
+
+/**
+ * One record of an import file before validation. `error` is set when the record could not be
+ * read at all (malformed JSON, broken front matter).
+ */
+export interface KnowledgeStoreImportRow {
+  row: number;
+  source?: string;
+  fields?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface KnowledgeStoreImportDependencies {
+  findSimilar: (embedding: number[], options: { limit: number; threshold: number }) => Promise<KnowledgeStoreSimilarItem[]>;
+  createItem: (item: KnowledgeStoreItemUpdate, embeddings: { question: number[]; answer: number[] }) => Promise<KnowledgeStoreItem>;
+  generateEmbedding: (text: string) => Promise<number[] | null>;
+}
+
+const toRecord = (item: KnowledgeStoreItem, includeEmbeddings: boolean): Record<string, unknown> => ({
+  id: item.id,
+  question: item.question,
+  answer: item.answer,
+  category: item.category,
+  tags: item.tags || [],
+  quality_score: item.quality_score,
+  usage_count: item.usage_count,
+  created_at: new Date(item.created_at).toISOString(),
+  updated_at: new Date(item.updated_at).toISOString(),
+  ...(includeEmbeddings ? { question_embedding: item.question_embedding, answer_embedding: item.answer_embedding } : {})
+});
+
+export function serializeJsonl(items: KnowledgeStoreItem[], includeEmbeddings: boolean): string {
+  return items.map(item => JSON.stringify(toRecord(item, includeEmbeddings)) + '\n').join('');
+}
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * RFC 4180 CSV with a header row. Tags are joined with ", " (as typed in the edit form),
+ * embeddings are written as JSON arrays.
+ */
+export function serializeCsv(items: KnowledgeStoreItem[], includeEmbeddings: boolean): string {
+  const columns = includeEmbeddings ? [...CSV_COLUMNS, ...EMBEDDING_COLUMNS] : CSV_COLUMNS;
+  const lines = items.map(item => {
+    const record = toRecord(item, includeEmbeddings);
+    return columns.map(column => {
+      const value = record[column];
+      if (value === null || value === undefined) return '';
+      if (column === 'tags') return escapeCsvCell((value as string[]).join(', '));
+      if (Array.isArray(value)) return escapeCsvCell(JSON.stringify(value));
+      return escapeCsvCell(String(value));
+    }).join(',');
+  });
+
+  return [columns.join(','), ...lines].map(line => line + '\r\n').join('');
+}
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60).replace(/-+$/, '') || 'entry';
+
+/**
+ * A zip with one Markdown file per item. The answer is the file body; everything else sits in
+ * front matter as `key: <JSON value>` lines, which any YAML reader also understands.
+ */
+export function buildMarkdownBundle(items: KnowledgeStoreItem[], includeEmbeddings: boolean): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+
+  items.forEach((item, index) => {
+    const { answer, ...frontMatter } = toRecord(item, includeEmbeddings);
+    const lines = Object.entries(frontMatter).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+    const name = `${String(index + 1).padStart(4, '0')}-${slugify(item.question)}.md`;
+    files[`${MARKDOWN_FOLDER}/${name}`] = strToU8(`---\n${lines.join('\n')}\n---\n\n${answer}\n`);
+  });
+
+  return zipSync(files);
+}
+
+/**
+ * Split CSV text into records, honouring quoted cells with commas, quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  // Blank lines, e.g. at the end of the file, are not records
+  return records.filter(fields => fields.length > 1 || fields[0] !== '');
+}
+
+function parseJsonlRows(text: string): KnowledgeStoreImportRow[] {
+  const rows: KnowledgeStoreImportRow[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const value = JSON.parse(line);
+      rows.push(value && typeof value === 'object' && !Array.isArray(value)
+        ? { row: index + 1, fields: value }
+        : { row: index + 1, error: 'Line is not a JSON object' });
+    } catch {
+      rows.push({ row: index + 1, error: 'Line is not valid JSON' });
+    }
+  });
+
+  return rows;
+}
+
+function parseCsvRows(text: string): KnowledgeStoreImportRow[] | { error: string } {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header || []).map(column => column.trim().toLowerCase());
+  if (!columns.includes('question') || !columns.includes('answer')) {
+    return { error: 'The CSV header must contain question and answer columns' };
+  }
+
+  return records.map((record, index) => {
+    const fields: Record<string, unknown> = {};
+    columns.forEach((column, position) => {
+      const value = record[position] ?? '';
+      if (column === 'tags') {
+        fields.tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+      } else if (value !== '') {
+        fields[column] = value;
+      }
+    });
+    return { row: index + 1, fields };
+  });
+}
+
+function parseMarkdownFile(content: string): { fields: Record<string, unknown> } | { error: string } {
+  const text = content.replace(/\r\n/g, '\n');
+  const match = text.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) {
+    return { error: 'File does not start with a front matter block' };
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const line of match[1].split('\n')) {
+    if (!line.trim()) continue;
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      return { error: `Invalid front matter line: ${line.slice(0, 50)}` };
+    }
+    const key = line.slice(0, separator).trim();
+    const raw = line.slice(separator + 1).trim();
+    try {
+      fields[key] = JSON.parse(raw);
+    } catch {
+      // Hand-written front matter may leave plain strings unquoted
+      fields[key] = raw;
+    }
+  }
+
+  fields.answer = match[2].trim();
+  return { fields };
+}
+
+function parseMarkdownBundle(bytes: Uint8Array): KnowledgeStoreImportRow[] | { error: string } {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes);
+  } catch {
+    return { error: 'The file is not a valid zip archive' };
+  }
+
+  return Object.keys(entries)
+    .filter(name => name.toLowerCase().endsWith('.md') && !name.startsWith('__MACOSX/'))
+    .sort()
+    .map((name, index) => {
+      const parsed = parseMarkdownFile(strFromU8(entries[name]));
+      return 'error' in parsed
+        ? { row: index + 1, source: name, error: parsed.error }
+        : { row: index + 1, source: name, fields: parsed.fields };
+    });
+}
+
+/**
+ * Read an uploaded import file; the format follows the file extension (.jsonl, .csv or .zip)
+ */
+export function parseImportFile(
+  fileName: string,
+  bytes: Uint8Array
+): { format: KnowledgeStoreExportFormat; rows: KnowledgeStoreImportRow[] } | { error: string } {
+  const extension = fileName.toLowerCase().split('.').pop();
+  let format: KnowledgeStoreExportFormat;
+  let rows: KnowledgeStoreImportRow[] | { error: string };
+
+  if (extension === 'jsonl' || extension === 'ndjson') {
+    format = 'jsonl';
+    rows = parseJsonlRows(strFromU8(bytes));
+  } else if (extension === 'csv') {
+    format = 'csv';
+    rows = parseCsvRows(strFromU8(bytes));
+  } else if (extension === 'zip') {
+    format = 'markdown';
+    rows = parseMarkdownBundle(bytes);
+  } else {
+    return { error: 'Unsupported file type; upload a .jsonl, .csv or .zip file' };
+  }
+
+  if ('error' in rows) {
+    return rows;
+  }
+  if (rows.length === 0) {
+    return { error: 'The file contains no entries' };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `At most ${MAX_IMPORT_ROWS} entries can be imported at once` };
+  }
+
+  return { format, rows };
+}
+
+/**
+ * An embedding from an import file, as an array or its '[1,2,3]' text form.
+ * Returns undefined when the file has none, so one is generated instead.
+ */
+export function parseEmbedding(value: unknown, field: string): { embedding?: number[] } | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return { error: `${field} is not a JSON array` };
+    }
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== EMBEDDING_DIMENSIONS || parsed.some(n => typeof n !== 'number' || !isFinite(n))) {
+    return { error: `${field} must be an array of ${EMBEDDING_DIMENSIONS} numbers` };
+  }
+  return { embedding: parsed };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Validate, de-duplicate and (unless dry-running) insert import rows one by one, reporting the
+ * outcome of every row. A question counts as a duplicate when its embedding is within
+ * DUPLICATE_SIMILARITY_THRESHOLD of a stored question or of an earlier row of the same file.
+ * Dry runs only embed questions, which duplicate detection needs; answers are embedded on import.
+ */
+export async function runKnowledgeStoreImport(
+  format: KnowledgeStoreExportFormat,
+  rows: KnowledgeStoreImportRow[],
+  dryRun: boolean,
+  deps: KnowledgeStoreImportDependencies
+): Promise<KnowledgeStoreImportReport> {
+  const accepted: { id: number | null; question: string; embedding: number[] }[] = [];
+  const results: KnowledgeStoreImportRowResult[] = [];
+
+  for (const row of rows) {
+    const base = { row: row.row, ...(row.source ? { source: row.source } : {}) };
+    const question = typeof row.fields?.question === 'string' ? row.fields.question.trim() : undefined;
+
+    if (row.error || !row.fields) {
+      results.push({ ...base, status: 'invalid', question, message: row.error });
+      continue;
+    }
+
+    const parsed = parseKnowledgeStoreItem(row.fields);
+    const questionEmbedding = parseEmbedding(row.fields.question_embedding, 'question_embedding');
+    const answerEmbedding = parseEmbedding(row.fields.answer_embedding, 'answer_embedding');
+    if ('error' in parsed || 'error' in questionEmbedding || 'error' in answerEmbedding) {
+      const { error } = [parsed, questionEmbedding, answerEmbedding].find(result => 'error' in result) as { error: string };
+      results.push({ ...base, status: 'invalid', question, message: error });
+      continue;
+    }
+
+    const { item } = parsed;
+    try {
+      const embedding = questionEmbedding.embedding || await deps.generateEmbedding(item.question);
+      if (!embedding) {
+        results.push({ ...base, status: 'failed', question: item.question, message: 'Could not generate an embedding for the question' });
+        continue;
+      }
+
+      const earlier = accepted
+        .map(previous => ({ previous, similarity: cosineSimilarity(embedding, previous.embedding) }))
+        .find(match => match.similarity >= DUPLICATE_SIMILARITY_THRESHOLD);
+      const stored = earlier ? [] : await deps.findSimilar(embedding, { limit: 1, threshold: DUPLICATE_SIMILARITY_THRESHOLD });
+      const duplicateOf = earlier
+        ? { id: earlier.previous.id, question: earlier.previous.question, similarity: earlier.similarity }
+        : stored[0] && { id: stored[0].item.id, question: stored[0].item.question, similarity: stored[0].similarity };
+
+      if (duplicateOf) {
+        results.push({ ...base, status: 'duplicate', question: item.question, duplicate_of: duplicateOf });
+        continue;
+      }
+
+      if (dryRun) {
+        accepted.push({ id: null, question: item.question, embedding });
+        results.push({ ...base, status: 'valid', question: item.question });
+        continue;
+      }
+
+      const answer = answerEmbedding.embedding || await deps.generateEmbedding(item.answer);
+      if (!answer) {
+        results.push({ ...base, status: 'failed', question: item.question, message: 'Could not generate an embedding for the answer' });
+        continue;
+      }
+
+      const created = await deps.createItem(item, { question: embedding, answer });
+      accepted.push({ id: created.id, question: item.question, embedding });
+      results.push({ ...base, status: 'created', question: item.question, created_id: created.id });
+    } catch (error) {
+      results.push({
+        ...base,
+        status: 'failed',
+        question: item.question,
+        message: error instanceof Error ? error.message : 'Failed to import entry'
+      });
+    }
+  }
+
+  const count = (status: KnowledgeStoreImportRowResult['status']) => results.filter(result => result.status === status).length;
+  return {
+    dry_run: dryRun,
+    format,
+    total: results.length,
+    created: count('created'),
+    valid: count('valid'),
+    duplicates: count('duplicate'),
+    invalid: count('invalid'),
+    failed: count('failed'),
+    rows: results
+  };
+}
@@ -0,0 +1,375 @@
+import type {
+  KnowledgeStoreEdit,
+  KnowledgeStoreItem,
+  KnowledgeStoreItemUpdate,
+  KnowledgeStoreQueryOptions,
+  KnowledgeStoreQueryResult,
+  KnowledgeStoreSimilarItem
+} from '@/types/index';
+
+import { DatabaseConnection } from './database';
+
+interface KnowledgeStoreRow {
+  id: number;
+  question: string;
+  answer: string;
+  category: string | null;
+  tags: string[] | null;
+  quality_score: number | null;
+  usage_count: number | null;
+  created_at: string;
+  updated_at: string;
+  total?: string;
+  similarity?: number;
+  question_embedding?: string | null;
+  answer_embedding?: string | null;
+}
+
+interface KnowledgeStoreEditRow {
+  id: number;
+  qa_id: number;
+  question: string;
+  answer: string;
+  category: string | null;
+  tags: string[] | null;
+  edited_by: string | null;
+  edited_at: string;
+}
+
+// Embeddings are left out of list queries: 2 x 1536 floats per row would dwarf the text
+const ITEM_COLUMNS = 'id, question, answer, category, tags, quality_score, usage_count, created_at, updated_at';
+
+// Must match the expression of idx_qa_search (scripts/create-knowledge-store-search-index.sql) for the index to be used
+const SEARCH_DOCUMENT = "to_tsvector('english', question || ' ' || answer)";
+
+// Search relevance is scaled by the average rating: 1 star x0.67, unrated or 3 stars x1, 5 stars x1.33.
+// quality_score stays 0 until an entry is rated (scripts/add-qa-feedback-ratings.sql)
+const QUALITY_WEIGHT = '(0.5 + COALESCE(NULLIF(quality_score, 0), 3) / 6)';
+
+// Thrown when the text of an entry changed after its embeddings were generated for the edit
+export class KnowledgeStoreEditConflictError extends Error {
+  constructor(public field: 'question' | 'answer') {
+    super(`The ${field} of this entry was changed by someone else; reload it and try again`);
+    this.name = 'KnowledgeStoreEditConflictError';
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_SIMILAR_RESULTS = 20;
+
+/**
+ * Turn free text into a prefix tsquery ("flow design" -> "flow:* & design:*"), so results
+ * narrow down while the user is still typing a word. Returns null when nothing searchable is left.
+ */
+export function buildSearchQuery(search: string): string | null {
+  const terms = search.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+}
+
+const mapItemRow = (row: KnowledgeStoreRow): KnowledgeStoreItem => ({
+  id: row.id,
+  question: row.question,
+  answer: row.answer,
+  question_embedding: null,
+  answer_embedding: null,
+  category: row.category,
+  tags: row.tags,
+  quality_score: Number(row.quality_score) || 0,
+  usage_count: Number(row.usage_count) || 0,
+  created_at: new Date(row.created_at),
+  updated_at: new Date(row.updated_at)
+});
+
+export class KnowledgeStoreManager {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * One page of knowledge store items. Filtering, full-text search and pagination all run in
+   * Postgres; search results are ordered by relevance weighted by rating, everything else newest first.
+   */
+  async getItems(options: KnowledgeStoreQueryOptions = {}): Promise<KnowledgeStoreQueryResult> {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(options.offset || 0, 0);
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const searchQuery = options.search ? buildSearchQuery(options.search) : null;
+    if (searchQuery) {
+      params.push(searchQuery);
+      conditions.push(`${SEARCH_DOCUMENT} @@ to_tsquery('english', $${params.length})`);
+    }
+    if (options.category && options.category !== 'all') {
+      params.push(options.category);
+      conditions.push(`category = $${params.length}`);
+    }
+    if (options.startDate) {
+      params.push(options.startDate);
+      conditions.push(`created_at >= $${params.length}`);
+    }
+    if (options.endDate) {
+      params.push(options.endDate);
+      conditions.push(`created_at <= $${params.length}`);
+    }
+
+    const orderBy = searchQuery
+      ? `ts_rank(${SEARCH_DOCUMENT}, to_tsquery('english', $1)) * ${QUALITY_WEIGHT} DESC, created_at DESC, id DESC`
+      : 'created_at DESC, id DESC';
+
+    params.push(limit, offset);
+    const result = await this.db.query(`
+      SELECT ${ITEM_COLUMNS}, COUNT(*) OVER() AS total
+      FROM "qa_knowledge_base"
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${orderBy}
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `, params);
+
+    const rows = result.rows as KnowledgeStoreRow[];
+    let total = rows.length > 0 ? Number(rows[0].total) : 0;
+
+    // An offset past the end returns no rows, and with them no window count
+    if (rows.length === 0 && offset > 0) {
+      const countResult = await this.db.query(`
+        SELECT COUNT(*) AS total
+        FROM "qa_knowledge_base"
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      `, params.slice(0, -2));
+      total = Number((countResult.rows[0] as { total: string }).total);
+    }
+
+    return {
+      items: rows.map(mapItemRow),
+      total,
+      hasMore: offset + rows.length < total
+    };
+  }
+
+  async getItemById(id: number): Promise<KnowledgeStoreItem | null> {
+    const result = await this.db.query(`
+      SELECT ${ITEM_COLUMNS}
+      FROM "qa_knowledge_base"
+      WHERE id = $1
+    `, [id]);
+
+    const row = result.rows[0] as KnowledgeStoreRow | undefined;
+    return row ? mapItemRow(row) : null;
+  }
+
+  /**
+   * Every item matching the category, oldest first, for exports. Embeddings are only read when
+   * asked for, in the '[1,2,3]' text form pgvector returns.
+   */
+  async getAllItems(options: { category?: string; includeEmbeddings?: boolean } = {}): Promise<KnowledgeStoreItem[]> {
+    const params: unknown[] = [];
+    let where = '';
+    if (options.category && options.category !== 'all') {
+      params.push(options.category);
+      where = 'WHERE category = $1';
+    }
+
+    const result = await this.db.query(`
+      SELECT ${ITEM_COLUMNS}${options.includeEmbeddings ? ', question_embedding, answer_embedding' : ''}
+      FROM "qa_knowledge_base"
+      ${where}
+      ORDER BY id
+    `, params);
+
+    return (result.rows as KnowledgeStoreRow[]).map(row => ({
+      ...mapItemRow(row),
+      question_embedding: row.question_embedding ? JSON.parse(row.question_embedding) : null,
+      answer_embedding: row.answer_embedding ? JSON.parse(row.answer_embedding) : null
+    }));
+  }
+
+  /**
+   * Insert a new entry with both embeddings, as imports do; saving answers from the UI still
+   * goes through the n8n save-qa-pair webhook.
+   */
+  async createItem(
+    item: KnowledgeStoreItemUpdate,
+    embeddings: { question: number[]; answer: number[] }
+  ): Promise<KnowledgeStoreItem> {
+    const result = await this.db.query(`
+      INSERT INTO "qa_knowledge_base" (question, answer, category, tags, question_embedding, answer_embedding)
+      VALUES ($1, $2, $3, $4, $5::vector, $6::vector)
+      RETURNING ${ITEM_COLUMNS}
+    `, [
+      item.question,
+      item.answer,
+      item.category,
+      item.tags,
+      JSON.stringify(embeddings.question),
+      JSON.stringify(embeddings.answer)
+    ]);
+
+    return mapItemRow(result.rows[0] as KnowledgeStoreRow);
+  }
+
+  /**
+   * Update an entry and keep its previous version in qa_knowledge_base_history. The stored row is
+   * locked and compared with the updates: text that changed needs its new embedding, unchanged
+   * text keeps the stored one, and an edit that changes nothing writes neither history nor update.
+   * Returns null when the entry does not exist; throws KnowledgeStoreEditConflictError when text
+   * changed without an embedding, i.e. someone else edited it since the caller read it.
+   */
+  async updateItem(
+    id: number,
+    updates: KnowledgeStoreItemUpdate,
+    embeddings: { question?: number[]; answer?: number[] },
+    editedBy: string
+  ): Promise<KnowledgeStoreItem | null> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query(`
+        SELECT ${ITEM_COLUMNS}
+        FROM "qa_knowledge_base"
+        WHERE id = $1
+        FOR UPDATE
+      `, [id]);
+
+      if (current.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const previous = current.rows[0] as KnowledgeStoreRow;
+      const changedText = (['question', 'answer'] as const).filter(field => updates[field] !== previous[field]);
+      const missingEmbedding = changedText.find(field => !embeddings[field]);
+      if (missingEmbedding) {
+        throw new KnowledgeStoreEditConflictError(missingEmbedding);
+      }
+
+      const unchanged = changedText.length === 0
+        && updates.category === previous.category
+        && JSON.stringify(updates.tags) === JSON.stringify(previous.tags ?? []);
+      if (unchanged) {
+        await client.query('COMMIT');
+        return mapItemRow(previous);
+      }
+
+      await client.query(`
+        INSERT INTO "qa_knowledge_base_history" (qa_id, question, answer, category, tags, edited_by)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [id, previous.question, previous.answer, previous.category, previous.tags, editedBy]);
+
+      const params: unknown[] = [id, updates.question, updates.answer, updates.category, updates.tags];
+      const embeddingAssignments: string[] = [];
+      for (const field of changedText) {
+        params.push(JSON.stringify(embeddings[field]));
+        embeddingAssignments.push(`${field}_embedding = $${params.length}::vector`);
+      }
+
+      const result = await client.query(`
+        UPDATE "qa_knowledge_base"
+        SET question = $2, answer = $3, category = $4, tags = $5,
+            ${embeddingAssignments.map(assignment => `${assignment}, `).join('')}updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING ${ITEM_COLUMNS}
+      `, params);
+
+      await client.query('COMMIT');
+      return mapItemRow(result.rows[0] as KnowledgeStoreRow);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Previous versions of an entry, newest first
+   */
+  async getItemHistory(id: number): Promise<KnowledgeStoreEdit[]> {
+    const result = await this.db.query(`
+      SELECT id, qa_id, question, answer, category, tags, edited_by, edited_at
+      FROM "qa_knowledge_base_history"
+      WHERE qa_id = $1
+      ORDER BY edited_at DESC, id DESC
+    `, [id]);
+
+    return (result.rows as KnowledgeStoreEditRow[]).map(row => ({
+      ...row,
+      edited_at: new Date(row.edited_at)
+    }));
+  }
+
+  /**
+   * Count one reuse of a stored answer and return the item, or null when it does not exist
+   */
+  async incrementUsageCount(id: number): Promise<KnowledgeStoreItem | null> {
+    const result = await this.db.query(`
+      UPDATE "qa_knowledge_base"
+      SET usage_count = COALESCE(usage_count, 0) + 1
+      WHERE id = $1
+      RETURNING ${ITEM_COLUMNS}
+    `, [id]);
+
+    const row = result.rows[0] as KnowledgeStoreRow | undefined;
+    return row ? mapItemRow(row) : null;
+  }
+
+  /**
+   * Items whose question embedding is closest to the given one by cosine distance (uses the
+   * ivfflat index on question_embedding). Items below the similarity threshold are dropped.
+   */
+  async findSimilar(
+    embedding: number[] | string,
+    options: { limit?: number; threshold?: number; excludeId?: number } = {}
+  ): Promise<KnowledgeStoreSimilarItem[]> {
+    const limit = Math.min(Math.max(options.limit || 5, 1), MAX_SIMILAR_RESULTS);
+    const threshold = options.threshold ?? 0;
+    // pgvector accepts the '[1,2,3]' text form, which is also how it returns stored vectors
+    const vector = typeof embedding === 'string' ? embedding : JSON.stringify(embedding);
+    const params: unknown[] = [vector, limit];
+
+    let exclude = '';
+    if (options.excludeId !== undefined) {
+      params.push(options.excludeId);
+      exclude = `AND id <> $${params.length}`;
+    }
+
+    const result = await this.db.query(`
+      SELECT ${ITEM_COLUMNS}, 1 - (question_embedding <=> $1::vector) AS similarity
+      FROM "qa_knowledge_base"
+      WHERE question_embedding IS NOT NULL ${exclude}
+      ORDER BY question_embedding <=> $1::vector
+      LIMIT $2
+    `, params);
+
+    return (result.rows as KnowledgeStoreRow[])
+      .map(row => ({ item: mapItemRow(row), similarity: Number(row.similarity) }))
+      .filter(match => match.similarity >= threshold);
+  }
+
+  /**
+   * Questions similar to a stored item. Returns null when the item does not exist and an
+   * empty list when it has no embedding yet.
+   */
+  async findSimilarToItem(
+    id: number,
+    options: { limit?: number; threshold?: number } = {}
+  ): Promise<KnowledgeStoreSimilarItem[] | null> {
+    const result = await this.db.query(`
+      SELECT question_embedding FROM "qa_knowledge_base" WHERE id = $1
+    `, [id]);
+
+    const row = result.rows[0] as { question_embedding: string | null } | undefined;
+    if (!row) {
+      return null;
+    }
+    if (!row.question_embedding) {
+      return [];
+    }
+
+    return this.findSimilar(row.question_embedding, { ...options, excludeId: id });
+  }
+}
@@ -10,7 +10,7 @@ import ToolNodeBlock from '@/components/ToolNodeBlock';
 import SkillOutputsBlock from '@/components/SkillOutputsBlock';
 import PromptBlock from '@/components/PromptBlock';
 
-import { extractContainerContent } from './markdown-utils';
+import { extractCodeBlockContext, extractContainerContent } from './markdown-utils';
 
 // Cache for extracted container content to avoid re-running regex on every render
 // Key format: "containerType:lineCount"
@@ -130,11 +130,19 @@ export const createMarkdownComponents = (isStreaming?: boolean, fullContent?: st
     </div>
   ),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  code: ({ className, children, ...props }: any) => {
+  code: ({ className, children, node, ...props }: any) => {
+    // Markdown around the block lets Send Script pre-fill record fields (table, name, ...)
+    const start = node?.position?.start?.offset;
+    const end = node?.position?.end?.offset;
+    const context = fullContent && className?.includes('language-') && start !== undefined && end !== undefined
+      ? extractCodeBlockContext(fullContent, start, end)
+      : undefined;
+
     return (
       <CodeBlock
         className={className}
         isStreaming={isStreaming}
+        context={context}
         {...props}
       >
         {children}
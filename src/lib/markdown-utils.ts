@@ -106,3 +106,30 @@ export function extractAllContainers(fullContent: string, containerType: string)
 
   return results;
 }
+
+/**
+ * Extracts the markdown around a fenced code block: the text since the previous code block and the
+ * text up to the next one. Send Script reads record fields such as the table or name from it.
+ *
+ * @param fullContent - The complete markdown string
+ * @param start - Offset of the code block's opening fence
+ * @param end - Offset just after the code block's closing fence
+ * @returns The surrounding markdown, text before the block first
+ *
+ * @example
+ * const content = 'Table: incident\n\n```js\ncode\n```\n\nWhen: before';
+ * const context = extractCodeBlockContext(content, 17, 31);
+ * // Returns: 'Table: incident\n\nWhen: before'
+ */
+export function extractCodeBlockContext(fullContent: string, start: number, end: number): string {
+  const before = fullContent.slice(0, start);
+  const after = fullContent.slice(end);
+
+  const previousFence = before.lastIndexOf('```');
+  const nextFence = after.indexOf('```');
+
+  const textBefore = previousFence === -1 ? before : before.slice(previousFence + 3).replace(/^.*\n?/, '');
+  const textAfter = nextFence === -1 ? after : after.slice(0, nextFence);
+
+  return `${textBefore.trim()}\n\n${textAfter.trim()}`.trim();
+}
@@ -1,6 +1,6 @@
 import axios from 'axios';
 
-import type { Provider } from '@/types';
+import type { Provider, SendScriptRequest } from '@/types';
 import { ProviderManager } from '@/lib/providers';
 
 interface N8NConfig {
@@ -51,10 +51,12 @@ interface N8NWebhookResponse {
   error?: string;
 }
 
-interface CreateTaskRequest {
-  payload: string;
-  type: 'business_rule' | 'script_include' | 'client_script';
-  target_table: 'sys_script' | 'sys_script_include' | 'sys_script_client';
+// Artifact type, target table and metadata come from the registry in servicenow-artifacts.ts; the
+// workflow upserts the queued row by correlation_id
+interface CreateTaskRequest extends SendScriptRequest {
+  correlation_id: string;
+  created_by: string;
+  instance_url?: string; // Target instance of the selected profile, for workflows serving several instances
 }
 
 interface CreateTaskResponse {
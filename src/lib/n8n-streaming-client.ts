@@ -1,8 +1,11 @@
 import axios from 'axios';
 
-import { StreamingRequest, AgentModel, Provider } from '@/types';
+import { StreamingRequest, AgentModel, AgentPromptMap, Provider } from '@/types';
 import { generateSessionId } from '@/lib/session-utils';
 import { ProviderManager } from '@/lib/providers';
+import { AIModelManager } from '@/lib/ai-models';
+import { ProviderCircuitBreaker } from '@/lib/provider-circuit-breaker';
+import { ProviderRateLimiter, ProviderRateLimitError } from '@/lib/rate-limiter';
 
 const DEFAULT_API_BASE_URL = process.env.N8N_WEBHOOK_URL!;
 const DEFAULT_API_KEY = process.env.N8N_API_KEY!;
@@ -19,67 +22,225 @@ export interface N8nStreamingRequest {
     searching: boolean;
     userId: string;
     provider?: Provider; // Provider information for N8N processing
+    agentPrompts?: AgentPromptMap; // Active prompts (with experiment variants); the workflow's agents fall back to built-in text
   };
 }
 
+interface ProviderTarget {
+  key: string; // Circuit breaker key
+  endpoint: string;
+  apiKey: string;
+  provider?: Provider; // Unset for the N8N_WEBHOOK_URL default
+}
+
+interface FailoverChain {
+  targets: ProviderTarget[];
+  selectedKey: string; // Circuit breaker key of the provider the user selected
+  selectedLabel: string;
+}
+
+export interface StreamingConnection {
+  stream: NodeJS.ReadableStream;
+  provider?: Provider;
+  fallbackFrom?: string; // Display name of the provider that was requested, set when another one answered
+  request: StreamingRequest; // As sent; model names are swapped for the serving provider's after a failover
+}
+
+const DEFAULT_PROVIDER_KEY = 'default';
+
+const getProviderLabel = (target: ProviderTarget): string => target.provider?.display_name || 'Default provider';
+
+// Only failures that another provider could avoid trigger failover; 4xx means the request itself was rejected
+const isFailoverError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return true;
+  const status = error.response?.status;
+  return status === undefined || status >= 500;
+};
+
+const describeError = (error: unknown): string => {
+  if (axios.isAxiosError(error) && error.response?.status) {
+    return `HTTP ${error.response.status}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
 export class N8NStreamingClient {
-  private static async getProviderConfig(providerId?: number): Promise<{ endpoint: string; apiKey: string; provider?: Provider }> {
-    if (!providerId) {
-      // Fallback to default configuration
-      if (!DEFAULT_API_BASE_URL || !DEFAULT_API_KEY) {
-        throw new Error('Server configuration error: Missing N8N_WEBHOOK_URL or N8N_API_KEY');
-      }
-      return {
-        endpoint: DEFAULT_API_BASE_URL,
-        apiKey: DEFAULT_API_KEY
-      };
+  private static toProviderTarget(provider: Provider): ProviderTarget | null {
+    if (!provider.endpoint || provider.endpoint.trim() === '') {
+      console.warn(`Provider ${provider.display_name} has no endpoint configured`);
+      return null;
+    }
+
+    // Get provider-specific API key using naming convention
+    const providerApiKey = ProviderManager.getProviderApiKey(provider.name);
+    if (!providerApiKey) {
+      console.warn(`API key environment variable ${provider.name.toUpperCase()}_API_KEY not found for provider ${provider.name}, using default`);
     }
 
+    return {
+      key: String(provider.id),
+      endpoint: provider.endpoint,
+      apiKey: providerApiKey || DEFAULT_API_KEY, // Fallback to default
+      provider
+    };
+  }
+
+  /**
+   * Providers to try, in order: the selected provider, the other active providers by priority,
+   * then the N8N_WEBHOOK_URL default. Without a selection, or when the selected provider is
+   * inactive, the default goes first.
+   */
+  private static async getFailoverChain(providerId?: number): Promise<FailoverChain> {
+    const defaultTarget: ProviderTarget | null = DEFAULT_API_BASE_URL && DEFAULT_API_KEY
+      ? { key: DEFAULT_PROVIDER_KEY, endpoint: DEFAULT_API_BASE_URL, apiKey: DEFAULT_API_KEY }
+      : null;
+
+    let providers: Provider[] = [];
+    let selectedLabel = providerId ? `Provider ${providerId}` : 'Default provider';
     try {
       const providerManager = new ProviderManager();
-      const provider = await providerManager.getProviderById(providerId);
+      providers = await providerManager.getActiveProviders();
 
-      if (!provider) {
-        throw new Error(`Provider with ID ${providerId} not found`);
+      const activeSelection = providers.find(p => p.id === providerId);
+      if (activeSelection) {
+        selectedLabel = activeSelection.display_name;
+      } else if (providerId) {
+        const selected = await providerManager.getProviderById(providerId);
+        if (!selected) {
+          console.error(`Provider with ID ${providerId} not found`);
+        } else {
+          console.error(`Provider ${selected.display_name} is not active`);
+          selectedLabel = selected.display_name;
+        }
       }
+    } catch (error) {
+      console.error('Failed to load providers for failover:', error);
+    }
 
-      if (!provider.is_active) {
-        throw new Error(`Provider ${provider.display_name} is not active`);
-      }
+    // getActiveProviders is already ordered by priority; move the selected provider to the front
+    const ordered = providerId
+      ? [...providers.filter(p => p.id === providerId), ...providers.filter(p => p.id !== providerId)]
+      : providers;
+    const providerTargets = ordered
+      .map(provider => this.toProviderTarget(provider))
+      .filter((target): target is ProviderTarget => target !== null);
 
-      if (!provider.endpoint || provider.endpoint.trim() === '') {
-        throw new Error(`Provider ${provider.display_name} has no endpoint configured`);
-      }
+    const selectedIsFirst = providerId !== undefined && providerTargets[0]?.provider?.id === providerId;
+    const chain = selectedIsFirst
+      ? [...providerTargets, ...(defaultTarget ? [defaultTarget] : [])]
+      : [...(defaultTarget ? [defaultTarget] : []), ...providerTargets];
+
+    if (chain.length === 0) {
+      throw new Error('Server configuration error: Missing N8N_WEBHOOK_URL or N8N_API_KEY and provider configuration failed');
+    }
+    return {
+      targets: chain,
+      selectedKey: providerId ? String(providerId) : DEFAULT_PROVIDER_KEY,
+      selectedLabel
+    };
+  }
+
+  /**
+   * The request with its model names swapped for ones the fallback provider serves: a model the user
+   * also has on that provider is kept, any other becomes the provider's default model
+   */
+  private static async mapModelsToProvider(body: StreamingRequest, userId: string, provider: Provider): Promise<StreamingRequest> {
+    let modelNames: string[] = [];
+    try {
+      modelNames = await new AIModelManager().getProviderModelNames(userId, provider.id);
+    } catch (error) {
+      console.warn(`Failed to load models of provider ${provider.display_name}:`, error);
+    }
+    if (modelNames.length === 0) {
+      console.warn(`No models configured for provider ${provider.display_name}, sending the requested model names`);
+      return body;
+    }
 
-      // Get provider-specific API key using naming convention
-      const providerApiKey = ProviderManager.getProviderApiKey(provider.name);
-      const apiKey = providerApiKey || DEFAULT_API_KEY; // Fallback to default
+    const mapModel = (model: string): string => (modelNames.includes(model) ? model : modelNames[0]);
+    return {
+      ...body,
+      aiModel: body.aiModel ? mapModel(body.aiModel) : body.aiModel,
+      agentModels: body.agentModels?.map(agentModel => ({ ...agentModel, model: mapModel(agentModel.model) }))
+    };
+  }
+
+  /**
+   * Open the n8n stream, failing over to the next provider in the chain when an endpoint is
+   * unreachable or answers 5xx. Providers whose circuit is open are skipped; if every circuit
+   * is open the chain is tried anyway rather than failing without an attempt.
+   * Each attempt takes a rate limit token from the provider it goes to, and a provider at its limit
+   * is skipped like an unavailable one. onAdmitted runs before the first attempt; when every provider
+   * is at its limit a ProviderRateLimitError is thrown instead.
+   */
+  public static async createStreamingConnection(
+    body: StreamingRequest,
+    userId: string,
+    providerId?: number,
+    signal?: AbortSignal,
+    agentPrompts?: AgentPromptMap,
+    onAdmitted?: () => void
+  ): Promise<StreamingConnection> {
+    const { targets, selectedKey, selectedLabel } = await this.getFailoverChain(providerId);
+    const breaker = ProviderCircuitBreaker.getInstance();
+    const available = targets.filter(target => breaker.canAttempt(target.key));
+    const candidates = available.length > 0 ? available : targets;
 
-      if (!providerApiKey) {
-        console.warn(`API key environment variable ${provider.name.toUpperCase()}_API_KEY not found for provider ${provider.name}, using default`);
+    const rateLimiter = ProviderRateLimiter.getInstance();
+    let admitted = false;
+    let rateLimitedFor = 0;
+
+    let lastError: unknown;
+    for (const target of candidates) {
+      const rateLimit = rateLimiter.consume(target.key, target.provider?.rate_limit_per_minute, userId);
+      if (!rateLimit.allowed) {
+        console.log(`Rate limit reached for provider ${getProviderLabel(target)}, user: ${userId}`);
+        rateLimitedFor = rateLimitedFor ? Math.min(rateLimitedFor, rateLimit.retryAfterSeconds) : rateLimit.retryAfterSeconds;
+        continue;
+      }
+      if (!admitted) {
+        admitted = true;
+        onAdmitted?.();
       }
 
-      return {
-        endpoint: provider.endpoint,
-        apiKey,
-        provider
-      };
-    } catch (error) {
-      console.error(`Failed to get provider configuration for ID ${providerId}:`, error);
-      // Fallback to default configuration
-      if (!DEFAULT_API_BASE_URL || !DEFAULT_API_KEY) {
-        throw new Error('Server configuration error: Missing N8N_WEBHOOK_URL or N8N_API_KEY and provider configuration failed');
+      try {
+        const isSelected = target.key === selectedKey;
+        const request = !isSelected && target.provider
+          ? await this.mapModelsToProvider(body, userId, target.provider)
+          : body;
+        const stream = await this.sendRequest(target, request, userId, signal, agentPrompts);
+        breaker.recordSuccess(target.key);
+        return {
+          stream,
+          provider: target.provider,
+          fallbackFrom: isSelected ? undefined : selectedLabel,
+          request
+        };
+      } catch (error) {
+        if (signal?.aborted || axios.isCancel(error)) {
+          throw error;
+        }
+        lastError = error;
+        if (!isFailoverError(error)) {
+          throw error;
+        }
+        breaker.recordFailure(target.key, describeError(error));
+        console.warn(`Provider ${getProviderLabel(target)} failed (${describeError(error)}), trying next provider`);
       }
-      return {
-        endpoint: DEFAULT_API_BASE_URL,
-        apiKey: DEFAULT_API_KEY
-      };
     }
-  }
 
-  public static async createStreamingConnection(body: StreamingRequest, providerId?: number): Promise<NodeJS.ReadableStream> {
-    const config = await this.getProviderConfig(providerId);
+    if (lastError === undefined && rateLimitedFor > 0) {
+      throw new ProviderRateLimitError(selectedLabel, rateLimitedFor);
+    }
+    throw lastError;
+  }
 
+  private static async sendRequest(
+    target: ProviderTarget,
+    body: StreamingRequest,
+    userId: string,
+    signal?: AbortSignal,
+    agentPrompts?: AgentPromptMap
+  ): Promise<NodeJS.ReadableStream> {
     const n8nStreamingRequest: N8nStreamingRequest = {
       action: 'sendMessage',
       sessionId: body.sessionkey || generateSessionId(),
@@ -90,28 +251,30 @@ export class N8NStreamingClient {
         agentModels: body.agentModels,
         file: body.file,
         searching: body.searching,
-        userId: 'streaming_user',
-        provider: config.provider
+        userId,
+        provider: target.provider,
+        agentPrompts
       }
     };
 
-    console.log(`Making streaming request to: ${config.endpoint}`);
-    if (config.provider) {
-      console.log(`Using provider: ${config.provider.display_name} (${config.provider.name})`);
+    console.log(`Making streaming request to: ${target.endpoint}`);
+    if (target.provider) {
+      console.log(`Using provider: ${target.provider.display_name} (${target.provider.name})`);
     }
 
-    const response = await axios.post(config.endpoint, n8nStreamingRequest, {
+    const response = await axios.post(target.endpoint, n8nStreamingRequest, {
       headers: {
         'Content-Type': 'application/json',
-        'apikey': config.apiKey,
+        'apikey': target.apiKey,
         'Accept': 'text/event-stream',
         'X-Client-Type': 'streaming',
-        'X-Provider': config.provider?.name || 'default',
+        'X-Provider': target.provider?.name || 'default',
       },
       responseType: 'stream',
       timeout: 480000, // 8 minutes
+      signal, // Aborting closes the upstream connection so n8n stops generating
     });
 
     return response.data;
   }
-}
\ No newline at end of file
+}
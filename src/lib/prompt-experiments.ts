@@ -0,0 +1,310 @@
+import type {
+  AgentPromptMap,
+  PromptExperiment,
+  PromptExperimentInput,
+  PromptExperimentStatus,
+  PromptExperimentVariant
+} from '@/types/index';
+
+import { AgentPromptManager, DatabaseConnection, WORKFLOW_PROMPT_AGENTS } from './database';
+
+interface ExperimentRow {
+  id: number;
+  name: string;
+  agent_name: string;
+  prompt_type: string;
+  status: PromptExperimentStatus;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  ended_at: string | null;
+}
+
+interface RunningVariantRow {
+  experiment_id: number;
+  agent_name: string;
+  prompt_type: string;
+  id: number;
+  prompt_content: string;
+  weight: number;
+}
+
+interface RunningExperiment {
+  id: number;
+  agent_name: string;
+  prompt_type: string;
+  variants: RunningVariantRow[];
+}
+
+interface VariantStatsRow {
+  id: number;
+  experiment_id: number;
+  label: string;
+  prompt_content: string;
+  weight: number;
+  requests: string;
+  thumbs_up: string;
+  thumbs_down: string;
+}
+
+/**
+ * 32-bit FNV-1a hash, used to spread sessions evenly over variants
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Pick a variant by weight. The choice is derived from the seed (session key and experiment),
+ * so a resumed or retried request keeps the variant it was first given.
+ */
+export function pickVariant<T extends { weight: number }>(variants: T[], seed: string): T | null {
+  const totalWeight = variants.reduce((sum, variant) => sum + Math.max(0, variant.weight), 0);
+  if (totalWeight <= 0) return null;
+
+  let point = hashString(seed) % totalWeight;
+  for (const variant of variants) {
+    const weight = Math.max(0, variant.weight);
+    if (point < weight) return variant;
+    point -= weight;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Whether the n8n workflow uses this prompt. It only reads the system prompt of its agents,
+ * so an experiment on any other prompt would compare identical answers.
+ */
+export function isWorkflowPrompt(agentName: string, promptType: string): boolean {
+  return promptType === 'system' && WORKFLOW_PROMPT_AGENTS.some(agent => agent.name === agentName);
+}
+
+const toDate = (value: string | null): Date | null => (value ? new Date(value) : null);
+
+export class PromptExperimentManager {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * Experiments with per-variant request counts, thumbs up/down and win rate
+   */
+  async getExperiments(filter: { id?: number; agentName?: string; status?: PromptExperimentStatus } = {}): Promise<PromptExperiment[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.id !== undefined) {
+      params.push(filter.id);
+      conditions.push(`id = $${params.length}`);
+    }
+    if (filter.agentName) {
+      params.push(filter.agentName);
+      conditions.push(`agent_name = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const experimentResult = await this.db.query(`
+      SELECT id, name, agent_name, prompt_type, status, created_by, created_at, started_at, ended_at
+      FROM "prompt_experiments"
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at DESC, id DESC
+    `, params);
+    const experiments = experimentResult.rows as ExperimentRow[];
+
+    if (experiments.length === 0) {
+      return [];
+    }
+
+    const variantResult = await this.db.query(`
+      SELECT v.id, v.experiment_id, v.label, v.prompt_content, v.weight,
+             COUNT(a.id) AS requests,
+             COUNT(*) FILTER (WHERE a.rating = 1) AS thumbs_up,
+             COUNT(*) FILTER (WHERE a.rating = -1) AS thumbs_down
+      FROM "prompt_experiment_variants" v
+      LEFT JOIN "prompt_experiment_assignments" a ON a.variant_id = v.id
+      WHERE v.experiment_id = ANY($1)
+      GROUP BY v.id
+      ORDER BY v.label
+    `, [experiments.map(experiment => experiment.id)]);
+
+    const variantsByExperiment = new Map<number, PromptExperimentVariant[]>();
+    for (const row of variantResult.rows as VariantStatsRow[]) {
+      const thumbsUp = Number(row.thumbs_up);
+      const thumbsDown = Number(row.thumbs_down);
+      const rated = thumbsUp + thumbsDown;
+      const variants = variantsByExperiment.get(row.experiment_id) || [];
+      variants.push({
+        id: row.id,
+        label: row.label,
+        prompt_content: row.prompt_content,
+        weight: row.weight,
+        stats: {
+          requests: Number(row.requests),
+          thumbs_up: thumbsUp,
+          thumbs_down: thumbsDown,
+          win_rate: rated > 0 ? thumbsUp / rated : null
+        }
+      });
+      variantsByExperiment.set(row.experiment_id, variants);
+    }
+
+    return experiments.map(row => ({
+      id: row.id,
+      name: row.name,
+      agent_name: row.agent_name,
+      prompt_type: row.prompt_type,
+      status: row.status,
+      created_by: row.created_by,
+      created_at: new Date(row.created_at),
+      started_at: toDate(row.started_at),
+      ended_at: toDate(row.ended_at),
+      variants: variantsByExperiment.get(row.id) || []
+    }));
+  }
+
+  async getExperimentById(id: number): Promise<PromptExperiment | null> {
+    const experiments = await this.getExperiments({ id });
+    return experiments[0] || null;
+  }
+
+  async createExperiment(input: PromptExperimentInput, createdBy: string): Promise<number> {
+    const client = await this.db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO "prompt_experiments" (name, agent_name, prompt_type, created_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id
+      `, [input.name, input.agent_name, input.prompt_type, createdBy]);
+      const experimentId = (result.rows[0] as { id: number }).id;
+
+      for (const variant of input.variants) {
+        await client.query(`
+          INSERT INTO "prompt_experiment_variants" (experiment_id, label, prompt_content, weight)
+          VALUES ($1, $2, $3, $4)
+        `, [experimentId, variant.label, variant.prompt_content, variant.weight]);
+      }
+
+      await client.query('COMMIT');
+      return experimentId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Start or stop an experiment. Starting fails with a unique constraint error while
+   * another experiment for the same agent prompt is running.
+   */
+  async setStatus(id: number, status: Exclude<PromptExperimentStatus, 'draft'>): Promise<boolean> {
+    const query = status === 'running'
+      ? `UPDATE "prompt_experiments"
+         SET status = 'running', started_at = COALESCE(started_at, CURRENT_TIMESTAMP), ended_at = NULL
+         WHERE id = $1`
+      : `UPDATE "prompt_experiments"
+         SET status = 'stopped', ended_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'running'`;
+
+    const result = await this.db.query(query, [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteExperiment(id: number): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM "prompt_experiments" WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Running experiments with just what assignment needs, in the order getExperiments lists them
+   * and their variants - no statistics, as this runs for every question
+   */
+  private async getRunningExperiments(): Promise<RunningExperiment[]> {
+    const result = await this.db.query(`
+      SELECT e.id AS experiment_id, e.agent_name, e.prompt_type, v.id, v.prompt_content, v.weight
+      FROM "prompt_experiments" e
+      JOIN "prompt_experiment_variants" v ON v.experiment_id = e.id
+      WHERE e.status = 'running'
+      ORDER BY e.created_at DESC, e.id DESC, v.label
+    `);
+
+    const experiments = new Map<number, RunningExperiment>();
+    for (const row of result.rows as RunningVariantRow[]) {
+      const experiment = experiments.get(row.experiment_id)
+        ?? { id: row.experiment_id, agent_name: row.agent_name, prompt_type: row.prompt_type, variants: [] };
+      experiment.variants.push(row);
+      experiments.set(row.experiment_id, experiment);
+    }
+    return [...experiments.values()];
+  }
+
+  /**
+   * Assign this request to a variant of every running experiment and record the assignment.
+   * Returns the variant prompts to use in place of the active ones. Experiments on a prompt the
+   * workflow does not read (started before that was checked) get no assignments.
+   */
+  async assignVariants(sessionKey: string, userId: string): Promise<AgentPromptMap> {
+    const running = await this.getRunningExperiments();
+    const overrides: AgentPromptMap = {};
+
+    for (const experiment of running) {
+      if (!isWorkflowPrompt(experiment.agent_name, experiment.prompt_type)) continue;
+
+      const variant = pickVariant(experiment.variants, `${sessionKey}:${experiment.id}`);
+      if (!variant) continue;
+
+      await this.db.query(`
+        INSERT INTO "prompt_experiment_assignments" (experiment_id, variant_id, session_key, user_id)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (experiment_id, session_key) DO NOTHING
+      `, [experiment.id, variant.id, sessionKey, userId]);
+
+      overrides[experiment.agent_name] = {
+        ...overrides[experiment.agent_name],
+        [experiment.prompt_type]: variant.prompt_content
+      };
+    }
+
+    return overrides;
+  }
+
+  /**
+   * Prompts for one request: the active prompts with any experiment variants applied
+   */
+  async getPromptsForRequest(sessionKey: string, userId: string): Promise<AgentPromptMap> {
+    const prompts = await new AgentPromptManager().getActiveAgentPrompts();
+    const overrides = await this.assignVariants(sessionKey, userId);
+
+    for (const [agentName, promptTypes] of Object.entries(overrides)) {
+      prompts[agentName] = { ...prompts[agentName], ...promptTypes };
+    }
+    return prompts;
+  }
+
+  /**
+   * Record a thumbs up (1) or down (-1) for the answer to a request. Returns how many
+   * experiment assignments the rating applied to - zero when the request was not in an experiment.
+   */
+  async recordFeedback(sessionKey: string, userId: string, rating: 1 | -1): Promise<number> {
+    const result = await this.db.query(`
+      UPDATE "prompt_experiment_assignments"
+      SET rating = $1, rated_at = CURRENT_TIMESTAMP
+      WHERE session_key = $2 AND user_id = $3
+    `, [rating, sessionKey, userId]);
+    return result.rowCount || 0;
+  }
+}
@@ -0,0 +1,88 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderCircuit {
+  key: string; // Provider id, or 'default' for the N8N_WEBHOOK_URL fallback
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  lastError?: string;
+}
+
+// Consecutive failures before a provider is taken out of rotation
+const FAILURE_THRESHOLD = 3;
+// How long an open circuit stays open before one trial request is let through
+const OPEN_COOLDOWN_MS = 30 * 1000;
+
+/**
+ * Per-provider circuit breaker used by the failover chain. A provider that keeps failing
+ * is skipped for a cooldown period instead of making every question wait for it to time out.
+ */
+export class ProviderCircuitBreaker {
+  private circuits = new Map<string, ProviderCircuit>();
+
+  private constructor() {}
+
+  public static getInstance(): ProviderCircuitBreaker {
+    // Kept on globalThis so every route bundle (and dev hot reloads) share one breaker
+    const globalBreaker = globalThis as typeof globalThis & { __providerCircuitBreaker?: ProviderCircuitBreaker };
+    if (!globalBreaker.__providerCircuitBreaker) {
+      globalBreaker.__providerCircuitBreaker = new ProviderCircuitBreaker();
+    }
+    return globalBreaker.__providerCircuitBreaker;
+  }
+
+  private getCircuit(key: string): ProviderCircuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { key, state: 'closed', consecutiveFailures: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Whether a request may be sent to the provider. An open circuit moves to half-open
+   * once its cooldown has passed, letting a trial request through.
+   */
+  public canAttempt(key: string, now: number = Date.now()): boolean {
+    const circuit = this.getCircuit(key);
+    if (circuit.state === 'open' && now - (circuit.openedAt || 0) >= OPEN_COOLDOWN_MS) {
+      circuit.state = 'half_open';
+    }
+    return circuit.state !== 'open';
+  }
+
+  public recordSuccess(key: string, now: number = Date.now()): void {
+    const circuit = this.getCircuit(key);
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.openedAt = undefined;
+    circuit.lastSuccessAt = now;
+  }
+
+  public recordFailure(key: string, error: string, now: number = Date.now()): void {
+    const circuit = this.getCircuit(key);
+    circuit.consecutiveFailures++;
+    circuit.lastFailureAt = now;
+    circuit.lastError = error;
+
+    // A failed trial request re-opens the circuit straight away
+    if (circuit.state === 'half_open' || circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+      if (circuit.state !== 'open') {
+        console.warn(`Circuit opened for provider ${key} after ${circuit.consecutiveFailures} failures: ${error}`);
+      }
+      circuit.state = 'open';
+      circuit.openedAt = now;
+    }
+  }
+
+  public getState(key: string): ProviderCircuit {
+    return { ...this.getCircuit(key) };
+  }
+
+  public reset(): void {
+    this.circuits.clear();
+  }
+}
@@ -0,0 +1,187 @@
+import axios from 'axios';
+
+import type { Provider, ProviderHealth, ProviderHealthFailure, ProviderHealthStatus } from '@/types';
+import { ProviderManager } from '@/lib/providers';
+import { ProviderCircuitBreaker } from '@/lib/provider-circuit-breaker';
+
+interface ProbeRecord {
+  latencyMs: number | null;
+  lastCheckedAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  lastProbeOk: boolean;
+  configured: boolean;
+  failures: { at: number; error: string }[];
+}
+
+const PROBE_TIMEOUT_MS = 5000;
+// Probes slower than this mark the provider as degraded
+const SLOW_PROBE_MS = 2000;
+// A failure this recent keeps the provider amber even after it recovers
+const RECENT_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_RECENT_FAILURES = 10;
+const HEALTH_CHECK_INTERVAL_MS = 2 * 60 * 1000;
+
+const emptyRecord = (): ProbeRecord => ({
+  latencyMs: null,
+  lastCheckedAt: null,
+  lastSuccessAt: null,
+  lastError: null,
+  lastProbeOk: false,
+  configured: true,
+  failures: [],
+});
+
+const toDate = (timestamp: number | null): Date | null => (timestamp === null ? null : new Date(timestamp));
+
+/**
+ * Periodic and on-demand reachability probes for provider endpoints. Combined with the
+ * failover circuit breaker (which reflects real requests) to give a status per provider.
+ */
+export class ProviderHealthMonitor {
+  private records = new Map<number, ProbeRecord>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ProviderHealthMonitor {
+    // Kept on globalThis so every route bundle (and dev hot reloads) share one monitor
+    const globalMonitor = globalThis as typeof globalThis & { __providerHealthMonitor?: ProviderHealthMonitor };
+    if (!globalMonitor.__providerHealthMonitor) {
+      globalMonitor.__providerHealthMonitor = new ProviderHealthMonitor();
+    }
+    return globalMonitor.__providerHealthMonitor;
+  }
+
+  /**
+   * Send a lightweight request to the provider endpoint. Any HTTP answer below 500 counts as
+   * reachable - n8n webhooks only accept POST, so a 404 for HEAD still proves n8n is up.
+   */
+  public async probe(provider: Provider, now: () => number = Date.now): Promise<void> {
+    const record = this.records.get(provider.id) || emptyRecord();
+    this.records.set(provider.id, record);
+
+    record.configured = await new ProviderManager().validateProvider(provider);
+
+    const startedAt = now();
+    let error: string | null = null;
+    try {
+      const response = await axios.head(provider.endpoint, {
+        timeout: PROBE_TIMEOUT_MS,
+        validateStatus: () => true,
+        headers: { 'apikey': ProviderManager.getProviderApiKey(provider.name) || '' },
+      });
+      if (response.status >= 500) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (probeError) {
+      error = probeError instanceof Error ? probeError.message : String(probeError);
+    }
+
+    const finishedAt = now();
+    record.lastCheckedAt = finishedAt;
+    record.latencyMs = finishedAt - startedAt;
+    record.lastProbeOk = error === null;
+
+    if (error === null) {
+      record.lastSuccessAt = finishedAt;
+      record.lastError = null;
+    } else {
+      record.lastError = error;
+      record.failures = [{ at: finishedAt, error }, ...record.failures].slice(0, MAX_RECENT_FAILURES);
+      console.warn(`Health probe failed for provider ${provider.display_name}: ${error}`);
+    }
+  }
+
+  public async probeAll(providers: Provider[]): Promise<void> {
+    await Promise.all(providers.map(provider => this.probe(provider)));
+  }
+
+  /**
+   * Whether any provider has never been probed or was last probed longer ago than the interval.
+   */
+  public isStale(providers: Provider[], now: number = Date.now()): boolean {
+    return providers.some(provider => {
+      const lastCheckedAt = this.records.get(provider.id)?.lastCheckedAt;
+      return !lastCheckedAt || now - lastCheckedAt > HEALTH_CHECK_INTERVAL_MS;
+    });
+  }
+
+  public getHealth(provider: Provider, now: number = Date.now()): ProviderHealth {
+    const record = this.records.get(provider.id) || emptyRecord();
+    const circuit = ProviderCircuitBreaker.getInstance().getState(String(provider.id));
+
+    // Failures seen by real requests count alongside probe failures
+    const failures: ProviderHealthFailure[] = record.failures.map(failure => ({ at: new Date(failure.at), error: failure.error }));
+    if (circuit.lastFailureAt && circuit.lastError) {
+      failures.push({ at: new Date(circuit.lastFailureAt), error: `Request failed: ${circuit.lastError}` });
+      failures.sort((a, b) => b.at.getTime() - a.at.getTime());
+    }
+
+    const warnings: string[] = [];
+    if (!record.configured) {
+      warnings.push(`Endpoint or ${provider.name.toUpperCase()}_API_KEY is not configured`);
+    }
+    if (record.latencyMs !== null && record.lastProbeOk && record.latencyMs > SLOW_PROBE_MS) {
+      warnings.push(`Slow response (${record.latencyMs} ms)`);
+    }
+
+    const hasRecentFailure = failures.some(failure => now - failure.at.getTime() < RECENT_FAILURE_WINDOW_MS);
+
+    let status: ProviderHealthStatus;
+    if (circuit.state === 'open' || (record.lastCheckedAt !== null && !record.lastProbeOk)) {
+      status = 'down';
+    } else if (record.lastCheckedAt === null) {
+      status = 'unknown';
+    } else if (warnings.length > 0 || circuit.state === 'half_open' || hasRecentFailure) {
+      status = 'degraded';
+    } else {
+      status = 'healthy';
+    }
+
+    return {
+      provider_id: provider.id,
+      name: provider.name,
+      display_name: provider.display_name,
+      status,
+      latency_ms: record.latencyMs,
+      last_checked_at: toDate(record.lastCheckedAt),
+      last_success_at: toDate(record.lastSuccessAt ?? circuit.lastSuccessAt ?? null),
+      last_error: record.lastError ?? (circuit.state !== 'closed' ? circuit.lastError ?? null : null),
+      circuit_state: circuit.state,
+      warnings,
+      recent_failures: failures.slice(0, MAX_RECENT_FAILURES),
+    };
+  }
+
+  /**
+   * Start probing the active providers in the background. Safe to call repeatedly.
+   */
+  public startPolling(loadProviders: () => Promise<Provider[]>): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(async () => {
+      try {
+        await this.probeAll(await loadProviders());
+      } catch (error) {
+        console.error('Provider health poll failed:', error);
+      }
+    }, HEALTH_CHECK_INTERVAL_MS);
+    // Don't keep the process alive just for health checks
+    if (typeof this.pollTimer === 'object' && typeof this.pollTimer.unref === 'function') {
+      this.pollTimer.unref();
+    }
+  }
+
+  public stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  public reset(): void {
+    this.stopPolling();
+    this.records.clear();
+  }
+}
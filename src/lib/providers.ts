@@ -377,24 +377,54 @@ export class ProviderManager {
   }
 
   /**
-   * Delete provider (only if no models reference it)
+   * Number of AI models that reference a provider
    */
-  async deleteProvider(id: number): Promise<boolean> {
+  async getProviderModelCount(id: number): Promise<number> {
+    const result = await this.db.query(
+      'SELECT COUNT(*) as count FROM "ai_models" WHERE provider_id = $1',
+      [id]
+    );
+    return parseInt((result.rows[0] as { count: string }).count);
+  }
+
+  /**
+   * Delete provider (only if no models reference it, unless they are moved to another provider first)
+   */
+  async deleteProvider(id: number, reassignModelsTo?: number): Promise<boolean> {
     // Clear cache when deleting provider
     ProviderManager.providerCache.clear();
 
-    // Check if any models reference this provider
-    const checkQuery = 'SELECT COUNT(*) as count FROM "ai_models" WHERE provider_id = $1';
-    const checkResult = await this.db.query(checkQuery, [id]);
-    const modelCount = parseInt((checkResult.rows[0] as { count: string }).count);
+    const client = await this.db.getClient();
+    try {
+      await client.query('BEGIN');
 
-    if (modelCount > 0) {
-      throw new Error(`Cannot delete provider: ${modelCount} models are still using this provider`);
-    }
+      if (reassignModelsTo !== undefined) {
+        await client.query(
+          'UPDATE "ai_models" SET provider_id = $1, updated_at = CURRENT_TIMESTAMP WHERE provider_id = $2',
+          [reassignModelsTo, id]
+        );
+      }
 
-    const query = 'DELETE FROM "providers" WHERE id = $1';
-    const result = await this.db.query(query, [id]);
-    return (result.rowCount || 0) > 0;
+      // Check if any models reference this provider
+      const checkResult = await client.query(
+        'SELECT COUNT(*) as count FROM "ai_models" WHERE provider_id = $1',
+        [id]
+      );
+      const modelCount = parseInt((checkResult.rows[0] as { count: string }).count);
+
+      if (modelCount > 0) {
+        throw new Error(`Cannot delete provider: ${modelCount} models are still using this provider`);
+      }
+
+      const result = await client.query('DELETE FROM "providers" WHERE id = $1', [id]);
+      await client.query('COMMIT');
+      return (result.rowCount || 0) > 0;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   /**
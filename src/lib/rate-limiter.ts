@@ -0,0 +1,134 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Thrown when every provider that could serve a request is at its rate limit
+export class ProviderRateLimitError extends Error {
+  constructor(public providerName: string, public retryAfterSeconds: number) {
+    super(`Too many requests to ${providerName}. Please try again in ${retryAfterSeconds} seconds.`);
+    this.name = 'ProviderRateLimitError';
+  }
+}
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills continuously at
+ * `capacity` tokens per minute, so a burst of a full minute's quota is allowed at once.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(public readonly capacity: number, now: number = Date.now()) {
+    this.tokens = capacity;
+    this.lastRefill = now;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.lastRefill);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / MINUTE_MS);
+    this.lastRefill = now;
+  }
+
+  public take(now: number = Date.now()): void {
+    this.refill(now);
+    this.tokens = Math.max(0, this.tokens - 1);
+  }
+
+  /**
+   * Milliseconds until the next token is available.
+   */
+  public msUntilNextToken(now: number = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) * MINUTE_MS) / this.capacity);
+  }
+
+  public isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+}
+
+// Optional per-user quota on top of the provider quota; unset or 0 disables it
+const getUserLimitPerMinute = (): number => {
+  const parsed = parseInt(process.env.RATE_LIMIT_PER_USER_PER_MINUTE || '', 10);
+  return isNaN(parsed) || parsed <= 0 ? 0 : parsed;
+};
+
+/**
+ * Server-side rate limiter for n8n requests, keyed by provider and optionally by user.
+ * Limits come from Provider.rate_limit_per_minute and RATE_LIMIT_PER_USER_PER_MINUTE.
+ */
+export class ProviderRateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  private constructor() {}
+
+  public static getInstance(): ProviderRateLimiter {
+    // Kept on globalThis so every route bundle (and dev hot reloads) share one limiter
+    const globalLimiter = globalThis as typeof globalThis & { __providerRateLimiter?: ProviderRateLimiter };
+    if (!globalLimiter.__providerRateLimiter) {
+      globalLimiter.__providerRateLimiter = new ProviderRateLimiter();
+    }
+    return globalLimiter.__providerRateLimiter;
+  }
+
+  private getBucket(key: string, limitPerMinute: number, now: number): TokenBucket {
+    const existing = this.buckets.get(key);
+    // A changed limit starts a fresh bucket with the new capacity
+    if (existing && existing.capacity === limitPerMinute) {
+      return existing;
+    }
+    const bucket = new TokenBucket(limitPerMinute, now);
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  /**
+   * Take one request slot for the provider (and user). Nothing is consumed unless every
+   * applicable bucket has room, so a rejected request does not eat into the other quota.
+   */
+  public consume(
+    providerKey: string,
+    providerLimitPerMinute: number | null | undefined,
+    userId?: string,
+    now: number = Date.now()
+  ): RateLimitResult {
+    const buckets: TokenBucket[] = [];
+
+    if (providerLimitPerMinute && providerLimitPerMinute > 0) {
+      buckets.push(this.getBucket(`provider:${providerKey}`, providerLimitPerMinute, now));
+    }
+
+    const userLimit = getUserLimitPerMinute();
+    if (userId && userLimit > 0) {
+      buckets.push(this.getBucket(`provider:${providerKey}:user:${userId}`, userLimit, now));
+    }
+
+    const waitMs = Math.max(0, ...buckets.map(bucket => bucket.msUntilNextToken(now)));
+    if (waitMs > 0) {
+      return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)) };
+    }
+
+    buckets.forEach(bucket => bucket.take(now));
+    this.prune(now);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  // Full buckets carry no state worth keeping
+  private prune(now: number): void {
+    if (this.buckets.size < 1000) return;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull(now)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  public reset(): void {
+    this.buckets.clear();
+  }
+}
@@ -1,4 +1,5 @@
-import { StreamingRequest } from '@/types';
+import { getArtifactType, getArtifactTypes, validateArtifactMetadata } from '@/lib/servicenow-artifacts';
+import { AnswerFeedbackInput, DeploymentTarget, KnowledgeStoreItemUpdate, ScriptAnalysisRequest, SendScriptRequest, StreamingRequest } from '@/types';
 
 export function validateRequest(body: StreamingRequest): string | null {
     if (!body.question || !body.type) {
@@ -33,4 +34,169 @@ export function validateRequest(body: StreamingRequest): string | null {
         }
     }
     return null;
-}
\ No newline at end of file
+}
+
+// Agent and prompt type names are stored as VARCHAR(100) / VARCHAR(50) identifiers
+const PROMPT_KEY_PATTERN = /^[a-z0-9_]+$/;
+
+export function validatePromptKey(agentName: unknown, promptType: unknown): string | null {
+    if (typeof agentName !== 'string' || !PROMPT_KEY_PATTERN.test(agentName) || agentName.length > 100) {
+        return 'agent_name is required and may only contain lowercase letters, digits and underscores';
+    }
+    if (typeof promptType !== 'string' || !PROMPT_KEY_PATTERN.test(promptType) || promptType.length > 50) {
+        return 'prompt_type may only contain lowercase letters, digits and underscores';
+    }
+    return null;
+}
+
+const MAX_KNOWLEDGE_QUESTION_LENGTH = 5000;
+const MAX_KNOWLEDGE_ANSWER_LENGTH = 100000;
+const MAX_KNOWLEDGE_TAGS = 20;
+
+// Knowledge store entries as edited or imported; category is VARCHAR(50), tags a TEXT[]
+export function parseKnowledgeStoreItem(body: Record<string, unknown>): { item: KnowledgeStoreItemUpdate } | { error: string } {
+    const question = typeof body.question === 'string' ? body.question.trim() : '';
+    const answer = typeof body.answer === 'string' ? body.answer.trim() : '';
+
+    if (!question || question.length > MAX_KNOWLEDGE_QUESTION_LENGTH) {
+        return { error: `question is required and may be at most ${MAX_KNOWLEDGE_QUESTION_LENGTH} characters` };
+    }
+    if (!answer || answer.length > MAX_KNOWLEDGE_ANSWER_LENGTH) {
+        return { error: `answer is required and may be at most ${MAX_KNOWLEDGE_ANSWER_LENGTH} characters` };
+    }
+
+    let category: string | null = null;
+    if (body.category !== undefined && body.category !== null && body.category !== '') {
+        if (typeof body.category !== 'string' || body.category.trim().length > 50) {
+            return { error: 'category must be a string of at most 50 characters' };
+        }
+        category = body.category.trim() || null;
+    }
+
+    const rawTags = body.tags ?? [];
+    if (!Array.isArray(rawTags) || rawTags.some(tag => typeof tag !== 'string' || tag.trim().length > 50)) {
+        return { error: 'tags must be an array of strings of at most 50 characters' };
+    }
+    const tags = Array.from(new Set(rawTags.map(tag => (tag as string).trim()).filter(Boolean)));
+    if (tags.length > MAX_KNOWLEDGE_TAGS) {
+        return { error: `At most ${MAX_KNOWLEDGE_TAGS} tags are allowed` };
+    }
+
+    return { item: { question, answer, category, tags } };
+}
+
+const MAX_FEEDBACK_COMMENT_LENGTH = 2000;
+
+// A 1-5 rating of exactly one knowledge store entry or generated answer, with an optional comment
+export function parseAnswerFeedback(body: Record<string, unknown>): { feedback: AnswerFeedbackInput } | { error: string } {
+    const hasItem = body.qa_id !== undefined && body.qa_id !== null;
+    const hasAnswer = body.sessionkey !== undefined && body.sessionkey !== null;
+    if (hasItem === hasAnswer) {
+        return { error: 'Either qa_id or sessionkey is required' };
+    }
+    if (hasItem && (typeof body.qa_id !== 'number' || !Number.isInteger(body.qa_id) || body.qa_id < 1)) {
+        return { error: 'qa_id must be a positive integer' };
+    }
+    if (hasAnswer && (typeof body.sessionkey !== 'string' || !/^session_\d+_[a-z0-9]+$/.test(body.sessionkey))) {
+        return { error: 'Valid session key required' };
+    }
+
+    const rating = body.rating;
+    if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return { error: 'rating must be a whole number from 1 to 5' };
+    }
+
+    let comment: string | null = null;
+    if (body.comment !== undefined && body.comment !== null) {
+        if (typeof body.comment !== 'string' || body.comment.trim().length > MAX_FEEDBACK_COMMENT_LENGTH) {
+            return { error: `comment must be a string of at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters` };
+        }
+        comment = body.comment.trim() || null;
+    }
+
+    return {
+        feedback: hasItem
+            ? { qa_id: body.qa_id as number, rating, comment }
+            : { sessionkey: body.sessionkey as string, rating, comment }
+    };
+}
+
+// A script for the ServiceNow integration queue: a registered artifact type, its table and metadata
+export function parseSendScriptRequest(body: Record<string, unknown>): { request: SendScriptRequest } | { error: string } {
+    const payload = typeof body.payload === 'string' ? body.payload.trim() : '';
+    if (!payload || typeof body.type !== 'string' || typeof body.target_table !== 'string') {
+        return { error: 'Missing required fields: payload, type, and target_table' };
+    }
+
+    const artifactType = getArtifactType(body.type);
+    if (!artifactType) {
+        return { error: `Invalid script type: ${body.type}. Allowed types: ${getArtifactTypes().map(type => type.id).join(', ')}` };
+    }
+    if (artifactType.targetTable !== body.target_table) {
+        return { error: 'Invalid type and target_table combination' };
+    }
+
+    const rawMetadata = body.metadata ?? {};
+    if (typeof rawMetadata !== 'object' || Array.isArray(rawMetadata)) {
+        return { error: 'metadata must be an object' };
+    }
+    const validated = validateArtifactMetadata(artifactType, rawMetadata as Record<string, unknown>);
+    if ('error' in validated) {
+        return validated;
+    }
+
+    return {
+        request: { payload, type: artifactType.id, target_table: artifactType.targetTable, metadata: validated.metadata }
+    };
+}
+
+// The optional instance_id and confirm_production of a Send Script or retry request
+export function parseDeploymentTarget(body: Record<string, unknown>): { target: DeploymentTarget } | { error: string } {
+    if (body.instance_id !== undefined && body.instance_id !== null && (typeof body.instance_id !== 'string' || !body.instance_id.trim())) {
+        return { error: 'instance_id must be a non-empty string' };
+    }
+    if (body.confirm_production !== undefined && typeof body.confirm_production !== 'boolean') {
+        return { error: 'confirm_production must be a boolean' };
+    }
+
+    return {
+        target: {
+            ...(typeof body.instance_id === 'string' && { instance_id: body.instance_id.trim() }),
+            confirm_production: body.confirm_production === true
+        }
+    };
+}
+
+const MAX_ANALYZED_SCRIPT_LENGTH = 100000;
+
+// A script to analyze; type and metadata are optional hints, so metadata is not checked against the registry
+export function parseScriptAnalysisRequest(body: Record<string, unknown>): { request: ScriptAnalysisRequest } | { error: string } {
+    if (typeof body.script !== 'string' || !body.script.trim()) {
+        return { error: 'script is required' };
+    }
+    if (body.script.length > MAX_ANALYZED_SCRIPT_LENGTH) {
+        return { error: `script must be at most ${MAX_ANALYZED_SCRIPT_LENGTH} characters` };
+    }
+
+    const request: ScriptAnalysisRequest = { script: body.script };
+    if (body.type !== undefined && body.type !== null) {
+        if (typeof body.type !== 'string' || !getArtifactType(body.type)) {
+            return { error: `Invalid script type: ${String(body.type)}` };
+        }
+        request.type = body.type;
+    }
+    if (body.metadata !== undefined && body.metadata !== null) {
+        if (typeof body.metadata !== 'object' || Array.isArray(body.metadata)) {
+            return { error: 'metadata must be an object' };
+        }
+        request.metadata = body.metadata as ScriptAnalysisRequest['metadata'];
+    }
+    if (body.instance_id !== undefined && body.instance_id !== null) {
+        if (typeof body.instance_id !== 'string' || !body.instance_id) {
+            return { error: 'instance_id must be a non-empty string' };
+        }
+        request.instance_id = body.instance_id;
+    }
+
+    return { request };
+}
@@ -0,0 +1,277 @@
+/**
+ * Script Analysis
+ * Parses generated ServiceNow JavaScript and flags platform anti-patterns before it is sent
+ */
+
+import { parse } from 'acorn';
+import type { AnyNode, CallExpression, NewExpression } from 'acorn';
+import { fullAncestor } from 'acorn-walk';
+
+import type {
+  ScriptAnalysisResult,
+  ScriptFinding,
+  ScriptFindingSeverity,
+  ServiceNowArtifactMetadata
+} from '@/types';
+
+export interface ScriptAnalysisOptions {
+  // Artifact type id from the Send Script registry; guessed from the script when missing
+  type?: string;
+  metadata?: ServiceNowArtifactMetadata;
+  // Application scope of the target instance profile ('global' or e.g. x_acme_app); unknown when missing
+  scope?: string;
+}
+
+const CLIENT_TYPES = ['client_script', 'ui_policy'];
+const GLIDE_RECORD_CLASSES = ['GlideRecord', 'GlideRecordSecure', 'GlideAggregate'];
+const LOOP_TYPES = ['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement'];
+const ITERATING_METHODS = ['forEach', 'map', 'filter', 'some', 'every', 'reduce'];
+const FUNCTION_TYPES = ['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'];
+const CLIENT_GLOBALS = /\b(g_form|g_user|g_list|g_scratchpad|GlideAjax|spUtil)\b/;
+const SYS_ID_PATTERN = /^[0-9a-f]{32}$/i;
+
+// Syntax the ES5 Rhino engine rejects, reported once per construct
+const MODERN_SYNTAX: Partial<Record<AnyNode['type'], string>> = {
+  ArrowFunctionExpression: 'Arrow functions',
+  TemplateLiteral: 'Template literals',
+  ClassDeclaration: 'Classes',
+  ClassExpression: 'Classes',
+  ForOfStatement: 'for...of loops',
+  SpreadElement: 'Spread syntax',
+  RestElement: 'Rest parameters',
+  ObjectPattern: 'Destructuring',
+  ArrayPattern: 'Destructuring',
+  AssignmentPattern: 'Default parameters',
+  AwaitExpression: 'async/await',
+  ChainExpression: 'Optional chaining'
+};
+
+const SEVERITY_ORDER: Record<ScriptFindingSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+interface GlideRecordUsage {
+  queryCall?: CallExpression;
+  hasSetLimit: boolean;
+  nextInIf: boolean;
+  nextInLoop: boolean;
+}
+
+function calledMethod(node: CallExpression): { object: AnyNode; method: string } | null {
+  const callee = node.callee as AnyNode;
+  if (callee.type !== 'MemberExpression' || callee.computed || callee.property.type !== 'Identifier') {
+    return null;
+  }
+  return { object: callee.object as AnyNode, method: callee.property.name };
+}
+
+function identifierName(node: AnyNode | null | undefined): string | null {
+  return node?.type === 'Identifier' ? node.name : null;
+}
+
+function isGlideRecordConstruction(node: AnyNode | null | undefined): node is NewExpression {
+  return node?.type === 'NewExpression' && GLIDE_RECORD_CLASSES.includes(identifierName(node.callee as AnyNode) ?? '');
+}
+
+// True when the node is in the body of a loop (or an iterating callback) of its own function
+function isInsideLoop(ancestors: AnyNode[]): boolean {
+  for (let index = ancestors.length - 2; index >= 0; index--) {
+    const ancestor = ancestors[index];
+    const child = ancestors[index + 1];
+
+    if (LOOP_TYPES.includes(ancestor.type)) {
+      // The loop's own test or initialiser runs the query once, e.g. while (gr.next())
+      const loop = ancestor as AnyNode & { body: AnyNode };
+      if (loop.body === child) return true;
+      continue;
+    }
+    if (FUNCTION_TYPES.includes(ancestor.type)) {
+      const parent = ancestors[index - 1];
+      if (parent?.type === 'CallExpression' && ITERATING_METHODS.includes(calledMethod(parent)?.method ?? '')) {
+        return true;
+      }
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Where the script runs. Known artifact types decide; otherwise client-side globals such as g_form
+ * mark it as a browser script.
+ */
+export function detectRuntime(script: string, options: ScriptAnalysisOptions = {}): 'server' | 'client' {
+  if (options.type) {
+    if (CLIENT_TYPES.includes(options.type)) return 'client';
+    if (options.type === 'ui_action') return options.metadata?.client === true ? 'client' : 'server';
+    return 'server';
+  }
+  return CLIENT_GLOBALS.test(script) ? 'client' : 'server';
+}
+
+/**
+ * Parses the script and reports ServiceNow anti-patterns: current.update() in Business Rules, GlideRecord
+ * queries in loops, synchronous server calls from the browser, single-record queries without setLimit,
+ * hard-coded sys_ids and ES2015+ syntax in server scripts. A script that does not parse gets one
+ * syntax-error finding.
+ */
+export function analyzeScript(script: string, options: ScriptAnalysisOptions = {}): ScriptAnalysisResult {
+  const runtime = detectRuntime(script, options);
+  const findings: ScriptFinding[] = [];
+
+  const report = (rule: string, severity: ScriptFindingSeverity, message: string, node: AnyNode) => {
+    findings.push({ rule, severity, message, line: node.loc?.start.line ?? 1, column: (node.loc?.start.column ?? 0) + 1 });
+  };
+
+  let program: AnyNode;
+  try {
+    program = parse(script, {
+      ecmaVersion: 'latest',
+      sourceType: 'script',
+      locations: true,
+      allowReturnOutsideFunction: true,
+      allowAwaitOutsideFunction: true
+    }) as AnyNode;
+  } catch (error) {
+    const location = (error as { loc?: { line: number; column: number } }).loc;
+    const message = error instanceof Error ? error.message.replace(/\s*\(\d+:\d+\)$/, '') : 'Invalid JavaScript';
+    return {
+      runtime,
+      findings: [{
+        rule: 'syntax-error',
+        severity: 'error',
+        message: `Syntax error: ${message}`,
+        line: location?.line ?? 1,
+        column: (location?.column ?? 0) + 1
+      }]
+    };
+  }
+
+  const isBusinessRule = options.type === 'business_rule' || (!options.type && /\bfunction\s+executeRule\s*\(/.test(script));
+  const when = typeof options.metadata?.when === 'string' ? options.metadata.when : undefined;
+  const glideRecords = new Map<string, GlideRecordUsage>();
+  const reportedSyntax = new Set<string>();
+
+  // Global scope always runs ES5; scoped apps only accept newer syntax with ECMAScript 2021 mode turned on
+  const reportModernSyntax = (construct: string, node: AnyNode) => {
+    if (reportedSyntax.has(construct)) return;
+    reportedSyntax.add(construct);
+    if (options.scope === 'global') {
+      report('es2015-syntax', 'error', `${construct} are not supported in global scope scripts; use ES5 syntax`, node);
+    } else {
+      report('es2015-syntax', 'warning', `${construct} fail unless the application scope has ECMAScript 2021 mode enabled`, node);
+    }
+  };
+
+  const usageOf = (name: string): GlideRecordUsage => {
+    let usage = glideRecords.get(name);
+    if (!usage) {
+      usage = { hasSetLimit: false, nextInIf: false, nextInLoop: false };
+      glideRecords.set(name, usage);
+    }
+    return usage;
+  };
+
+  fullAncestor(program, (node, _state, ancestors) => {
+    const parent = ancestors[ancestors.length - 2];
+
+    switch (node.type) {
+      case 'NewExpression': {
+        if (!isGlideRecordConstruction(node)) break;
+
+        if (runtime === 'client') {
+          report('client-glide-record', 'warning',
+            'GlideRecord in a client script makes a synchronous call to the server; use GlideAjax or g_scratchpad instead', node);
+        } else if (isInsideLoop(ancestors)) {
+          report('query-in-loop', 'warning',
+            'GlideRecord created inside a loop runs a database query per iteration; query once with an encoded query (e.g. sys_idIN...) or use GlideAggregate', node);
+        }
+
+        // var gr = new GlideRecord(...) / gr = new GlideRecord(...)
+        const target = parent?.type === 'VariableDeclarator' ? identifierName(parent.id as AnyNode)
+          : parent?.type === 'AssignmentExpression' ? identifierName(parent.left as AnyNode) : null;
+        if (target) usageOf(target);
+        break;
+      }
+
+      case 'CallExpression': {
+        const call = calledMethod(node);
+        if (!call) break;
+        const objectName = identifierName(call.object);
+
+        if (call.method === 'update' && objectName === 'current' && isBusinessRule) {
+          if (when === 'before') {
+            report('current-update-in-before-rule', 'error',
+              'current.update() in a before Business Rule saves the record twice and can recurse; changes to current are saved automatically', node);
+          } else {
+            report('current-update-in-business-rule', 'warning',
+              'current.update() in a Business Rule runs the rules on the table again; use a before rule, or setWorkflow(false) if it is unavoidable', node);
+          }
+        }
+
+        if (runtime === 'client' && call.method === 'getXMLWait') {
+          report('synchronous-ajax', 'error',
+            'getXMLWait() blocks the browser and is not available in Service Portal; use getXMLAnswer() or getXML() with a callback', node);
+        }
+        if (runtime === 'client' && call.method === 'getReference' && objectName === 'g_form' && node.arguments.length < 2) {
+          report('synchronous-get-reference', 'warning',
+            'g_form.getReference() without a callback makes a synchronous call to the server; pass a callback function', node);
+        }
+
+        if (objectName && glideRecords.has(objectName)) {
+          const usage = usageOf(objectName);
+          if (call.method === 'query') usage.queryCall ??= node;
+          if (call.method === 'setLimit') usage.hasSetLimit = true;
+          if (call.method === 'next') {
+            if (parent?.type === 'IfStatement' && parent.test === node) usage.nextInIf = true;
+            else usage.nextInLoop = true;
+          }
+        }
+        break;
+      }
+
+      case 'Literal': {
+        if (typeof node.value === 'string' && SYS_ID_PATTERN.test(node.value)) {
+          report('hard-coded-sys-id', 'warning',
+            'Hard-coded sys_id; it differs between instances, so keep it in a system property (gs.getProperty) or look the record up by a unique field', node);
+        }
+        break;
+      }
+
+      case 'VariableDeclaration': {
+        if (runtime === 'server' && node.kind !== 'var') {
+          reportModernSyntax(`'${node.kind}' declarations`, node);
+        }
+        break;
+      }
+
+      default: {
+        const construct = MODERN_SYNTAX[node.type];
+        if (runtime === 'server' && construct) {
+          reportModernSyntax(construct, node);
+        }
+      }
+    }
+  });
+
+  for (const usage of glideRecords.values()) {
+    if (usage.queryCall && !usage.hasSetLimit && usage.nextInIf && !usage.nextInLoop) {
+      report('missing-set-limit', 'warning',
+        'Only the first record is read; call setLimit(1) before query() so the database stops after one row', usage.queryCall);
+    }
+  }
+
+  findings.sort((a, b) => a.line - b.line || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.column - b.column);
+  return { runtime, findings };
+}
+
+export function hasBlockingFindings(findings: ScriptFinding[]): boolean {
+  return findings.some(finding => finding.severity === 'error');
+}
+
+/**
+ * One-line summary for error messages, e.g. "Line 4: current.update() in a before Business Rule ... (+1 more)"
+ */
+export function summarizeFindings(findings: ScriptFinding[]): string {
+  const [first, ...rest] = findings;
+  if (!first) return '';
+  return `Line ${first.line}: ${first.message}${rest.length > 0 ? ` (+${rest.length} more)` : ''}`;
+}
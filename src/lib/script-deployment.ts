@@ -0,0 +1,119 @@
+/**
+ * Script Deployment
+ * Delivers a queued Send Script request to ServiceNow and records the outcome in the integration queue
+ */
+
+import { UserSettingsManager } from '@/lib/database';
+import { IntegrationQueueManager } from '@/lib/integration-queue';
+import N8NClient from '@/lib/n8n-client';
+import { getServiceNowCredentials, ServiceNowApiError, ServiceNowClient, validateCredentialsReference } from '@/lib/servicenow-client';
+import { analyzeScript, hasBlockingFindings, summarizeFindings } from '@/lib/script-analysis';
+import { getInstanceScope, resolveInstanceProfile } from '@/lib/servicenow-instances';
+import type { IntegrationQueueItem, ScriptFinding, SendScriptRequest, ServiceNowInstanceProfile, UserSettings } from '@/types';
+
+export interface DeploymentOutcome {
+  item: IntegrationQueueItem;
+  // Status for the API response: 201 when delivered, otherwise the failure's status
+  status: number;
+  error?: string;
+}
+
+/**
+ * One of the user's instance profiles by id, or without an id the active one. Null when the id is
+ * unknown or the user has not set up an instance.
+ */
+export async function loadUserInstance(username: string, instanceId?: string): Promise<ServiceNowInstanceProfile | null> {
+  const settingsManager = new UserSettingsManager();
+  const [instances, activeInstance, instanceUrl] = await Promise.all([
+    settingsManager.getSetting(username, 'servicenow_instances'),
+    settingsManager.getSetting(username, 'active_servicenow_instance'),
+    settingsManager.getSetting(username, 'servicenow_instance_url')
+  ]);
+
+  return resolveInstanceProfile({
+    servicenow_instances: Array.isArray(instances) ? instances as UserSettings['servicenow_instances'] : [],
+    active_servicenow_instance: typeof activeInstance === 'string' ? activeInstance : '',
+    servicenow_instance_url: typeof instanceUrl === 'string' ? instanceUrl : ''
+  }, instanceId);
+}
+
+/**
+ * Why the script must not be pushed for a user who blocks unsafe scripts: the analyzer's findings when
+ * it reports errors, judged by the scope of the target profile. Null when blocking is off or the script
+ * has no errors.
+ */
+export async function getScriptAnalysisRestriction(
+  request: SendScriptRequest,
+  username: string,
+  instance: ServiceNowInstanceProfile | null
+): Promise<{ error: string; findings: ScriptFinding[] } | null> {
+  const blockUnsafe = await new UserSettingsManager().getSetting(username, 'block_unsafe_scripts');
+  if (blockUnsafe !== true) {
+    return null;
+  }
+
+  const { findings } = analyzeScript(request.payload, {
+    type: request.type,
+    metadata: request.metadata,
+    scope: instance ? getInstanceScope(instance) : undefined
+  });
+  if (!hasBlockingFindings(findings)) {
+    return null;
+  }
+
+  const errors = findings.filter(finding => finding.severity === 'error');
+  return { error: `Script analysis found errors. ${summarizeFindings(errors)}`, findings };
+}
+
+/**
+ * Writes the script straight to the Table API when credentials are configured for the target instance,
+ * otherwise hands it to the n8n create_task workflow. Either way the queue item ends up completed,
+ * processing (waiting for the ServiceNow companion app) or failed with the reason.
+ */
+export async function deliverQueuedScript(
+  item: IntegrationQueueItem,
+  request: SendScriptRequest,
+  username: string,
+  instance: ServiceNowInstanceProfile | null
+): Promise<DeploymentOutcome> {
+  const queue = new IntegrationQueueManager();
+
+  try {
+    // A profile naming credentials must not fall back to n8n when they are configured for another instance
+    const credentialsError = instance?.credentials_ref && validateCredentialsReference(instance.url, instance.credentials_ref);
+    if (credentialsError) {
+      console.error('Refusing to push script:', credentialsError);
+      return { item: await queue.markFailed(item.id, credentialsError), status: 409, error: credentialsError };
+    }
+
+    const credentials = instance ? getServiceNowCredentials(instance.url, instance.credentials_ref) : null;
+
+    if (instance && credentials) {
+      const pushed = await new ServiceNowClient(instance.url, credentials).pushArtifact(request);
+      console.log(`Script ${pushed.action} in ServiceNow (${instance.name}) as ${pushed.table} ${pushed.sys_id}`);
+      return { item: await queue.markCompleted(item.id, pushed), status: 201 };
+    }
+
+    console.log('Sending script to ServiceNow via N8N client');
+    const result = await N8NClient.getInstance().createTask({
+      ...request,
+      correlation_id: item.correlation_id,
+      created_by: username,
+      ...(instance && { instance_url: instance.url })
+    });
+
+    if (!result.success) {
+      const error = result.error || 'Failed to send script to ServiceNow';
+      console.error('Failed to send script via N8N:', error);
+      return { item: await queue.markFailed(item.id, error), status: 500, error };
+    }
+
+    console.log('Script sent to ServiceNow successfully');
+    return { item: await queue.markProcessing(item.id), status: 201 };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    const status = error instanceof ServiceNowApiError ? (error.status === 400 ? 400 : 502) : 500;
+    console.error('Script delivery failed:', message);
+    return { item: await queue.markFailed(item.id, message), status, error: message };
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Script Metadata
+ * Reads ServiceNow record fields for Send Script from a generated script and the answer around it
+ */
+
+import { getArtifactTypes } from '@/lib/servicenow-artifacts';
+import type { ServiceNowArtifactField, ServiceNowArtifactMetadata, ServiceNowArtifactType } from '@/types';
+
+const MAX_CONTEXT_LENGTH = 2000;
+const MAX_VALUE_LENGTH = 500;
+
+const TYPE_KEYS = ['type', 'script_type', 'artifact_type', 'record_type'];
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on', 'checked', 'active'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off', 'unchecked', 'inactive'];
+
+// Recognisable script shapes; they set the type when the answer does not name one
+const SCRIPT_SIGNATURES: { pattern: RegExp; type: string; metadata?: (match: RegExpMatchArray) => Record<string, string> }[] = [
+  { pattern: /\bvar\s+([A-Za-z_$][\w$]*)\s*=\s*Class\.create\s*\(/, type: 'script_include', metadata: match => ({ name: match[1] }) },
+  { pattern: /\bfunction\s+(onLoad|onChange|onSubmit|onCellEdit)\s*\(/, type: 'client_script', metadata: match => ({ when: match[1] }) },
+  { pattern: /\bfunction\s+executeRule\s*\(\s*current\s*,\s*previous/, type: 'business_rule' },
+  { pattern: /\bfunction\s+process\s*\(\s*(?:\/\*[^*]*\*\/\s*)?request\s*,\s*(?:\/\*[^*]*\*\/\s*)?response/, type: 'scripted_rest_resource' },
+  { pattern: /\bfunction\s+onClick\s*\(/, type: 'ui_action', metadata: () => ({ client: 'true' }) }
+];
+
+export interface ParsedScriptMetadata {
+  // Artifact type named in the answer or recognised from the script
+  type?: string;
+  // Raw values keyed by normalised field name, e.g. { table: 'incident', when: 'before' }
+  values: Record<string, string>;
+}
+
+function normaliseKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function cleanValue(value: string): string {
+  return value
+    .replace(/\*\*|__/g, '')
+    .trim()
+    .replace(/^[`'"]+|[`'"]+$/g, '')
+    .replace(/[.;,]$/, '')
+    .trim();
+}
+
+// "Name: Foo", "- **Table:** `incident`", "@when before" and "| Order | 100 |" all become key/value pairs
+function readPair(line: string): [string, string] | null {
+  const text = line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').replace(/\*\*|__/g, '').trim();
+
+  const tableRow = text.match(/^\|\s*([^|]+?)\s*\|\s*([^|]+?)\s*\|$/);
+  if (tableRow) {
+    return [tableRow[1], tableRow[2]];
+  }
+  const tag = text.match(/^@([A-Za-z][\w-]*)\s+(.+)$/);
+  if (tag) {
+    return [tag[1], tag[2]];
+  }
+  const pair = text.match(/^([A-Za-z][A-Za-z0-9 _/-]{0,40}?)\s*:\s*(.+)$/);
+  return pair ? [pair[1], pair[2]] : null;
+}
+
+function collectPairs(lines: string[], values: Record<string, string>): void {
+  for (const line of lines) {
+    const pair = readPair(line);
+    if (!pair) continue;
+
+    const key = normaliseKey(pair[0]);
+    const value = cleanValue(pair[1]);
+    if (key && value && value.length <= MAX_VALUE_LENGTH && !/^-+$/.test(value)) {
+      values[key] = value;
+    }
+  }
+}
+
+function commentLines(script: string): string[] {
+  const lines: string[] = [];
+  for (const block of script.match(/\/\*[\s\S]*?\*\//g) ?? []) {
+    lines.push(...block.replace(/^\/\*+|\*+\/$/g, '').split('\n').map(line => line.replace(/^\s*\*\s?/, '')));
+  }
+  for (const match of script.matchAll(/^\s*\/\/\s?(.*)$/gm)) {
+    lines.push(match[1]);
+  }
+  return lines;
+}
+
+function findArtifactType(value: string): ServiceNowArtifactType | undefined {
+  const wanted = normaliseKey(value).replace(/s$/, '');
+  return getArtifactTypes().find(type =>
+    type.id === wanted || normaliseKey(type.label) === wanted || type.targetTable === value.trim()
+  );
+}
+
+/**
+ * Collects "key: value" pairs from the markdown around a code block and from the script's own
+ * comments (which win), and recognises the artifact type from the answer or the script's shape.
+ */
+export function parseScriptMetadata(script: string, context = ''): ParsedScriptMetadata {
+  const values: Record<string, string> = {};
+  collectPairs(context.slice(-MAX_CONTEXT_LENGTH).split('\n'), values);
+  collectPairs(commentLines(script), values);
+
+  let type = TYPE_KEYS.map(key => values[key] ? findArtifactType(values[key]) : undefined).find(Boolean)?.id;
+
+  for (const signature of SCRIPT_SIGNATURES) {
+    const match = script.match(signature.pattern);
+    if (!match || (type && type !== signature.type)) continue;
+
+    type = signature.type;
+    for (const [key, value] of Object.entries(signature.metadata?.(match) ?? {})) {
+      values[key] ??= value;
+    }
+    break;
+  }
+
+  return { type, values };
+}
+
+function coerceValue(field: ServiceNowArtifactField, raw: string): string | number | boolean | undefined {
+  switch (field.input) {
+    case 'checkbox': {
+      const value = raw.toLowerCase();
+      if (TRUE_VALUES.includes(value)) return true;
+      if (FALSE_VALUES.includes(value)) return false;
+      return undefined;
+    }
+    case 'number': {
+      const number = Number(raw);
+      return Number.isInteger(number) ? number : undefined;
+    }
+    case 'select': {
+      const wanted = raw.toLowerCase();
+      return field.options?.find(option => option.value.toLowerCase() === wanted || option.label.toLowerCase() === wanted)?.value;
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Metadata for an artifact type: its defaults, overridden by the parsed values that fit its fields.
+ */
+export function prefillArtifactMetadata(artifactType: ServiceNowArtifactType, parsed: ParsedScriptMetadata): {
+  metadata: ServiceNowArtifactMetadata;
+  prefilled: string[];
+} {
+  const metadata: ServiceNowArtifactMetadata = {};
+  const prefilled: string[] = [];
+
+  for (const field of artifactType.fields) {
+    const keys = [field.key, normaliseKey(field.label), ...(field.aliases ?? [])];
+    const value = keys
+      .map(key => parsed.values[key] === undefined ? undefined : coerceValue(field, parsed.values[key]))
+      .find(candidate => candidate !== undefined);
+
+    if (value !== undefined) {
+      metadata[field.key] = value;
+      prefilled.push(field.key);
+    } else if (field.defaultValue !== undefined) {
+      metadata[field.key] = field.defaultValue;
+    } else if (field.input === 'checkbox') {
+      metadata[field.key] = false;
+    }
+  }
+
+  return { metadata, prefilled };
+}
@@ -1,10 +1,15 @@
 import { cookies } from 'next/headers';
 import jwt from 'jsonwebtoken';
 
+import { UserManager } from '@/lib/users';
+import type { UserRole } from '@/types/index';
+
 const JWT_SECRET = process.env.JWT_SECRET!;
 
 export interface AuthUser {
+  id: number;
   username: string;
+  role: UserRole;
 }
 
 export async function getServerAuthState(): Promise<{
@@ -20,10 +25,25 @@ export async function getServerAuthState(): Promise<{
     }
 
     const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
-    
+
+    // Tokens issued before per-user accounts carry no user id - require a fresh login
+    if (typeof decoded.uid !== 'number' || typeof decoded.username !== 'string') {
+      return { isAuthenticated: false };
+    }
+
+    // The token only identifies the user; a disabled account or a changed role applies from the next request
+    const user = await new UserManager().getUserById(decoded.uid);
+    if (!user || !user.is_active || user.username !== decoded.username) {
+      return { isAuthenticated: false };
+    }
+
     return {
       isAuthenticated: true,
-      user: { username: decoded.username },
+      user: {
+        id: user.id,
+        username: user.username,
+        role: user.role === 'admin' ? 'admin' : 'member',
+      },
     };
   } catch {
     return { isAuthenticated: false };
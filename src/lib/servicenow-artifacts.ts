@@ -0,0 +1,515 @@
+/**
+ * ServiceNow Artifacts
+ * Registry of the record types Send Script can create, with their target tables and metadata fields
+ */
+
+import type { ServiceNowArtifactField, ServiceNowArtifactMetadata, ServiceNowArtifactType } from '@/types';
+
+const MAX_TEXT_FIELD_LENGTH = 4000;
+
+// ui_type choices as stored by ServiceNow: 0 = Desktop, 1 = Mobile / Service Portal, 10 = All
+const UI_TYPE_OPTIONS = [
+  { value: '0', label: 'Desktop' },
+  { value: '1', label: 'Mobile / Service Portal' },
+  { value: '10', label: 'All' }
+];
+
+const TABLE_NAME_PATTERN = '^[a-z][a-z0-9_]*$';
+
+const NAME_FIELD: ServiceNowArtifactField = {
+  key: 'name',
+  label: 'Name',
+  input: 'text',
+  required: true,
+  maxLength: 100,
+  aliases: ['title', 'record_name']
+};
+
+const DESCRIPTION_FIELD: ServiceNowArtifactField = {
+  key: 'description',
+  label: 'Description',
+  input: 'text',
+  aliases: ['purpose', 'summary']
+};
+
+const ACTIVE_FIELD: ServiceNowArtifactField = {
+  key: 'active',
+  label: 'Active',
+  input: 'checkbox',
+  defaultValue: true
+};
+
+const TABLE_FIELD: ServiceNowArtifactField = {
+  key: 'table',
+  label: 'Table',
+  input: 'text',
+  required: true,
+  placeholder: 'incident',
+  maxLength: 80,
+  pattern: TABLE_NAME_PATTERN,
+  patternMessage: 'Table must be a table name such as incident or x_acme_request',
+  aliases: ['table_name', 'collection', 'applies_to']
+};
+
+const ORDER_FIELD: ServiceNowArtifactField = {
+  key: 'order',
+  label: 'Order',
+  input: 'number',
+  defaultValue: 100
+};
+
+const CONDITION_FIELD: ServiceNowArtifactField = {
+  key: 'condition',
+  label: 'Condition',
+  input: 'text',
+  placeholder: 'current.active == true',
+  helpText: 'Script condition, leave empty to always run'
+};
+
+const UI_TYPE_FIELD: ServiceNowArtifactField = {
+  key: 'ui_type',
+  label: 'UI Type',
+  input: 'select',
+  options: UI_TYPE_OPTIONS,
+  defaultValue: '0'
+};
+
+const BUILT_IN_ARTIFACT_TYPES: ServiceNowArtifactType[] = [
+  {
+    id: 'business_rule',
+    label: 'Business Rule',
+    targetTable: 'sys_script',
+    description: 'Server-side script that runs when records are displayed, inserted, updated, deleted or queried',
+    scriptField: 'script',
+    fixedFields: { advanced: true },
+    matchOn: ['name', 'table'],
+    fields: [
+      NAME_FIELD,
+      { ...TABLE_FIELD, column: 'collection' },
+      {
+        key: 'when',
+        label: 'When',
+        input: 'select',
+        required: true,
+        options: [
+          { value: 'before', label: 'Before' },
+          { value: 'after', label: 'After' },
+          { value: 'async', label: 'Async' },
+          { value: 'display', label: 'Display' }
+        ],
+        defaultValue: 'before'
+      },
+      ORDER_FIELD,
+      { key: 'action_insert', label: 'Insert', input: 'checkbox', defaultValue: true, aliases: ['on_insert'] },
+      { key: 'action_update', label: 'Update', input: 'checkbox', defaultValue: true, aliases: ['on_update'] },
+      { key: 'action_delete', label: 'Delete', input: 'checkbox', defaultValue: false, aliases: ['on_delete'] },
+      { key: 'action_query', label: 'Query', input: 'checkbox', defaultValue: false, aliases: ['on_query'] },
+      {
+        key: 'filter_condition',
+        label: 'Filter Conditions',
+        input: 'text',
+        placeholder: 'active=true^priority=1',
+        helpText: 'Encoded query, leave empty to run for every record',
+        aliases: ['filter', 'filter_conditions', 'encoded_query']
+      },
+      CONDITION_FIELD,
+      ACTIVE_FIELD,
+      DESCRIPTION_FIELD
+    ]
+  },
+  {
+    id: 'script_include',
+    label: 'Script Include',
+    targetTable: 'sys_script_include',
+    description: 'Reusable server-side class or function library',
+    scriptField: 'script',
+    matchOn: ['name'],
+    fields: [
+      {
+        ...NAME_FIELD,
+        pattern: '^[A-Za-z_$][A-Za-z0-9_$]*$',
+        patternMessage: 'Name must be a JavaScript identifier matching the class or function in the script',
+        aliases: ['class', 'class_name', 'api_name']
+      },
+      {
+        key: 'access',
+        label: 'Accessible From',
+        input: 'select',
+        options: [
+          { value: 'package_private', label: 'This application scope only' },
+          { value: 'public', label: 'All application scopes' }
+        ],
+        defaultValue: 'package_private',
+        aliases: ['accessible_from']
+      },
+      { key: 'client_callable', label: 'Client Callable', input: 'checkbox', defaultValue: false, aliases: ['glide_ajax'] },
+      ACTIVE_FIELD,
+      DESCRIPTION_FIELD
+    ]
+  },
+  {
+    id: 'client_script',
+    label: 'Client Script',
+    targetTable: 'sys_script_client',
+    description: 'Browser-side script that runs on forms and lists',
+    scriptField: 'script',
+    matchOn: ['name', 'table'],
+    fields: [
+      NAME_FIELD,
+      TABLE_FIELD,
+      {
+        key: 'when',
+        label: 'Type',
+        input: 'select',
+        required: true,
+        options: [
+          { value: 'onLoad', label: 'onLoad' },
+          { value: 'onChange', label: 'onChange' },
+          { value: 'onSubmit', label: 'onSubmit' },
+          { value: 'onCellEdit', label: 'onCellEdit' }
+        ],
+        defaultValue: 'onLoad',
+        aliases: ['client_script_type'],
+        column: 'type'
+      },
+      {
+        key: 'field_name',
+        label: 'Field Name',
+        input: 'text',
+        placeholder: 'state',
+        helpText: 'Field watched by onChange and onCellEdit scripts',
+        maxLength: 80,
+        pattern: TABLE_NAME_PATTERN,
+        patternMessage: 'Field Name must be a field name such as state or u_category',
+        requiredWhen: { key: 'when', values: ['onChange', 'onCellEdit'] },
+        aliases: ['field']
+      },
+      UI_TYPE_FIELD,
+      ACTIVE_FIELD,
+      DESCRIPTION_FIELD
+    ]
+  },
+  {
+    id: 'ui_action',
+    label: 'UI Action',
+    targetTable: 'sys_ui_action',
+    description: 'Button, link or context menu item on forms and lists',
+    scriptField: 'script',
+    matchOn: ['name', 'table'],
+    fields: [
+      NAME_FIELD,
+      TABLE_FIELD,
+      {
+        key: 'action_name',
+        label: 'Action Name',
+        input: 'text',
+        placeholder: 'resolve_incident',
+        maxLength: 80
+      },
+      ORDER_FIELD,
+      CONDITION_FIELD,
+      {
+        ...UI_TYPE_FIELD,
+        options: [
+          { value: '0', label: 'Desktop' },
+          { value: '1', label: 'Mobile / Service Portal' },
+          { value: '10', label: 'Both' }
+        ]
+      },
+      { key: 'form_button', label: 'Form Button', input: 'checkbox', defaultValue: true },
+      { key: 'list_button', label: 'List Button', input: 'checkbox', defaultValue: false },
+      { key: 'client', label: 'Client', input: 'checkbox', defaultValue: false, helpText: 'Run the script in the browser' },
+      ACTIVE_FIELD
+    ]
+  },
+  {
+    id: 'ui_policy',
+    label: 'UI Policy',
+    targetTable: 'sys_ui_policy',
+    description: 'Form behaviour with scripts that run when its conditions become true or false',
+    scriptField: 'script_true',
+    matchOn: ['name', 'table'],
+    fields: [
+      { ...NAME_FIELD, label: 'Short Description', aliases: ['name', 'title'], column: 'short_description' },
+      TABLE_FIELD,
+      {
+        key: 'condition',
+        label: 'Conditions',
+        input: 'text',
+        placeholder: 'active=true^priority=1',
+        helpText: 'Encoded query, leave empty to always apply',
+        aliases: ['filter', 'filter_conditions', 'encoded_query'],
+        column: 'conditions'
+      },
+      ORDER_FIELD,
+      UI_TYPE_FIELD,
+      { key: 'reverse_if_false', label: 'Reverse if False', input: 'checkbox', defaultValue: true },
+      { key: 'run_scripts', label: 'Run Scripts', input: 'checkbox', defaultValue: true },
+      ACTIVE_FIELD
+    ]
+  },
+  {
+    id: 'scheduled_job',
+    label: 'Scheduled Job',
+    targetTable: 'sysauto_script',
+    description: 'Script that runs on a schedule',
+    scriptField: 'script',
+    matchOn: ['name'],
+    fields: [
+      NAME_FIELD,
+      {
+        key: 'when',
+        label: 'Run',
+        input: 'select',
+        required: true,
+        options: [
+          { value: 'daily', label: 'Daily' },
+          { value: 'weekly', label: 'Weekly' },
+          { value: 'monthly', label: 'Monthly' },
+          { value: 'periodically', label: 'Periodically' },
+          { value: 'once', label: 'Once' },
+          { value: 'on_demand', label: 'On Demand' }
+        ],
+        defaultValue: 'daily',
+        aliases: ['run_type', 'schedule', 'frequency'],
+        column: 'run_type'
+      },
+      {
+        key: 'run_time',
+        label: 'Time',
+        input: 'text',
+        placeholder: '02:00:00',
+        pattern: '^([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$',
+        patternMessage: 'Time must be HH:MM or HH:MM:SS',
+        aliases: ['run_at', 'time_of_day']
+      },
+      {
+        key: 'condition',
+        label: 'Condition',
+        input: 'text',
+        placeholder: 'answer = gs.getProperty("my.job.enabled") == "true";',
+        helpText: 'Conditional script, leave empty to always run'
+      },
+      ACTIVE_FIELD
+    ]
+  },
+  {
+    id: 'fix_script',
+    label: 'Fix Script',
+    targetTable: 'sys_script_fix',
+    description: 'One-off server-side script run after an upgrade or update set commit',
+    scriptField: 'script',
+    matchOn: ['name'],
+    fields: [
+      NAME_FIELD,
+      { key: 'record_for_rollback', label: 'Record for Rollback', input: 'checkbox', defaultValue: true },
+      DESCRIPTION_FIELD
+    ]
+  },
+  {
+    id: 'scripted_rest_resource',
+    label: 'Scripted REST Resource',
+    targetTable: 'sys_ws_operation',
+    description: 'Operation of a Scripted REST API',
+    scriptField: 'operation_script',
+    matchOn: ['name', 'web_service_definition'],
+    fields: [
+      NAME_FIELD,
+      {
+        key: 'web_service_definition',
+        label: 'REST API',
+        input: 'text',
+        required: true,
+        placeholder: 'x_company_api',
+        helpText: 'Name of the Scripted REST API the resource belongs to',
+        maxLength: 100,
+        aliases: ['api', 'api_id', 'rest_api', 'scripted_rest_api'],
+        matchColumn: 'web_service_definition.name'
+      },
+      {
+        key: 'http_method',
+        label: 'HTTP Method',
+        input: 'select',
+        required: true,
+        options: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map(method => ({ value: method, label: method })),
+        defaultValue: 'GET',
+        aliases: ['method']
+      },
+      {
+        key: 'relative_path',
+        label: 'Relative Path',
+        input: 'text',
+        placeholder: '/{id}',
+        maxLength: 255,
+        pattern: '^/',
+        patternMessage: 'Relative Path must start with /',
+        aliases: ['path', 'resource_path']
+      },
+      { key: 'requires_authentication', label: 'Requires Authentication', input: 'checkbox', defaultValue: true },
+      ACTIVE_FIELD,
+      { ...DESCRIPTION_FIELD, column: 'short_description' }
+    ]
+  },
+  {
+    id: 'acl',
+    label: 'ACL',
+    targetTable: 'sys_security_acl',
+    description: 'Access control rule with an advanced script',
+    scriptField: 'script',
+    fixedFields: { type: 'record', advanced: true },
+    // Never matched: many ACLs (out-of-box and role-only ones included) share a table and operation,
+    // so updating the first one found could overwrite an unrelated rule. Every push creates a new ACL.
+    matchOn: [],
+    fields: [
+      {
+        ...TABLE_FIELD,
+        placeholder: 'incident.short_description',
+        helpText: 'Table, or table.field for a field-level rule',
+        pattern: '^[a-z][a-z0-9_]*(\\.([a-z0-9_]+|\\*))?$',
+        patternMessage: 'Table must be a table name, table.field or table.*',
+        aliases: ['name', 'object', 'table_name'],
+        column: 'name'
+      },
+      {
+        key: 'operation',
+        label: 'Operation',
+        input: 'select',
+        required: true,
+        options: ['read', 'write', 'create', 'delete'].map(operation => ({ value: operation, label: operation })),
+        defaultValue: 'read',
+        matchColumn: 'operation.name'
+      },
+      CONDITION_FIELD,
+      { key: 'admin_overrides', label: 'Admin Overrides', input: 'checkbox', defaultValue: true },
+      ACTIVE_FIELD,
+      DESCRIPTION_FIELD
+    ]
+  }
+];
+
+const registry = new Map<string, ServiceNowArtifactType>(
+  BUILT_IN_ARTIFACT_TYPES.map(artifactType => [artifactType.id, artifactType])
+);
+
+/**
+ * Adds an artifact type, or replaces the one with the same id. Types keep their registration order
+ * in the Send Script modal.
+ */
+export function registerArtifactType(artifactType: ServiceNowArtifactType): void {
+  registry.set(artifactType.id, artifactType);
+}
+
+export function getArtifactTypes(): ServiceNowArtifactType[] {
+  return Array.from(registry.values());
+}
+
+export function getArtifactType(id: string): ServiceNowArtifactType | undefined {
+  return registry.get(id);
+}
+
+export function getDefaultMetadata(artifactType: ServiceNowArtifactType): ServiceNowArtifactMetadata {
+  const metadata: ServiceNowArtifactMetadata = {};
+  for (const field of artifactType.fields) {
+    if (field.defaultValue !== undefined) {
+      metadata[field.key] = field.defaultValue;
+    } else if (field.input === 'checkbox') {
+      metadata[field.key] = false;
+    }
+  }
+  return metadata;
+}
+
+function parseFieldValue(field: ServiceNowArtifactField, value: unknown): { value: string | number | boolean } | { error: string } {
+  switch (field.input) {
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || !Number.isInteger(number)) {
+        return { error: `${field.label} must be a whole number` };
+      }
+      return { value: number };
+    }
+    case 'checkbox':
+      if (typeof value !== 'boolean') {
+        return { error: `${field.label} must be true or false` };
+      }
+      return { value };
+    case 'select': {
+      const option = String(value);
+      if (!field.options?.some(candidate => candidate.value === option)) {
+        return { error: `${field.label} must be one of: ${field.options?.map(candidate => candidate.value).join(', ')}` };
+      }
+      return { value: option };
+    }
+    default: {
+      const maxLength = field.maxLength ?? MAX_TEXT_FIELD_LENGTH;
+      if (typeof value !== 'string' || value.trim().length > maxLength) {
+        return { error: `${field.label} must be text of at most ${maxLength} characters` };
+      }
+      const text = value.trim();
+      if (field.pattern && !new RegExp(field.pattern).test(text)) {
+        return { error: field.patternMessage ?? `${field.label} is not valid` };
+      }
+      return { value: text };
+    }
+  }
+}
+
+export function isArtifactFieldRequired(field: ServiceNowArtifactField, metadata: ServiceNowArtifactMetadata): boolean {
+  if (field.requiredWhen) {
+    return field.requiredWhen.values.includes(String(metadata[field.requiredWhen.key]));
+  }
+  return field.required === true;
+}
+
+/**
+ * Checks metadata against the fields of an artifact type. Defaults fill in missing values, checkboxes
+ * without a value are false, empty optional values are dropped and keys the type does not define
+ * are ignored.
+ */
+export function validateArtifactMetadata(
+  artifactType: ServiceNowArtifactType,
+  metadata: Record<string, unknown>
+): { metadata: ServiceNowArtifactMetadata } | { error: string } {
+  const result: ServiceNowArtifactMetadata = {};
+
+  for (const field of artifactType.fields) {
+    let value = metadata[field.key];
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+      value = field.defaultValue ?? (field.input === 'checkbox' ? false : undefined);
+    }
+    if (value === undefined) {
+      continue;
+    }
+
+    const parsed = parseFieldValue(field, value);
+    if ('error' in parsed) {
+      return parsed;
+    }
+    result[field.key] = parsed.value;
+  }
+
+  const missing = artifactType.fields.find(field => isArtifactFieldRequired(field, result) && result[field.key] === undefined);
+  if (missing) {
+    return { error: `${missing.label} is required for a ${artifactType.label}` };
+  }
+
+  return { metadata: result };
+}
+
+/**
+ * The ServiceNow record for a script: the script column, the type's fixed values and the metadata
+ * under each field's column name.
+ */
+export function buildArtifactRecord(
+  artifactType: ServiceNowArtifactType,
+  script: string,
+  metadata: ServiceNowArtifactMetadata
+): ServiceNowArtifactMetadata {
+  const record: ServiceNowArtifactMetadata = { ...artifactType.fixedFields, [artifactType.scriptField]: script };
+  for (const field of artifactType.fields) {
+    if (metadata[field.key] !== undefined) {
+      record[field.column ?? field.key] = metadata[field.key];
+    }
+  }
+  return record;
+}
@@ -0,0 +1,254 @@
+/**
+ * ServiceNow Client
+ * Creates and updates records through the ServiceNow Table API, with basic auth or OAuth client credentials
+ */
+
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+
+import { buildArtifactRecord, getArtifactType } from '@/lib/servicenow-artifacts';
+import { isSecureInstanceUrl } from '@/lib/servicenow-instances';
+import type { SendScriptRequest, SendScriptResult, ServiceNowArtifactMetadata } from '@/types';
+
+const REQUEST_TIMEOUT_MS = 30000;
+// Refresh OAuth tokens this long before ServiceNow expires them
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+export type ServiceNowCredentials =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'oauth'; clientId: string; clientSecret: string };
+
+export class ServiceNowApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ServiceNowApiError';
+  }
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+
+const CREDENTIALS_URL_PATTERN = /^SERVICENOW_([A-Z0-9_]+)_URL$/;
+
+/**
+ * Instance URL with https:// and without a trailing slash, e.g. "dev12345.service-now.com/" becomes
+ * "https://dev12345.service-now.com". Returns null for values that are not a URL, and for http:// URLs
+ * outside the local machine so credentials never travel in cleartext.
+ */
+export function normaliseInstanceUrl(instanceUrl: string): string | null {
+  const trimmed = instanceUrl.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (!isSecureInstanceUrl(url)) {
+      return null;
+    }
+    return `${url.protocol}//${url.host}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The instance a set of credentials belongs to, from SERVICENOW_<NAME>_URL. Null when the variable is
+ * missing or not a valid https URL.
+ */
+export function getCredentialsInstanceUrl(name: string): string | null {
+  const configured = process.env[`SERVICENOW_${name}_URL`];
+  return configured ? normaliseInstanceUrl(configured) : null;
+}
+
+/**
+ * Why a profile's credentials reference cannot be used for its URL, or null when SERVICENOW_<REF>_URL
+ * names the same instance. Checked when profiles are saved and again before a push.
+ */
+export function validateCredentialsReference(instanceUrl: string, credentialsRef: string): string | null {
+  const configured = getCredentialsInstanceUrl(credentialsRef);
+  if (!configured) {
+    return `Credentials reference ${credentialsRef} is not configured on the server (SERVICENOW_${credentialsRef}_URL)`;
+  }
+  if (configured !== normaliseInstanceUrl(instanceUrl)) {
+    return `Credentials reference ${credentialsRef} belongs to ${configured}, not ${instanceUrl}`;
+  }
+  return null;
+}
+
+/**
+ * Credentials for an instance from the environment. Each set is named and bound to one instance:
+ * SERVICENOW_<NAME>_URL with SERVICENOW_<NAME>_CLIENT_ID/_CLIENT_SECRET for OAuth or
+ * SERVICENOW_<NAME>_USERNAME/_PASSWORD for basic auth. Without a credentials reference the set whose URL
+ * matches the instance is used; with one, that set is used only if its URL matches. Credentials are
+ * therefore never sent to a host the server has not configured for them.
+ */
+export function getServiceNowCredentials(instanceUrl: string, credentialsRef?: string): ServiceNowCredentials | null {
+  const normalised = normaliseInstanceUrl(instanceUrl);
+  if (!normalised) return null;
+
+  const names = credentialsRef
+    ? [credentialsRef]
+    : Object.keys(process.env).flatMap(key => CREDENTIALS_URL_PATTERN.exec(key)?.[1] ?? []).sort();
+
+  for (const name of names) {
+    if (getCredentialsInstanceUrl(name) !== normalised) continue;
+
+    const prefix = `SERVICENOW_${name}_`;
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+    const clientSecret = process.env[`${prefix}CLIENT_SECRET`];
+    if (clientId && clientSecret) {
+      return { type: 'oauth', clientId, clientSecret };
+    }
+
+    const username = process.env[`${prefix}USERNAME`];
+    const password = process.env[`${prefix}PASSWORD`];
+    if (username && password) {
+      return { type: 'basic', username, password };
+    }
+  }
+  return null;
+}
+
+export function buildRecordUrl(instanceUrl: string, table: string, sysId: string): string {
+  return `${instanceUrl}/nav_to.do?uri=${encodeURIComponent(`${table}.do?sys_id=${sysId}`)}`;
+}
+
+// Encoded queries use ^ as separator; a literal ^ in a value is written as ^^
+function encodedQuery(conditions: [string, string | number | boolean][]): string {
+  return conditions.map(([column, value]) => `${column}=${String(value).replace(/\^/g, '^^')}`).join('^');
+}
+
+function describeError(error: unknown, instanceUrl: string): ServiceNowApiError {
+  if (error instanceof ServiceNowApiError) {
+    return error;
+  }
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<{ error?: { message?: string; detail?: string }; error_description?: string }>;
+    if (axiosError.response) {
+      const body = axiosError.response.data;
+      const message = body?.error?.message || body?.error_description || axiosError.message;
+      const detail = body?.error?.detail ? ` (${body.error.detail})` : '';
+      return new ServiceNowApiError(`ServiceNow returned ${axiosError.response.status}: ${message}${detail}`, axiosError.response.status);
+    }
+    return new ServiceNowApiError(`Could not reach ServiceNow at ${instanceUrl}: ${axiosError.message}`, 502);
+  }
+  return new ServiceNowApiError(error instanceof Error ? error.message : 'Unknown ServiceNow error', 500);
+}
+
+export class ServiceNowClient {
+  private instanceUrl: string;
+
+  constructor(instanceUrl: string, private credentials: ServiceNowCredentials) {
+    const normalised = normaliseInstanceUrl(instanceUrl);
+    if (!normalised) {
+      throw new ServiceNowApiError(`Invalid ServiceNow instance URL: ${instanceUrl}`, 400);
+    }
+    this.instanceUrl = normalised;
+  }
+
+  private async getAccessToken(clientId: string, clientSecret: string): Promise<string> {
+    const cacheKey = `${this.instanceUrl}|${clientId}`;
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const response = await axios.post<{ access_token: string; expires_in?: number }>(
+      `${this.instanceUrl}/oauth_token.do`,
+      new URLSearchParams({ grant_type: 'client_credentials', client_id: clientId, client_secret: clientSecret }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    const expiresIn = (response.data.expires_in ?? 1800) * 1000;
+    tokenCache.set(cacheKey, {
+      accessToken: response.data.access_token,
+      expiresAt: Date.now() + Math.max(expiresIn - TOKEN_EXPIRY_MARGIN_MS, 0)
+    });
+    return response.data.access_token;
+  }
+
+  private async request<T>(config: AxiosRequestConfig): Promise<T> {
+    try {
+      const auth: Pick<AxiosRequestConfig, 'auth' | 'headers'> = this.credentials.type === 'basic'
+        ? { auth: { username: this.credentials.username, password: this.credentials.password } }
+        : { headers: { Authorization: `Bearer ${await this.getAccessToken(this.credentials.clientId, this.credentials.clientSecret)}` } };
+
+      const response = await axios.request<T>({
+        ...config,
+        baseURL: this.instanceUrl,
+        timeout: REQUEST_TIMEOUT_MS,
+        ...auth,
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...auth.headers }
+      });
+      return response.data;
+    } catch (error) {
+      throw describeError(error, this.instanceUrl);
+    }
+  }
+
+  async findRecord(table: string, query: string): Promise<string | null> {
+    const data = await this.request<{ result: { sys_id: string }[] }>({
+      method: 'GET',
+      url: `/api/now/table/${table}`,
+      params: { sysparm_query: query, sysparm_fields: 'sys_id', sysparm_limit: 1 }
+    });
+    return data.result[0]?.sys_id ?? null;
+  }
+
+  async createRecord(table: string, fields: ServiceNowArtifactMetadata): Promise<string> {
+    const data = await this.request<{ result: { sys_id: string } }>({
+      method: 'POST',
+      url: `/api/now/table/${table}`,
+      data: fields
+    });
+    return data.result.sys_id;
+  }
+
+  async updateRecord(table: string, sysId: string, fields: ServiceNowArtifactMetadata): Promise<void> {
+    await this.request({
+      method: 'PATCH',
+      url: `/api/now/table/${table}/${sysId}`,
+      data: fields
+    });
+  }
+
+  /**
+   * Writes a validated Send Script request to its target table. A record matching the artifact type's
+   * matchOn fields (e.g. the same business rule name on the same table) is updated, otherwise one is created.
+   */
+  async pushArtifact(request: SendScriptRequest): Promise<SendScriptResult> {
+    const artifactType = getArtifactType(request.type);
+    if (!artifactType) {
+      throw new ServiceNowApiError(`Unknown artifact type: ${request.type}`, 400);
+    }
+
+    const conditions: [string, string | number | boolean][] = [];
+    for (const key of artifactType.matchOn) {
+      const field = artifactType.fields.find(candidate => candidate.key === key);
+      const value = request.metadata[key];
+      if (field && value !== undefined) {
+        conditions.push([field.matchColumn ?? field.column ?? key, value]);
+      }
+    }
+
+    const record = buildArtifactRecord(artifactType, request.payload, request.metadata);
+    const existingId = conditions.length > 0 ? await this.findRecord(request.target_table, encodedQuery(conditions)) : null;
+
+    let sysId: string;
+    if (existingId) {
+      await this.updateRecord(request.target_table, existingId, record);
+      sysId = existingId;
+    } else {
+      sysId = await this.createRecord(request.target_table, record);
+    }
+
+    return {
+      sys_id: sysId,
+      table: request.target_table,
+      action: existingId ? 'updated' : 'created',
+      url: buildRecordUrl(this.instanceUrl, request.target_table, sysId)
+    };
+  }
+}
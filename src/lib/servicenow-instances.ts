@@ -0,0 +1,171 @@
+/**
+ * ServiceNow Instances
+ * Named instance profiles (dev, test, prod) a user sends scripts to, and which one is active
+ */
+
+import type { ServiceNowInstanceEnvironment, ServiceNowInstanceProfile, UserSettings } from '@/types';
+
+export const INSTANCE_ENVIRONMENTS: { value: ServiceNowInstanceEnvironment; label: string }[] = [
+  { value: 'dev', label: 'Development' },
+  { value: 'test', label: 'Test' },
+  { value: 'prod', label: 'Production' }
+];
+
+// Id of the profile made up from servicenow_instance_url when the user has no profiles
+export const LEGACY_INSTANCE_ID = 'default';
+
+const MAX_PROFILES = 20;
+const MAX_NAME_LENGTH = 60;
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const SCOPE_PATTERN = /^[a-z][a-z0-9_]{1,17}$/;
+const CREDENTIALS_REF_PATTERN = /^[A-Z][A-Z0-9_]{0,39}$/;
+
+type InstanceSettings = Pick<UserSettings, 'servicenow_instance_url' | 'servicenow_instances' | 'active_servicenow_instance'>;
+
+// Lower-case id from a profile name, e.g. "ACME Prod" -> acme-prod
+export function slugifyInstanceName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 64) || 'instance';
+}
+
+// Plain http is only accepted for a ServiceNow running on this machine (local development and tests)
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether credentials may be sent to the URL: https, or http to the local machine
+ */
+export function isSecureInstanceUrl(url: URL): boolean {
+  return url.protocol === 'https:' || (url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname));
+}
+
+function isValidInstanceUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return isSecureInstanceUrl(parsed) && Boolean(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks a list of profiles as saved from Settings and returns it trimmed, without unknown keys
+ */
+export function validateInstanceProfiles(value: unknown): { profiles: ServiceNowInstanceProfile[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'servicenow_instances must be an array' };
+  }
+  if (value.length > MAX_PROFILES) {
+    return { error: `At most ${MAX_PROFILES} instance profiles are allowed` };
+  }
+
+  const profiles: ServiceNowInstanceProfile[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { error: 'Each instance profile must be an object' };
+    }
+    const entry = raw as Record<string, unknown>;
+    const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    const url = typeof entry.url === 'string' ? entry.url.trim().replace(/\/+$/, '') : '';
+    const scope = typeof entry.scope === 'string' ? entry.scope.trim() : '';
+    const credentialsRef = typeof entry.credentials_ref === 'string' ? entry.credentials_ref.trim() : '';
+
+    if (!ID_PATTERN.test(id)) {
+      return { error: `Invalid instance profile id: ${id || '(empty)'}` };
+    }
+    if (profiles.some(profile => profile.id === id)) {
+      return { error: `Duplicate instance profile id: ${id}` };
+    }
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return { error: `Instance profile name is required and must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    if (!isValidInstanceUrl(url)) {
+      return { error: `URL of instance profile ${name} must be an https URL` };
+    }
+    if (!INSTANCE_ENVIRONMENTS.some(environment => environment.value === entry.environment)) {
+      return { error: `Environment of instance profile ${name} must be dev, test or prod` };
+    }
+    if (scope && !SCOPE_PATTERN.test(scope)) {
+      return { error: `Scope of instance profile ${name} must be global or an application scope such as x_acme_app` };
+    }
+    if (credentialsRef && !CREDENTIALS_REF_PATTERN.test(credentialsRef)) {
+      return { error: `Credentials reference of instance profile ${name} must be upper case letters, digits and underscores` };
+    }
+    if (typeof entry.allow_push !== 'boolean') {
+      return { error: `allow_push of instance profile ${name} must be a boolean` };
+    }
+
+    profiles.push({
+      id,
+      name,
+      url,
+      environment: entry.environment as ServiceNowInstanceEnvironment,
+      ...(scope && { scope }),
+      ...(credentialsRef && { credentials_ref: credentialsRef }),
+      allow_push: entry.allow_push
+    });
+  }
+
+  return { profiles };
+}
+
+/**
+ * Environment of the default profile, from NEXT_PUBLIC_SERVICENOW_DEFAULT_ENVIRONMENT (public so the browser
+ * and the server agree on it). Unset or unknown values count as production, so pushes need a confirmation.
+ */
+function getLegacyEnvironment(): ServiceNowInstanceEnvironment {
+  const configured = process.env.NEXT_PUBLIC_SERVICENOW_DEFAULT_ENVIRONMENT?.trim().toLowerCase();
+  return INSTANCE_ENVIRONMENTS.find(environment => environment.value === configured)?.value ?? 'prod';
+}
+
+/**
+ * The user's profiles, or a single default profile for the instance URL of earlier versions
+ */
+export function getInstanceProfiles(settings: InstanceSettings): ServiceNowInstanceProfile[] {
+  if (Array.isArray(settings.servicenow_instances) && settings.servicenow_instances.length > 0) {
+    return settings.servicenow_instances;
+  }
+
+  const legacyUrl = typeof settings.servicenow_instance_url === 'string' ? settings.servicenow_instance_url.trim() : '';
+  if (!legacyUrl) {
+    return [];
+  }
+  return [{ id: LEGACY_INSTANCE_ID, name: 'Default instance', url: legacyUrl, environment: getLegacyEnvironment(), allow_push: true }];
+}
+
+/**
+ * The profile with the given id, or without one the active profile, falling back to the first.
+ * Null when the id is unknown or the user has no instance at all.
+ */
+export function resolveInstanceProfile(settings: InstanceSettings, instanceId?: string): ServiceNowInstanceProfile | null {
+  const profiles = getInstanceProfiles(settings);
+  if (instanceId) {
+    return profiles.find(profile => profile.id === instanceId) ?? null;
+  }
+  return profiles.find(profile => profile.id === settings.active_servicenow_instance) ?? profiles[0] ?? null;
+}
+
+// Application scope scripts for the profile run in; profiles without one target the global scope
+export function getInstanceScope(profile: ServiceNowInstanceProfile): string {
+  return profile.scope || 'global';
+}
+
+export function isProductionInstance(profile: ServiceNowInstanceProfile | null | undefined): boolean {
+  return profile?.environment === 'prod';
+}
+
+/**
+ * Why a push to the profile is refused: 403 when pushing is turned off for it, 428 for a production
+ * instance the user has not confirmed. Null when the push may go ahead.
+ */
+export function getPushRestriction(
+  profile: ServiceNowInstanceProfile,
+  confirmProduction: boolean
+): { status: number; error: string } | null {
+  if (!profile.allow_push) {
+    return { status: 403, error: `Pushing scripts to ${profile.name} is turned off in its instance profile` };
+  }
+  if (isProductionInstance(profile) && !confirmProduction) {
+    return { status: 428, error: `${profile.name} is a production instance; confirm the push to continue` };
+  }
+  return null;
+}
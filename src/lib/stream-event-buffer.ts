@@ -0,0 +1,170 @@
+import { SessionKeyInUseError } from './stream-registry';
+
+export interface BufferedStreamEvent {
+  id: number;
+  data: string; // Serialized SSE payload
+}
+
+type EventListener = (event: BufferedStreamEvent) => void;
+type EndListener = () => void;
+
+interface Subscriber {
+  onEvent: EventListener;
+  onEnd: EndListener;
+}
+
+// How long a finished stream stays available for replay
+const FINISHED_RETENTION_MS = 5 * 60 * 1000;
+// How long an unfinished stream keeps running with nobody attached before it is abandoned
+const RESUME_GRACE_MS = 60 * 1000;
+
+/**
+ * Events emitted for one streaming session. Every event gets an increasing sequence id
+ * so a reconnecting client can ask for everything after the last id it saw.
+ */
+export class BufferedStream {
+  private events: BufferedStreamEvent[] = [];
+  private subscribers = new Set<Subscriber>();
+  private nextId = 1;
+  private finished = false;
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    public readonly sessionKey: string,
+    public readonly userId: string,
+    private readonly onAbandoned: () => void
+  ) {}
+
+  public append(data: string): BufferedStreamEvent | null {
+    if (this.finished) return null;
+
+    const event = { id: this.nextId++, data };
+    this.events.push(event);
+    for (const subscriber of this.subscribers) {
+      subscriber.onEvent(event);
+    }
+    return event;
+  }
+
+  public finish(): void {
+    if (this.finished) return;
+
+    this.finished = true;
+    this.clearGraceTimer();
+    for (const subscriber of this.subscribers) {
+      subscriber.onEnd();
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * Replay every event after lastEventId, then deliver live events until the stream finishes.
+   * Returns an unsubscribe function.
+   */
+  public subscribe(lastEventId: number, onEvent: EventListener, onEnd: EndListener): () => void {
+    this.clearGraceTimer();
+
+    for (const event of this.events) {
+      if (event.id > lastEventId) {
+        onEvent(event);
+      }
+    }
+
+    if (this.finished) {
+      onEnd();
+      return () => {};
+    }
+
+    const subscriber: Subscriber = { onEvent, onEnd };
+    this.subscribers.add(subscriber);
+
+    return () => {
+      if (!this.subscribers.delete(subscriber)) return;
+      // Give the client a chance to resume before the upstream request is torn down
+      if (this.subscribers.size === 0 && !this.finished) {
+        this.graceTimer = setTimeout(() => {
+          this.graceTimer = null;
+          if (this.subscribers.size === 0 && !this.finished) {
+            this.onAbandoned();
+          }
+        }, RESUME_GRACE_MS);
+      }
+    };
+  }
+
+  public isFinished(): boolean {
+    return this.finished;
+  }
+
+  public getLastEventId(): number {
+    return this.nextId - 1;
+  }
+
+  private clearGraceTimer(): void {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+}
+
+/**
+ * Server-side store of recent streaming sessions, used by the resume endpoint to replay
+ * events a client missed while its connection was down.
+ */
+export class StreamEventBuffer {
+  private streams = new Map<string, BufferedStream>();
+
+  private constructor() {}
+
+  public static getInstance(): StreamEventBuffer {
+    // Kept on globalThis so every route bundle (and dev hot reloads) share one buffer
+    const globalBuffer = globalThis as typeof globalThis & { __streamEventBuffer?: StreamEventBuffer };
+    if (!globalBuffer.__streamEventBuffer) {
+      globalBuffer.__streamEventBuffer = new StreamEventBuffer();
+    }
+    return globalBuffer.__streamEventBuffer;
+  }
+
+  /**
+   * Start buffering a new stream. The user's previous stream under the same session key is
+   * finished so its listeners are released; throws SessionKeyInUseError when the key belongs
+   * to another user's stream, running or still kept for replay.
+   */
+  public open(sessionKey: string, userId: string, onAbandoned: () => void): BufferedStream {
+    const existing = this.streams.get(sessionKey);
+    if (existing && existing.userId !== userId) {
+      throw new SessionKeyInUseError(sessionKey);
+    }
+    existing?.finish();
+
+    const stream = new BufferedStream(sessionKey, userId, onAbandoned);
+    this.streams.set(sessionKey, stream);
+    return stream;
+  }
+
+  /**
+   * Finish a stream and drop it once the retention window has passed.
+   */
+  public close(stream: BufferedStream): void {
+    stream.finish();
+
+    const timer = setTimeout(() => {
+      if (this.streams.get(stream.sessionKey) === stream) {
+        this.streams.delete(stream.sessionKey);
+      }
+    }, FINISHED_RETENTION_MS);
+    // Don't keep the process alive just to expire a buffer
+    if (typeof timer === 'object' && typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+
+  /**
+   * Look up a stream for replay. Streams are only visible to the user who started them.
+   */
+  public get(sessionKey: string, userId: string): BufferedStream | null {
+    const stream = this.streams.get(sessionKey);
+    return stream && stream.userId === userId ? stream : null;
+  }
+}
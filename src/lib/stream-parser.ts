@@ -1,7 +1,8 @@
 export interface N8nChunk {
-  type: 'begin' | 'chunk' | 'item' | 'end' | 'complete' | 'error';
+  type: 'begin' | 'chunk' | 'item' | 'end' | 'complete' | 'error' | 'agent_start' | 'tool_call' | 'tool_result' | 'agent_end' | 'usage';
   content?: string | object | null;
   timestamp?: string;
+  metadata?: { nodeName?: string; nodeId?: string }; // n8n names the node that streams begin/item/end
 }
 
 // Detect stream format and return appropriate parser
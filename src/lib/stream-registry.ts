@@ -0,0 +1,92 @@
+// Thrown when a request reuses a session key that belongs to another user's stream
+export class SessionKeyInUseError extends Error {
+  constructor(public sessionKey: string) {
+    super('This session key is in use by another stream. Start a new session and try again.');
+    this.name = 'SessionKeyInUseError';
+  }
+}
+
+interface ActiveStream {
+  sessionKey: string;
+  userId: string;
+  abortController: AbortController;
+  startedAt: number;
+}
+
+/**
+ * Server-side registry of in-flight n8n streams, keyed by session key.
+ * Lets /api/cancel-request abort the upstream request that /api/submit-question-stream opened.
+ */
+export class StreamRegistry {
+  private streams = new Map<string, ActiveStream>();
+
+  private constructor() {}
+
+  public static getInstance(): StreamRegistry {
+    // Kept on globalThis so every route bundle (and dev hot reloads) share one registry
+    const globalRegistry = globalThis as typeof globalThis & { __streamRegistry?: StreamRegistry };
+    if (!globalRegistry.__streamRegistry) {
+      globalRegistry.__streamRegistry = new StreamRegistry();
+    }
+    return globalRegistry.__streamRegistry;
+  }
+
+  /**
+   * Register a new stream and return the AbortController that tears it down.
+   * The user's own stream already registered under the same session key is aborted first;
+   * throws SessionKeyInUseError when the key belongs to another user's stream.
+   */
+  public register(sessionKey: string, userId: string): AbortController {
+    const existing = this.streams.get(sessionKey);
+    if (existing && existing.userId !== userId) {
+      throw new SessionKeyInUseError(sessionKey);
+    }
+    if (existing) {
+      existing.abortController.abort();
+    }
+
+    const abortController = new AbortController();
+    this.streams.set(sessionKey, {
+      sessionKey,
+      userId,
+      abortController,
+      startedAt: Date.now()
+    });
+    return abortController;
+  }
+
+  /**
+   * Abort the stream for a session. Only the user who started the stream may cancel it.
+   * Returns false when no matching stream is in flight.
+   */
+  public cancel(sessionKey: string, userId: string): boolean {
+    const stream = this.streams.get(sessionKey);
+    if (!stream || stream.userId !== userId) {
+      return false;
+    }
+
+    stream.abortController.abort();
+    this.streams.delete(sessionKey);
+    console.log(`Cancelled upstream stream for session: ${sessionKey}`);
+    return true;
+  }
+
+  /**
+   * Remove a finished stream. The controller is compared so a stream that was
+   * replaced by a newer one under the same key does not unregister its successor.
+   */
+  public unregister(sessionKey: string, abortController: AbortController): void {
+    const stream = this.streams.get(sessionKey);
+    if (stream && stream.abortController === abortController) {
+      this.streams.delete(sessionKey);
+    }
+  }
+
+  public isActive(sessionKey: string): boolean {
+    return this.streams.has(sessionKey);
+  }
+
+  public getActiveCount(): number {
+    return this.streams.size;
+  }
+}
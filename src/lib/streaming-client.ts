@@ -6,8 +6,20 @@ export interface StreamingCallbacks {
   onComplete: (totalContent: string) => void;
   onError: (error: string) => void;
   onStatusChange: (status: StreamingStatus) => void;
+  onAgentEvent?: (chunk: StreamingChunk) => void; // Structured agent/tool activity, not part of the answer text
+  onQueued?: (retryAfterSeconds: number) => void; // Rate limited by the server - the request is retried automatically
+  onNotice?: (message: string) => void; // Informational server message, e.g. a fallback provider answered
 }
 
+// Resume limits for streams interrupted by a network drop
+const MAX_RESUME_ATTEMPTS = 5;
+const RESUME_RETRY_DELAY = 2000;
+const OFFLINE_WAIT_TIMEOUT = 60000;
+
+// Retry limits for requests rejected by the provider rate limiter (HTTP 429)
+const MAX_RATE_LIMIT_RETRIES = 3;
+const DEFAULT_RETRY_AFTER_SECONDS = 10;
+
 export class StreamingClient {
   private eventSource: EventSource | null = null;
   private abortController: AbortController | null = null;
@@ -16,6 +28,9 @@ export class StreamingClient {
   private status: StreamingStatus = StreamingStatus.CONNECTING;
   private callbacks: StreamingCallbacks;
   private completionReceived: boolean = false;
+  private sessionKey: string | null = null;
+  private lastEventId: number = 0; // Sequence id of the last SSE event received (SSE `id:` field)
+  private resumeAttempts: number = 0;
 
   constructor(callbacks: StreamingCallbacks) {
     this.callbacks = callbacks;
@@ -28,16 +43,14 @@ export class StreamingClient {
 
       // Create abort controller for cancellation
       this.abortController = new AbortController();
+      this.sessionKey = request.sessionkey;
 
       // Make POST request to start streaming
-      const response = await fetch('/api/submit-question-stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-        signal: this.abortController.signal,
-      });
+      const response = await this.submitRequest(request);
+      if (!response) {
+        // Cancelled while waiting for a rate limit slot
+        return;
+      }
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -58,6 +71,11 @@ export class StreamingClient {
         this.updateStatus(StreamingStatus.CANCELLED);
         return;
       }
+
+      // Connection dropped mid-answer - pick up where we left off instead of losing the partial answer
+      if (this.canResume() && await this.resumeStream()) {
+        return;
+      }
       
       console.error('Streaming error:', error);
       const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
@@ -66,7 +84,64 @@ export class StreamingClient {
     }
   }
 
+  /**
+   * POST the question. When the server answers 429 the request waits for the Retry-After
+   * period in the QUEUED state and is sent again. Returns null if cancelled while queued.
+   */
+  private async submitRequest(request: StreamingRequest): Promise<Response | null> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch('/api/submit-question-stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: this.abortController?.signal,
+      });
+
+      if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        return response;
+      }
+
+      const retryAfterSeconds = parseInt(response.headers.get('retry-after') || '', 10) || DEFAULT_RETRY_AFTER_SECONDS;
+      console.log(`Rate limited - retrying in ${retryAfterSeconds}s (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+      this.updateStatus(StreamingStatus.QUEUED);
+      this.callbacks.onQueued?.(retryAfterSeconds);
+
+      if (!await this.waitUnlessCancelled(retryAfterSeconds * 1000)) {
+        return null;
+      }
+      this.updateStatus(StreamingStatus.CONNECTING);
+    }
+  }
+
+  // Resolves false as soon as the request is cancelled
+  private waitUnlessCancelled(ms: number): Promise<boolean> {
+    const signal = this.abortController?.signal;
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise(resolve => {
+      const handleAbort = () => {
+        clearTimeout(timeout);
+        resolve(false);
+      };
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve(true);
+      }, ms);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+  }
+
   private async handleStreamingResponse(response: Response): Promise<void> {
+    await this.readEventStream(response);
+    // Stream ended - check if we received proper completion
+    await this.handleStreamEnd();
+  }
+
+  private async readEventStream(response: Response): Promise<void> {
     const reader = response.body?.getReader();
     if (!reader) {
       throw new Error('No response body reader available');
@@ -79,8 +154,6 @@ export class StreamingClient {
         const { done, value } = await reader.read();
         
         if (done) {
-          // Stream ended - check if we received proper completion
-          await this.handleStreamEnd();
           break;
         }
 
@@ -97,6 +170,11 @@ export class StreamingClient {
     if (!this.completionReceived) {
       // Stream ended without proper completion signal
       console.warn('Stream ended without completion signal');
+
+      // The server may still be generating - try to resume before giving up
+      if (this.canResume() && await this.resumeStream()) {
+        return;
+      }
       
       if (this.totalContent.trim().length > 0) {
         // We have content, so complete the stream gracefully
@@ -116,7 +194,13 @@ export class StreamingClient {
     const lines = rawChunk.split('\n');
     
     for (const line of lines) {
-      if (line.startsWith('data: ')) {
+      if (line.startsWith('id: ')) {
+        const eventId = parseInt(line.slice(4).trim());
+        if (!isNaN(eventId)) {
+          this.lastEventId = eventId;
+          this.resumeAttempts = 0;
+        }
+      } else if (line.startsWith('data: ')) {
         const data = line.slice(6).trim();
         
         if (data) {
@@ -163,9 +247,105 @@ export class StreamingClient {
         this.updateStatus(StreamingStatus.ERROR);
         this.callbacks.onError(chunk.content);
         break;
+
+      case 'notice':
+        this.callbacks.onNotice?.(chunk.content);
+        break;
+
+      case 'agent_start':
+      case 'tool_call':
+      case 'tool_result':
+      case 'agent_end':
+      case 'usage':
+        if (this.status !== StreamingStatus.STREAMING) {
+          this.updateStatus(StreamingStatus.STREAMING);
+        }
+        this.callbacks.onAgentEvent?.(chunk);
+        break;
     }
   }
 
+  private canResume(): boolean {
+    // Only streams the server has started emitting (and therefore buffering) can be resumed
+    return !!this.sessionKey && this.lastEventId > 0 && !this.completionReceived &&
+      this.status !== StreamingStatus.CANCELLED;
+  }
+
+  /**
+   * Reconnect to /api/submit-question-stream/resume, which replays the events after
+   * lastEventId and continues live. Returns true once the stream has been completed or cancelled.
+   */
+  private async resumeStream(): Promise<boolean> {
+    while (this.resumeAttempts < MAX_RESUME_ATTEMPTS) {
+      this.resumeAttempts++;
+      this.updateStatus(StreamingStatus.RECONNECTING);
+      console.log(`Resuming stream ${this.sessionKey} after event ${this.lastEventId} (attempt ${this.resumeAttempts}/${MAX_RESUME_ATTEMPTS})`);
+
+      await this.waitForConnectivity();
+      if (this.abortController?.signal.aborted) {
+        return true;
+      }
+
+      try {
+        const params = new URLSearchParams({
+          sessionkey: this.sessionKey!,
+          lastEventId: String(this.lastEventId),
+        });
+        const response = await fetch(`/api/submit-question-stream/resume?${params.toString()}`, {
+          method: 'GET',
+          headers: {
+            'Accept': 'text/event-stream',
+            'Last-Event-ID': String(this.lastEventId),
+          },
+          signal: this.abortController?.signal,
+        });
+
+        if (response.status === 404) {
+          // Buffer expired or the server restarted - nothing left to resume
+          console.warn('Stream can no longer be resumed');
+          return false;
+        }
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        await this.readEventStream(response);
+
+        if (this.completionReceived) {
+          return true;
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          this.updateStatus(StreamingStatus.CANCELLED);
+          return true;
+        }
+        console.warn('Stream resume attempt failed:', error);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, RESUME_RETRY_DELAY));
+    }
+
+    return false;
+  }
+
+  private waitForConnectivity(): Promise<void> {
+    if (typeof window === 'undefined' || navigator.onLine) {
+      return Promise.resolve();
+    }
+
+    // Offline - wait for the browser to report the network is back (or give up after a while)
+    return new Promise(resolve => {
+      const handleOnline = () => {
+        clearTimeout(timeout);
+        window.removeEventListener('online', handleOnline);
+        resolve();
+      };
+      const timeout = setTimeout(handleOnline, OFFLINE_WAIT_TIMEOUT);
+      window.addEventListener('online', handleOnline);
+    });
+  }
+
   private updateStatus(status: StreamingStatus): void {
     this.status = status;
     this.callbacks.onStatusChange(status);
@@ -176,6 +356,8 @@ export class StreamingClient {
     this.totalContent = '';
     this.status = StreamingStatus.CONNECTING;
     this.completionReceived = false;
+    this.lastEventId = 0;
+    this.resumeAttempts = 0;
   }
 
   public cancel(): void {
@@ -205,7 +387,9 @@ export class StreamingClient {
 
   public isActive(): boolean {
     return this.status === StreamingStatus.CONNECTING || 
-           this.status === StreamingStatus.STREAMING;
+           this.status === StreamingStatus.STREAMING ||
+           this.status === StreamingStatus.RECONNECTING ||
+           this.status === StreamingStatus.QUEUED;
   }
 
   public dispose(): void {
@@ -1,13 +1,237 @@
 import { parseStream, N8nChunk } from '@/lib/stream-parser';
 import { N8NStreamingClient } from '@/lib/n8n-streaming-client';
-import { StreamingRequest } from '@/types';
+import { StreamRegistry } from '@/lib/stream-registry';
+import { BufferedStream, StreamEventBuffer } from '@/lib/stream-event-buffer';
+import { generateSessionId } from '@/lib/session-utils';
+import { isAgentEventType, toAgentEventData } from '@/lib/agent-activity';
+import { WORKFLOW_AGENT_NODES } from '@/lib/constants';
+import { UsageManager } from '@/lib/usage';
+import { PromptExperimentManager } from '@/lib/prompt-experiments';
+import { ProviderRateLimitError } from '@/lib/rate-limiter';
+import { AgentEventData, AgentPromptMap, StreamingRequest, UsageRecordInput } from '@/types';
+
+// Rough size of a token in English text, for usage the workflow does not report
+const ESTIMATED_CHARS_PER_TOKEN = 4;
+
+interface Admission {
+  resolve: () => void;
+  reject: (error: ProviderRateLimitError) => void;
+}
 
 export class StreamingResponseHandler {
-  public static createStreamingResponse(body: StreamingRequest, providerId?: number): ReadableStream {
-    return new ReadableStream({
-      async start(controller) {
-        let completionSent = false;
+  /**
+   * Start the upstream request and return the client's event stream once a provider has taken the
+   * request. Rejects with ProviderRateLimitError when every provider is at its rate limit, so the
+   * route can answer 429 instead of streaming.
+   */
+  public static async createStreamingResponse(body: StreamingRequest, userId: string, providerId?: number): Promise<ReadableStream> {
+    const registry = StreamRegistry.getInstance();
+    const sessionKey = body.sessionkey || generateSessionId();
+    // Registered so /api/cancel-request can abort the upstream n8n request for this session
+    const abortController = registry.register(sessionKey, userId);
+    // Buffered so a client that loses its connection can resume via /api/submit-question-stream/resume
+    let bufferedStream: BufferedStream;
+    try {
+      bufferedStream = StreamEventBuffer.getInstance().open(sessionKey, userId, () => abortController.abort());
+    } catch (error) {
+      registry.unregister(sessionKey, abortController);
+      throw error;
+    }
+
+    // The upstream request runs independently of the HTTP response so it survives client reconnects
+    await new Promise<void>((resolve, reject) => {
+      void StreamingResponseHandler.pumpUpstream(
+        { ...body, sessionkey: sessionKey }, userId, providerId, sessionKey, abortController, bufferedStream, { resolve, reject }
+      );
+    });
+
+    return StreamingResponseHandler.createEventStream(bufferedStream, 0);
+  }
+
+  /**
+   * Stream for a client reconnecting after a network drop. Replays events after lastEventId
+   * and continues live. Returns null when the session is unknown, expired or owned by someone else.
+   */
+  public static createResumeResponse(sessionKey: string, userId: string, lastEventId: number): ReadableStream | null {
+    const bufferedStream = StreamEventBuffer.getInstance().get(sessionKey, userId);
+    if (!bufferedStream) {
+      return null;
+    }
+
+    return StreamingResponseHandler.createEventStream(bufferedStream, lastEventId);
+  }
+
+  private static async pumpUpstream(
+    body: StreamingRequest,
+    userId: string,
+    providerId: number | undefined,
+    sessionKey: string,
+    abortController: AbortController,
+    bufferedStream: BufferedStream,
+    admission: Admission
+  ): Promise<void> {
+    let completionSent = false;
+    const usageEvents: AgentEventData[] = [];
+    let answerLength = 0;
+    let servedRequest = body;
+
+    const sendEvent = (type: string, content: string | object | null, data?: AgentEventData) => {
+        // Nobody is listening once the stream has been cancelled
+        if (abortController.signal.aborted) return;
+        bufferedStream.append(JSON.stringify({ type, content, timestamp: new Date().toISOString(), ...(data && { data }) }));
+    };
+
+    try {
+      sendEvent('connecting', '');
+
+      const agentPrompts = await StreamingResponseHandler.loadAgentPrompts(sessionKey, userId);
+      const connection = await N8NStreamingClient.createStreamingConnection(
+        body, userId, providerId, abortController.signal, agentPrompts, admission.resolve
+      );
+      servedRequest = connection.request;
+
+      if (connection.fallbackFrom) {
+        const servedBy = connection.provider?.display_name || 'the default provider';
+        sendEvent('notice', `${connection.fallbackFrom} is unavailable, so this answer comes from ${servedBy}.`);
+      }
+
+      for await (const n8nChunk of parseStream<N8nChunk>(connection.stream)) {
+        // Validate chunk structure
+        if (!n8nChunk || typeof n8nChunk !== 'object' || !n8nChunk.type) {
+          console.error('Invalid N8N chunk received:', n8nChunk);
+          continue;
+        }
+
+        // n8n wraps the output of each streaming node in begin/end chunks naming the node, which
+        // is all the activity the stock workflow reports
+        const streamingAgent = n8nChunk.metadata?.nodeName
+          ? WORKFLOW_AGENT_NODES[n8nChunk.metadata.nodeName] || n8nChunk.metadata.nodeName
+          : undefined;
+
+        if (n8nChunk.type === 'begin') {
+          console.log("N8N stream began.");
+          sendEvent('begin', '');
+          if (streamingAgent) {
+            sendEvent('agent_start', '', { agent: streamingAgent });
+          }
+        } else if (n8nChunk.type === 'end' || n8nChunk.type === 'complete') {
+          console.log('N8N stream completed');
+          if (n8nChunk.type === 'end' && streamingAgent) {
+            sendEvent('agent_end', '', { agent: streamingAgent });
+          }
+          if (!completionSent) {
+            sendEvent('complete', '');
+            completionSent = true;
+          }
+        } else if ((n8nChunk.type === 'chunk' || n8nChunk.type === 'item') && n8nChunk.content !== undefined) {
+          const content = typeof n8nChunk.content === 'object' ? JSON.stringify(n8nChunk.content) : String(n8nChunk.content);
+          answerLength += content.length;
+          sendEvent('chunk', content);
+        } else if (n8nChunk.type === 'error') {
+          console.log('N8N error:', n8nChunk.content);
+          sendEvent('error', n8nChunk.content || 'Unknown error occurred');
+        } else if (isAgentEventType(n8nChunk.type)) {
+          // Structured agent activity - passed through as typed events instead of answer text
+          const data = toAgentEventData(n8nChunk.content);
+          if (n8nChunk.type === 'usage') {
+            usageEvents.push(data);
+          }
+          sendEvent(n8nChunk.type, '', data);
+        }
+      }
+
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log(`Streaming cancelled for session: ${sessionKey}`);
+        return;
+      }
+      if (error instanceof ProviderRateLimitError) {
+        admission.reject(error);
+        return;
+      }
+      console.error('Streaming error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      sendEvent('error', errorMessage);
+    } finally {
+        // Settles the admission when no provider was attempted; later calls are no-ops
+        admission.resolve();
+        StreamRegistry.getInstance().unregister(sessionKey, abortController);
+        if (!completionSent) {
+            sendEvent('complete', '');
+            completionSent = true;
+        }
+        StreamEventBuffer.getInstance().close(bufferedStream);
+        // Recorded after the client has its answer; usage accounting must never fail the request
+        void StreamingResponseHandler.recordUsage(servedRequest, userId, sessionKey, usageEvents, answerLength);
+    }
+  }
+
+  /**
+   * Active agent prompts for this request, with prompt experiment variants applied. A missing
+   * prompt table or a database error leaves the workflow on its built-in prompts.
+   */
+  private static async loadAgentPrompts(sessionKey: string, userId: string): Promise<AgentPromptMap | undefined> {
+    try {
+      return await new PromptExperimentManager().getPromptsForRequest(sessionKey, userId);
+    } catch (error) {
+      console.warn(`Failed to load agent prompts for session ${sessionKey}, using workflow defaults:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Usage the workflow reported, or when it reported none (the shipped workflow has no way to),
+   * an estimate for the orchestration agent from the question and the streamed answer
+   */
+  private static async recordUsage(
+    body: StreamingRequest,
+    userId: string,
+    sessionKey: string,
+    usageEvents: AgentEventData[],
+    answerLength: number
+  ): Promise<void> {
+    const events = usageEvents.length > 0 || answerLength === 0
+      ? usageEvents
+      : [StreamingResponseHandler.estimateUsage(body, answerLength)];
+    if (events.length === 0) return;
+
+    const records: UsageRecordInput[] = events.map(event => {
+      const promptTokens = event.promptTokens || 0;
+      const completionTokens = event.completionTokens || 0;
+      // Fall back to the model the request configured for the agent when n8n doesn't name one
+      const modelName = event.model
+        || body.agentModels?.find(agentModel => agentModel.agent === event.agent)?.model
+        || body.aiModel;
+      return {
+        user_id: userId,
+        session_key: sessionKey,
+        request_type: body.type,
+        agent_name: event.agent,
+        model_name: modelName,
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: event.totalTokens ?? promptTokens + completionTokens,
+      };
+    });
 
+    try {
+      await new UsageManager().recordUsage(records);
+    } catch (error) {
+      console.error(`Failed to record token usage for session ${sessionKey}:`, error);
+    }
+  }
+
+  private static estimateUsage(body: StreamingRequest, answerLength: number): AgentEventData {
+    const promptTokens = Math.ceil(body.question.length / ESTIMATED_CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(answerLength / ESTIMATED_CHARS_PER_TOKEN);
+    return { agent: 'orchestration', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private static createEventStream(bufferedStream: BufferedStream, lastEventId: number): ReadableStream {
+    let unsubscribe: (() => void) | null = null;
+
+    return new ReadableStream({
+      start(controller) {
         const closeController = () => {
             if (controller.desiredSize === null) return;
             try {
@@ -17,52 +241,22 @@ export class StreamingResponseHandler {
             }
         };
 
-        const sendEvent = (type: string, content: string | object | null) => {
-            controller.enqueue(`data: ${JSON.stringify({ type, content, timestamp: new Date().toISOString() })}\n\n`);
-        };
-
-        try {
-          sendEvent('connecting', '');
-
-          const streamData = await N8NStreamingClient.createStreamingConnection(body, providerId);
-
-          for await (const n8nChunk of parseStream<N8nChunk>(streamData)) {
-            // Validate chunk structure
-            if (!n8nChunk || typeof n8nChunk !== 'object' || !n8nChunk.type) {
-              console.error('Invalid N8N chunk received:', n8nChunk);
-              continue;
-            }
-
-            if (n8nChunk.type === 'begin') {
-              console.log("N8N stream began.");
-              sendEvent('begin', '');
-            } else if (n8nChunk.type === 'end' || n8nChunk.type === 'complete') {
-              console.log('N8N stream completed');
-              if (!completionSent) {
-                sendEvent('complete', '');
-                completionSent = true;
-              }
-            } else if ((n8nChunk.type === 'chunk' || n8nChunk.type === 'item') && n8nChunk.content !== undefined) {
-              const content = typeof n8nChunk.content === 'object' ? JSON.stringify(n8nChunk.content) : String(n8nChunk.content);
-              sendEvent('chunk', content);
-            } else if (n8nChunk.type === 'error') {
-              console.log('N8N error:', n8nChunk.content);
-              sendEvent('error', n8nChunk.content || 'Unknown error occurred');
-            }
-          }
-
-        } catch (error) {
-          console.error('Streaming error:', error);
-          const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-          sendEvent('error', errorMessage);
-        } finally {
-            if (!completionSent) {
-                sendEvent('complete', '');
-                completionSent = true;
+        unsubscribe = bufferedStream.subscribe(
+          lastEventId,
+          (event) => {
+            try {
+              controller.enqueue(`id: ${event.id}\ndata: ${event.data}\n\n`);
+            } catch {
+              // Client already disconnected - the event stays buffered for a resume
             }
-            // Use a small delay to ensure the client receives the last message
-            setTimeout(closeController, 50);
-        }
+          },
+          // Use a small delay to ensure the client receives the last message
+          () => setTimeout(closeController, 50)
+        );
+      },
+      cancel() {
+        // The browser went away - the upstream request keeps running for a grace period so the client can resume
+        unsubscribe?.();
       },
     });
   }
@@ -77,4 +271,4 @@ export class StreamingResponseHandler {
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     };
   }
-}
\ No newline at end of file
+}
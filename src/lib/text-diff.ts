@@ -0,0 +1,58 @@
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLineNumber?: number; // Set for removed and unchanged lines
+  newLineNumber?: number; // Set for added and unchanged lines
+}
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Line-based diff using the longest common subsequence. Prompts are at most a few hundred
+ * lines, so the quadratic table is cheap enough and keeps us free of a diff dependency.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i], oldLineNumber: i + 1, newLineNumber: j + 1 });
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // Removals first, so a changed line reads as old then new
+      result.push({ type: 'removed', text: oldLines[i], oldLineNumber: i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j], newLineNumber: j + 1 });
+      j++;
+    }
+  }
+
+  return result;
+}
+
+export function countChanges(diff: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: diff.filter(line => line.type === 'added').length,
+    removed: diff.filter(line => line.type === 'removed').length,
+  };
+}
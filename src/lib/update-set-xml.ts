@@ -0,0 +1,233 @@
+/**
+ * Update Set XML
+ * Builds a ServiceNow update set (sys_remote_update_set unload) from the script blocks of an answer,
+ * ready to import through System Update Sets > Retrieved Update Sets > Import Update Set from XML
+ */
+
+import { extractCodeBlockContext } from './markdown-utils';
+import { parseScriptMetadata, prefillArtifactMetadata } from './script-metadata';
+import { buildArtifactRecord, getArtifactType, validateArtifactMetadata } from './servicenow-artifacts';
+import type {
+  ServiceNowArtifactMetadata,
+  ServiceNowArtifactType,
+  UpdateSetArtifact,
+  UpdateSetExportOptions
+} from '@/types';
+
+// Code fences whose content is exported; other languages are left out of the update set
+const SCRIPT_LANGUAGES = ['javascript', 'js'];
+const FALLBACK_ARTIFACT_TYPE = 'fix_script';
+const MAX_NAME_LENGTH = 100;
+const SCOPE_PATTERN = /^[a-z][a-z0-9_]{1,17}$/;
+const CREATED_BY = 'servicenow-helper';
+
+const CODE_FENCE_PATTERN = /^```([^\n`]*)\n([\s\S]*?)^```[ \t]*$/gm;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function element(name: string, value?: string | number | boolean, attributes: Record<string, string> = {}): string {
+  const attributeText = Object.entries(attributes)
+    .map(([key, attribute]) => ` ${key}="${escapeXml(attribute)}"`)
+    .join('');
+  if (value === undefined || value === '') {
+    return `<${name}${attributeText}/>`;
+  }
+  return `<${name}${attributeText}>${escapeXml(String(value))}</${name}>`;
+}
+
+function generateSysId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// ServiceNow's glide_date_time format, in UTC
+function formatGlideDateTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+export function validateUpdateSetOptions(options: UpdateSetExportOptions | undefined): string | null {
+  if (!options || !options.name.trim()) {
+    return 'Update set name is required';
+  }
+  if (options.name.trim().length > MAX_NAME_LENGTH) {
+    return `Update set name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!SCOPE_PATTERN.test(options.scope.trim())) {
+    return 'Scope must be global or an application scope such as x_acme_app';
+  }
+  return null;
+}
+
+// Scoped applications are referenced by sys_id, which the export cannot know; ServiceNow resolves
+// them from application_scope on import, so only global gets a value
+function scopeReference(scope: string): [string, Record<string, string>] {
+  return [scope === 'global' ? 'global' : '', { display_value: scope }];
+}
+
+function targetName(artifactType: ServiceNowArtifactType, metadata: ServiceNowArtifactMetadata): string {
+  return String(metadata.name ?? metadata.table ?? artifactType.label);
+}
+
+function fallbackName(updateSetName: string, index: number): string {
+  return `${updateSetName} - Script ${index}`.slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * Maps every JavaScript block of an answer to a record, reading its type and fields from the script
+ * and the markdown around it like Send Script does. Blocks whose type is unknown, or whose fields
+ * are incomplete (e.g. a Business Rule without a table), become Fix Scripts so nothing is dropped.
+ */
+export function extractUpdateSetArtifacts(answer: string, updateSetName: string): UpdateSetArtifact[] {
+  const artifacts: UpdateSetArtifact[] = [];
+
+  for (const match of answer.matchAll(CODE_FENCE_PATTERN)) {
+    const language = match[1].trim().split(/\s+/)[0].toLowerCase();
+    const script = match[2].replace(/\n$/, '');
+    if (!SCRIPT_LANGUAGES.includes(language) || !script.trim()) continue;
+
+    const start = match.index ?? 0;
+    const parsed = parseScriptMetadata(script, extractCodeBlockContext(answer, start, start + match[0].length));
+    const name = fallbackName(updateSetName, artifacts.length + 1);
+
+    const artifactType = parsed.type ? getArtifactType(parsed.type) : undefined;
+    if (artifactType) {
+      const { metadata } = prefillArtifactMetadata(artifactType, parsed);
+      const validated = validateArtifactMetadata(artifactType, { name, ...metadata });
+      if (!('error' in validated)) {
+        artifacts.push({ type: artifactType.id, script, metadata: validated.metadata, recognized: true });
+        continue;
+      }
+    }
+
+    const fixScript = getArtifactType(FALLBACK_ARTIFACT_TYPE) as ServiceNowArtifactType;
+    const validated = validateArtifactMetadata(fixScript, {
+      ...prefillArtifactMetadata(fixScript, parsed).metadata,
+      name: parsed.values.name?.slice(0, MAX_NAME_LENGTH) || name
+    });
+    const metadata: ServiceNowArtifactMetadata = 'error' in validated ? { name } : validated.metadata;
+    artifacts.push({ type: fixScript.id, script, metadata, recognized: false });
+  }
+
+  return artifacts;
+}
+
+function buildRecordPayload(
+  artifactType: ServiceNowArtifactType,
+  artifact: UpdateSetArtifact,
+  sysId: string,
+  scope: string,
+  timestamp: string
+): string {
+  const table = artifactType.targetTable;
+  const record = buildArtifactRecord(artifactType, artifact.script, artifact.metadata);
+  const fields = Object.entries(record)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([column, value]) => element(column, value));
+
+  fields.push(
+    element('sys_class_name', table),
+    element('sys_created_by', CREATED_BY),
+    element('sys_created_on', timestamp),
+    element('sys_id', sysId),
+    element('sys_mod_count', 0),
+    element('sys_name', targetName(artifactType, artifact.metadata)),
+    element('sys_package', ...scopeReference(scope)),
+    element('sys_scope', ...scopeReference(scope)),
+    element('sys_update_name', `${table}_${sysId}`),
+    element('sys_updated_by', CREATED_BY),
+    element('sys_updated_on', timestamp)
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?><record_update table="${table}">`
+    + `<${table} action="INSERT_OR_UPDATE">${fields.join('')}</${table}></record_update>`;
+}
+
+/**
+ * The unload XML of a retrieved update set holding one sys_update_xml entry per artifact. Every
+ * record gets a new sys_id, so importing the same export twice creates the records twice.
+ */
+export function buildUpdateSetXml(
+  artifacts: UpdateSetArtifact[],
+  options: UpdateSetExportOptions,
+  now: Date = new Date()
+): string {
+  const error = validateUpdateSetOptions(options);
+  if (error) {
+    throw new Error(error);
+  }
+  if (artifacts.length === 0) {
+    throw new Error('The answer has no JavaScript code blocks to export');
+  }
+
+  const name = options.name.trim();
+  const scope = options.scope.trim();
+  const timestamp = formatGlideDateTime(now);
+  const updateSetId = generateSysId();
+  const audit = [
+    element('sys_created_by', CREATED_BY),
+    element('sys_created_on', timestamp),
+    element('sys_mod_count', 0),
+    element('sys_updated_by', CREATED_BY),
+    element('sys_updated_on', timestamp)
+  ];
+
+  const updateSet = [
+    element('application', ...scopeReference(scope)),
+    element('application_name', scope),
+    element('application_scope', scope),
+    element('description', options.description?.trim()),
+    element('name', name),
+    element('origin_sys_id'),
+    element('release_date'),
+    element('remote_sys_id', generateSysId()),
+    element('state', 'loaded'),
+    element('sys_class_name', 'sys_remote_update_set'),
+    element('sys_id', updateSetId),
+    ...audit
+  ];
+
+  const updates = artifacts.map(artifact => {
+    const artifactType = getArtifactType(artifact.type);
+    if (!artifactType) {
+      throw new Error(`Unknown artifact type: ${artifact.type}`);
+    }
+
+    const sysId = generateSysId();
+    const guid = generateSysId();
+    const payload = buildRecordPayload(artifactType, artifact, sysId, scope, timestamp);
+    const fields = [
+      element('action', 'INSERT_OR_UPDATE'),
+      element('application', ...scopeReference(scope)),
+      element('category', 'customer'),
+      element('comments'),
+      element('name', `${artifactType.targetTable}_${sysId}`),
+      // The payload is escaped XML, so it cannot contain the CDATA terminator
+      `<payload><![CDATA[${payload}]]></payload>`,
+      element('remote_update_set', updateSetId, { display_value: name }),
+      element('replace_on_upgrade', false),
+      element('sys_id', generateSysId()),
+      element('table', typeof artifact.metadata.table === 'string' ? artifact.metadata.table : ''),
+      element('target_name', targetName(artifactType, artifact.metadata)),
+      element('type', artifactType.label),
+      element('update_domain', 'global'),
+      element('update_guid', guid),
+      element('update_guid_history', `${guid}:0`),
+      ...audit
+    ];
+    return `<sys_update_xml action="INSERT_OR_UPDATE">${fields.join('')}</sys_update_xml>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?><unload unload_date="${timestamp}">`,
+    `<sys_remote_update_set action="INSERT_OR_UPDATE">${updateSet.join('')}</sys_remote_update_set>`,
+    ...updates,
+    '</unload>'
+  ].join('\n');
+}
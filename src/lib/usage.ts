@@ -0,0 +1,138 @@
+import type { UsageBreakdownItem, UsageRecordInput, UsageReport, UsageTotals } from '@/types/index';
+
+import { ModelPriceManager, calculateTokenCost } from './ai-models';
+import { DatabaseConnection } from './database';
+
+export interface UsageReportOptions {
+  userId: string | null; // null reports on every user
+  startDate: Date;
+  endDate: Date;
+}
+
+type UsageDimension = 'day' | 'model' | 'agent' | 'request_type';
+
+// Grouping expressions are fixed strings, never user input
+const DIMENSION_EXPRESSIONS: Record<UsageDimension, string> = {
+  day: "TO_CHAR(created_at, 'YYYY-MM-DD')",
+  model: "COALESCE(model_name, 'unknown')",
+  agent: "COALESCE(agent_name, 'unknown')",
+  request_type: "COALESCE(request_type, 'unknown')",
+};
+
+const toTotals = (row: unknown): UsageTotals => {
+  const r = row as {
+    requests: string | number;
+    prompt_tokens: string | number | null;
+    completion_tokens: string | number | null;
+    total_tokens: string | number | null;
+    cost: string | number | null;
+  };
+  // COUNT/SUM return bigint/numeric, which pg hands back as strings
+  return {
+    requests: Number(r.requests) || 0,
+    prompt_tokens: Number(r.prompt_tokens) || 0,
+    completion_tokens: Number(r.completion_tokens) || 0,
+    total_tokens: Number(r.total_tokens) || 0,
+    cost: Number(r.cost) || 0,
+  };
+};
+
+export class UsageManager {
+  private db: DatabaseConnection;
+  private priceManager: ModelPriceManager;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+    this.priceManager = new ModelPriceManager();
+  }
+
+  /**
+   * Store the token usage reported for one request, costed at the current model prices.
+   * Models without a price entry are recorded with zero cost.
+   */
+  async recordUsage(records: UsageRecordInput[]): Promise<number> {
+    if (records.length === 0) return 0;
+
+    const modelNames = [...new Set(records.map(r => r.model_name).filter((name): name is string => !!name))];
+    const prices = await this.priceManager.getPricesForModels(modelNames);
+
+    const client = await this.db.getClient();
+    try {
+      await client.query('BEGIN');
+      for (const record of records) {
+        const price = record.model_name ? prices.get(record.model_name) : undefined;
+        const cost = calculateTokenCost(price, record.prompt_tokens, record.completion_tokens);
+        await client.query(
+          `INSERT INTO "request_usage"
+            (user_id, session_key, request_type, agent_name, model_name, prompt_tokens, completion_tokens, total_tokens, cost)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            record.user_id,
+            record.session_key || null,
+            record.request_type || null,
+            record.agent_name || null,
+            record.model_name || null,
+            record.prompt_tokens,
+            record.completion_tokens,
+            record.total_tokens,
+            cost,
+          ]
+        );
+      }
+      await client.query('COMMIT');
+      return records.length;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getUsageReport(options: UsageReportOptions): Promise<Omit<UsageReport, 'can_view_all_users'>> {
+    const params: unknown[] = [options.startDate, options.endDate];
+    let whereClause = 'WHERE created_at >= $1 AND created_at < $2';
+    if (options.userId !== null) {
+      params.push(options.userId);
+      whereClause += ' AND user_id = $3';
+    }
+
+    // A request is one session; rows without a session key count individually
+    const aggregates = `
+      COUNT(DISTINCT COALESCE(session_key, id::text)) as requests,
+      SUM(prompt_tokens) as prompt_tokens,
+      SUM(completion_tokens) as completion_tokens,
+      SUM(total_tokens) as total_tokens,
+      SUM(cost) as cost
+    `;
+
+    const totalsResult = await this.db.query(
+      `SELECT ${aggregates} FROM "request_usage" ${whereClause}`,
+      params
+    );
+
+    const breakdown = async (dimension: UsageDimension): Promise<UsageBreakdownItem[]> => {
+      const expression = DIMENSION_EXPRESSIONS[dimension];
+      const orderBy = dimension === 'day' ? 'key ASC' : 'cost DESC, total_tokens DESC';
+      const result = await this.db.query(
+        `SELECT ${expression} as key, ${aggregates}
+         FROM "request_usage" ${whereClause}
+         GROUP BY 1
+         ORDER BY ${orderBy}`,
+        params
+      );
+      return result.rows.map(row => ({ key: (row as { key: string }).key, ...toTotals(row) }));
+    };
+
+    return {
+      start_date: options.startDate,
+      end_date: options.endDate,
+      scope: options.userId === null ? 'all' : 'user',
+      totals: toTotals(totalsResult.rows[0] || { requests: 0 }),
+      by_day: await breakdown('day'),
+      by_model: await breakdown('model'),
+      by_agent: await breakdown('agent'),
+      by_request_type: await breakdown('request_type'),
+    };
+  }
+}
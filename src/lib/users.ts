@@ -0,0 +1,265 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+import type { User, UserInput, UserRole } from '@/types/index';
+
+import { DatabaseConnection } from './database';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const HASH_ALGORITHM = 'scrypt';
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+interface UserRow {
+  id: number;
+  username: string;
+  display_name: string | null;
+  role: UserRole;
+  is_active: boolean;
+  last_login_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface UserCredentialsRow extends UserRow {
+  password_hash: string;
+}
+
+const USER_COLUMNS = 'id, username, display_name, role, is_active, last_login_at, created_at, updated_at';
+
+/**
+ * Hash a password with a random salt. The result is self-describing:
+ * scrypt$<salt hex>$<hash hex>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_ALGORITHM}$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Verify a password against a hash produced by hashPassword
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, saltHex, hashHex] = storedHash.split('$');
+
+  if (algorithm !== HASH_ALGORITHM || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export class UserManager {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  private mapUserRow(row: unknown): User {
+    const r = row as UserRow;
+    return {
+      id: r.id,
+      username: r.username,
+      display_name: r.display_name || undefined,
+      role: r.role,
+      is_active: r.is_active,
+      last_login_at: r.last_login_at ? new Date(r.last_login_at) : undefined,
+      created_at: new Date(r.created_at),
+      updated_at: new Date(r.updated_at),
+    };
+  }
+
+  /**
+   * Get all users, ordered by username
+   */
+  async getAllUsers(): Promise<User[]> {
+    const query = `
+      SELECT ${USER_COLUMNS}
+      FROM "users"
+      ORDER BY username ASC
+    `;
+
+    const result = await this.db.query(query);
+    return result.rows.map(row => this.mapUserRow(row));
+  }
+
+  /**
+   * Get user by ID
+   */
+  async getUserById(id: number): Promise<User | null> {
+    const query = `
+      SELECT ${USER_COLUMNS}
+      FROM "users"
+      WHERE id = $1
+    `;
+
+    const result = await this.db.query(query, [id]);
+    return result.rows.length > 0 ? this.mapUserRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Get user by username
+   */
+  async getUserByUsername(username: string): Promise<User | null> {
+    const query = `
+      SELECT ${USER_COLUMNS}
+      FROM "users"
+      WHERE username = $1
+    `;
+
+    const result = await this.db.query(query, [username]);
+    return result.rows.length > 0 ? this.mapUserRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Create a new user with a salted password hash
+   */
+  async createUser(userInput: UserInput): Promise<User> {
+    const passwordHash = await hashPassword(userInput.password);
+
+    const query = `
+      INSERT INTO "users" (username, display_name, password_hash, role, is_active, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      RETURNING ${USER_COLUMNS}
+    `;
+
+    const result = await this.db.query(query, [
+      userInput.username,
+      userInput.display_name || null,
+      passwordHash,
+      userInput.role || 'member',
+      userInput.is_active !== undefined ? userInput.is_active : true,
+    ]);
+
+    return this.mapUserRow(result.rows[0]);
+  }
+
+  /**
+   * Enable or disable a user account
+   */
+  async setUserActive(id: number, isActive: boolean): Promise<User | null> {
+    const query = `
+      UPDATE "users"
+      SET is_active = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+      RETURNING ${USER_COLUMNS}
+    `;
+
+    const result = await this.db.query(query, [isActive, id]);
+    return result.rows.length > 0 ? this.mapUserRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Change a user's authorization role
+   */
+  async setUserRole(id: number, role: UserRole): Promise<User | null> {
+    const query = `
+      UPDATE "users"
+      SET role = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+      RETURNING ${USER_COLUMNS}
+    `;
+
+    const result = await this.db.query(query, [role, id]);
+    return result.rows.length > 0 ? this.mapUserRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Replace a user's password
+   */
+  async resetPassword(id: number, newPassword: string): Promise<User | null> {
+    const passwordHash = await hashPassword(newPassword);
+
+    const query = `
+      UPDATE "users"
+      SET password_hash = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+      RETURNING ${USER_COLUMNS}
+    `;
+
+    const result = await this.db.query(query, [passwordHash, id]);
+    return result.rows.length > 0 ? this.mapUserRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Check a user's current password, e.g. before they choose a new one
+   */
+  async checkPassword(id: number, password: string): Promise<boolean> {
+    const result = await this.db.query('SELECT password_hash FROM "users" WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    return verifyPassword(password, (result.rows[0] as { password_hash: string }).password_hash);
+  }
+
+  /**
+   * Check a username/password pair. Returns the user on success and records the login;
+   * returns null for unknown users, wrong passwords and disabled accounts.
+   */
+  async verifyCredentials(username: string, password: string): Promise<User | null> {
+    const query = `
+      SELECT ${USER_COLUMNS}, password_hash
+      FROM "users"
+      WHERE username = $1
+    `;
+
+    const result = await this.db.query(query, [username]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0] as UserCredentialsRow;
+
+    if (!row.is_active || !(await verifyPassword(password, row.password_hash))) {
+      return null;
+    }
+
+    await this.db.query(
+      'UPDATE "users" SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [row.id]
+    );
+
+    return this.mapUserRow(row);
+  }
+
+  /**
+   * Create the initial admin account from AUTH_USERNAME/AUTH_PASSWORD when the users table is empty,
+   * so existing single-user installations keep working after the migration.
+   */
+  async ensureBootstrapUser(): Promise<void> {
+    const bootstrapUsername = process.env.AUTH_USERNAME;
+    const bootstrapPassword = process.env.AUTH_PASSWORD;
+
+    if (!bootstrapUsername || !bootstrapPassword) {
+      return;
+    }
+
+    const countResult = await this.db.query('SELECT COUNT(*) as count FROM "users"');
+    const userCount = parseInt((countResult.rows[0] as { count: string }).count);
+
+    if (userCount > 0) {
+      return;
+    }
+
+    const passwordHash = await hashPassword(bootstrapPassword);
+    await this.db.query(
+      `INSERT INTO "users" (username, password_hash, role, is_active, created_at, updated_at)
+       VALUES ($1, $2, 'admin', TRUE, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+       ON CONFLICT (username) DO NOTHING`,
+      [bootstrapUsername, passwordHash]
+    );
+
+    console.info(`Bootstrapped initial admin account: ${bootstrapUsername}`);
+  }
+}
@@ -22,6 +22,7 @@ export interface ServiceNowResponse {
   timestamp?: string;
   sessionkey?: string;
   status?: string;
+  knowledgeStoreId?: number; // Set when the answer was opened from the knowledge store instead of generated
 }
 
 export interface ApiResponse {
@@ -74,6 +75,40 @@ export interface HistoryFilters {
   showPending: boolean;
 }
 
+// User Types
+export type UserRole = 'admin' | 'member';
+
+export interface User {
+  id: number;
+  username: string;
+  display_name?: string;
+  role: UserRole;
+  is_active: boolean;
+  last_login_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UserInput {
+  username: string;
+  password: string;
+  display_name?: string;
+  role?: UserRole;
+  is_active?: boolean;
+}
+
+export interface UsersApiResponse {
+  success: boolean;
+  data?: User[];
+  error?: string;
+}
+
+export interface UserApiResponse {
+  success: boolean;
+  data?: User;
+  error?: string;
+}
+
 export interface UserSetting {
   id: number;
   user_id: string;
@@ -97,6 +132,29 @@ export interface UserSettings {
   voice_mode_enabled?: boolean; // New field: enable/disable voice input feature
   voice_auto_submit?: boolean; // New field: auto-submit after voice transcription
   voice_auto_send?: boolean; // New field: skip confirmation modal and auto-send on release
+  block_unsafe_scripts?: boolean; // Refuse Send Script when script analysis finds errors
+  servicenow_instances?: ServiceNowInstanceProfile[]; // Named instances; servicenow_instance_url is used when empty
+  active_servicenow_instance?: string; // Id of the profile Send Script and instance links target
+}
+
+// ServiceNow Instance Types
+export type ServiceNowInstanceEnvironment = 'dev' | 'test' | 'prod';
+
+export interface ServiceNowInstanceProfile {
+  id: string;
+  name: string;
+  url: string;
+  environment: ServiceNowInstanceEnvironment; // Pushes to prod need an explicit confirmation
+  scope?: string; // Application scope scripts are written for, e.g. x_acme_app
+  // Name of the environment credentials, read from SERVICENOW_<REF>_USERNAME etc.; secrets are never stored
+  credentials_ref?: string;
+  allow_push: boolean; // Whether Send Script may write to this instance
+}
+
+// Which profile a push goes to (the active one when omitted); confirm_production acknowledges a prod push
+export interface DeploymentTarget {
+  instance_id?: string;
+  confirm_production: boolean;
 }
 
 export interface Capability {
@@ -161,11 +219,122 @@ export interface SettingsApiResponse {
   error?: string;
 }
 
+// Usage & Cost Types
+export interface ModelPrice {
+  id: number;
+  model_name: string;
+  input_price_per_million: number; // USD per million prompt tokens
+  output_price_per_million: number; // USD per million completion tokens
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ModelPriceInput {
+  model_name: string;
+  input_price_per_million: number;
+  output_price_per_million: number;
+}
+
+export interface ModelPricesApiResponse {
+  success: boolean;
+  data?: ModelPrice[];
+  error?: string;
+}
+
+export interface ModelPriceApiResponse {
+  success: boolean;
+  data?: ModelPrice;
+  error?: string;
+}
+
+export interface UsageRecordInput {
+  user_id: string;
+  session_key?: string;
+  request_type?: string;
+  agent_name?: string;
+  model_name?: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number; // USD
+}
+
+export interface UsageBreakdownItem extends UsageTotals {
+  key: string; // Day (YYYY-MM-DD), model, agent or request type
+}
+
+export interface UsageReport {
+  start_date: Date;
+  end_date: Date;
+  scope: 'user' | 'all';
+  can_view_all_users: boolean;
+  totals: UsageTotals;
+  by_day: UsageBreakdownItem[];
+  by_model: UsageBreakdownItem[];
+  by_agent: UsageBreakdownItem[];
+  by_request_type: UsageBreakdownItem[];
+}
+
+export interface UsageApiResponse {
+  success: boolean;
+  data?: UsageReport;
+  error?: string;
+}
+
 // Streaming interfaces
+export type AgentEventType = 'agent_start' | 'tool_call' | 'tool_result' | 'agent_end' | 'usage';
+
+// Payload of the structured agent events passed through from n8n
+export interface AgentEventData {
+  agent?: string; // Agent name, e.g. 'orchestration' or 'coder_small'
+  tool?: string;
+  callId?: string; // Pairs a tool_result with its tool_call
+  input?: string;
+  output?: string;
+  error?: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
 export interface StreamingChunk {
   content: string;
-  type: 'connecting' | 'chunk' | 'complete' | 'error';
+  type: 'connecting' | 'chunk' | 'complete' | 'error' | 'notice' | AgentEventType;
   timestamp: string;
+  data?: AgentEventData; // Only present on agent events
+}
+
+export interface AgentToolCall {
+  id: string;
+  tool: string;
+  status: 'running' | 'success' | 'error';
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+export interface AgentTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface AgentActivity {
+  agent: string;
+  status: 'running' | 'done';
+  toolCalls: AgentToolCall[];
+  startedAt: string;
+  endedAt?: string;
+  model?: string;
+  usage?: AgentTokenUsage;
 }
 
 export interface StreamingResponse {
@@ -178,6 +347,8 @@ export interface StreamingResponse {
 export enum StreamingStatus {
   CONNECTING = 'connecting',
   STREAMING = 'streaming',
+  RECONNECTING = 'reconnecting',
+  QUEUED = 'queued', // Provider rate limit reached - waiting to retry
   COMPLETE = 'complete',
   ERROR = 'error',
   CANCELLED = 'cancelled'
@@ -213,6 +384,7 @@ export interface N8nStreamingRequest {
     searching: boolean;
     userId: string;
     provider?: Provider; // Provider information for N8N processing
+    agentPrompts?: AgentPromptMap; // Active prompts (with experiment variants); the workflow's agents fall back to built-in text
   };
 }
 
@@ -244,6 +416,108 @@ export interface DefaultAgent {
   defaultModel: string;
 }
 
+// Agent Prompt Types
+export interface AgentPrompt {
+  agent_name: string;
+  prompt_type: string;
+  prompt_content: string;
+  is_active: boolean;
+  current_version: number | null; // null for prompts saved before version history existed
+  updated_at: Date;
+}
+
+export interface AgentPromptVersion {
+  id: number;
+  agent_name: string;
+  prompt_type: string;
+  version: number;
+  prompt_content: string;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface AgentPromptOption {
+  name: string;
+  displayName: string;
+  description: string;
+}
+
+export interface AgentPromptsApiResponse {
+  success: boolean;
+  data?: {
+    prompts: AgentPrompt[];
+    agents: AgentPromptOption[];
+    prompt_types: AgentPromptOption[];
+  };
+  error?: string;
+}
+
+export interface AgentPromptVersionApiResponse {
+  success: boolean;
+  data?: AgentPromptVersion;
+  error?: string;
+}
+
+export interface AgentPromptVersionsApiResponse {
+  success: boolean;
+  data?: AgentPromptVersion[]; // Newest first
+  error?: string;
+}
+
+// Prompt Experiment Types
+export type PromptExperimentStatus = 'draft' | 'running' | 'stopped';
+
+// Active prompt text per agent and prompt type: { agent_name: { prompt_type: content } }
+export type AgentPromptMap = Record<string, Record<string, string>>;
+
+export interface PromptExperimentVariantStats {
+  requests: number;
+  thumbs_up: number;
+  thumbs_down: number;
+  win_rate: number | null; // thumbs_up / rated answers; null until something is rated
+}
+
+export interface PromptExperimentVariant {
+  id: number;
+  label: string;
+  prompt_content: string;
+  weight: number;
+  stats: PromptExperimentVariantStats;
+}
+
+export interface PromptExperiment {
+  id: number;
+  name: string;
+  agent_name: string;
+  prompt_type: string;
+  status: PromptExperimentStatus;
+  created_by: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  ended_at: Date | null;
+  variants: PromptExperimentVariant[];
+}
+
+export interface PromptExperimentInput {
+  name: string;
+  agent_name: string;
+  prompt_type: string;
+  variants: Array<{ label: string; prompt_content: string; weight: number }>;
+}
+
+export interface PromptExperimentsApiResponse {
+  success: boolean;
+  data?: PromptExperiment[];
+  error?: string;
+}
+
+export interface PromptExperimentApiResponse {
+  success: boolean;
+  data?: PromptExperiment;
+  error?: string;
+}
+
 // Provider Types
 export interface Provider {
   id: number;
@@ -263,7 +537,7 @@ export interface ProviderInput {
   endpoint: string;
   is_active?: boolean;
   priority?: number;
-  rate_limit_per_minute?: number;
+  rate_limit_per_minute?: number | null; // null removes the limit
 }
 
 export interface ProvidersApiResponse {
@@ -278,6 +552,41 @@ export interface ProviderApiResponse {
   error?: string;
 }
 
+export interface ProviderDeleteApiResponse {
+  success: boolean;
+  error?: string;
+  model_count?: number; // Models still referencing the provider when deletion was refused
+}
+
+// Provider health: green/amber/red in the Settings status panel
+export type ProviderHealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+export interface ProviderHealthFailure {
+  at: Date;
+  error: string;
+}
+
+export interface ProviderHealth {
+  provider_id: number;
+  name: string;
+  display_name: string;
+  status: ProviderHealthStatus;
+  latency_ms: number | null; // Latency of the last probe
+  last_checked_at: Date | null;
+  last_success_at: Date | null;
+  last_error: string | null;
+  circuit_state: 'closed' | 'open' | 'half_open'; // Failover circuit breaker state from real requests
+  warnings: string[]; // Configuration problems, e.g. a missing API key
+  recent_failures: ProviderHealthFailure[]; // Newest first
+}
+
+export interface ProviderHealthApiResponse {
+  success: boolean;
+  data?: ProviderHealth[];
+  can_refresh?: boolean; // Whether the caller may probe on demand with refresh=true (admins)
+  error?: string;
+}
+
 // Knowledge Store Types
 export interface KnowledgeStoreItem {
   id: number;
@@ -314,6 +623,105 @@ export interface KnowledgeStoreApiResponse {
   error?: string;
 }
 
+export interface KnowledgeStoreSimilarItem {
+  item: KnowledgeStoreItem;
+  similarity: number; // Cosine similarity of the question embeddings, 0-1
+}
+
+export interface KnowledgeStoreSimilarApiResponse {
+  success: boolean;
+  data?: KnowledgeStoreSimilarItem[];
+  error?: string;
+}
+
+export interface KnowledgeStoreItemUpdate {
+  question: string;
+  answer: string;
+  category: string | null;
+  tags: string[];
+}
+
+// A previous version of an edited entry
+export interface KnowledgeStoreEdit {
+  id: number;
+  qa_id: number;
+  question: string;
+  answer: string;
+  category: string | null;
+  tags: string[] | null;
+  edited_by: string | null; // Admin whose edit replaced this version
+  edited_at: Date;
+}
+
+export interface KnowledgeStoreItemApiResponse {
+  success: boolean;
+  data?: KnowledgeStoreItem;
+  error?: string;
+}
+
+export interface KnowledgeStoreHistoryApiResponse {
+  success: boolean;
+  data?: KnowledgeStoreEdit[];
+  error?: string;
+}
+
+// Ratings target a knowledge store entry (qa_id) or a generated answer (sessionkey)
+export interface AnswerFeedbackInput {
+  qa_id?: number;
+  sessionkey?: string;
+  rating: number; // 1-5 stars; thumbs up counts as 5, thumbs down as 1
+  comment: string | null;
+}
+
+export interface AnswerFeedbackResult {
+  rating: number;
+  quality_score?: number; // New average rating of the knowledge store entry
+  rating_count?: number;
+}
+
+export interface AnswerFeedbackApiResponse {
+  success: boolean;
+  data?: AnswerFeedbackResult;
+  error?: string;
+}
+
+export type KnowledgeStoreExportFormat = 'jsonl' | 'csv' | 'markdown';
+
+// 'valid' is only reported by dry runs: the row would have been created
+export type KnowledgeStoreImportRowStatus = 'created' | 'valid' | 'duplicate' | 'invalid' | 'failed';
+
+export interface KnowledgeStoreImportRowResult {
+  row: number; // 1-based position in the file (line, CSV record or Markdown file)
+  source?: string; // File name inside a Markdown bundle
+  status: KnowledgeStoreImportRowStatus;
+  question?: string;
+  message?: string;
+  duplicate_of?: {
+    id: number | null; // null when the duplicate is an earlier row of the same file
+    question: string;
+    similarity: number;
+  };
+  created_id?: number;
+}
+
+export interface KnowledgeStoreImportReport {
+  dry_run: boolean;
+  format: KnowledgeStoreExportFormat;
+  total: number;
+  created: number;
+  valid: number;
+  duplicates: number;
+  invalid: number;
+  failed: number;
+  rows: KnowledgeStoreImportRowResult[];
+}
+
+export interface KnowledgeStoreImportApiResponse {
+  success: boolean;
+  data?: KnowledgeStoreImportReport;
+  error?: string;
+}
+
 export interface KnowledgeStoreFilters {
   search: string;
   category: string;
@@ -323,8 +731,148 @@ export interface KnowledgeStoreFilters {
   };
 }
 
+// ServiceNow Artifact Types
+export type ServiceNowArtifactFieldInput = 'text' | 'number' | 'select' | 'checkbox';
+
+export type ServiceNowArtifactMetadata = Record<string, string | number | boolean>;
+
+// A type-specific record field shown in the Send Script modal and sent as metadata
+export interface ServiceNowArtifactField {
+  key: string;
+  label: string;
+  input: ServiceNowArtifactFieldInput;
+  required?: boolean;
+  options?: { value: string; label: string }[];
+  defaultValue?: string | number | boolean;
+  placeholder?: string;
+  helpText?: string;
+  maxLength?: number;
+  // Regular expression source that text values must match, explained by patternMessage
+  pattern?: string;
+  patternMessage?: string;
+  // Required only while another field has one of these values
+  requiredWhen?: { key: string; values: string[] };
+  // Other names the field goes by in generated answers, used when pre-filling
+  aliases?: string[];
+  // ServiceNow column the value is written to (defaults to key), and queried by when matching records
+  column?: string;
+  matchColumn?: string;
+}
+
+export interface ServiceNowArtifactType {
+  id: string;
+  label: string;
+  targetTable: string;
+  description: string;
+  fields: ServiceNowArtifactField[];
+  // Column that holds the script, e.g. script or operation_script
+  scriptField: string;
+  // Values written to every record of this type, e.g. { advanced: true }
+  fixedFields?: ServiceNowArtifactMetadata;
+  // Metadata keys that identify an existing record to update instead of creating a new one; empty to always create
+  matchOn: string[];
+}
+
+export interface SendScriptRequest {
+  payload: string;
+  type: string;
+  target_table: string;
+  metadata: ServiceNowArtifactMetadata;
+}
+
+// Outcome of pushing a script straight to the ServiceNow Table API
+export interface SendScriptResult {
+  sys_id: string;
+  table: string;
+  action: 'created' | 'updated';
+  url: string;
+}
+
+export interface SendScriptApiResponse {
+  success: boolean;
+  // The queued deployment, also returned when delivery failed so it can be tracked and retried
+  data?: IntegrationQueueItem;
+  // Set when the push was blocked by script analysis errors
+  findings?: ScriptFinding[];
+  error?: string;
+}
+
+// Script Analysis Types
+export type ScriptFindingSeverity = 'error' | 'warning' | 'info';
+
+export interface ScriptFinding {
+  rule: string;
+  severity: ScriptFindingSeverity;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface ScriptAnalysisResult {
+  // Where the script runs: the Rhino server engine or the browser
+  runtime: 'server' | 'client';
+  findings: ScriptFinding[];
+}
+
+export interface ScriptAnalysisRequest {
+  script: string;
+  // Artifact type id; the runtime is guessed from the script when it is missing
+  type?: string;
+  metadata?: ServiceNowArtifactMetadata;
+  // Instance profile the script is meant for, whose scope decides how modern syntax is reported; the active one when missing
+  instance_id?: string;
+}
+
+export interface ScriptAnalysisApiResponse {
+  success: boolean;
+  data?: ScriptAnalysisResult;
+  error?: string;
+}
+
+// Integration Queue Types
+// new: queued, processing: handed to the ServiceNow companion app, completed: record written, failed: see error
+export type IntegrationQueueState = 'new' | 'processing' | 'completed' | 'failed';
+
+export interface IntegrationQueueItem {
+  id: number;
+  correlation_id: string;
+  payload: string;
+  type: string;
+  target_table: string;
+  metadata: ServiceNowArtifactMetadata;
+  state: IntegrationQueueState;
+  error: string | null;
+  result: SendScriptResult | null;
+  attempts: number;
+  created_by: string | null;
+  instance_id: string | null; // Instance profile the script was sent to
+  instance_url: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IntegrationQueueApiResponse {
+  success: boolean;
+  data?: IntegrationQueueItem[];
+  error?: string;
+}
+
+export interface IntegrationQueueItemApiResponse {
+  success: boolean;
+  data?: IntegrationQueueItem;
+  // Set when a retry was blocked by script analysis errors
+  findings?: ScriptFinding[];
+  error?: string;
+}
+
 // Export Types
-export type ExportFormat = 'markdown' | 'pdf';
+export type ExportFormat = 'markdown' | 'pdf' | 'update_set';
+
+export interface UpdateSetExportOptions {
+  name: string;
+  scope: string; // Application scope, e.g. global or x_acme_app
+  description?: string;
+}
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -332,6 +880,15 @@ export interface ExportOptions {
   includeQuestion: boolean;
   question?: string;
   answer: string;
+  updateSet?: UpdateSetExportOptions; // Required for the update_set format
+}
+
+// A script block of an answer mapped to the ServiceNow record it becomes in an update set
+export interface UpdateSetArtifact {
+  type: string;
+  script: string;
+  metadata: ServiceNowArtifactMetadata;
+  recognized: boolean; // false when the block fell back to a Fix Script
 }
 
 // Voice Mode Types
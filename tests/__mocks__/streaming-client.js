@@ -2,6 +2,8 @@
 const StreamingStatus = {
   CONNECTING: 'connecting',
   STREAMING: 'streaming',
+  RECONNECTING: 'reconnecting',
+  QUEUED: 'queued',
   COMPLETE: 'complete',
   ERROR: 'error',
   CANCELLED: 'cancelled'
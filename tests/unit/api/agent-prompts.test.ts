@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, PUT } from '@/app/api/agent-prompts/route';
+import { POST as rollback } from '@/app/api/agent-prompts/rollback/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+
+// Mock the prompt store
+const mockPrompts = {
+  getAgentPromptsWithVersions: jest.fn(),
+  getAvailableAgents: jest.fn(() => []),
+  getAvailablePromptTypes: jest.fn(() => []),
+  setAgentPrompt: jest.fn(),
+  rollbackAgentPrompt: jest.fn(),
+};
+
+jest.mock('@/lib/database', () => ({
+  AgentPromptManager: jest.fn(() => mockPrompts),
+}));
+
+const jsonRequest = (url: string, method: string, body: unknown) =>
+  new NextRequest(url, {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('/api/agent-prompts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+    mockPrompts.getAgentPromptsWithVersions.mockResolvedValue([]);
+    mockPrompts.setAgentPrompt.mockResolvedValue({ version: 4 });
+    mockPrompts.rollbackAgentPrompt.mockResolvedValue({ version: 5 });
+  });
+
+  it('should return 403 for members', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET();
+
+    expect(response.status).toBe(403);
+    expect(mockPrompts.getAgentPromptsWithVersions).not.toHaveBeenCalled();
+  });
+
+  it('should save a new version attributed to the admin', async () => {
+    const response = await PUT(jsonRequest('http://localhost:3000/api/agent-prompts', 'PUT', {
+      agent_name: 'coder_large',
+      prompt_content: 'You write ServiceNow scripts.',
+      change_note: ' Shorter ',
+    }));
+
+    expect(response.status).toBe(200);
+    expect(mockPrompts.setAgentPrompt).toHaveBeenCalledWith('coder_large', 'system', 'You write ServiceNow scripts.', {
+      createdBy: 'admin',
+      changeNote: 'Shorter',
+    });
+  });
+
+  it('should reject invalid agent names and empty prompts', async () => {
+    const badName = await PUT(jsonRequest('http://localhost:3000/api/agent-prompts', 'PUT', {
+      agent_name: 'Coder Large',
+      prompt_content: 'x',
+    }));
+    const emptyPrompt = await PUT(jsonRequest('http://localhost:3000/api/agent-prompts', 'PUT', {
+      agent_name: 'coder_large',
+      prompt_content: '   ',
+    }));
+
+    expect(badName.status).toBe(400);
+    expect(emptyPrompt.status).toBe(400);
+    expect(mockPrompts.setAgentPrompt).not.toHaveBeenCalled();
+  });
+
+  it('should roll back to an earlier version', async () => {
+    const response = await rollback(jsonRequest('http://localhost:3000/api/agent-prompts/rollback', 'POST', {
+      agent_name: 'coder_large',
+      prompt_type: 'system',
+      version: 2,
+    }));
+
+    expect(response.status).toBe(200);
+    expect(mockPrompts.rollbackAgentPrompt).toHaveBeenCalledWith('coder_large', 'system', 2, 'admin');
+  });
+
+  it('should return 404 when rolling back to a missing version', async () => {
+    mockPrompts.rollbackAgentPrompt.mockResolvedValue(null);
+
+    const response = await rollback(jsonRequest('http://localhost:3000/api/agent-prompts/rollback', 'POST', {
+      agent_name: 'coder_large',
+      version: 42,
+    }));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/analyze-script/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+jest.mock('@/lib/script-analysis', () => ({
+  analyzeScript: jest.fn(() => ({ runtime: 'client', findings: [] })),
+}));
+
+const mockLoadUserInstance = jest.fn();
+jest.mock('@/lib/script-deployment', () => ({
+  loadUserInstance: (...args: unknown[]) => mockLoadUserInstance(...args),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { analyzeScript } from '@/lib/script-analysis';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+const mockAnalyzeScript = analyzeScript as jest.MockedFunction<typeof analyzeScript>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+const analyzeRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/analyze-script', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('/api/analyze-script', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockLoadUserInstance.mockResolvedValue(null);
+  });
+
+  it('should analyze the script as its artifact type', async () => {
+    const script = 'function onLoad() {\n  new GlideAjax("Util").getXMLWait();\n}';
+
+    const response = await POST(analyzeRequest({ script, type: 'client_script', metadata: { ui_type: 'all' } }));
+
+    expect(response.status).toBe(200);
+    expect(mockAnalyzeScript).toHaveBeenCalledWith(script, { type: 'client_script', metadata: { ui_type: 'all' }, scope: undefined });
+  });
+
+  it('should analyze for the scope of the selected instance profile', async () => {
+    const scoped = { id: 'acme-dev', name: 'ACME Dev', url: 'https://acmedev.service-now.com', environment: 'dev', scope: 'x_acme_app', allow_push: true };
+    mockLoadUserInstance.mockResolvedValueOnce(scoped).mockResolvedValueOnce({ ...scoped, scope: undefined });
+
+    await POST(analyzeRequest({ script: 'const a = 1;', type: 'script_include', instance_id: 'acme-dev' }));
+    await POST(analyzeRequest({ script: 'const a = 1;', type: 'script_include' }));
+
+    expect(mockLoadUserInstance).toHaveBeenNthCalledWith(1, 'member', 'acme-dev');
+    expect(mockAnalyzeScript).toHaveBeenNthCalledWith(1, 'const a = 1;', expect.objectContaining({ scope: 'x_acme_app' }));
+    expect(mockAnalyzeScript).toHaveBeenNthCalledWith(2, 'const a = 1;', expect.objectContaining({ scope: 'global' }));
+  });
+
+  it('should reject an unknown instance profile', async () => {
+    const response = await POST(analyzeRequest({ script: 'gs.info(1);', instance_id: 'acme-uat' }));
+
+    expect(response.status).toBe(400);
+    expect(mockAnalyzeScript).not.toHaveBeenCalled();
+  });
+
+  it('should reject a missing script or an unknown type', async () => {
+    expect((await POST(analyzeRequest({ script: '  ' }))).status).toBe(400);
+    expect((await POST(analyzeRequest({ script: 'gs.info(1);', type: 'widget' }))).status).toBe(400);
+    expect((await POST(analyzeRequest({ script: 'gs.info(1);', metadata: ['before'] }))).status).toBe(400);
+    expect(mockAnalyzeScript).not.toHaveBeenCalled();
+  });
+
+  it('should require authentication', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+    const response = await POST(analyzeRequest({ script: 'gs.info(1);' }));
+
+    expect(response.status).toBe(401);
+    expect(mockAnalyzeScript).not.toHaveBeenCalled();
+  });
+});
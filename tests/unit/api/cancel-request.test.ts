@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/cancel-request/route';
+import { StreamRegistry } from '@/lib/stream-registry';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+// Mock the conversation history store
+const mockMarkConversationCancelled = jest.fn();
+
+jest.mock('@/lib/database', () => ({
+  ConversationHistory: jest.fn(() => ({
+    markConversationCancelled: mockMarkConversationCancelled,
+  })),
+}));
+
+const createRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/cancel-request', {
+  method: 'POST',
+  body: JSON.stringify(body),
+});
+
+describe('/api/cancel-request', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMarkConversationCancelled.mockResolvedValue(true);
+  });
+
+  it('should return 401 if user is not authenticated', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+    const response = await POST(createRequest({ sessionkey: 'session_1700000000000_abc123' }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject malformed session keys', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await POST(createRequest({ sessionkey: 'not-a-session' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should abort the in-flight upstream stream and mark the history row', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    const controller = StreamRegistry.getInstance().register('session_1700000000000_abc123', 'member');
+
+    const response = await POST(createRequest({ sessionkey: 'session_1700000000000_abc123' }));
+
+    expect(response.status).toBe(200);
+    expect(controller.abort).toHaveBeenCalled();
+    expect(mockMarkConversationCancelled).toHaveBeenCalledWith('member', 'session_1700000000000_abc123');
+  });
+
+  it('should not abort a stream started by another user', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    const controller = StreamRegistry.getInstance().register('session_1700000000001_abc123', 'someone-else');
+
+    const response = await POST(createRequest({ sessionkey: 'session_1700000000001_abc123' }));
+
+    expect(response.status).toBe(200);
+    expect(controller.abort).not.toHaveBeenCalled();
+  });
+
+  it('should still report success if the history update fails', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockMarkConversationCancelled.mockRejectedValue(new Error('db down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await POST(createRequest({ sessionkey: 'session_1700000000002_abc123' }));
+
+    expect(response.status).toBe(200);
+  });
+});
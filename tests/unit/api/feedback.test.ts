@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/feedback/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+const mockFeedback = {
+  rateKnowledgeStoreItem: jest.fn(),
+  rateAnswer: jest.fn(),
+};
+
+jest.mock('@/lib/answer-feedback', () => ({
+  AnswerFeedbackManager: jest.fn(() => mockFeedback),
+}));
+
+const mockExperiments = {
+  recordFeedback: jest.fn(),
+};
+
+jest.mock('@/lib/prompt-experiments', () => ({
+  PromptExperimentManager: jest.fn(() => mockExperiments),
+}));
+
+const feedbackRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/feedback', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const sessionkey = 'session_1700000000000_abc123';
+
+describe('/api/feedback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockFeedback.rateKnowledgeStoreItem.mockResolvedValue({ rating: 4, quality_score: 4.5, rating_count: 2 });
+    mockFeedback.rateAnswer.mockResolvedValue({ rating: 4 });
+    mockExperiments.recordFeedback.mockResolvedValue(1);
+  });
+
+  it('should rate a knowledge store entry with a comment', async () => {
+    const response = await POST(feedbackRequest({ qa_id: 7, rating: 4, comment: '  Clear steps ' }));
+
+    expect(response.status).toBe(200);
+    expect(mockFeedback.rateKnowledgeStoreItem).toHaveBeenCalledWith(7, 'member', 4, 'Clear steps');
+    expect(mockExperiments.recordFeedback).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown entry', async () => {
+    mockFeedback.rateKnowledgeStoreItem.mockResolvedValue(null);
+
+    const response = await POST(feedbackRequest({ qa_id: 7, rating: 4 }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should rate a generated answer and count it towards prompt experiments', async () => {
+    const response = await POST(feedbackRequest({ sessionkey, rating: 2 }));
+
+    expect(response.status).toBe(200);
+    expect(mockFeedback.rateAnswer).toHaveBeenCalledWith(sessionkey, 'member', 2, null);
+    expect(mockExperiments.recordFeedback).toHaveBeenCalledWith(sessionkey, 'member', -1);
+  });
+
+  it('should count a good rating as a win for prompt experiments', async () => {
+    await POST(feedbackRequest({ sessionkey, rating: 5 }));
+
+    expect(mockExperiments.recordFeedback).toHaveBeenCalledWith(sessionkey, 'member', 1);
+  });
+
+  it('should reject an invalid session key', async () => {
+    const response = await POST(feedbackRequest({ sessionkey: "x' OR 1=1", rating: 5 }));
+
+    expect(response.status).toBe(400);
+    expect(mockFeedback.rateAnswer).not.toHaveBeenCalled();
+    expect(mockExperiments.recordFeedback).not.toHaveBeenCalled();
+  });
+
+  it('should not count a neutral rating towards prompt experiments', async () => {
+    await POST(feedbackRequest({ sessionkey, rating: 3 }));
+
+    expect(mockFeedback.rateAnswer).toHaveBeenCalled();
+    expect(mockExperiments.recordFeedback).not.toHaveBeenCalled();
+  });
+
+  it('should require exactly one rating target', async () => {
+    const both = await POST(feedbackRequest({ qa_id: 7, sessionkey, rating: 4 }));
+    const neither = await POST(feedbackRequest({ rating: 4 }));
+
+    expect(both.status).toBe(400);
+    expect(neither.status).toBe(400);
+    expect(mockFeedback.rateKnowledgeStoreItem).not.toHaveBeenCalled();
+  });
+
+  it('should reject ratings outside 1-5', async () => {
+    const response = await POST(feedbackRequest({ qa_id: 7, rating: 6 }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+    const response = await POST(feedbackRequest({ qa_id: 7, rating: 4 }));
+
+    expect(response.status).toBe(401);
+  });
+});
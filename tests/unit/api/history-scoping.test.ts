@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, DELETE } from '@/app/api/history/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+// Mock the conversation history store
+const mockHistory = {
+  getConversations: jest.fn(),
+  searchConversations: jest.fn(),
+  deleteConversation: jest.fn(),
+};
+
+jest.mock('@/lib/database', () => ({
+  __esModule: true,
+  default: jest.fn(() => mockHistory),
+}));
+
+describe('/api/history user scoping', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 401 when the token carries no user', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+    const request = new NextRequest('http://localhost:3000/api/history');
+    const response = await GET(request);
+
+    expect(response.status).toBe(401);
+    expect(mockHistory.getConversations).not.toHaveBeenCalled();
+  });
+
+  it('should only list conversations owned by the signed-in user', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockHistory.getConversations.mockResolvedValue({ conversations: [], total: 0, hasMore: false });
+
+    const request = new NextRequest('http://localhost:3000/api/history?limit=10');
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+    expect(mockHistory.getConversations).toHaveBeenCalledWith('member', expect.objectContaining({ limit: 10 }));
+  });
+
+  it('should scope searches to the signed-in user', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockHistory.searchConversations.mockResolvedValue({ conversations: [], total: 0, hasMore: false });
+
+    const request = new NextRequest('http://localhost:3000/api/history?search=incident');
+    await GET(request);
+
+    expect(mockHistory.searchConversations).toHaveBeenCalledWith('member', 'incident', expect.any(Object));
+  });
+
+  it('should return 404 when deleting a conversation owned by someone else', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockHistory.deleteConversation.mockResolvedValue(false);
+
+    const request = new NextRequest('http://localhost:3000/api/history?id=42', { method: 'DELETE' });
+    const response = await DELETE(request);
+
+    expect(mockHistory.deleteConversation).toHaveBeenCalledWith('member', 42);
+    expect(response.status).toBe(404);
+  });
+});
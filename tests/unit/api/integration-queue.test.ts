@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/integration-queue/route';
+import { POST as RETRY } from '@/app/api/integration-queue/[id]/retry/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+const failedItem = {
+  id: 12,
+  correlation_id: '6f1c2a9e-8d4b-4c1e-9a7f-3b2d5e8c1a40',
+  payload: 'gs.info("fix");',
+  type: 'fix_script',
+  target_table: 'sys_script_fix',
+  metadata: { name: 'Fix', record_for_rollback: true },
+  state: 'failed',
+  error: 'Webhook failed',
+  attempts: 1,
+  instance_id: 'acme-dev',
+  instance_url: 'https://acmedev.service-now.com',
+};
+
+const devInstance = { id: 'acme-dev', name: 'ACME Dev', url: 'https://acmedev.service-now.com', environment: 'dev', allow_push: true };
+
+const mockQueue = {
+  getUserItems: jest.fn(),
+  getUserItem: jest.fn(),
+  resetForRetry: jest.fn(),
+};
+
+jest.mock('@/lib/integration-queue', () => ({
+  IntegrationQueueManager: jest.fn(() => mockQueue),
+}));
+
+const mockDeliver = jest.fn();
+const mockLoadInstance = jest.fn();
+
+jest.mock('@/lib/script-deployment', () => ({
+  deliverQueuedScript: (...args: unknown[]) => mockDeliver(...args),
+  loadUserInstance: (...args: unknown[]) => mockLoadInstance(...args),
+  getScriptAnalysisRestriction: jest.requireActual('@/lib/script-deployment').getScriptAnalysisRestriction,
+}));
+
+const mockSettings = {
+  getSetting: jest.fn(),
+};
+
+jest.mock('@/lib/database', () => ({
+  UserSettingsManager: jest.fn(() => mockSettings),
+}));
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const retryRequest = (id: string, body?: unknown) =>
+  RETRY(new NextRequest(`http://localhost:3000/api/integration-queue/${id}/retry`, {
+    method: 'POST',
+    ...(body !== undefined && { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }),
+  }), routeParams(id));
+
+describe('/api/integration-queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+    mockQueue.getUserItems.mockResolvedValue([failedItem]);
+    mockQueue.getUserItem.mockResolvedValue(failedItem);
+    mockQueue.resetForRetry.mockResolvedValue({ ...failedItem, state: 'new', error: null, attempts: 2 });
+    mockDeliver.mockResolvedValue({ item: { ...failedItem, state: 'processing', attempts: 2 }, status: 201 });
+    mockLoadInstance.mockResolvedValue(devInstance);
+    mockSettings.getSetting.mockResolvedValue('');
+  });
+
+  it('should list the current user\'s deployments in a state', async () => {
+    const response = await GET(new NextRequest('http://localhost:3000/api/integration-queue?state=failed&limit=20'));
+
+    expect(response.status).toBe(200);
+    expect(mockQueue.getUserItems).toHaveBeenCalledWith('admin', 'failed', 20);
+  });
+
+  it('should reject an unknown state', async () => {
+    const response = await GET(new NextRequest('http://localhost:3000/api/integration-queue?state=done'));
+
+    expect(response.status).toBe(400);
+    expect(mockQueue.getUserItems).not.toHaveBeenCalled();
+  });
+
+  it('should deliver a failed deployment again with its stored request', async () => {
+    const response = await retryRequest('12');
+
+    expect(response.status).toBe(200);
+    expect(mockQueue.resetForRetry).toHaveBeenCalledWith(12, 'admin');
+    expect(mockDeliver).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 12, state: 'new' }),
+      { payload: 'gs.info("fix");', type: 'fix_script', target_table: 'sys_script_fix', metadata: { name: 'Fix', record_for_rollback: true } },
+      'admin',
+      devInstance
+    );
+    expect(mockLoadInstance).toHaveBeenCalledWith('admin', 'acme-dev');
+  });
+
+  it('should not retry when the deployment\'s instance profile was removed', async () => {
+    mockLoadInstance.mockResolvedValue(null);
+
+    const response = await retryRequest('12');
+
+    expect(response.status).toBe(409);
+    expect(mockQueue.resetForRetry).not.toHaveBeenCalled();
+  });
+
+  it('should require a confirmation to retry on a production instance', async () => {
+    mockLoadInstance.mockResolvedValue({ ...devInstance, environment: 'prod' });
+
+    const unconfirmed = await retryRequest('12');
+    expect(unconfirmed.status).toBe(428);
+    expect(mockDeliver).not.toHaveBeenCalled();
+
+    const confirmed = await retryRequest('12', { confirm_production: true });
+    expect(confirmed.status).toBe(200);
+    expect(mockDeliver).toHaveBeenCalled();
+  });
+
+  it('should not retry a script with analysis errors when the user blocks unsafe scripts', async () => {
+    mockSettings.getSetting.mockImplementation(async (_username: string, key: string) => key === 'block_unsafe_scripts');
+    mockQueue.getUserItem.mockResolvedValue({ ...failedItem, payload: 'var broken = ;' });
+
+    const response = await retryRequest('12');
+
+    expect(response.status).toBe(422);
+    expect(mockSettings.getSetting).toHaveBeenCalledWith('admin', 'block_unsafe_scripts');
+    expect(mockQueue.resetForRetry).not.toHaveBeenCalled();
+    expect(mockDeliver).not.toHaveBeenCalled();
+  });
+
+  it('should retry a script with analysis errors when blocking is off', async () => {
+    mockQueue.getUserItem.mockResolvedValue({ ...failedItem, payload: 'var broken = ;' });
+
+    const response = await retryRequest('12');
+
+    expect(response.status).toBe(200);
+    expect(mockDeliver).toHaveBeenCalled();
+  });
+
+  it('should only retry failed deployments', async () => {
+    mockQueue.getUserItem.mockResolvedValue({ ...failedItem, state: 'processing' });
+
+    const response = await retryRequest('12');
+
+    expect(response.status).toBe(409);
+    expect(mockDeliver).not.toHaveBeenCalled();
+  });
+
+  it('should not retry another user\'s deployment', async () => {
+    mockQueue.getUserItem.mockResolvedValue(null);
+
+    const response = await retryRequest('12');
+
+    expect(response.status).toBe(404);
+    expect(mockQueue.resetForRetry).not.toHaveBeenCalled();
+  });
+
+  it('should require an admin to retry', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await retryRequest('12');
+
+    expect(response.status).toBe(403);
+    expect(mockDeliver).not.toHaveBeenCalled();
+  });
+});
@@ -4,7 +4,13 @@
 
 import { NextRequest } from 'next/server';
 import { GET, DELETE } from '@/app/api/knowledge-store/route';
-import { DELETE as DELETE_BY_ID, GET as GET_BY_ID } from '@/app/api/knowledge-store/[id]/route';
+import { DELETE as DELETE_BY_ID, GET as GET_BY_ID, PUT as PUT_BY_ID } from '@/app/api/knowledge-store/[id]/route';
+import { GET as GET_HISTORY } from '@/app/api/knowledge-store/[id]/history/route';
+import { GET as GET_SIMILAR } from '@/app/api/knowledge-store/[id]/similar/route';
+import { POST as USE_ITEM } from '@/app/api/knowledge-store/[id]/use/route';
+import { POST as SUGGESTIONS } from '@/app/api/knowledge-store/suggestions/route';
+import { GET as EXPORT } from '@/app/api/knowledge-store/export/route';
+import { POST as IMPORT } from '@/app/api/knowledge-store/import/route';
 
 // Mock the auth module
 jest.mock('@/lib/server-auth', () => ({
@@ -14,12 +20,35 @@ jest.mock('@/lib/server-auth', () => ({
 import { getServerAuthState } from '@/lib/server-auth';
 const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
 
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+// Mock the knowledge store repository
+const mockKnowledgeStore = {
+  getItems: jest.fn(),
+  findSimilarToItem: jest.fn(),
+  findSimilar: jest.fn(),
+  incrementUsageCount: jest.fn(),
+  getItemById: jest.fn(),
+  updateItem: jest.fn(),
+  getItemHistory: jest.fn(),
+  getAllItems: jest.fn(),
+  createItem: jest.fn(),
+};
+
+jest.mock('@/lib/knowledge-store', () => ({
+  KnowledgeStoreManager: jest.fn(() => mockKnowledgeStore),
+  KnowledgeStoreEditConflictError: jest.requireActual('@/lib/knowledge-store').KnowledgeStoreEditConflictError,
+}));
+
+import { KnowledgeStoreEditConflictError } from '@/lib/knowledge-store';
+
 // Mock the N8NClient
 const mockClient = {
-  getAllQAPairs: jest.fn(),
   deleteQAPair: jest.fn(),
   deleteMultipleQAPairs: jest.fn(),
   getQAById: jest.fn(),
+  generateEmbedding: jest.fn(),
 };
 
 jest.mock('@/lib/n8n-client', () => ({
@@ -46,35 +75,30 @@ describe('/api/knowledge-store', () => {
 
     it('should return knowledge store items successfully', async () => {
       mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
-      const mockItems = [
-        {
-          id: 1,
-          question: 'Test question',
-          answer: 'Test answer',
-          category: 'general',
-          tags: ['test'],
-          quality_score: 5.0,
-          usage_count: 1,
-          created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-01T00:00:00Z',
-          question_embedding: null,
-          answer_embedding: null,
-        }
-      ];
-
-      mockClient.getAllQAPairs.mockResolvedValue(mockItems);
+      mockKnowledgeStore.getItems.mockResolvedValue({ items: [], total: 0, hasMore: false });
 
       const request = new NextRequest('http://localhost:3000/api/knowledge-store?limit=20&offset=0');
       const response = await GET(request);
       
       expect(response).toBeDefined();
       expect(response.status).toBe(200);
-      expect(mockClient.getAllQAPairs).toHaveBeenCalledWith(40, 0);
+      expect(mockKnowledgeStore.getItems).toHaveBeenCalledWith({ limit: 20, offset: 0, search: '', category: '' });
+    });
+
+    it('should pass search, category and page to the database query', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockKnowledgeStore.getItems.mockResolvedValue({ items: [], total: 0, hasMore: false });
+
+      const request = new NextRequest('http://localhost:3000/api/knowledge-store?limit=10&offset=30&search=%20gliderecord%20&category=scripting');
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      expect(mockKnowledgeStore.getItems).toHaveBeenCalledWith({ limit: 10, offset: 30, search: 'gliderecord', category: 'scripting' });
     });
 
-    it('should handle N8N client errors', async () => {
+    it('should handle database errors', async () => {
       mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
-      mockClient.getAllQAPairs.mockRejectedValue(new Error('N8N connection failed'));
+      mockKnowledgeStore.getItems.mockRejectedValue(new Error('Database connection failed'));
 
       const request = new NextRequest('http://localhost:3000/api/knowledge-store');
       const response = await GET(request);
@@ -98,8 +122,21 @@ describe('/api/knowledge-store', () => {
       expect(response.status).toBe(401);
     });
 
+    it('should return 403 for non-admin users', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+      const request = new NextRequest('http://localhost:3000/api/knowledge-store', {
+        method: 'DELETE',
+        body: JSON.stringify({ ids: [1, 2] })
+      });
+      const response = await DELETE(request);
+
+      expect(response.status).toBe(403);
+      expect(mockClient.deleteMultipleQAPairs).not.toHaveBeenCalled();
+    });
+
     it('should delete multiple items successfully', async () => {
-      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
       mockClient.deleteMultipleQAPairs.mockResolvedValue(true);
 
       const request = new NextRequest('http://localhost:3000/api/knowledge-store', {
@@ -114,7 +151,7 @@ describe('/api/knowledge-store', () => {
     });
 
     it('should return 400 for invalid ids', async () => {
-      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
 
       const request = new NextRequest('http://localhost:3000/api/knowledge-store', {
         method: 'DELETE',
@@ -128,8 +165,20 @@ describe('/api/knowledge-store', () => {
   });
 
   describe('DELETE /api/knowledge-store/[id]', () => {
+    it('should return 403 for non-admin users', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+      const response = await DELETE_BY_ID(
+        new NextRequest('http://localhost:3000/api/knowledge-store/1'),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockClient.deleteQAPair).not.toHaveBeenCalled();
+    });
+
     it('should delete single item successfully', async () => {
-      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
       mockClient.deleteQAPair.mockResolvedValue(true);
 
       const response = await DELETE_BY_ID(
@@ -143,7 +192,7 @@ describe('/api/knowledge-store', () => {
     });
 
     it('should return 400 for invalid ID', async () => {
-      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
 
       const response = await DELETE_BY_ID(
         new NextRequest('http://localhost:3000/api/knowledge-store/invalid'),
@@ -197,4 +246,335 @@ describe('/api/knowledge-store', () => {
       expect(response.status).toBe(404);
     });
   });
-});
\ No newline at end of file
+
+  describe('GET /api/knowledge-store/[id]/similar', () => {
+    it('should return similar questions for an item', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockKnowledgeStore.findSimilarToItem.mockResolvedValue([]);
+
+      const response = await GET_SIMILAR(
+        new NextRequest('http://localhost:3000/api/knowledge-store/1/similar?limit=3&threshold=0.8'),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockKnowledgeStore.findSimilarToItem).toHaveBeenCalledWith(1, { limit: 3, threshold: 0.8 });
+    });
+
+    it('should return 404 when the item does not exist', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockKnowledgeStore.findSimilarToItem.mockResolvedValue(null);
+
+      const response = await GET_SIMILAR(
+        new NextRequest('http://localhost:3000/api/knowledge-store/999/similar'),
+        { params: Promise.resolve({ id: '999' }) }
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for an out-of-range threshold', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+
+      const response = await GET_SIMILAR(
+        new NextRequest('http://localhost:3000/api/knowledge-store/1/similar?threshold=2'),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockKnowledgeStore.findSimilarToItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/knowledge-store/suggestions', () => {
+    const suggestionsRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/knowledge-store/suggestions', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+
+    it('should return 401 if user is not authenticated', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+      const response = await SUGGESTIONS(suggestionsRequest({ question: 'How do I query incidents?' }));
+
+      expect(response.status).toBe(401);
+      expect(mockClient.generateEmbedding).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an empty question', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+
+      const response = await SUGGESTIONS(suggestionsRequest({ question: '   ' }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should embed the question and search the closest stored questions', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockClient.generateEmbedding.mockResolvedValue([0.1, 0.2]);
+      mockKnowledgeStore.findSimilar.mockResolvedValue([]);
+
+      const response = await SUGGESTIONS(suggestionsRequest({ question: ' How do I query incidents? ' }));
+
+      expect(response.status).toBe(200);
+      expect(mockClient.generateEmbedding).toHaveBeenCalledWith('How do I query incidents?');
+      expect(mockKnowledgeStore.findSimilar).toHaveBeenCalledWith([0.1, 0.2], { limit: 3, threshold: 0.8 });
+    });
+
+    it('should return 502 when no embedding could be generated', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockClient.generateEmbedding.mockResolvedValue(null);
+
+      const response = await SUGGESTIONS(suggestionsRequest({ question: 'How do I query incidents?' }));
+
+      expect(response.status).toBe(502);
+      expect(mockKnowledgeStore.findSimilar).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/knowledge-store/[id]/use', () => {
+    it('should count the reuse and return the item', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockKnowledgeStore.incrementUsageCount.mockResolvedValue({ id: 4, answer: 'Stored answer' });
+
+      const response = await USE_ITEM(
+        new NextRequest('http://localhost:3000/api/knowledge-store/4/use', { method: 'POST' }),
+        { params: Promise.resolve({ id: '4' }) }
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockKnowledgeStore.incrementUsageCount).toHaveBeenCalledWith(4);
+    });
+
+    it('should return 404 when the item does not exist', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockKnowledgeStore.incrementUsageCount.mockResolvedValue(null);
+
+      const response = await USE_ITEM(
+        new NextRequest('http://localhost:3000/api/knowledge-store/999/use', { method: 'POST' }),
+        { params: Promise.resolve({ id: '999' }) }
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/knowledge-store/[id]', () => {
+    const storedItem = {
+      id: 1,
+      question: 'How do I query incidents?',
+      answer: 'Use GlideRecord.',
+      category: 'scripting',
+      tags: ['gliderecord'],
+    };
+
+    const putRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/knowledge-store/1', {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    });
+
+    beforeEach(() => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+      mockKnowledgeStore.getItemById.mockResolvedValue(storedItem);
+      mockKnowledgeStore.updateItem.mockResolvedValue(storedItem);
+      mockClient.generateEmbedding.mockResolvedValue([0.3, 0.4]);
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+      const response = await PUT_BY_ID(putRequest(storedItem), { params: Promise.resolve({ id: '1' }) });
+
+      expect(response.status).toBe(403);
+      expect(mockKnowledgeStore.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the answer is missing', async () => {
+      const response = await PUT_BY_ID(putRequest({ ...storedItem, answer: '  ' }), { params: Promise.resolve({ id: '1' }) });
+
+      expect(response.status).toBe(400);
+      expect(mockKnowledgeStore.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the item does not exist', async () => {
+      mockKnowledgeStore.getItemById.mockResolvedValue(null);
+
+      const response = await PUT_BY_ID(putRequest(storedItem), { params: Promise.resolve({ id: '1' }) });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should keep embeddings when only category and tags change', async () => {
+      const response = await PUT_BY_ID(
+        putRequest({ ...storedItem, category: 'general', tags: [' a ', 'a', 'b'] }),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockClient.generateEmbedding).not.toHaveBeenCalled();
+      expect(mockKnowledgeStore.updateItem).toHaveBeenCalledWith(
+        1,
+        { question: storedItem.question, answer: storedItem.answer, category: 'general', tags: ['a', 'b'] },
+        {},
+        'admin'
+      );
+    });
+
+    it('should regenerate the embedding of changed text', async () => {
+      const response = await PUT_BY_ID(
+        putRequest({ ...storedItem, answer: 'Use GlideRecordSecure.' }),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockClient.generateEmbedding).toHaveBeenCalledTimes(1);
+      expect(mockClient.generateEmbedding).toHaveBeenCalledWith('Use GlideRecordSecure.');
+      expect(mockKnowledgeStore.updateItem.mock.calls[0][2]).toEqual({ answer: [0.3, 0.4] });
+    });
+
+    it('should return 409 when the entry was edited by someone else meanwhile', async () => {
+      mockKnowledgeStore.updateItem.mockRejectedValue(new KnowledgeStoreEditConflictError('answer'));
+
+      const response = await PUT_BY_ID(
+        putRequest({ ...storedItem, question: 'How do I query problems?' }),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should not save when an embedding cannot be generated', async () => {
+      mockClient.generateEmbedding.mockResolvedValue(null);
+
+      const response = await PUT_BY_ID(
+        putRequest({ ...storedItem, question: 'How do I query problems?' }),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(502);
+      expect(mockKnowledgeStore.updateItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/knowledge-store/[id]/history', () => {
+    it('should return the previous versions of an entry', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true });
+      mockKnowledgeStore.getItemHistory.mockResolvedValue([]);
+
+      const response = await GET_HISTORY(
+        new NextRequest('http://localhost:3000/api/knowledge-store/1/history'),
+        { params: Promise.resolve({ id: '1' }) }
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockKnowledgeStore.getItemHistory).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('GET /api/knowledge-store/export', () => {
+    const exportedItem = {
+      id: 1,
+      question: 'How do I query incidents?',
+      answer: 'Use GlideRecord.',
+      question_embedding: null,
+      answer_embedding: null,
+      category: 'scripting',
+      tags: ['gliderecord'],
+      quality_score: 0,
+      usage_count: 0,
+      created_at: new Date('2025-01-01T00:00:00Z'),
+      updated_at: new Date('2025-01-01T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+      mockKnowledgeStore.getAllItems.mockResolvedValue([exportedItem]);
+    });
+
+    it('should download a CSV file for the category', async () => {
+      const response = await EXPORT(new NextRequest(
+        'http://localhost:3000/api/knowledge-store/export?format=csv&category=scripting&include_embeddings=true'
+      ));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+      expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="knowledge-store-.+\.csv"$/);
+      expect(mockKnowledgeStore.getAllItems).toHaveBeenCalledWith({ category: 'scripting', includeEmbeddings: true });
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await EXPORT(new NextRequest('http://localhost:3000/api/knowledge-store/export?format=xml'));
+
+      expect(response.status).toBe(400);
+      expect(mockKnowledgeStore.getAllItems).not.toHaveBeenCalled();
+    });
+
+    it('should reject inherited object keys as a format', async () => {
+      const response = await EXPORT(new NextRequest('http://localhost:3000/api/knowledge-store/export?format=toString'));
+
+      expect(response.status).toBe(400);
+      expect(mockKnowledgeStore.getAllItems).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when not authenticated', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+      const response = await EXPORT(new NextRequest('http://localhost:3000/api/knowledge-store/export'));
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/knowledge-store/import', () => {
+    const importRequest = (content: string, fileName: string, dryRun: boolean) => {
+      const formData = new FormData();
+      formData.append('file', new File([content], fileName));
+      formData.append('dry_run', String(dryRun));
+      // jest.setup.ts replaces the global Request with a stub that cannot read multipart bodies
+      return { formData: async () => formData } as unknown as NextRequest;
+    };
+
+    const jsonl = '{"question":"How do I query incidents?","answer":"Use GlideRecord."}\n';
+
+    beforeEach(() => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+      mockKnowledgeStore.findSimilar.mockResolvedValue([]);
+      mockKnowledgeStore.createItem.mockResolvedValue({ id: 12 });
+      mockClient.generateEmbedding.mockResolvedValue([0.1, 0.2]);
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+      const response = await IMPORT(importRequest(jsonl, 'entries.jsonl', true));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should only validate on a dry run', async () => {
+      const response = await IMPORT(importRequest(jsonl, 'entries.jsonl', true));
+
+      expect(response.status).toBe(200);
+      expect(mockClient.generateEmbedding).toHaveBeenCalledTimes(1);
+      expect(mockKnowledgeStore.findSimilar).toHaveBeenCalledWith([0.1, 0.2], { limit: 1, threshold: 0.95 });
+      expect(mockKnowledgeStore.createItem).not.toHaveBeenCalled();
+    });
+
+    it('should create entries when not a dry run', async () => {
+      const response = await IMPORT(importRequest(jsonl, 'entries.jsonl', false));
+
+      expect(response.status).toBe(200);
+      expect(mockKnowledgeStore.createItem).toHaveBeenCalledWith(
+        { question: 'How do I query incidents?', answer: 'Use GlideRecord.', category: null, tags: [] },
+        { question: [0.1, 0.2], answer: [0.1, 0.2] }
+      );
+    });
+
+    it('should reject unsupported files', async () => {
+      const response = await IMPORT(importRequest('a,b', 'entries.xlsx', true));
+
+      expect(response.status).toBe(400);
+      expect(mockKnowledgeStore.createItem).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/prompt-experiments/route';
+import { PATCH } from '@/app/api/prompt-experiments/[id]/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+
+// Mock the experiment store
+const mockExperiments = {
+  getExperiments: jest.fn(),
+  getExperimentById: jest.fn(),
+  createExperiment: jest.fn(),
+  setStatus: jest.fn(),
+};
+
+jest.mock('@/lib/prompt-experiments', () => ({
+  PromptExperimentManager: jest.fn(() => mockExperiments),
+  isWorkflowPrompt: jest.requireActual('@/lib/prompt-experiments').isWorkflowPrompt,
+}));
+
+const jsonRequest = (url: string, method: string, body: unknown) =>
+  new NextRequest(url, {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const experimentBody = (variants: unknown[]) => ({
+  name: 'Shorter prompt',
+  agent_name: 'orchestration',
+  prompt_type: 'system',
+  variants,
+});
+
+describe('/api/prompt-experiments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+    mockExperiments.getExperiments.mockResolvedValue([]);
+    mockExperiments.createExperiment.mockResolvedValue(3);
+    mockExperiments.getExperimentById.mockResolvedValue({ id: 3 });
+    mockExperiments.setStatus.mockResolvedValue(true);
+  });
+
+  it('should return 403 for members', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/prompt-experiments'));
+
+    expect(response.status).toBe(403);
+    expect(mockExperiments.getExperiments).not.toHaveBeenCalled();
+  });
+
+  it('should create an experiment attributed to the admin', async () => {
+    const response = await POST(jsonRequest('http://localhost:3000/api/prompt-experiments', 'POST', experimentBody([
+      { label: 'A', prompt_content: 'prompt A', weight: 50 },
+      { label: 'B', prompt_content: 'prompt B', weight: 50 },
+    ])));
+
+    expect(response.status).toBe(200);
+    expect(mockExperiments.createExperiment).toHaveBeenCalledWith(
+      expect.objectContaining({ agent_name: 'orchestration', prompt_type: 'system' }),
+      'admin'
+    );
+  });
+
+  it('should reject prompts the workflow does not read', async () => {
+    const variants = [
+      { label: 'A', prompt_content: 'prompt A', weight: 1 },
+      { label: 'B', prompt_content: 'prompt B', weight: 1 },
+    ];
+
+    for (const body of [
+      { ...experimentBody(variants), agent_name: 'coder_large' },
+      { ...experimentBody(variants), prompt_type: 'base' },
+    ]) {
+      const response = await POST(jsonRequest('http://localhost:3000/api/prompt-experiments', 'POST', body));
+      expect(response.status).toBe(400);
+    }
+    expect(mockExperiments.createExperiment).not.toHaveBeenCalled();
+  });
+
+  it('should require at least two variants', async () => {
+    const response = await POST(jsonRequest('http://localhost:3000/api/prompt-experiments', 'POST', experimentBody([
+      { label: 'A', prompt_content: 'prompt A', weight: 1 },
+    ])));
+
+    expect(response.status).toBe(400);
+    expect(mockExperiments.createExperiment).not.toHaveBeenCalled();
+  });
+
+  it('should reject duplicate variant labels', async () => {
+    const response = await POST(jsonRequest('http://localhost:3000/api/prompt-experiments', 'POST', experimentBody([
+      { label: 'A', prompt_content: 'prompt A', weight: 1 },
+      { label: 'A', prompt_content: 'prompt B', weight: 1 },
+    ])));
+
+    expect(response.status).toBe(400);
+    expect(mockExperiments.createExperiment).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when another experiment for the prompt is running', async () => {
+    mockExperiments.setStatus.mockRejectedValue(
+      new Error('duplicate key value violates unique constraint "idx_prompt_experiments_one_running"')
+    );
+
+    const response = await PATCH(
+      jsonRequest('http://localhost:3000/api/prompt-experiments/3', 'PATCH', { status: 'running' }),
+      routeParams('3')
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should return 404 when stopping an experiment that is not running', async () => {
+    mockExperiments.setStatus.mockResolvedValue(false);
+
+    const response = await PATCH(
+      jsonRequest('http://localhost:3000/api/prompt-experiments/3', 'PATCH', { status: 'stopped' }),
+      routeParams('3')
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
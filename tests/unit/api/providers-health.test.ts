@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/providers/health/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+
+const activeProvider = { id: 1, name: 'openai', display_name: 'OpenAI', endpoint: 'https://api.openai.com/v1', is_active: true };
+
+const mockProviders = {
+  getActiveProviders: jest.fn(),
+};
+
+jest.mock('@/lib/providers', () => ({
+  ProviderManager: jest.fn(() => mockProviders),
+}));
+
+// Mock the health monitor
+const mockMonitor = {
+  startPolling: jest.fn(),
+  isStale: jest.fn(),
+  probeAll: jest.fn(),
+  getHealth: jest.fn(),
+};
+
+jest.mock('@/lib/provider-health', () => ({
+  ProviderHealthMonitor: { getInstance: jest.fn(() => mockMonitor) },
+}));
+
+const healthRequest = (query = '') => new NextRequest(`http://localhost:3000/api/providers/health${query}`);
+
+describe('/api/providers/health', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockProviders.getActiveProviders.mockResolvedValue([activeProvider]);
+    mockMonitor.isStale.mockReturnValue(false);
+    mockMonitor.probeAll.mockResolvedValue(undefined);
+    mockMonitor.getHealth.mockReturnValue({ provider_id: 1, status: 'green' });
+  });
+
+  it('should return cached health without probing or starting the poller', async () => {
+    const response = await GET(healthRequest());
+
+    expect(response.status).toBe(200);
+    expect(mockMonitor.getHealth).toHaveBeenCalledWith(activeProvider);
+    expect(mockMonitor.probeAll).not.toHaveBeenCalled();
+    expect(mockMonitor.startPolling).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an on-demand refresh from a member', async () => {
+    const response = await GET(healthRequest('?refresh=true'));
+
+    expect(response.status).toBe(403);
+    expect(mockMonitor.probeAll).not.toHaveBeenCalled();
+  });
+
+  it('should probe the providers when an admin refreshes', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+
+    const response = await GET(healthRequest('?refresh=true'));
+
+    expect(response.status).toBe(200);
+    expect(mockMonitor.probeAll).toHaveBeenCalledWith([activeProvider]);
+  });
+
+  it('should probe stale results for any user', async () => {
+    mockMonitor.isStale.mockReturnValue(true);
+
+    const response = await GET(healthRequest());
+
+    expect(response.status).toBe(200);
+    expect(mockMonitor.probeAll).toHaveBeenCalledWith([activeProvider]);
+  });
+
+  it('should reject unauthenticated requests', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+    const response = await GET(healthRequest());
+
+    expect(response.status).toBe(401);
+  });
+});
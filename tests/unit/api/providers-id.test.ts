@@ -0,0 +1,168 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { PATCH, PUT, DELETE } from '@/app/api/providers/[id]/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+
+// Mock the provider store
+const mockProviders = {
+  getProviderById: jest.fn(),
+  getProviderModelCount: jest.fn(),
+  updateProvider: jest.fn(),
+  deleteProvider: jest.fn(),
+};
+
+jest.mock('@/lib/providers', () => ({
+  ProviderManager: jest.fn(() => mockProviders),
+}));
+
+const openrouter = {
+  id: 1,
+  name: 'openrouter',
+  display_name: 'OpenRouter',
+  endpoint: 'http://n8n:5678/webhook/openrouter-chat',
+  is_active: true,
+  priority: 100,
+};
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const jsonRequest = (method: string, body: unknown) =>
+  new NextRequest('http://localhost:3000/api/providers/1', {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('/api/providers/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+    mockProviders.getProviderById.mockImplementation(async (id: number) =>
+      id === 1 ? openrouter : id === 2 ? { ...openrouter, id: 2, name: 'huggingface' } : null
+    );
+    mockProviders.getProviderModelCount.mockResolvedValue(0);
+    mockProviders.updateProvider.mockResolvedValue(openrouter);
+    mockProviders.deleteProvider.mockResolvedValue(true);
+  });
+
+  describe('PATCH', () => {
+    it('should return 401 when not authenticated', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+      const response = await PATCH(jsonRequest('PATCH', { priority: 5 }), params('1'));
+
+      expect(response.status).toBe(401);
+      expect(mockProviders.updateProvider).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for members', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+      const response = await PATCH(jsonRequest('PATCH', { priority: 5 }), params('1'));
+
+      expect(response.status).toBe(403);
+      expect(mockProviders.updateProvider).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid id', async () => {
+      const response = await PATCH(jsonRequest('PATCH', { priority: 5 }), params('abc'));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should only pass known fields to the update', async () => {
+      const response = await PATCH(
+        jsonRequest('PATCH', { priority: 5, rate_limit_per_minute: null, created_at: 'now', 'id = 1; --': 1 }),
+        params('1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockProviders.updateProvider).toHaveBeenCalledWith(1, { priority: 5, rate_limit_per_minute: null });
+    });
+
+    it('should reject an invalid rate limit', async () => {
+      const response = await PATCH(jsonRequest('PATCH', { rate_limit_per_minute: -1 }), params('1'));
+
+      expect(response.status).toBe(400);
+      expect(mockProviders.updateProvider).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the provider does not exist', async () => {
+      mockProviders.updateProvider.mockResolvedValue(null);
+
+      const response = await PATCH(jsonRequest('PATCH', { is_active: false }), params('99'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT', () => {
+    it('should require name, display_name and endpoint', async () => {
+      const response = await PUT(jsonRequest('PUT', { display_name: 'OpenRouter' }), params('1'));
+
+      expect(response.status).toBe(400);
+      expect(mockProviders.updateProvider).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the name is taken', async () => {
+      mockProviders.updateProvider.mockRejectedValue(new Error('duplicate key value violates unique constraint'));
+
+      const response = await PUT(
+        jsonRequest('PUT', { name: 'huggingface', display_name: 'HF', endpoint: 'http://n8n/hf' }),
+        params('1')
+      );
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should refuse to delete a provider that models still use', async () => {
+      mockProviders.getProviderModelCount.mockResolvedValue(3);
+
+      const response = await DELETE(new NextRequest('http://localhost:3000/api/providers/1', { method: 'DELETE' }), params('1'));
+
+      expect(response.status).toBe(409);
+      expect(mockProviders.deleteProvider).not.toHaveBeenCalled();
+    });
+
+    it('should move models to another provider before deleting', async () => {
+      const response = await DELETE(
+        new NextRequest('http://localhost:3000/api/providers/1?reassign_to=2', { method: 'DELETE' }),
+        params('1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockProviders.deleteProvider).toHaveBeenCalledWith(1, 2);
+    });
+
+    it('should reject reassigning to the provider being deleted', async () => {
+      const response = await DELETE(
+        new NextRequest('http://localhost:3000/api/providers/1?reassign_to=1', { method: 'DELETE' }),
+        params('1')
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockProviders.deleteProvider).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the provider does not exist', async () => {
+      const response = await DELETE(new NextRequest('http://localhost:3000/api/providers/99', { method: 'DELETE' }), params('99'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
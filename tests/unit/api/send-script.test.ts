@@ -0,0 +1,314 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/send-script/route';
+import { MockServiceNowServer, startMockServiceNow } from '../../utils/mock-servicenow-server';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+const mockClient = {
+  createTask: jest.fn(),
+};
+
+jest.mock('@/lib/n8n-client', () => ({
+  __esModule: true,
+  default: { getInstance: () => mockClient },
+}));
+
+const mockSettings = {
+  getSetting: jest.fn(),
+};
+
+jest.mock('@/lib/database', () => ({
+  UserSettingsManager: jest.fn(() => mockSettings),
+}));
+
+const queuedItem = { id: 12, correlation_id: '6f1c2a9e-8d4b-4c1e-9a7f-3b2d5e8c1a40', state: 'new' };
+
+const mockQueue = {
+  enqueue: jest.fn(),
+  markProcessing: jest.fn(),
+  markCompleted: jest.fn(),
+  markFailed: jest.fn(),
+};
+
+jest.mock('@/lib/integration-queue', () => ({
+  IntegrationQueueManager: jest.fn(() => mockQueue),
+}));
+
+const sendRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/send-script', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('/api/send-script', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+    mockClient.createTask.mockResolvedValue({ success: true });
+    mockSettings.getSetting.mockResolvedValue('');
+    mockQueue.enqueue.mockResolvedValue(queuedItem);
+    mockQueue.markProcessing.mockResolvedValue({ ...queuedItem, state: 'processing' });
+    mockQueue.markCompleted.mockResolvedValue({ ...queuedItem, state: 'completed' });
+    mockQueue.markFailed.mockResolvedValue({ ...queuedItem, state: 'failed' });
+  });
+
+  it('should queue a scheduled job with its metadata', async () => {
+    const response = await POST(sendRequest({
+      payload: 'gs.info("nightly");\n',
+      type: 'scheduled_job',
+      target_table: 'sysauto_script',
+      metadata: { name: 'Nightly cleanup', when: 'weekly', run_time: '02:30' },
+    }));
+
+    const request = {
+      payload: 'gs.info("nightly");',
+      type: 'scheduled_job',
+      target_table: 'sysauto_script',
+      metadata: { name: 'Nightly cleanup', when: 'weekly', run_time: '02:30', active: true },
+    };
+    expect(response.status).toBe(201);
+    expect(mockQueue.enqueue).toHaveBeenCalledWith(request, 'admin', null);
+    expect(mockClient.createTask).toHaveBeenCalledWith({
+      ...request,
+      correlation_id: queuedItem.correlation_id,
+      created_by: 'admin',
+    });
+    expect(mockQueue.markProcessing).toHaveBeenCalledWith(12);
+  });
+
+  it('should reject a type and table combination outside the registry', async () => {
+    const response = await POST(sendRequest({ payload: 'x', type: 'business_rule', target_table: 'sys_ui_action' }));
+
+    expect(response.status).toBe(400);
+    expect(mockClient.createTask).not.toHaveBeenCalled();
+    expect(mockQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid metadata', async () => {
+    const response = await POST(sendRequest({
+      payload: 'x',
+      type: 'acl',
+      target_table: 'sys_security_acl',
+      metadata: { table: 'incident', operation: 'execute' },
+    }));
+
+    expect(response.status).toBe(400);
+    expect(mockClient.createTask).not.toHaveBeenCalled();
+  });
+
+  it('should reject a business rule without its record fields', async () => {
+    const response = await POST(sendRequest({
+      payload: '(function executeRule(current, previous) {})(current, previous);',
+      type: 'business_rule',
+      target_table: 'sys_script',
+      metadata: { table: 'incident' },
+    }));
+
+    expect(response.status).toBe(400);
+    expect(mockClient.createTask).not.toHaveBeenCalled();
+  });
+
+  it('should require an admin', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await POST(sendRequest({ payload: 'x', type: 'fix_script', target_table: 'sys_script_fix', metadata: { name: 'Fix' } }));
+
+    expect(response.status).toBe(403);
+    expect(mockClient.createTask).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the task cannot be created', async () => {
+    mockClient.createTask.mockResolvedValue({ success: false, error: 'Webhook failed' });
+
+    const response = await POST(sendRequest({ payload: 'x', type: 'fix_script', target_table: 'sys_script_fix', metadata: { name: 'Fix' } }));
+
+    expect(response.status).toBe(500);
+    expect(mockQueue.markFailed).toHaveBeenCalledWith(12, 'Webhook failed');
+  });
+
+  it('should refuse a script with analysis errors when the user blocks unsafe scripts', async () => {
+    mockSettings.getSetting.mockImplementation(async (_username: string, key: string) => key === 'block_unsafe_scripts');
+
+    const response = await POST(sendRequest({
+      payload: '(function executeRule(current, previous) {\n  current.update();\n})(current, previous);',
+      type: 'business_rule',
+      target_table: 'sys_script',
+      metadata: { name: 'Recalculate', table: 'incident', when: 'before', order: 100 },
+    }));
+
+    expect(response.status).toBe(422);
+    expect(mockSettings.getSetting).toHaveBeenCalledWith('admin', 'block_unsafe_scripts');
+    expect(mockQueue.enqueue).not.toHaveBeenCalled();
+    expect(mockClient.createTask).not.toHaveBeenCalled();
+  });
+
+  it('should send a script with analysis errors when blocking is off', async () => {
+    const response = await POST(sendRequest({
+      payload: 'var broken = ;',
+      type: 'fix_script',
+      target_table: 'sys_script_fix',
+      metadata: { name: 'Fix' },
+    }));
+
+    expect(response.status).toBe(201);
+    expect(mockQueue.enqueue).toHaveBeenCalled();
+  });
+
+  describe('with instance profiles', () => {
+    const profiles = [
+      { id: 'acme-dev', name: 'ACME Dev', url: 'https://acmedev.service-now.com', environment: 'dev', allow_push: true },
+      { id: 'acme-prod', name: 'ACME Prod', url: 'https://acme.service-now.com', environment: 'prod', allow_push: true },
+      { id: 'acme-test', name: 'ACME Test', url: 'https://acmetest.service-now.com', environment: 'test', allow_push: false },
+    ];
+    const fixScript = { payload: 'gs.info("fix");', type: 'fix_script', target_table: 'sys_script_fix', metadata: { name: 'Fix' } };
+
+    beforeEach(() => {
+      mockSettings.getSetting.mockImplementation(async (_username: string, key: string) => ({
+        servicenow_instances: profiles,
+        active_servicenow_instance: 'acme-dev',
+      } as Record<string, unknown>)[key] ?? '');
+    });
+
+    it('should send to the active profile', async () => {
+      const response = await POST(sendRequest(fixScript));
+
+      expect(response.status).toBe(201);
+      expect(mockQueue.enqueue).toHaveBeenCalledWith(expect.anything(), 'admin', profiles[0]);
+      expect(mockClient.createTask).toHaveBeenCalledWith(expect.objectContaining({ instance_url: 'https://acmedev.service-now.com' }));
+    });
+
+    it('should refuse a production push until it is confirmed', async () => {
+      const unconfirmed = await POST(sendRequest({ ...fixScript, instance_id: 'acme-prod' }));
+      expect(unconfirmed.status).toBe(428);
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+
+      const confirmed = await POST(sendRequest({ ...fixScript, instance_id: 'acme-prod', confirm_production: true }));
+      expect(confirmed.status).toBe(201);
+      expect(mockQueue.enqueue).toHaveBeenCalledWith(expect.anything(), 'admin', profiles[1]);
+    });
+
+    it('should refuse a profile that does not allow pushes', async () => {
+      const response = await POST(sendRequest({ ...fixScript, instance_id: 'acme-test' }));
+
+      expect(response.status).toBe(403);
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should judge modern syntax by the scope of the target profile when blocking unsafe scripts', async () => {
+      mockSettings.getSetting.mockImplementation(async (_username: string, key: string) => ({
+        servicenow_instances: [profiles[0], { ...profiles[0], id: 'acme-app', scope: 'x_acme_app' }],
+        active_servicenow_instance: 'acme-dev',
+        block_unsafe_scripts: true,
+      } as Record<string, unknown>)[key] ?? '');
+      const modernScript = { ...fixScript, payload: 'const message = "fix";\ngs.info(message);' };
+
+      expect((await POST(sendRequest(modernScript))).status).toBe(422);
+      expect((await POST(sendRequest({ ...modernScript, instance_id: 'acme-app' }))).status).toBe(201);
+    });
+
+    it('should refuse a credentials reference configured for another instance', async () => {
+      const originalEnv = process.env;
+      process.env = { ...originalEnv, SERVICENOW_ACME_PROD_URL: 'https://acme.service-now.com', SERVICENOW_ACME_PROD_USERNAME: 'admin', SERVICENOW_ACME_PROD_PASSWORD: 'secret' };
+      mockSettings.getSetting.mockImplementation(async (_username: string, key: string) => ({
+        servicenow_instances: [{ ...profiles[0], credentials_ref: 'ACME_PROD' }],
+      } as Record<string, unknown>)[key] ?? '');
+
+      try {
+        const response = await POST(sendRequest(fixScript));
+
+        expect(response.status).toBe(409);
+        expect(mockClient.createTask).not.toHaveBeenCalled();
+        expect(mockQueue.markFailed).toHaveBeenCalledWith(12, expect.stringContaining('belongs to https://acme.service-now.com'));
+      } finally {
+        process.env = originalEnv;
+      }
+    });
+
+    it('should reject an unknown profile', async () => {
+      const response = await POST(sendRequest({ ...fixScript, instance_id: 'acme-uat' }));
+
+      expect(response.status).toBe(400);
+      expect(mockClient.createTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with ServiceNow credentials configured', () => {
+    let serviceNow: MockServiceNowServer;
+    const originalEnv = process.env;
+
+    beforeAll(async () => {
+      serviceNow = await startMockServiceNow();
+    });
+
+    afterAll(async () => {
+      await serviceNow.close();
+    });
+
+    beforeEach(() => {
+      process.env = {
+        ...originalEnv,
+        NEXT_PUBLIC_SERVICENOW_DEFAULT_ENVIRONMENT: 'dev',
+        SERVICENOW_LOCAL_URL: serviceNow.url,
+        SERVICENOW_LOCAL_USERNAME: 'admin',
+        SERVICENOW_LOCAL_PASSWORD: 'secret'
+      };
+      mockSettings.getSetting.mockResolvedValue(serviceNow.url);
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should write the record through the Table API instead of the n8n queue', async () => {
+      const response = await POST(sendRequest({
+        payload: 'gs.info("fix");',
+        type: 'fix_script',
+        target_table: 'sys_script_fix',
+        metadata: { name: 'Direct fix' },
+      }));
+
+      expect(response.status).toBe(201);
+      expect(mockClient.createTask).not.toHaveBeenCalled();
+      expect(serviceNow.tables.get('sys_script_fix')).toEqual([
+        expect.objectContaining({ name: 'Direct fix', script: 'gs.info("fix");' }),
+      ]);
+      expect(mockQueue.markCompleted).toHaveBeenCalledWith(12, expect.objectContaining({ table: 'sys_script_fix', action: 'created' }));
+    });
+
+    it('should treat the default instance as production unless configured otherwise', async () => {
+      delete process.env.NEXT_PUBLIC_SERVICENOW_DEFAULT_ENVIRONMENT;
+
+      const response = await POST(sendRequest({ payload: 'x', type: 'fix_script', target_table: 'sys_script_fix', metadata: { name: 'Fix' } }));
+
+      expect(response.status).toBe(428);
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockQueue.markCompleted).not.toHaveBeenCalled();
+    });
+
+    it('should return 502 when ServiceNow rejects the request', async () => {
+      serviceNow.failNext(403, 'Operation Failed', 'ACL Exception Insert Failed due to security constraints');
+
+      const response = await POST(sendRequest({ payload: 'x', type: 'fix_script', target_table: 'sys_script_fix', metadata: { name: 'Denied' } }));
+
+      expect(response.status).toBe(502);
+      expect(mockClient.createTask).not.toHaveBeenCalled();
+      expect(mockQueue.markFailed).toHaveBeenCalledWith(12, expect.stringContaining('ACL Exception Insert Failed'));
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/submit-question-stream/route';
+import { ProviderRateLimitError } from '@/lib/rate-limiter';
+import { SessionKeyInUseError } from '@/lib/stream-registry';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+jest.mock('@/lib/database', () => ({
+  UserSettingsManager: jest.fn(() => ({
+    getSetting: jest.fn().mockResolvedValue(7),
+  })),
+}));
+
+jest.mock('@/lib/streaming-response-handler', () => ({
+  StreamingResponseHandler: {
+    createStreamingResponse: jest.fn(async () => 'stream'),
+    getStreamingHeaders: jest.fn(() => ({ 'Content-Type': 'text/event-stream' })),
+  },
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+import { StreamingResponseHandler } from '@/lib/streaming-response-handler';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+const mockCreateStreamingResponse = StreamingResponseHandler.createStreamingResponse as jest.Mock;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+const createRequest = () =>
+  new NextRequest('http://localhost:3000/api/submit-question-stream', {
+    method: 'POST',
+    body: JSON.stringify({
+      question: 'How do I create an incident?',
+      type: 'documentation',
+      sessionkey: 'session_1700000000000_abc123',
+      searching: false,
+      aiModel: 'anthropic/claude-sonnet-4',
+    }),
+  });
+
+describe('/api/submit-question-stream rate limiting', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+  });
+
+  it('should stream once a provider has taken the request', async () => {
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(200);
+    expect(mockCreateStreamingResponse).toHaveBeenCalledWith(expect.objectContaining({ question: 'How do I create an incident?' }), 'member', 7);
+  });
+
+  it('should return 429 with Retry-After when every provider is at its limit', async () => {
+    mockCreateStreamingResponse.mockRejectedValueOnce(new ProviderRateLimitError('OpenRouter', 12));
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('12');
+  });
+
+  it("should return 409 for a session key of another user's stream", async () => {
+    mockCreateStreamingResponse.mockRejectedValueOnce(new SessionKeyInUseError('session_1700000000000_abc123'));
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should not turn other failures into a rate limit', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockCreateStreamingResponse.mockRejectedValueOnce(new Error('boom'));
+
+    const response = await POST(createRequest());
+
+    expect(response.status).toBe(500);
+  });
+});
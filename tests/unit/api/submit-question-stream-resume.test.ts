@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/submit-question-stream/resume/route';
+import { StreamEventBuffer } from '@/lib/stream-event-buffer';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+const createRequest = (query: string, headers: Record<string, string> = {}) =>
+  new NextRequest(`http://localhost:3000/api/submit-question-stream/resume?${query}`, { headers });
+
+describe('/api/submit-question-stream/resume', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 401 if user is not authenticated', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+    const response = await GET(createRequest('sessionkey=session_1700000000000_abc123&lastEventId=0'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject malformed session keys', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET(createRequest('sessionkey=bogus&lastEventId=0'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject an invalid lastEventId', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET(createRequest('sessionkey=session_1700000000000_abc123&lastEventId=abc'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown or expired sessions', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET(createRequest('sessionkey=session_1700000000404_abc123&lastEventId=3'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 404 for a session owned by another user', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    StreamEventBuffer.getInstance().open('session_1700000000001_abc123', 'someone-else', jest.fn());
+
+    const response = await GET(createRequest('sessionkey=session_1700000000001_abc123&lastEventId=0'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should resume a buffered stream for its owner using Last-Event-ID', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    const stream = StreamEventBuffer.getInstance().open('session_1700000000002_abc123', 'member', jest.fn());
+    stream.append('{"type":"chunk","content":"Hello"}');
+
+    const response = await GET(createRequest('sessionkey=session_1700000000002_abc123', { 'Last-Event-ID': '1' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/usage/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+
+// Mock the usage store
+const mockUsage = {
+  getUsageReport: jest.fn(),
+};
+
+jest.mock('@/lib/usage', () => ({
+  UsageManager: jest.fn(() => mockUsage),
+}));
+
+const emptyTotals = { requests: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0 };
+
+describe('/api/usage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUsage.getUsageReport.mockResolvedValue({
+      totals: emptyTotals,
+      by_day: [],
+      by_model: [],
+      by_agent: [],
+      by_request_type: [],
+    });
+  });
+
+  it('should return 401 when not authenticated', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/usage'));
+
+    expect(response.status).toBe(401);
+    expect(mockUsage.getUsageReport).not.toHaveBeenCalled();
+  });
+
+  it('should report only the signed-in user by default', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/usage?days=7'));
+
+    expect(response.status).toBe(200);
+    const options = mockUsage.getUsageReport.mock.calls[0][0];
+    expect(options.userId).toBe('member');
+    expect(options.endDate.getTime() - options.startDate.getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should forbid members from reporting on all users', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/usage?scope=all'));
+
+    expect(response.status).toBe(403);
+    expect(mockUsage.getUsageReport).not.toHaveBeenCalled();
+  });
+
+  it('should let admins report on all users', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/usage?scope=all'));
+
+    expect(response.status).toBe(200);
+    expect(mockUsage.getUsageReport.mock.calls[0][0].userId).toBeNull();
+  });
+
+  it('should reject an invalid period', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/usage?days=0'));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { PATCH } from '@/app/api/users/[id]/route';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+
+// Mock the user store
+const mockUsers = {
+  checkPassword: jest.fn(),
+  resetPassword: jest.fn(),
+  setUserRole: jest.fn(),
+  setUserActive: jest.fn(),
+};
+
+jest.mock('@/lib/users', () => ({
+  MIN_PASSWORD_LENGTH: 8,
+  UserManager: jest.fn(() => mockUsers),
+}));
+
+const storedMember = { id: 2, username: 'member', role: 'member', is_active: true };
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const patchRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/users/2', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('/api/users/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+    mockUsers.checkPassword.mockResolvedValue(true);
+    mockUsers.resetPassword.mockResolvedValue(storedMember);
+  });
+
+  it('should let a member change their password with the current one', async () => {
+    const response = await PATCH(patchRequest({ password: 'new-password', current_password: 'old-password' }), params('2'));
+
+    expect(response.status).toBe(200);
+    expect(mockUsers.checkPassword).toHaveBeenCalledWith(2, 'old-password');
+    expect(mockUsers.resetPassword).toHaveBeenCalledWith(2, 'new-password');
+  });
+
+  it('should require the current password from a member', async () => {
+    const response = await PATCH(patchRequest({ password: 'new-password' }), params('2'));
+
+    expect(response.status).toBe(400);
+    expect(mockUsers.resetPassword).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a wrong current password', async () => {
+    mockUsers.checkPassword.mockResolvedValue(false);
+
+    const response = await PATCH(patchRequest({ password: 'new-password', current_password: 'guess' }), params('2'));
+
+    expect(response.status).toBe(403);
+    expect(mockUsers.resetPassword).not.toHaveBeenCalled();
+  });
+
+  it('should let an admin reset a password without the current one', async () => {
+    mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+
+    const response = await PATCH(patchRequest({ password: 'new-password' }), params('2'));
+
+    expect(response.status).toBe(200);
+    expect(mockUsers.checkPassword).not.toHaveBeenCalled();
+    expect(mockUsers.resetPassword).toHaveBeenCalledWith(2, 'new-password');
+  });
+
+  it('should not let a member change another account', async () => {
+    const response = await PATCH(patchRequest({ password: 'new-password', current_password: 'old-password' }), params('3'));
+
+    expect(response.status).toBe(403);
+    expect(mockUsers.resetPassword).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import AgentActivityTimeline from '@/components/AgentActivityTimeline';
+import { AgentActivity } from '@/types';
+
+describe('AgentActivityTimeline', () => {
+  const activities: AgentActivity[] = [
+    {
+      agent: 'orchestration',
+      status: 'done',
+      startedAt: '2024-01-01T00:00:00Z',
+      toolCalls: [{ id: '1', tool: 'knowledge_store', status: 'success' }],
+      usage: { promptTokens: 1000, completionTokens: 200, totalTokens: 1200 },
+    },
+    {
+      agent: 'coder_small',
+      status: 'running',
+      startedAt: '2024-01-01T00:00:01Z',
+      toolCalls: [],
+    },
+  ];
+
+  it('should render nothing without activity', () => {
+    const { container } = render(<AgentActivityTimeline activities={[]} isStreaming={true} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should list agents by display name with their tool calls', () => {
+    render(<AgentActivityTimeline activities={activities} isStreaming={true} />);
+
+    expect(screen.getByText('Orchestration Agent')).toBeInTheDocument();
+    expect(screen.getByText('Coder Agent (Small)')).toBeInTheDocument();
+    expect(screen.getByText('knowledge_store')).toBeInTheDocument();
+    expect(screen.getByText('running')).toBeInTheDocument();
+    expect(screen.getByText(/2 agents, 1 tool call/)).toBeInTheDocument();
+  });
+
+  it('should show agents as done once streaming has finished', () => {
+    render(<AgentActivityTimeline activities={activities} isStreaming={false} />);
+
+    expect(screen.queryByText('running')).not.toBeInTheDocument();
+    expect(screen.getAllByText('done')).toHaveLength(2);
+  });
+
+  it('should collapse the timeline', () => {
+    render(<AgentActivityTimeline activities={activities} isStreaming={true} />);
+
+    fireEvent.click(screen.getByLabelText('Toggle agent activity'));
+
+    expect(screen.queryByText('Orchestration Agent')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,66 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import AnswerRating from '@/components/AnswerRating';
+
+describe('AnswerRating', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should save a star rating', async () => {
+    const onRate = jest.fn().mockResolvedValue(undefined);
+    render(<AnswerRating onRate={onRate} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Rate 4 stars'));
+    });
+
+    expect(onRate).toHaveBeenCalledWith(4, null);
+    expect(screen.getByLabelText('Good answer')).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should count thumbs down as one star', async () => {
+    const onRate = jest.fn().mockResolvedValue(undefined);
+    render(<AnswerRating onRate={onRate} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Poor answer'));
+    });
+
+    expect(onRate).toHaveBeenCalledWith(1, null);
+  });
+
+  it('should roll the rating back when saving fails', async () => {
+    const onRate = jest.fn().mockRejectedValue(new Error('Failed to save rating'));
+    render(<AnswerRating onRate={onRate} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Good answer'));
+    });
+
+    expect(screen.getByLabelText('Good answer')).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.getByText('Failed to save rating')).toBeInTheDocument();
+  });
+
+  it('should send a comment with the rating', async () => {
+    const onRate = jest.fn().mockResolvedValue(undefined);
+    render(<AnswerRating onRate={onRate} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByLabelText('Rate 2 stars'));
+    });
+    fireEvent.click(screen.getByLabelText('Add a comment'));
+    fireEvent.change(screen.getByLabelText('Rating comment'), { target: { value: 'Missing the ACL step' } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+
+    expect(onRate).toHaveBeenLastCalledWith(2, 'Missing the ACL step');
+    expect(screen.getByText('Thanks for the feedback')).toBeInTheDocument();
+  });
+});
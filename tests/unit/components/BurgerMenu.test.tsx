@@ -147,6 +147,25 @@ describe('BurgerMenu', () => {
     expect(mockPush).toHaveBeenCalledWith('/knowledge-store');
   });
 
+  it('should navigate to deployments when My Deployments is clicked', () => {
+    render(<BurgerMenu />);
+    
+    const burgerMenuButton = screen.getByRole('button');
+    
+    // Open menu
+    act(() => {
+      fireEvent.click(burgerMenuButton);
+    });
+    
+    // Click My Deployments
+    const deploymentsButton = screen.getByText('My Deployments');
+    act(() => {
+      fireEvent.click(deploymentsButton);
+    });
+    
+    expect(mockPush).toHaveBeenCalledWith('/deployments');
+  });
+
   it('should navigate to manual when User Manual is clicked', () => {
     render(<BurgerMenu />);
     
@@ -179,6 +198,7 @@ describe('BurgerMenu', () => {
     // Check all menu items are present
     expect(screen.getByText('Settings')).toBeInTheDocument();
     expect(screen.getByText('Knowledge Store')).toBeInTheDocument();
+    expect(screen.getByText('My Deployments')).toBeInTheDocument();
     expect(screen.getByText('User Manual')).toBeInTheDocument();
     expect(screen.getByText('Sign Out')).toBeInTheDocument();
   });
@@ -200,4 +200,44 @@ describe('KnowledgeStoreItem', () => {
     expect(screen.getByText('How to create a business rule in ServiceNow?')).toBeInTheDocument();
     expect(screen.queryByText('scripting')).not.toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should save edits with tags split on commas', async () => {
+    const mockOnUpdate = jest.fn().mockResolvedValue(undefined);
+
+    render(
+      <KnowledgeStoreItem
+        item={mockItem}
+        onSelect={mockOnSelect}
+        onUpdate={mockOnUpdate}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle('Edit entry'));
+    fireEvent.change(screen.getByLabelText('Answer'), { target: { value: 'Use Flow Designer instead.' } });
+    fireEvent.change(screen.getByLabelText('Tags'), { target: { value: 'flow, , business-rule ' } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Save changes'));
+    });
+
+    expect(mockOnUpdate).toHaveBeenCalledWith(1, {
+      question: 'How to create a business rule in ServiceNow?',
+      answer: 'Use Flow Designer instead.',
+      category: 'scripting',
+      tags: ['flow', 'business-rule'],
+    });
+    expect(screen.queryByText('Save changes')).not.toBeInTheDocument();
+  });
+
+  it('should not render edit button when onUpdate is not provided', () => {
+    render(
+      <KnowledgeStoreItem
+        item={mockItem}
+        onDelete={mockOnDelete}
+        onSelect={mockOnSelect}
+      />
+    );
+
+    expect(screen.queryByTitle('Edit entry')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,151 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import SendScriptModal from '@/components/SendScriptModal';
+import type { ServiceNowInstanceProfile } from '@/types';
+
+const prodInstance: ServiceNowInstanceProfile = { id: 'acme-prod', name: 'ACME Prod', url: 'https://acme.service-now.com', environment: 'prod', allow_push: true };
+
+const renderModal = (props: { scriptContent?: string; context?: string; instance?: ServiceNowInstanceProfile } = {}, onSend = jest.fn().mockResolvedValue(undefined)) => {
+  render(
+    <SendScriptModal isOpen onClose={jest.fn()} onSend={onSend} isSubmitting={false} error={null} success={false} {...props} />
+  );
+  return onSend;
+};
+
+const send = async () => {
+  await act(async () => {
+    fireEvent.click(screen.getByText('Send to ServiceNow'));
+  });
+};
+
+describe('SendScriptModal', () => {
+  it('should list every registered artifact type', () => {
+    renderModal();
+
+    const options = Array.from(screen.getByLabelText(/Select Script Type/).querySelectorAll('option')).map(option => option.textContent);
+    expect(options).toEqual(expect.arrayContaining(['Business Rule', 'UI Action', 'UI Policy', 'Scheduled Job', 'Fix Script', 'Scripted REST Resource', 'ACL']));
+  });
+
+  it('should send business rule metadata with its defaults', async () => {
+    const onSend = renderModal();
+
+    fireEvent.change(screen.getByLabelText(/^Name/), { target: { value: 'Set priority' } });
+    fireEvent.change(screen.getByLabelText(/^Table/), { target: { value: 'incident' } });
+    fireEvent.change(screen.getByLabelText(/^When/), { target: { value: 'after' } });
+    fireEvent.click(screen.getByLabelText('Delete'));
+    await send();
+
+    expect(onSend).toHaveBeenCalledWith('business_rule', 'sys_script', {
+      name: 'Set priority',
+      table: 'incident',
+      when: 'after',
+      order: 100,
+      action_insert: true,
+      action_update: true,
+      action_delete: true,
+      action_query: false,
+      active: true,
+    });
+  });
+
+  it('should show missing required fields instead of sending', async () => {
+    const onSend = renderModal();
+
+    await send();
+
+    expect(screen.getByText('Name is required for a Business Rule')).toBeInTheDocument();
+    expect(onSend).not.toHaveBeenCalled();
+  });
+
+  it('should switch fields and target table with the artifact type', async () => {
+    const onSend = renderModal();
+
+    fireEvent.change(screen.getByLabelText(/Select Script Type/), { target: { value: 'scripted_rest_resource' } });
+
+    expect(screen.getByText('sys_ws_operation')).toBeInTheDocument();
+    expect(screen.queryByLabelText(/^When/)).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/^Name/), { target: { value: 'Get user' } });
+    fireEvent.change(screen.getByLabelText(/^REST API/), { target: { value: 'x_acme_api' } });
+    fireEvent.change(screen.getByLabelText(/^HTTP Method/), { target: { value: 'POST' } });
+    await send();
+
+    expect(onSend).toHaveBeenCalledWith('scripted_rest_resource', 'sys_ws_operation', {
+      name: 'Get user',
+      web_service_definition: 'x_acme_api',
+      http_method: 'POST',
+      requires_authentication: true,
+      active: true,
+    });
+  });
+
+  it('should pre-fill the type and fields from the script and the answer', () => {
+    renderModal({
+      scriptContent: 'function onChange(control, oldValue, newValue, isLoading) {}',
+      context: '**Name:** Clear assignee\n**Table:** incident\n**Field Name:** assignment_group',
+    });
+
+    expect(screen.getByLabelText(/Select Script Type/)).toHaveValue('client_script');
+    expect(screen.getByLabelText(/^Name/)).toHaveValue('Clear assignee');
+    expect(screen.getByLabelText(/^Type/)).toHaveValue('onChange');
+    expect(screen.getByLabelText(/^Field Name/)).toHaveValue('assignment_group');
+    expect(screen.getByText(/Pre-filled from the answer: Name, Table, Type, Field Name/)).toBeInTheDocument();
+  });
+
+  it('should show the deployment state, correlation id and record link', () => {
+    render(
+      <SendScriptModal
+        isOpen
+        onClose={jest.fn()}
+        onSend={jest.fn()}
+        isSubmitting={false}
+        error={null}
+        success
+        deployment={{
+          id: 12,
+          correlation_id: '6f1c2a9e-8d4b-4c1e-9a7f-3b2d5e8c1a40',
+          payload: 'gs.info("fix");',
+          type: 'fix_script',
+          target_table: 'sys_script_fix',
+          metadata: { name: 'Fix' },
+          state: 'completed',
+          error: null,
+          result: { sys_id: 'abc123', table: 'sys_script_fix', action: 'created', url: 'https://dev12345.service-now.com/nav_to.do' },
+          attempts: 1,
+          created_by: 'admin',
+          instance_id: null,
+          instance_url: null,
+          created_at: new Date(),
+          updated_at: new Date(),
+        }}
+      />
+    );
+
+    expect(screen.getByText('Completed')).toBeInTheDocument();
+    expect(screen.getByText('6f1c2a9e-8d4b-4c1e-9a7f-3b2d5e8c1a40')).toBeInTheDocument();
+    expect(screen.getByText('Open in ServiceNow').closest('a')).toHaveAttribute('href', 'https://dev12345.service-now.com/nav_to.do');
+  });
+
+  it('should ask for a second, confirming click before sending to production', async () => {
+    const onSend = renderModal({ instance: prodInstance });
+
+    fireEvent.change(screen.getByLabelText(/Select Script Type/), { target: { value: 'fix_script' } });
+    fireEvent.change(screen.getByLabelText(/^Name/), { target: { value: 'Backfill' } });
+    await send();
+
+    expect(onSend).not.toHaveBeenCalled();
+    expect(screen.getByText(/ACME Prod is a production instance/)).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Confirm push to production'));
+    });
+    expect(onSend).toHaveBeenCalledWith('fix_script', 'sys_script_fix', expect.objectContaining({ name: 'Backfill' }));
+  });
+
+  it('should not send to an instance that does not allow pushes', () => {
+    renderModal({ instance: { ...prodInstance, environment: 'test', allow_push: false } });
+
+    expect(screen.getByText(/Pushing scripts to ACME Prod is turned off/)).toBeInTheDocument();
+    expect(screen.getByText('Send to ServiceNow').closest('button')).toBeDisabled();
+  });
+});
@@ -0,0 +1,78 @@
+import { renderHook, act } from '@testing-library/react';
+import { useScriptAnalysis } from '@/hooks/useScriptAnalysis';
+import { SCRIPT_ANALYSIS_DEBOUNCE } from '@/lib/constants';
+
+const finding = {
+  rule: 'current-update-in-before-rule',
+  severity: 'error',
+  message: 'current.update() in a before Business Rule saves the record twice and can recurse',
+  line: 2,
+  column: 3,
+};
+
+const businessRule = [
+  '(function executeRule(current, previous) {',
+  '  current.update();',
+  '})(current, previous);',
+].join('\n');
+
+const mockFetch = jest.fn();
+
+jest.mock('@/hooks/useServiceNowUrl', () => ({
+  useServiceNowUrl: () => ({ activeInstance: { id: 'acme-dev' } }),
+}));
+
+describe('useScriptAnalysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    global.fetch = mockFetch;
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true, data: { runtime: 'server', findings: [finding] } }),
+    });
+  });
+
+  afterEach(() => {
+    jest.runOnlyPendingTimers();
+    jest.useRealTimers();
+  });
+
+  it('should analyze the script with the type and metadata Send Script would pre-fill', async () => {
+    const { result } = renderHook(() => useScriptAnalysis(businessRule, 'Table: incident\nWhen: before', true));
+
+    await act(async () => {
+      jest.advanceTimersByTime(SCRIPT_ANALYSIS_DEBOUNCE);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/analyze-script', expect.objectContaining({ method: 'POST' }));
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body).toMatchObject({ script: businessRule, type: 'business_rule', metadata: { table: 'incident', when: 'before' }, instance_id: 'acme-dev' });
+    expect(result.current.findings).toEqual([finding]);
+  });
+
+  it('should not analyze while disabled', async () => {
+    const { result } = renderHook(() => useScriptAnalysis(businessRule, undefined, false));
+
+    await act(async () => {
+      jest.advanceTimersByTime(SCRIPT_ANALYSIS_DEBOUNCE * 2);
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(result.current.findings).toEqual([]);
+  });
+
+  it('should show nothing when the analysis fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockFetch.mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => useScriptAnalysis(businessRule, undefined, true));
+
+    await act(async () => {
+      jest.advanceTimersByTime(SCRIPT_ANALYSIS_DEBOUNCE);
+    });
+
+    expect(result.current.findings).toEqual([]);
+    expect(result.current.isAnalyzing).toBe(false);
+  });
+});
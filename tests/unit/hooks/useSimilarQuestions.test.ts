@@ -0,0 +1,87 @@
+import { renderHook, act } from '@testing-library/react';
+import { useSimilarQuestions } from '@/hooks/useSimilarQuestions';
+import { SIMILAR_QUESTION_DEBOUNCE } from '@/lib/constants';
+
+const suggestion = {
+  item: { id: 4, question: 'How do I query incidents with GlideRecord?', answer: 'Use GlideRecord' },
+  similarity: 0.91,
+};
+
+const mockFetch = jest.fn();
+
+describe('useSimilarQuestions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    global.fetch = mockFetch;
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true, data: [suggestion] }),
+    });
+  });
+
+  afterEach(() => {
+    jest.runOnlyPendingTimers();
+    jest.useRealTimers();
+  });
+
+  it('should look up suggestions once typing pauses', async () => {
+    const { result } = renderHook(() => useSimilarQuestions('How do I query incidents in a script?', true));
+
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await act(async () => {
+      jest.advanceTimersByTime(SIMILAR_QUESTION_DEBOUNCE);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/knowledge-store/suggestions', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ question: 'How do I query incidents in a script?' }),
+    }));
+    expect(result.current.suggestions).toEqual([suggestion]);
+    expect(result.current.isSearching).toBe(false);
+  });
+
+  it('should only search for the latest text while the user keeps typing', async () => {
+    const { rerender } = renderHook(({ text }) => useSimilarQuestions(text, true), {
+      initialProps: { text: 'How do I query incidents' },
+    });
+
+    await act(async () => {
+      jest.advanceTimersByTime(SIMILAR_QUESTION_DEBOUNCE - 100);
+    });
+    rerender({ text: 'How do I query incidents by priority' });
+    await act(async () => {
+      jest.advanceTimersByTime(SIMILAR_QUESTION_DEBOUNCE);
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1].body).toContain('by priority');
+  });
+
+  it('should not search short questions or when disabled', async () => {
+    renderHook(() => useSimilarQuestions('GlideRecord', true));
+    renderHook(() => useSimilarQuestions('How do I query incidents in a script?', false));
+
+    await act(async () => {
+      jest.advanceTimersByTime(SIMILAR_QUESTION_DEBOUNCE * 2);
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should show nothing when the lookup fails', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ success: false, error: 'Embedding service unavailable' }),
+    });
+
+    const { result } = renderHook(() => useSimilarQuestions('How do I query incidents in a script?', true));
+
+    await act(async () => {
+      jest.advanceTimersByTime(SIMILAR_QUESTION_DEBOUNCE);
+    });
+
+    expect(result.current.suggestions).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { applyAgentEvent, isAgentEventType, toAgentEventData } from '@/lib/agent-activity';
+import { AgentActivity, StreamingChunk } from '@/types';
+
+const event = (type: StreamingChunk['type'], data: StreamingChunk['data'], timestamp = '2024-01-01T00:00:00Z'): StreamingChunk => ({
+  type,
+  content: '',
+  timestamp,
+  data,
+});
+
+describe('agent-activity', () => {
+  describe('isAgentEventType', () => {
+    it('should recognise structured agent events only', () => {
+      expect(isAgentEventType('agent_start')).toBe(true);
+      expect(isAgentEventType('usage')).toBe(true);
+      expect(isAgentEventType('chunk')).toBe(false);
+      expect(isAgentEventType('complete')).toBe(false);
+    });
+  });
+
+  describe('toAgentEventData', () => {
+    it('should treat a plain string as the agent name', () => {
+      expect(toAgentEventData('coder_small')).toEqual({ agent: 'coder_small' });
+    });
+
+    it('should accept snake_case fields and drop unset ones', () => {
+      expect(toAgentEventData({
+        agent_name: 'orchestration',
+        tool_name: 'knowledge_store',
+        call_id: 'call-1',
+        input: { query: 'incident' },
+        prompt_tokens: '120',
+        completion_tokens: 30,
+      })).toEqual({
+        agent: 'orchestration',
+        tool: 'knowledge_store',
+        callId: 'call-1',
+        input: '{"query":"incident"}',
+        promptTokens: 120,
+        completionTokens: 30,
+      });
+    });
+
+    it('should return an empty object for missing content', () => {
+      expect(toAgentEventData(null)).toEqual({});
+    });
+  });
+
+  describe('applyAgentEvent', () => {
+    it('should build a timeline of agents and their tool calls', () => {
+      let activities: AgentActivity[] = [];
+      activities = applyAgentEvent(activities, event('agent_start', { agent: 'orchestration' }));
+      activities = applyAgentEvent(activities, event('tool_call', { agent: 'orchestration', tool: 'think', callId: 'a' }));
+      activities = applyAgentEvent(activities, event('tool_result', { agent: 'orchestration', callId: 'a', output: 'ok' }));
+      activities = applyAgentEvent(activities, event('agent_start', { agent: 'coder_small' }));
+      activities = applyAgentEvent(activities, event('tool_call', { agent: 'coder_small', tool: 'search' }));
+      activities = applyAgentEvent(activities, event('tool_result', { agent: 'coder_small', tool: 'search', error: 'timeout' }));
+      activities = applyAgentEvent(activities, event('agent_end', { agent: 'coder_small' }, '2024-01-01T00:00:05Z'));
+
+      expect(activities).toHaveLength(2);
+      expect(activities[0]).toMatchObject({ agent: 'orchestration', status: 'running' });
+      expect(activities[0].toolCalls).toEqual([
+        { id: 'a', tool: 'think', status: 'success', input: undefined, output: 'ok', error: undefined },
+      ]);
+      expect(activities[1]).toMatchObject({ agent: 'coder_small', status: 'done', endedAt: '2024-01-01T00:00:05Z' });
+      expect(activities[1].toolCalls[0]).toMatchObject({ tool: 'search', status: 'error', error: 'timeout' });
+    });
+
+    it('should not mutate the previous timeline', () => {
+      const initial = applyAgentEvent([], event('agent_start', { agent: 'planner_large' }));
+      const next = applyAgentEvent(initial, event('tool_call', { agent: 'planner_large', tool: 'think' }));
+
+      expect(initial[0].toolCalls).toHaveLength(0);
+      expect(next[0].toolCalls).toHaveLength(1);
+    });
+
+    it('should accumulate token usage per agent', () => {
+      let activities = applyAgentEvent([], event('agent_start', { agent: 'architect_small' }));
+      activities = applyAgentEvent(activities, event('usage', { agent: 'architect_small', model: 'gpt-4o', promptTokens: 100, completionTokens: 20 }));
+      activities = applyAgentEvent(activities, event('usage', { agent: 'architect_small', totalTokens: 50 }));
+
+      expect(activities[0].model).toBe('gpt-4o');
+      expect(activities[0].usage).toEqual({ promptTokens: 100, completionTokens: 20, totalTokens: 170 });
+    });
+
+    it('should ignore results and ends for agents that never started', () => {
+      const activities: AgentActivity[] = [];
+
+      expect(applyAgentEvent(activities, event('agent_end', { agent: 'coder_large' }))).toBe(activities);
+    });
+  });
+});
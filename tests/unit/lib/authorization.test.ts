@@ -0,0 +1,70 @@
+import { authorizeRequest, hasRole, requireAdmin } from '@/lib/authorization';
+
+// Mock the auth module
+jest.mock('@/lib/server-auth', () => ({
+  getServerAuthState: jest.fn(),
+}));
+
+import { getServerAuthState } from '@/lib/server-auth';
+
+const mockGetServerAuthState = getServerAuthState as jest.MockedFunction<typeof getServerAuthState>;
+
+const adminUser = { id: 1, username: 'admin', role: 'admin' as const };
+const memberUser = { id: 2, username: 'member', role: 'member' as const };
+
+describe('authorization', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('hasRole', () => {
+    it('should let admins satisfy every role', () => {
+      expect(hasRole(adminUser, 'admin')).toBe(true);
+      expect(hasRole(adminUser, 'member')).toBe(true);
+    });
+
+    it('should limit members to the member role', () => {
+      expect(hasRole(memberUser, 'member')).toBe(true);
+      expect(hasRole(memberUser, 'admin')).toBe(false);
+    });
+  });
+
+  describe('authorizeRequest', () => {
+    it('should return 401 when not authenticated', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: false });
+
+      const result = await authorizeRequest();
+
+      expect(result).toEqual({ authorized: false, status: 401, error: 'Unauthorized' });
+    });
+
+    it('should authorize any authenticated user for member routes', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+      const result = await authorizeRequest('member');
+
+      expect(result).toEqual({ authorized: true, user: memberUser });
+    });
+  });
+
+  describe('requireAdmin', () => {
+    it('should return 403 for members', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: memberUser });
+
+      const result = await requireAdmin();
+
+      expect(result.authorized).toBe(false);
+      if (!result.authorized) {
+        expect(result.status).toBe(403);
+      }
+    });
+
+    it('should authorize admins', async () => {
+      mockGetServerAuthState.mockResolvedValue({ isAuthenticated: true, user: adminUser });
+
+      const result = await requireAdmin();
+
+      expect(result).toEqual({ authorized: true, user: adminUser });
+    });
+  });
+});
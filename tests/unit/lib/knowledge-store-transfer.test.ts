@@ -0,0 +1,165 @@
+/**
+ * @jest-environment node
+ */
+
+import { strToU8, zipSync } from 'fflate';
+
+import {
+  EMBEDDING_DIMENSIONS,
+  buildMarkdownBundle,
+  parseCsv,
+  parseImportFile,
+  runKnowledgeStoreImport,
+  serializeCsv,
+  serializeJsonl,
+  type KnowledgeStoreImportRow
+} from '@/lib/knowledge-store-transfer';
+import type { KnowledgeStoreItem } from '@/types';
+
+// Unit vectors along one axis: identical axes are duplicates, different axes are unrelated
+const axis = (index: number): number[] => Array.from({ length: EMBEDDING_DIMENSIONS }, (_, i) => (i === index ? 1 : 0));
+
+const item = (id: number, extra: Partial<KnowledgeStoreItem> = {}): KnowledgeStoreItem => ({
+  id,
+  question: `How do I use GlideRecord ${id}?`,
+  answer: `Call query() then next().\n\nSee "docs", part ${id}.`,
+  question_embedding: axis(id),
+  answer_embedding: axis(id + 100),
+  category: 'scripting',
+  tags: ['gliderecord', 'server'],
+  quality_score: 4,
+  usage_count: 3,
+  created_at: new Date('2025-01-01T00:00:00Z'),
+  updated_at: new Date('2025-01-02T00:00:00Z'),
+  ...extra,
+});
+
+const rowsOf = (fileName: string, content: string | Uint8Array): KnowledgeStoreImportRow[] => {
+  const parsed = parseImportFile(fileName, typeof content === 'string' ? strToU8(content) : content);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.rows;
+};
+
+describe('knowledge store export formats', () => {
+  it('round-trips JSONL with embeddings', () => {
+    const rows = rowsOf('export.jsonl', serializeJsonl([item(1), item(2)], true));
+
+    expect(rows).toHaveLength(2);
+    expect(rows[1].fields).toEqual(expect.objectContaining({
+      question: 'How do I use GlideRecord 2?',
+      tags: ['gliderecord', 'server'],
+      question_embedding: axis(2),
+    }));
+  });
+
+  it('leaves embeddings out unless asked for', () => {
+    expect(JSON.parse(serializeJsonl([item(1)], false))).not.toHaveProperty('question_embedding');
+  });
+
+  it('quotes CSV cells with commas, quotes and line breaks', () => {
+    const csv = serializeCsv([item(1)], false);
+    const [header, record] = parseCsv(csv);
+
+    expect(header).toEqual(['id', 'question', 'answer', 'category', 'tags', 'quality_score', 'usage_count', 'created_at', 'updated_at']);
+    expect(record[2]).toBe('Call query() then next().\n\nSee "docs", part 1.');
+    expect(record[4]).toBe('gliderecord, server');
+
+    const [row] = rowsOf('export.csv', csv);
+    expect(row.fields).toEqual(expect.objectContaining({ answer: record[2], tags: ['gliderecord', 'server'] }));
+  });
+
+  it('requires question and answer columns in CSV imports', () => {
+    expect(parseImportFile('entries.csv', strToU8('title,body\r\na,b\r\n'))).toEqual({
+      error: 'The CSV header must contain question and answer columns',
+    });
+  });
+
+  it('round-trips a Markdown bundle with the answer as the file body', () => {
+    const rows = rowsOf('export.zip', buildMarkdownBundle([item(1)], false));
+
+    expect(rows[0].source).toBe('knowledge-store/0001-how-do-i-use-gliderecord-1.md');
+    expect(rows[0].fields).toEqual(expect.objectContaining({
+      question: 'How do I use GlideRecord 1?',
+      answer: 'Call query() then next().\n\nSee "docs", part 1.',
+      category: 'scripting',
+    }));
+  });
+
+  it('reports unreadable records per row', () => {
+    const rows = rowsOf('export.jsonl', '{"question":"a","answer":"b"}\nnot json\n[1]\n');
+    expect(rows.map(row => row.error)).toEqual([undefined, 'Line is not valid JSON', 'Line is not a JSON object']);
+
+    const bundle = zipSync({ 'notes/readme.md': strToU8('No front matter') });
+    expect(rowsOf('bundle.zip', bundle)[0].error).toBe('File does not start with a front matter block');
+  });
+
+  it('rejects unknown file types', () => {
+    expect(parseImportFile('entries.xlsx', new Uint8Array())).toEqual({
+      error: 'Unsupported file type; upload a .jsonl, .csv or .zip file',
+    });
+  });
+});
+
+describe('runKnowledgeStoreImport', () => {
+  const findSimilar = jest.fn();
+  const createItem = jest.fn();
+  const generateEmbedding = jest.fn();
+  const deps = { findSimilar, createItem, generateEmbedding };
+
+  beforeEach(() => {
+    findSimilar.mockResolvedValue([]);
+    createItem.mockImplementation(async (entry: { question: string }) => ({ ...item(50), question: entry.question }));
+    generateEmbedding.mockImplementation(async (text: string) => axis(text.length % 100));
+  });
+
+  it('validates and de-duplicates without writing on a dry run', async () => {
+    findSimilar.mockImplementation(async (embedding: number[]) =>
+      embedding[3] === 1 ? [{ item: item(3), similarity: 0.99 }] : []
+    );
+
+    const report = await runKnowledgeStoreImport('jsonl', [
+      { row: 1, fields: { question: 'Q one', answer: 'A', question_embedding: axis(1) } },
+      { row: 2, fields: { question: 'Q one again', answer: 'A', question_embedding: axis(1) } },
+      { row: 3, fields: { question: 'Q three', answer: 'A', question_embedding: axis(3) } },
+      { row: 4, fields: { question: '', answer: 'A' } },
+      { row: 5, fields: { question: 'Q five', answer: 'A', question_embedding: [1, 2] } },
+    ], true, deps);
+
+    expect(report.rows.map(row => row.status)).toEqual(['valid', 'duplicate', 'duplicate', 'invalid', 'invalid']);
+    expect(report.rows[1].duplicate_of).toEqual({ id: null, question: 'Q one', similarity: 1 });
+    expect(report.rows[2].duplicate_of).toEqual({ id: 3, question: 'How do I use GlideRecord 3?', similarity: 0.99 });
+    expect(report.rows[4].message).toBe(`question_embedding must be an array of ${EMBEDDING_DIMENSIONS} numbers`);
+    expect(report).toEqual(expect.objectContaining({ dry_run: true, total: 5, valid: 1, duplicates: 2, invalid: 2 }));
+    expect(generateEmbedding).not.toHaveBeenCalled();
+    expect(createItem).not.toHaveBeenCalled();
+  });
+
+  it('embeds missing text and creates entries', async () => {
+    const report = await runKnowledgeStoreImport('csv', [
+      { row: 1, fields: { question: 'Generated', answer: 'Answer text', tags: ['a', 'a'] } },
+    ], false, deps);
+
+    expect(generateEmbedding).toHaveBeenCalledWith('Generated');
+    expect(generateEmbedding).toHaveBeenCalledWith('Answer text');
+    expect(createItem).toHaveBeenCalledWith(
+      { question: 'Generated', answer: 'Answer text', category: null, tags: ['a'] },
+      { question: axis(9), answer: axis(11) }
+    );
+    expect(report.rows[0]).toEqual(expect.objectContaining({ status: 'created', created_id: 50 }));
+    expect(report.created).toBe(1);
+  });
+
+  it('marks rows as failed when an embedding cannot be generated', async () => {
+    generateEmbedding.mockResolvedValue(null);
+
+    const report = await runKnowledgeStoreImport('jsonl', [
+      { row: 1, fields: { question: 'Q', answer: 'A' } },
+    ], false, deps);
+
+    expect(report.rows[0]).toEqual(expect.objectContaining({
+      status: 'failed',
+      message: 'Could not generate an embedding for the question',
+    }));
+    expect(createItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * @jest-environment node
+ */
+
+import axios from 'axios';
+
+import { ProviderCircuitBreaker } from '@/lib/provider-circuit-breaker';
+import { ProviderRateLimiter, ProviderRateLimitError } from '@/lib/rate-limiter';
+import type { StreamingRequest } from '@/types';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  return {
+    __esModule: true,
+    default: { ...actual.default, post: jest.fn() },
+  };
+});
+
+const mockGetActiveProviders = jest.fn();
+const mockGetProviderById = jest.fn();
+jest.mock('@/lib/providers', () => ({
+  ProviderManager: Object.assign(
+    jest.fn(() => ({
+      getActiveProviders: mockGetActiveProviders,
+      getProviderById: mockGetProviderById,
+    })),
+    { getProviderApiKey: jest.fn(() => 'provider-key') }
+  ),
+}));
+
+const mockGetProviderModelNames = jest.fn();
+jest.mock('@/lib/ai-models', () => ({
+  AIModelManager: jest.fn(() => ({ getProviderModelNames: mockGetProviderModelNames })),
+}));
+
+// The default endpoint is read when the module loads
+process.env.N8N_WEBHOOK_URL = 'http://n8n:5678/webhook/default';
+process.env.N8N_API_KEY = 'default-key';
+const { N8NStreamingClient } = require('@/lib/n8n-streaming-client');
+
+const mockPost = axios.post as jest.MockedFunction<typeof axios.post>;
+
+const createProvider = (id: number, displayName: string, priority: number) => ({
+  id,
+  name: displayName.toLowerCase(),
+  display_name: displayName,
+  endpoint: `http://n8n:5678/webhook/${displayName.toLowerCase()}`,
+  is_active: true,
+  priority,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const serverError = (status: number) => {
+  const error = new axios.AxiosError(`Request failed with status code ${status}`);
+  error.response = { status } as never;
+  return error;
+};
+
+const request: StreamingRequest = {
+  question: 'How do I create an incident?',
+  type: 'documentation',
+  sessionkey: 'session_1700000000000_abc123',
+  searching: false,
+  aiModel: 'anthropic/claude-sonnet-4',
+};
+
+describe('N8NStreamingClient failover', () => {
+  const openRouter = createProvider(1, 'OpenRouter', 10);
+  const huggingFace = createProvider(2, 'HuggingFace', 5);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ProviderCircuitBreaker.getInstance().reset();
+    ProviderRateLimiter.getInstance().reset();
+    mockGetActiveProviders.mockResolvedValue([openRouter, huggingFace]);
+    mockGetProviderModelNames.mockResolvedValue([]);
+  });
+
+  it('should use the selected provider when it answers', async () => {
+    mockPost.mockResolvedValueOnce({ data: 'stream' });
+
+    const connection = await N8NStreamingClient.createStreamingConnection(request, 'member', 2);
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost.mock.calls[0][0]).toBe(huggingFace.endpoint);
+    expect(connection.provider).toBe(huggingFace);
+    expect(connection.fallbackFrom).toBeUndefined();
+    expect(connection.request).toBe(request);
+    expect(mockGetProviderModelNames).not.toHaveBeenCalled();
+  });
+
+  it('should fail over by priority when the selected provider returns 5xx', async () => {
+    mockPost
+      .mockRejectedValueOnce(serverError(503))
+      .mockResolvedValueOnce({ data: 'stream' });
+
+    const connection = await N8NStreamingClient.createStreamingConnection(request, 'member', 2);
+
+    expect(mockPost.mock.calls.map(call => call[0])).toEqual([huggingFace.endpoint, openRouter.endpoint]);
+    expect(connection.provider).toBe(openRouter);
+    expect(connection.fallbackFrom).toBe('HuggingFace');
+    expect(ProviderCircuitBreaker.getInstance().getState('2').consecutiveFailures).toBe(1);
+  });
+
+  it('should not fail over on client errors', async () => {
+    mockPost.mockRejectedValueOnce(serverError(401));
+
+    await expect(N8NStreamingClient.createStreamingConnection(request, 'member', 2)).rejects.toThrow('401');
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    const breaker = ProviderCircuitBreaker.getInstance();
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('2', 'HTTP 502');
+    }
+    mockPost.mockResolvedValueOnce({ data: 'stream' });
+
+    const connection = await N8NStreamingClient.createStreamingConnection(request, 'member', 2);
+
+    expect(mockPost.mock.calls[0][0]).toBe(openRouter.endpoint);
+    expect(connection.fallbackFrom).toBe('HuggingFace');
+  });
+
+  it('should fall back to the default endpoint last and rethrow when every provider fails', async () => {
+    mockPost.mockRejectedValue(serverError(502));
+
+    await expect(N8NStreamingClient.createStreamingConnection(request, 'member', 1)).rejects.toThrow('502');
+    expect(mockPost.mock.calls.map(call => call[0])).toEqual([
+      openRouter.endpoint,
+      huggingFace.endpoint,
+      'http://n8n:5678/webhook/default',
+    ]);
+  });
+
+  it('should tell the user when the selected provider is inactive and the default answers', async () => {
+    const inactive = { ...createProvider(3, 'Azure', 20), is_active: false };
+    mockGetProviderById.mockResolvedValueOnce(inactive);
+    mockPost.mockResolvedValueOnce({ data: 'stream' });
+
+    const connection = await N8NStreamingClient.createStreamingConnection(request, 'member', 3);
+
+    expect(mockPost.mock.calls[0][0]).toBe('http://n8n:5678/webhook/default');
+    expect(connection.provider).toBeUndefined();
+    expect(connection.fallbackFrom).toBe('Azure');
+  });
+
+  it('should send the fallback provider\'s models instead of the selected provider\'s', async () => {
+    mockGetProviderModelNames.mockResolvedValue(['meta-llama/Llama-3.3-70B-Instruct', 'openai/gpt-oss-120b']);
+    mockPost
+      .mockRejectedValueOnce(serverError(503))
+      .mockResolvedValueOnce({ data: 'stream' });
+
+    const connection = await N8NStreamingClient.createStreamingConnection({
+      ...request,
+      agentModels: [
+        { agent: 'orchestration', model: 'anthropic/claude-sonnet-4' },
+        { agent: 'coder', model: 'openai/gpt-oss-120b' },
+      ],
+    }, 'member', 1);
+
+    expect(mockGetProviderModelNames).toHaveBeenCalledWith('member', 2);
+    const sent = mockPost.mock.calls[1][1] as { metadata: { aiModel: string; agentModels: { model: string }[] } };
+    expect(sent.metadata.aiModel).toBe('meta-llama/Llama-3.3-70B-Instruct');
+    expect(sent.metadata.agentModels.map(agentModel => agentModel.model)).toEqual(['meta-llama/Llama-3.3-70B-Instruct', 'openai/gpt-oss-120b']);
+    expect(connection.request.aiModel).toBe('meta-llama/Llama-3.3-70B-Instruct');
+    expect((mockPost.mock.calls[0][1] as { metadata: { aiModel: string } }).metadata.aiModel).toBe('anthropic/claude-sonnet-4');
+  });
+
+  it('should send the agent prompts, experiment variants included, as metadata.agentPrompts', async () => {
+    mockPost.mockResolvedValueOnce({ data: 'stream' });
+    const agentPrompts = { orchestration: { system: 'variant B prompt' } };
+
+    await N8NStreamingClient.createStreamingConnection(request, 'member', 2, undefined, agentPrompts);
+
+    const sent = mockPost.mock.calls[0][1] as { metadata: { agentPrompts: unknown } };
+    expect(sent.metadata.agentPrompts).toEqual(agentPrompts);
+  });
+
+  describe('rate limits', () => {
+    const limitedHuggingFace = { ...huggingFace, rate_limit_per_minute: 1 };
+    const limitedOpenRouter = { ...openRouter, rate_limit_per_minute: 1 };
+
+    it('should take the token of the provider that serves the request', async () => {
+      mockGetActiveProviders.mockResolvedValue([limitedOpenRouter, limitedHuggingFace]);
+      mockPost
+        .mockRejectedValueOnce(serverError(503))
+        .mockResolvedValue({ data: 'stream' });
+
+      await N8NStreamingClient.createStreamingConnection(request, 'member', 2);
+
+      // Both attempts took a token: HuggingFace failed, OpenRouter answered
+      const limiter = ProviderRateLimiter.getInstance();
+      expect(limiter.consume('2', 1).allowed).toBe(false);
+      expect(limiter.consume('1', 1).allowed).toBe(false);
+    });
+
+    it('should skip a provider at its limit and tell the user who answered', async () => {
+      mockGetActiveProviders.mockResolvedValue([openRouter, limitedHuggingFace]);
+      ProviderRateLimiter.getInstance().consume('2', 1);
+      mockPost.mockResolvedValueOnce({ data: 'stream' });
+      const onAdmitted = jest.fn();
+
+      const connection = await N8NStreamingClient.createStreamingConnection(request, 'member', 2, undefined, undefined, onAdmitted);
+
+      expect(mockPost.mock.calls[0][0]).toBe(openRouter.endpoint);
+      expect(connection.fallbackFrom).toBe('HuggingFace');
+      expect(onAdmitted).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw a rate limit error without sending when every provider is at its limit', async () => {
+      const originalEnv = process.env;
+      process.env = { ...originalEnv, RATE_LIMIT_PER_USER_PER_MINUTE: '1' };
+      mockGetActiveProviders.mockResolvedValue([]);
+      mockPost.mockResolvedValueOnce({ data: 'stream' });
+      const onAdmitted = jest.fn();
+
+      try {
+        await N8NStreamingClient.createStreamingConnection(request, 'member');
+        await expect(N8NStreamingClient.createStreamingConnection(request, 'member', undefined, undefined, undefined, onAdmitted))
+          .rejects.toBeInstanceOf(ProviderRateLimitError);
+        expect(mockPost).toHaveBeenCalledTimes(1);
+        expect(onAdmitted).not.toHaveBeenCalled();
+      } finally {
+        process.env = originalEnv;
+      }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { ProviderCircuitBreaker } from '@/lib/provider-circuit-breaker';
+
+describe('ProviderCircuitBreaker', () => {
+  const breaker = ProviderCircuitBreaker.getInstance();
+
+  beforeEach(() => {
+    breaker.reset();
+  });
+
+  it('should be a shared singleton', () => {
+    expect(ProviderCircuitBreaker.getInstance()).toBe(breaker);
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    breaker.recordFailure('1', 'HTTP 502', 0);
+    breaker.recordFailure('1', 'HTTP 502', 0);
+
+    expect(breaker.canAttempt('1', 0)).toBe(true);
+    expect(breaker.getState('1')).toMatchObject({ state: 'closed', consecutiveFailures: 2, lastError: 'HTTP 502' });
+  });
+
+  it('should open after consecutive failures and half-open after the cooldown', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('1', 'timeout', 1000);
+    }
+
+    expect(breaker.canAttempt('1', 2000)).toBe(false);
+    expect(breaker.getState('1').state).toBe('open');
+
+    expect(breaker.canAttempt('1', 31000)).toBe(true);
+    expect(breaker.getState('1').state).toBe('half_open');
+  });
+
+  it('should re-open when the trial request fails', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('1', 'timeout', 0);
+    }
+    breaker.canAttempt('1', 30000);
+
+    breaker.recordFailure('1', 'timeout', 30000);
+
+    expect(breaker.canAttempt('1', 30001)).toBe(false);
+  });
+
+  it('should close again after a success', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('1', 'timeout', 0);
+    }
+    breaker.canAttempt('1', 30000);
+
+    breaker.recordSuccess('1', 30000);
+
+    expect(breaker.getState('1')).toMatchObject({ state: 'closed', consecutiveFailures: 0, lastSuccessAt: 30000 });
+  });
+
+  it('should track providers independently', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('1', 'timeout', 0);
+    }
+
+    expect(breaker.canAttempt('1', 0)).toBe(false);
+    expect(breaker.canAttempt('2', 0)).toBe(true);
+  });
+});
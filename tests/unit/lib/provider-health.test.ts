@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+import axios from 'axios';
+
+import { ProviderHealthMonitor } from '@/lib/provider-health';
+import { ProviderCircuitBreaker } from '@/lib/provider-circuit-breaker';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { head: jest.fn() },
+}));
+
+const mockValidateProvider = jest.fn();
+jest.mock('@/lib/providers', () => ({
+  ProviderManager: Object.assign(
+    jest.fn(() => ({ validateProvider: mockValidateProvider })),
+    { getProviderApiKey: jest.fn(() => 'provider-key') }
+  ),
+}));
+
+const mockHead = axios.head as jest.MockedFunction<typeof axios.head>;
+
+const provider = {
+  id: 1,
+  name: 'openrouter',
+  display_name: 'OpenRouter',
+  endpoint: 'http://n8n:5678/webhook/openrouter',
+  is_active: true,
+  priority: 10,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+// Clock that advances by the given latency between the start and end of a probe
+const clock = (start: number, latencyMs: number) => {
+  let calls = 0;
+  return () => start + (calls++ % 2 === 0 ? 0 : latencyMs);
+};
+
+describe('ProviderHealthMonitor', () => {
+  const monitor = ProviderHealthMonitor.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    monitor.reset();
+    ProviderCircuitBreaker.getInstance().reset();
+    mockValidateProvider.mockResolvedValue(true);
+  });
+
+  it('should report unknown before the first probe', () => {
+    expect(monitor.getHealth(provider).status).toBe('unknown');
+    expect(monitor.isStale([provider])).toBe(true);
+  });
+
+  it('should treat any answer below 500 as healthy', async () => {
+    mockHead.mockResolvedValue({ status: 404 });
+    const now = Date.now();
+
+    await monitor.probe(provider, clock(now, 120));
+
+    const health = monitor.getHealth(provider, now);
+    expect(health.status).toBe('healthy');
+    expect(health.latency_ms).toBe(120);
+    expect(health.last_success_at).toEqual(new Date(now + 120));
+    expect(monitor.isStale([provider], now + 1000)).toBe(false);
+  });
+
+  it('should report down and record the failure when the endpoint fails', async () => {
+    mockHead.mockResolvedValueOnce({ status: 502 });
+    const now = Date.now();
+
+    await monitor.probe(provider, clock(now, 50));
+
+    const health = monitor.getHealth(provider, now);
+    expect(health.status).toBe('down');
+    expect(health.last_error).toBe('HTTP 502');
+    expect(health.recent_failures).toHaveLength(1);
+  });
+
+  it('should report degraded after recovering from a recent failure', async () => {
+    const now = Date.now();
+    mockHead.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    await monitor.probe(provider, clock(now, 10));
+
+    mockHead.mockResolvedValueOnce({ status: 200 });
+    await monitor.probe(provider, clock(now + 1000, 10));
+
+    const health = monitor.getHealth(provider, now + 2000);
+    expect(health.status).toBe('degraded');
+    expect(health.recent_failures[0].error).toBe('connect ECONNREFUSED');
+  });
+
+  it('should report degraded for slow responses and missing API keys', async () => {
+    mockHead.mockResolvedValue({ status: 200 });
+    mockValidateProvider.mockResolvedValue(false);
+    const now = Date.now();
+
+    await monitor.probe(provider, clock(now, 3000));
+
+    const health = monitor.getHealth(provider, now);
+    expect(health.status).toBe('degraded');
+    expect(health.warnings).toEqual([
+      'Endpoint or OPENROUTER_API_KEY is not configured',
+      'Slow response (3000 ms)',
+    ]);
+  });
+
+  it('should report down while the failover circuit is open', async () => {
+    mockHead.mockResolvedValue({ status: 200 });
+    await monitor.probe(provider);
+    const breaker = ProviderCircuitBreaker.getInstance();
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('1', 'HTTP 503');
+    }
+
+    const health = monitor.getHealth(provider);
+    expect(health.status).toBe('down');
+    expect(health.circuit_state).toBe('open');
+    expect(health.recent_failures[0].error).toBe('Request failed: HTTP 503');
+  });
+});
@@ -0,0 +1,79 @@
+import { ProviderRateLimiter, TokenBucket } from '@/lib/rate-limiter';
+
+describe('TokenBucket', () => {
+  it('should allow a full minute of requests as a burst and refill over time', () => {
+    const bucket = new TokenBucket(2, 0);
+
+    expect(bucket.msUntilNextToken(0)).toBe(0);
+    bucket.take(0);
+    bucket.take(0);
+    // Two per minute means one token every 30 seconds
+    expect(bucket.msUntilNextToken(0)).toBe(30000);
+    expect(bucket.msUntilNextToken(20000)).toBeCloseTo(10000, -1);
+    expect(bucket.msUntilNextToken(30000)).toBe(0);
+  });
+});
+
+describe('ProviderRateLimiter', () => {
+  const limiter = ProviderRateLimiter.getInstance();
+  const originalUserLimit = process.env.RATE_LIMIT_PER_USER_PER_MINUTE;
+
+  beforeEach(() => {
+    limiter.reset();
+    delete process.env.RATE_LIMIT_PER_USER_PER_MINUTE;
+  });
+
+  afterAll(() => {
+    if (originalUserLimit === undefined) {
+      delete process.env.RATE_LIMIT_PER_USER_PER_MINUTE;
+    } else {
+      process.env.RATE_LIMIT_PER_USER_PER_MINUTE = originalUserLimit;
+    }
+  });
+
+  it('should be a shared singleton', () => {
+    expect(ProviderRateLimiter.getInstance()).toBe(limiter);
+  });
+
+  it('should not limit providers without a rate limit', () => {
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.consume('1', null, 'alice', 0).allowed).toBe(true);
+    }
+  });
+
+  it('should reject requests over the provider limit with a retry-after', () => {
+    expect(limiter.consume('1', 2, 'alice', 0).allowed).toBe(true);
+    expect(limiter.consume('1', 2, 'bob', 0).allowed).toBe(true);
+
+    const rejected = limiter.consume('1', 2, 'carol', 1000);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterSeconds).toBe(29);
+
+    expect(limiter.consume('1', 2, 'carol', 30000).allowed).toBe(true);
+  });
+
+  it('should keep separate buckets per provider', () => {
+    expect(limiter.consume('1', 1, 'alice', 0).allowed).toBe(true);
+    expect(limiter.consume('1', 1, 'alice', 0).allowed).toBe(false);
+    expect(limiter.consume('2', 1, 'alice', 0).allowed).toBe(true);
+  });
+
+  it('should apply the per-user limit without consuming the provider quota on rejection', () => {
+    process.env.RATE_LIMIT_PER_USER_PER_MINUTE = '1';
+
+    expect(limiter.consume('1', 3, 'alice', 0).allowed).toBe(true);
+    expect(limiter.consume('1', 3, 'alice', 0).allowed).toBe(false);
+    expect(limiter.consume('1', 3, 'alice', 0).allowed).toBe(false);
+
+    // Alice's rejected attempts left the provider bucket with two tokens
+    expect(limiter.consume('1', 3, 'bob', 0).allowed).toBe(true);
+    expect(limiter.consume('1', 3, 'carol', 0).allowed).toBe(true);
+    expect(limiter.consume('1', 3, 'dave', 0).allowed).toBe(false);
+  });
+
+  it('should start a fresh bucket when the limit changes', () => {
+    expect(limiter.consume('1', 1, 'alice', 0).allowed).toBe(true);
+    expect(limiter.consume('1', 1, 'alice', 0).allowed).toBe(false);
+    expect(limiter.consume('1', 5, 'alice', 0).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+
+import { analyzeScript, detectRuntime, hasBlockingFindings, summarizeFindings } from '../../../src/lib/script-analysis';
+
+const rulesOf = (script: string, options?: Parameters<typeof analyzeScript>[1]) =>
+  analyzeScript(script, options).findings.map(finding => `${finding.rule}:${finding.severity}:${finding.line}`);
+
+describe('analyzeScript', () => {
+  it('should report a syntax error at its location', () => {
+    const result = analyzeScript('var a = 1;\nvar b = ;');
+
+    expect(result.findings).toEqual([
+      expect.objectContaining({ rule: 'syntax-error', severity: 'error', line: 2, column: 9 }),
+    ]);
+    expect(hasBlockingFindings(result.findings)).toBe(true);
+  });
+
+  it('should flag current.update() in before Business Rules as an error', () => {
+    const script = [
+      '(function executeRule(current, previous) {',
+      '  current.setValue("priority", 1);',
+      '  current.update();',
+      '})(current, previous);',
+    ].join('\n');
+
+    expect(rulesOf(script, { type: 'business_rule', metadata: { when: 'before' } }))
+      .toEqual(['current-update-in-before-rule:error:3']);
+    expect(rulesOf(script, { type: 'business_rule', metadata: { when: 'after' } }))
+      .toEqual(['current-update-in-business-rule:warning:3']);
+    expect(rulesOf(script, { type: 'fix_script' })).toEqual([]);
+  });
+
+  it('should flag GlideRecord queries inside loops but not the loop condition', () => {
+    const script = [
+      'var inc = new GlideRecord("incident");',
+      'inc.query();',
+      'while (inc.next()) {',
+      '  var task = new GlideRecord("task");',
+      '  task.get(inc.getValue("parent"));',
+      '}',
+      'ids.forEach(function (id) {',
+      '  var user = new GlideRecord("sys_user");',
+      '});',
+      'function lookup() { return new GlideRecord("sys_user"); }',
+    ].join('\n');
+
+    expect(rulesOf(script, { type: 'fix_script' })).toEqual([
+      'query-in-loop:warning:4',
+      'query-in-loop:warning:8',
+    ]);
+  });
+
+  it('should flag synchronous server calls in client scripts', () => {
+    const script = [
+      'function onLoad() {',
+      '  var ga = new GlideAjax("Util");',
+      '  ga.getXMLWait();',
+      '  var gr = new GlideRecord("sys_user");',
+      '  var caller = g_form.getReference("caller_id");',
+      '  g_form.getReference("caller_id", function (ref) {});',
+      '}',
+    ].join('\n');
+
+    expect(rulesOf(script, { type: 'client_script' })).toEqual([
+      'synchronous-ajax:error:3',
+      'client-glide-record:warning:4',
+      'synchronous-get-reference:warning:5',
+    ]);
+  });
+
+  it('should flag single-record queries without setLimit', () => {
+    const script = [
+      'var gr = new GlideRecord("sys_user");',
+      'gr.addQuery("user_name", "admin");',
+      'gr.query();',
+      'if (gr.next()) { gs.info(gr.getValue("name")); }',
+      'var limited = new GlideRecord("sys_user");',
+      'limited.setLimit(1);',
+      'limited.query();',
+      'if (limited.next()) { gs.info("found"); }',
+    ].join('\n');
+
+    expect(rulesOf(script, { type: 'fix_script' })).toEqual(['missing-set-limit:warning:3']);
+  });
+
+  it('should flag hard-coded sys_ids', () => {
+    const findings = analyzeScript('var group = "8a4dde73c6112278017a6a4baf547aa7";', { type: 'fix_script' }).findings;
+
+    expect(findings).toEqual([expect.objectContaining({ rule: 'hard-coded-sys-id', line: 1, column: 13 })]);
+  });
+
+  it('should report each kind of modern syntax once, as an error in global scope', () => {
+    const script = [
+      'const a = 1;',
+      'const b = () => `${a}`;',
+      'let { c } = obj;',
+    ].join('\n');
+
+    expect(rulesOf(script, { type: 'script_include', scope: 'global' })).toEqual([
+      'es2015-syntax:error:1',
+      'es2015-syntax:error:2',
+      'es2015-syntax:error:2',
+      'es2015-syntax:error:3',
+      'es2015-syntax:error:3',
+    ]);
+    expect(analyzeScript(script, { type: 'script_include', scope: 'x_acme_app' }).findings
+      .every(finding => finding.severity === 'warning')).toBe(true);
+    expect(rulesOf(script, { type: 'client_script' })).toEqual([]);
+  });
+});
+
+describe('detectRuntime', () => {
+  it('should use the artifact type and fall back to client-side globals', () => {
+    expect(detectRuntime('', { type: 'ui_policy' })).toBe('client');
+    expect(detectRuntime('', { type: 'ui_action', metadata: { client: true } })).toBe('client');
+    expect(detectRuntime('g_form.setValue("a", 1);', { type: 'ui_action' })).toBe('server');
+    expect(detectRuntime('g_form.setValue("a", 1);')).toBe('client');
+    expect(detectRuntime('gs.info("hi");')).toBe('server');
+  });
+});
+
+describe('summarizeFindings', () => {
+  it('should describe the first finding and count the rest', () => {
+    const findings = analyzeScript('var x = ;\n').findings;
+
+    expect(summarizeFindings(findings)).toMatch(/^Line 1: Syntax error: Unexpected token$/);
+    expect(summarizeFindings([...findings, ...findings])).toMatch(/\(\+1 more\)$/);
+    expect(summarizeFindings([])).toBe('');
+  });
+});
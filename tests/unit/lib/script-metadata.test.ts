@@ -0,0 +1,124 @@
+import { parseScriptMetadata, prefillArtifactMetadata } from '../../../src/lib/script-metadata';
+import { extractCodeBlockContext } from '../../../src/lib/markdown-utils';
+import { getArtifactType } from '../../../src/lib/servicenow-artifacts';
+
+const businessRuleScript = `(function executeRule(current, previous /*null when async*/) {
+  current.priority = 1;
+})(current, previous);`;
+
+describe('parseScriptMetadata', () => {
+  it('should read record fields from the markdown around the script', () => {
+    const context = [
+      '### Set priority on VIP callers',
+      '',
+      '- **Name:** Set VIP priority',
+      '- **Table:** `incident`',
+      '- **When:** Before',
+      '- **Order:** 50',
+      '- **Insert:** Yes',
+      '- **Update:** No',
+    ].join('\n');
+
+    const parsed = parseScriptMetadata(businessRuleScript, context);
+
+    expect(parsed.type).toBe('business_rule');
+    expect(parsed.values).toMatchObject({
+      name: 'Set VIP priority',
+      table: 'incident',
+      when: 'Before',
+      order: '50',
+      insert: 'Yes',
+      update: 'No',
+    });
+  });
+
+  it('should let comments in the script override the answer', () => {
+    const script = `/**
+ * Name: Escalate P1
+ * @table incident
+ */
+// When: after
+${businessRuleScript}`;
+
+    const parsed = parseScriptMetadata(script, 'Table: problem\nWhen: before');
+
+    expect(parsed.values).toMatchObject({ name: 'Escalate P1', table: 'incident', when: 'after' });
+  });
+
+  it('should read markdown tables', () => {
+    const context = '| Field | Value |\n|---|---|\n| Table | change_request |\n| Active | false |';
+
+    expect(parseScriptMetadata('', context).values).toMatchObject({ table: 'change_request', active: 'false' });
+  });
+
+  it('should recognise script includes and client scripts from their shape', () => {
+    const include = parseScriptMetadata('var IncidentUtils = Class.create();\nIncidentUtils.prototype = {};');
+    const client = parseScriptMetadata('function onChange(control, oldValue, newValue, isLoading) {}');
+
+    expect(include).toEqual({ type: 'script_include', values: { name: 'IncidentUtils' } });
+    expect(client).toEqual({ type: 'client_script', values: { when: 'onChange' } });
+  });
+
+  it('should prefer the type named in the answer', () => {
+    const parsed = parseScriptMetadata('function onClick() {}', 'Type: UI Actions');
+
+    expect(parsed.type).toBe('ui_action');
+  });
+
+  it('should leave the type unset for unrecognised scripts', () => {
+    expect(parseScriptMetadata('gs.info("hello");').type).toBeUndefined();
+  });
+});
+
+describe('prefillArtifactMetadata', () => {
+  it('should convert parsed values to the field types and report what was filled', () => {
+    const parsed = parseScriptMetadata(businessRuleScript, 'Name: Set VIP priority\nTable: incident\nWhen: After\nOrder: 50\nUpdate: no\nFilter: active=true');
+
+    const { metadata, prefilled } = prefillArtifactMetadata(getArtifactType('business_rule')!, parsed);
+
+    expect(metadata).toEqual({
+      name: 'Set VIP priority',
+      table: 'incident',
+      when: 'after',
+      order: 50,
+      action_insert: true,
+      action_update: false,
+      action_delete: false,
+      action_query: false,
+      filter_condition: 'active=true',
+      active: true,
+    });
+    expect(prefilled).toEqual(['name', 'table', 'when', 'order', 'action_update', 'filter_condition']);
+  });
+
+  it('should keep defaults for values that do not fit a field', () => {
+    const parsed = parseScriptMetadata('', 'When: sometimes\nOrder: soon\nType: Client Script');
+
+    const { metadata, prefilled } = prefillArtifactMetadata(getArtifactType('client_script')!, parsed);
+
+    expect(metadata.when).toBe('onLoad');
+    expect(prefilled).toEqual([]);
+  });
+
+  it('should match select options by label', () => {
+    const parsed = parseScriptMetadata('', 'UI Type: Mobile / Service Portal');
+
+    expect(prefillArtifactMetadata(getArtifactType('ui_policy')!, parsed).metadata.ui_type).toBe('1');
+  });
+});
+
+describe('extractCodeBlockContext', () => {
+  it('should return the text between the neighbouring code blocks', () => {
+    const content = '```js\nfirst();\n```\nTable: incident\n\n```js\nsecond();\n```\nWhen: after\n\n```js\nthird();\n```';
+    const start = content.indexOf('```js\nsecond');
+    const end = content.indexOf('```', start + 3) + 3;
+
+    expect(extractCodeBlockContext(content, start, end)).toBe('Table: incident\n\nWhen: after');
+  });
+
+  it('should use the whole answer when there are no other code blocks', () => {
+    const content = 'Intro\n\n```js\ncode();\n```\n\nOutro';
+
+    expect(extractCodeBlockContext(content, 7, content.indexOf('Outro') - 2)).toBe('Intro\n\nOutro');
+  });
+});
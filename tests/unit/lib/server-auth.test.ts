@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+
+import jwt from 'jsonwebtoken';
+
+const mockCookieStore = { get: jest.fn() };
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(async () => mockCookieStore),
+}));
+
+const mockGetUserById = jest.fn();
+jest.mock('@/lib/users', () => ({
+  UserManager: jest.fn(() => ({ getUserById: mockGetUserById })),
+}));
+
+// The secret is read when the module loads
+process.env.JWT_SECRET = 'test-jwt-secret';
+const { getServerAuthState } = require('@/lib/server-auth');
+
+const storedUser = { id: 2, username: 'member', role: 'member', is_active: true, created_at: new Date(), updated_at: new Date() };
+
+const signIn = (payload: Record<string, unknown>) => {
+  mockCookieStore.get.mockReturnValue({ value: jwt.sign(payload, 'test-jwt-secret') });
+};
+
+describe('getServerAuthState', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetUserById.mockResolvedValue(storedUser);
+  });
+
+  it('should authenticate an active user with the role stored for them', async () => {
+    signIn({ uid: 2, username: 'member', role: 'admin' });
+
+    await expect(getServerAuthState()).resolves.toEqual({
+      isAuthenticated: true,
+      user: { id: 2, username: 'member', role: 'member' },
+    });
+    expect(mockGetUserById).toHaveBeenCalledWith(2);
+  });
+
+  it('should reject a user disabled after the token was issued', async () => {
+    signIn({ uid: 2, username: 'member', role: 'member' });
+    mockGetUserById.mockResolvedValue({ ...storedUser, is_active: false });
+
+    await expect(getServerAuthState()).resolves.toEqual({ isAuthenticated: false });
+  });
+
+  it('should reject a token for a deleted or renamed user', async () => {
+    signIn({ uid: 2, username: 'member', role: 'member' });
+    mockGetUserById.mockResolvedValueOnce(null);
+    await expect(getServerAuthState()).resolves.toEqual({ isAuthenticated: false });
+
+    mockGetUserById.mockResolvedValueOnce({ ...storedUser, username: 'someone-else' });
+    await expect(getServerAuthState()).resolves.toEqual({ isAuthenticated: false });
+  });
+
+  it('should reject missing and forged tokens without a lookup', async () => {
+    mockCookieStore.get.mockReturnValue(undefined);
+    await expect(getServerAuthState()).resolves.toEqual({ isAuthenticated: false });
+
+    mockCookieStore.get.mockReturnValue({ value: jwt.sign({ uid: 2, username: 'member' }, 'other-secret') });
+    await expect(getServerAuthState()).resolves.toEqual({ isAuthenticated: false });
+
+    expect(mockGetUserById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  getArtifactType,
+  getArtifactTypes,
+  getDefaultMetadata,
+  registerArtifactType,
+  validateArtifactMetadata,
+} from '../../../src/lib/servicenow-artifacts';
+import { parseSendScriptRequest } from '../../../src/lib/request-validation';
+
+describe('servicenow-artifacts registry', () => {
+  it('should map each built-in artifact type to its ServiceNow table', () => {
+    const tables = Object.fromEntries(getArtifactTypes().map(type => [type.id, type.targetTable]));
+
+    expect(tables).toMatchObject({
+      business_rule: 'sys_script',
+      script_include: 'sys_script_include',
+      client_script: 'sys_script_client',
+      ui_action: 'sys_ui_action',
+      ui_policy: 'sys_ui_policy',
+      scheduled_job: 'sysauto_script',
+      fix_script: 'sys_script_fix',
+      scripted_rest_resource: 'sys_ws_operation',
+      acl: 'sys_security_acl',
+    });
+  });
+
+  it('should build default metadata from the field defaults', () => {
+    expect(getDefaultMetadata(getArtifactType('business_rule')!)).toEqual({
+      when: 'before',
+      order: 100,
+      action_insert: true,
+      action_update: true,
+      action_delete: false,
+      action_query: false,
+      active: true,
+    });
+    expect(getDefaultMetadata(getArtifactType('fix_script')!)).toEqual({ record_for_rollback: true });
+  });
+
+  it('should let new artifact types be registered', () => {
+    registerArtifactType({
+      id: 'transform_script',
+      label: 'Transform Script',
+      targetTable: 'sys_transform_script',
+      description: 'Import set transform map script',
+      scriptField: 'script',
+      matchOn: ['name'],
+      fields: [{ key: 'active', label: 'Active', input: 'checkbox' }],
+    });
+
+    expect(getArtifactType('transform_script')?.targetTable).toBe('sys_transform_script');
+    expect(getArtifactTypes().at(-1)?.id).toBe('transform_script');
+    expect(getDefaultMetadata(getArtifactType('transform_script')!)).toEqual({ active: false });
+  });
+});
+
+describe('validateArtifactMetadata', () => {
+  const businessRule = () => getArtifactType('business_rule')!;
+
+  it('should fill defaults, trim text and ignore unknown keys', () => {
+    const result = validateArtifactMetadata(businessRule(), {
+      name: ' Set priority ',
+      table: ' incident ',
+      condition: '',
+      action_delete: true,
+      extra: 'ignored',
+    });
+
+    expect(result).toEqual({
+      metadata: {
+        name: 'Set priority',
+        table: 'incident',
+        when: 'before',
+        order: 100,
+        action_insert: true,
+        action_update: true,
+        action_delete: true,
+        action_query: false,
+        active: true,
+      },
+    });
+  });
+
+  it('should accept numbers sent as strings', () => {
+    const result = validateArtifactMetadata(businessRule(), { name: 'Rule', table: 'incident', order: '250' });
+
+    expect(result).toEqual({ metadata: expect.objectContaining({ order: 250 }) });
+  });
+
+  it('should reject a missing required field', () => {
+    expect(validateArtifactMetadata(businessRule(), { name: 'Rule' })).toEqual({ error: 'Table is required for a Business Rule' });
+  });
+
+  it('should require a field name for onChange client scripts only', () => {
+    const clientScript = getArtifactType('client_script')!;
+
+    expect(validateArtifactMetadata(clientScript, { name: 'Watch state', table: 'incident', when: 'onChange' }))
+      .toEqual({ error: 'Field Name is required for a Client Script' });
+    expect(validateArtifactMetadata(clientScript, { name: 'Prepare form', table: 'incident', when: 'onLoad' }))
+      .toEqual({ metadata: expect.not.objectContaining({ field_name: expect.anything() }) });
+  });
+
+  it('should check text against the field pattern and length', () => {
+    expect(validateArtifactMetadata(businessRule(), { name: 'Rule', table: 'Incident Table' }))
+      .toEqual({ error: 'Table must be a table name such as incident or x_acme_request' });
+    expect(validateArtifactMetadata(businessRule(), { name: 'x'.repeat(101), table: 'incident' }))
+      .toEqual({ error: 'Name must be text of at most 100 characters' });
+    expect(validateArtifactMetadata(getArtifactType('acl')!, { table: 'incident.*', operation: 'write' }))
+      .toEqual({ metadata: expect.objectContaining({ table: 'incident.*' }) });
+  });
+
+  it('should reject a checkbox value that is not a boolean', () => {
+    expect(validateArtifactMetadata(businessRule(), { name: 'Rule', table: 'incident', active: 'yes' }))
+      .toEqual({ error: 'Active must be true or false' });
+  });
+
+  it('should reject a value outside the select options', () => {
+    const result = validateArtifactMetadata(businessRule(), { name: 'Rule', table: 'incident', when: 'sometimes' });
+
+    expect(result).toEqual({ error: 'When must be one of: before, after, async, display' });
+  });
+
+  it('should reject an order that is not a whole number', () => {
+    const result = validateArtifactMetadata(businessRule(), { name: 'Rule', table: 'incident', order: 'first' });
+
+    expect(result).toEqual({ error: 'Order must be a whole number' });
+  });
+});
+
+describe('parseSendScriptRequest', () => {
+  it('should accept a registered type with its table and metadata', () => {
+    const result = parseSendScriptRequest({
+      payload: '  gs.info("hi");  ',
+      type: 'ui_action',
+      target_table: 'sys_ui_action',
+      metadata: { name: 'Resolve', table: 'incident', ui_type: '10' },
+    });
+
+    expect(result).toEqual({
+      request: {
+        payload: 'gs.info("hi");',
+        type: 'ui_action',
+        target_table: 'sys_ui_action',
+        metadata: {
+          name: 'Resolve',
+          table: 'incident',
+          order: 100,
+          ui_type: '10',
+          form_button: true,
+          list_button: false,
+          client: false,
+          active: true,
+        },
+      },
+    });
+  });
+
+  it('should require the record name', () => {
+    const result = parseSendScriptRequest({ payload: 'var x;', type: 'fix_script', target_table: 'sys_script_fix' });
+
+    expect(result).toEqual({ error: 'Name is required for a Fix Script' });
+  });
+
+  it('should reject missing fields, unknown types and mismatched tables', () => {
+    expect(parseSendScriptRequest({ type: 'fix_script', target_table: 'sys_script_fix' }))
+      .toEqual({ error: 'Missing required fields: payload, type, and target_table' });
+    expect(parseSendScriptRequest({ payload: 'x', type: 'widget', target_table: 'sp_widget' }))
+      .toEqual({ error: expect.stringContaining('Invalid script type: widget') });
+    expect(parseSendScriptRequest({ payload: 'x', type: 'acl', target_table: 'sys_script' }))
+      .toEqual({ error: 'Invalid type and target_table combination' });
+  });
+
+  it('should reject metadata that is not an object', () => {
+    const result = parseSendScriptRequest({ payload: 'x', type: 'fix_script', target_table: 'sys_script_fix', metadata: ['a'] });
+
+    expect(result).toEqual({ error: 'metadata must be an object' });
+  });
+});
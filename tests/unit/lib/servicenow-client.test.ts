@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  buildRecordUrl,
+  getServiceNowCredentials,
+  normaliseInstanceUrl,
+  ServiceNowApiError,
+  ServiceNowClient,
+  validateCredentialsReference,
+} from '../../../src/lib/servicenow-client';
+import { MockServiceNowServer, startMockServiceNow } from '../../utils/mock-servicenow-server';
+
+const basicAuth = { type: 'basic' as const, username: 'admin', password: 'secret' };
+
+describe('ServiceNowClient', () => {
+  let serviceNow: MockServiceNowServer;
+
+  beforeEach(async () => {
+    serviceNow = await startMockServiceNow();
+  });
+
+  afterEach(async () => {
+    await serviceNow.close();
+  });
+
+  it('should create a business rule with its table column and advanced flag', async () => {
+    const client = new ServiceNowClient(serviceNow.url, basicAuth);
+
+    const result = await client.pushArtifact({
+      payload: 'current.setValue("state", 2);',
+      type: 'business_rule',
+      target_table: 'sys_script',
+      metadata: { name: 'Set state', table: 'incident', when: 'before', order: 100, active: true },
+    });
+
+    expect(result.action).toBe('created');
+    expect(result.url).toBe(buildRecordUrl(serviceNow.url, 'sys_script', result.sys_id));
+    expect(serviceNow.tables.get('sys_script')).toEqual([
+      expect.objectContaining({
+        sys_id: result.sys_id,
+        name: 'Set state',
+        collection: 'incident',
+        script: 'current.setValue("state", 2);',
+        advanced: true,
+      }),
+    ]);
+  });
+
+  it('should update the existing record that matches the artifact type', async () => {
+    const client = new ServiceNowClient(serviceNow.url, basicAuth);
+    const request = {
+      payload: 'var Util = Class.create();',
+      type: 'script_include',
+      target_table: 'sys_script_include',
+      metadata: { name: 'Util', api_name: 'global.Util' },
+    };
+
+    const created = await client.pushArtifact(request);
+    const updated = await client.pushArtifact({ ...request, payload: 'var Util = Class.create(); // v2' });
+
+    expect(updated).toMatchObject({ action: 'updated', sys_id: created.sys_id });
+    expect(serviceNow.tables.get('sys_script_include')).toHaveLength(1);
+    expect(serviceNow.tables.get('sys_script_include')?.[0].script).toBe('var Util = Class.create(); // v2');
+    expect(serviceNow.requests.filter(request => request.method === 'PATCH')).toHaveLength(1);
+  });
+
+  it('should always create ACLs instead of updating one on the same table and operation', async () => {
+    const client = new ServiceNowClient(serviceNow.url, basicAuth);
+    const existing = await client.createRecord('sys_security_acl', { name: 'incident', 'operation.name': 'read', script: 'answer = gs.hasRole("itil");' });
+    const request = {
+      payload: 'answer = current.caller_id == gs.getUserID();',
+      type: 'acl',
+      target_table: 'sys_security_acl',
+      metadata: { table: 'incident', operation: 'read' },
+    };
+
+    const first = await client.pushArtifact(request);
+    const second = await client.pushArtifact(request);
+
+    expect(first.action).toBe('created');
+    expect(second.action).toBe('created');
+    expect(new Set([existing, first.sys_id, second.sys_id]).size).toBe(3);
+    expect(serviceNow.tables.get('sys_security_acl')?.find(record => record.sys_id === existing)?.script)
+      .toBe('answer = gs.hasRole("itil");');
+    expect(serviceNow.requests.filter(request => request.method === 'PATCH')).toHaveLength(0);
+  });
+
+  it('should fetch an OAuth token once and reuse it', async () => {
+    const client = new ServiceNowClient(serviceNow.url, { type: 'oauth', clientId: 'client-id', clientSecret: 'client-secret' });
+
+    await client.createRecord('sys_script_fix', { name: 'One' });
+    await client.createRecord('sys_script_fix', { name: 'Two' });
+
+    expect(serviceNow.requests.filter(request => request.path === '/oauth_token.do')).toHaveLength(1);
+    expect(serviceNow.requests.filter(request => request.path.startsWith('/api/now/table'))
+      .every(request => request.authorization === 'Bearer mock-access-token')).toBe(true);
+  });
+
+  it('should surface the ServiceNow error message and status', async () => {
+    const client = new ServiceNowClient(serviceNow.url, { ...basicAuth, password: 'wrong' });
+
+    const error = await client.createRecord('sys_script_fix', { name: 'Fix' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ServiceNowApiError);
+    expect(error.status).toBe(401);
+    expect(error.message).toBe('ServiceNow returned 401: User Not Authenticated (Required to provide Auth information)');
+  });
+
+  it('should report an unreachable instance', async () => {
+    const url = serviceNow.url;
+    await serviceNow.close();
+    serviceNow = await startMockServiceNow();
+    const client = new ServiceNowClient(url, basicAuth);
+
+    await expect(client.findRecord('sys_script', 'name=x')).rejects.toThrow(`Could not reach ServiceNow at ${url}`);
+  });
+});
+
+describe('getServiceNowCredentials', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should use the credentials bound to the instance URL', () => {
+    process.env = {
+      ...originalEnv,
+      SERVICENOW_DEV_URL: 'https://dev12345.service-now.com/',
+      SERVICENOW_DEV_CLIENT_ID: 'id',
+      SERVICENOW_DEV_CLIENT_SECRET: 'secret',
+      SERVICENOW_TEST_URL: 'https://test12345.service-now.com',
+      SERVICENOW_TEST_USERNAME: 'admin',
+      SERVICENOW_TEST_PASSWORD: 'password',
+    };
+
+    expect(getServiceNowCredentials('dev12345.service-now.com')).toEqual({ type: 'oauth', clientId: 'id', clientSecret: 'secret' });
+    expect(getServiceNowCredentials('https://test12345.service-now.com')).toEqual({ type: 'basic', username: 'admin', password: 'password' });
+  });
+
+  it('should not send credentials to other hosts or over plain http', () => {
+    process.env = {
+      ...originalEnv,
+      SERVICENOW_USERNAME: 'admin',
+      SERVICENOW_PASSWORD: 'password',
+      SERVICENOW_DEV_URL: 'https://dev12345.service-now.com',
+      SERVICENOW_DEV_USERNAME: 'admin',
+      SERVICENOW_DEV_PASSWORD: 'password',
+    };
+
+    expect(getServiceNowCredentials('https://attacker.example.com')).toBeNull();
+    expect(getServiceNowCredentials('http://dev12345.service-now.com')).toBeNull();
+    expect(getServiceNowCredentials('')).toBeNull();
+    expect(normaliseInstanceUrl('dev12345.service-now.com/')).toBe('https://dev12345.service-now.com');
+    expect(normaliseInstanceUrl('http://dev12345.service-now.com')).toBeNull();
+    expect(normaliseInstanceUrl('http://127.0.0.1:8080')).toBe('http://127.0.0.1:8080');
+  });
+
+  it('should only read the credentials named by a profile reference', () => {
+    process.env = {
+      ...originalEnv,
+      SERVICENOW_ACME_PROD_URL: 'https://acme.service-now.com',
+      SERVICENOW_ACME_PROD_USERNAME: 'deployer',
+      SERVICENOW_ACME_PROD_PASSWORD: 'prod-secret',
+      SERVICENOW_ACME_TEST_URL: 'https://acmetest.service-now.com',
+      SERVICENOW_ACME_TEST_USERNAME: 'tester',
+      SERVICENOW_ACME_TEST_PASSWORD: 'test-secret',
+    };
+
+    expect(getServiceNowCredentials('https://acme.service-now.com', 'ACME_PROD')).toEqual({ type: 'basic', username: 'deployer', password: 'prod-secret' });
+    expect(getServiceNowCredentials('https://acme.service-now.com', 'ACME_TEST')).toBeNull();
+    expect(getServiceNowCredentials('https://attacker.example.com', 'ACME_PROD')).toBeNull();
+  });
+});
+
+describe('validateCredentialsReference', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should accept a reference only for the instance URL configured with it', () => {
+    process.env = { ...originalEnv, SERVICENOW_ACME_PROD_URL: 'https://acme.service-now.com/' };
+
+    expect(validateCredentialsReference('https://acme.service-now.com', 'ACME_PROD')).toBeNull();
+    expect(validateCredentialsReference('https://attacker.example.com', 'ACME_PROD')).toContain('belongs to https://acme.service-now.com');
+    expect(validateCredentialsReference('https://acme.service-now.com', 'ACME_TEST')).toContain('SERVICENOW_ACME_TEST_URL');
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  getInstanceProfiles,
+  getInstanceScope,
+  getPushRestriction,
+  LEGACY_INSTANCE_ID,
+  resolveInstanceProfile,
+  slugifyInstanceName,
+  validateInstanceProfiles,
+} from '../../../src/lib/servicenow-instances';
+import type { ServiceNowInstanceProfile } from '../../../src/types';
+
+const dev: ServiceNowInstanceProfile = { id: 'acme-dev', name: 'ACME Dev', url: 'https://acmedev.service-now.com', environment: 'dev', allow_push: true };
+const prod: ServiceNowInstanceProfile = { id: 'acme-prod', name: 'ACME Prod', url: 'https://acme.service-now.com', environment: 'prod', scope: 'x_acme_app', credentials_ref: 'ACME_PROD', allow_push: true };
+
+describe('validateInstanceProfiles', () => {
+  it('should trim profiles and drop empty optional fields', () => {
+    const result = validateInstanceProfiles([
+      { ...dev, name: ' ACME Dev ', url: 'https://acmedev.service-now.com/', scope: '', credentials_ref: '', extra: 'ignored' },
+      prod,
+    ]);
+
+    expect(result).toEqual({ profiles: [dev, prod] });
+  });
+
+  it('should reject duplicate ids, bad or plain http URLs, environments and credentials references', () => {
+    expect(validateInstanceProfiles([dev, dev])).toEqual({ error: 'Duplicate instance profile id: acme-dev' });
+    expect(validateInstanceProfiles([{ ...dev, url: 'acmedev' }])).toEqual({ error: 'URL of instance profile ACME Dev must be an https URL' });
+    expect(validateInstanceProfiles([{ ...dev, url: 'http://acmedev.service-now.com' }])).toHaveProperty('error');
+    expect(validateInstanceProfiles([{ ...dev, url: 'http://localhost:8080' }])).toEqual({ profiles: [{ ...dev, url: 'http://localhost:8080' }] });
+    expect(validateInstanceProfiles([{ ...dev, environment: 'uat' }])).toHaveProperty('error');
+    expect(validateInstanceProfiles([{ ...prod, credentials_ref: 'acme-prod' }])).toHaveProperty('error');
+    expect(validateInstanceProfiles([{ ...dev, allow_push: 'yes' }])).toHaveProperty('error');
+    expect(validateInstanceProfiles('acme')).toEqual({ error: 'servicenow_instances must be an array' });
+  });
+});
+
+describe('resolveInstanceProfile', () => {
+  const settings = { servicenow_instance_url: '', servicenow_instances: [dev, prod], active_servicenow_instance: 'acme-prod' };
+
+  it('should pick the requested, then the active, then the first profile', () => {
+    expect(resolveInstanceProfile(settings, 'acme-dev')).toBe(dev);
+    expect(resolveInstanceProfile(settings)).toBe(prod);
+    expect(resolveInstanceProfile({ ...settings, active_servicenow_instance: 'gone' })).toBe(dev);
+    expect(resolveInstanceProfile(settings, 'gone')).toBeNull();
+  });
+
+  describe('default profile', () => {
+    const legacy = { servicenow_instance_url: 'https://dev12345.service-now.com' };
+
+    afterEach(() => {
+      delete process.env.NEXT_PUBLIC_SERVICENOW_DEFAULT_ENVIRONMENT;
+    });
+
+    it('should stand in a production profile for the single instance URL', () => {
+      expect(getInstanceProfiles(legacy)).toEqual([
+        expect.objectContaining({ id: LEGACY_INSTANCE_ID, url: 'https://dev12345.service-now.com', environment: 'prod', allow_push: true }),
+      ]);
+      expect(resolveInstanceProfile({ servicenow_instance_url: '' })).toBeNull();
+    });
+
+    it('should take its environment from the configuration', () => {
+      process.env.NEXT_PUBLIC_SERVICENOW_DEFAULT_ENVIRONMENT = 'dev';
+      expect(resolveInstanceProfile(legacy)?.environment).toBe('dev');
+
+      process.env.NEXT_PUBLIC_SERVICENOW_DEFAULT_ENVIRONMENT = 'staging';
+      expect(resolveInstanceProfile(legacy)?.environment).toBe('prod');
+    });
+  });
+});
+
+describe('getInstanceScope', () => {
+  it('should default to the global scope', () => {
+    expect(getInstanceScope(prod)).toBe('x_acme_app');
+    expect(getInstanceScope(dev)).toBe('global');
+  });
+});
+
+describe('getPushRestriction', () => {
+  it('should require a confirmation for production and refuse profiles without pushes', () => {
+    expect(getPushRestriction(dev, false)).toBeNull();
+    expect(getPushRestriction(prod, false)).toEqual(expect.objectContaining({ status: 428 }));
+    expect(getPushRestriction(prod, true)).toBeNull();
+    expect(getPushRestriction({ ...prod, allow_push: false }, true)).toEqual(expect.objectContaining({ status: 403 }));
+  });
+});
+
+describe('slugifyInstanceName', () => {
+  it('should derive an id from the name', () => {
+    expect(slugifyInstanceName('ACME Prod (EU)')).toBe('acme-prod-eu');
+    expect(slugifyInstanceName('***')).toBe('instance');
+  });
+});
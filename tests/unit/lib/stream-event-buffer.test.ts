@@ -0,0 +1,105 @@
+import { StreamEventBuffer } from '@/lib/stream-event-buffer';
+import { SessionKeyInUseError } from '@/lib/stream-registry';
+
+describe('StreamEventBuffer', () => {
+  let buffer: StreamEventBuffer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    buffer = StreamEventBuffer.getInstance();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should assign increasing sequence ids', () => {
+    const stream = buffer.open('session_1_abc', 'alice', jest.fn());
+
+    expect(stream.append('first')?.id).toBe(1);
+    expect(stream.append('second')?.id).toBe(2);
+    expect(stream.getLastEventId()).toBe(2);
+  });
+
+  it('should replay only events after lastEventId and then continue live', () => {
+    const stream = buffer.open('session_2_abc', 'alice', jest.fn());
+    stream.append('one');
+    stream.append('two');
+
+    const received: string[] = [];
+    const onEnd = jest.fn();
+    stream.subscribe(1, (event) => received.push(event.data), onEnd);
+    stream.append('three');
+    stream.finish();
+
+    expect(received).toEqual(['two', 'three']);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should end immediately when subscribing to a finished stream', () => {
+    const stream = buffer.open('session_3_abc', 'alice', jest.fn());
+    stream.append('one');
+    buffer.close(stream);
+
+    const onEvent = jest.fn();
+    const onEnd = jest.fn();
+    buffer.get('session_3_abc', 'alice')?.subscribe(0, onEvent, onEnd);
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only expose a stream to the user who started it', () => {
+    buffer.open('session_4_abc', 'alice', jest.fn());
+
+    expect(buffer.get('session_4_abc', 'alice')).not.toBeNull();
+    expect(buffer.get('session_4_abc', 'bob')).toBeNull();
+  });
+
+  it('should drop finished streams after the retention window', () => {
+    const stream = buffer.open('session_5_abc', 'alice', jest.fn());
+    buffer.close(stream);
+
+    jest.advanceTimersByTime(5 * 60 * 1000);
+
+    expect(buffer.get('session_5_abc', 'alice')).toBeNull();
+  });
+
+  it('should abandon an unfinished stream only after the grace period without subscribers', () => {
+    const onAbandoned = jest.fn();
+    const stream = buffer.open('session_6_abc', 'alice', onAbandoned);
+
+    const unsubscribe = stream.subscribe(0, jest.fn(), jest.fn());
+    unsubscribe();
+    jest.advanceTimersByTime(30 * 1000);
+
+    // Client resumed in time
+    const unsubscribeResumed = stream.subscribe(0, jest.fn(), jest.fn());
+    jest.advanceTimersByTime(60 * 1000);
+    expect(onAbandoned).not.toHaveBeenCalled();
+
+    unsubscribeResumed();
+    jest.advanceTimersByTime(60 * 1000);
+    expect(onAbandoned).toHaveBeenCalledTimes(1);
+  });
+
+  it('should finish the previous stream when a session key is reused', () => {
+    const first = buffer.open('session_7_abc', 'alice', jest.fn());
+    buffer.open('session_7_abc', 'alice', jest.fn());
+
+    expect(first.isFinished()).toBe(true);
+  });
+
+  it("should refuse a session key that belongs to another user's stream", () => {
+    const stream = buffer.open('session_8_abc', 'alice', jest.fn());
+    stream.append('first');
+
+    expect(() => buffer.open('session_8_abc', 'bob', jest.fn())).toThrow(SessionKeyInUseError);
+    expect(stream.isFinished()).toBe(false);
+    expect(buffer.get('session_8_abc', 'alice')).toBe(stream);
+
+    // Still refused while the finished stream is kept for replay
+    buffer.close(stream);
+    expect(() => buffer.open('session_8_abc', 'bob', jest.fn())).toThrow(SessionKeyInUseError);
+  });
+});
@@ -0,0 +1,57 @@
+import { SessionKeyInUseError, StreamRegistry } from '@/lib/stream-registry';
+
+describe('StreamRegistry', () => {
+  let registry: StreamRegistry;
+
+  beforeEach(() => {
+    registry = StreamRegistry.getInstance();
+  });
+
+  it('should return the same instance', () => {
+    expect(StreamRegistry.getInstance()).toBe(registry);
+  });
+
+  it('should abort a registered stream for its owner', () => {
+    const controller = registry.register('session_1_abc', 'alice');
+
+    expect(registry.isActive('session_1_abc')).toBe(true);
+    expect(registry.cancel('session_1_abc', 'alice')).toBe(true);
+    expect(controller.abort).toHaveBeenCalled();
+    expect(registry.isActive('session_1_abc')).toBe(false);
+  });
+
+  it('should not let another user cancel the stream', () => {
+    const controller = registry.register('session_2_abc', 'alice');
+
+    expect(registry.cancel('session_2_abc', 'bob')).toBe(false);
+    expect(controller.abort).not.toHaveBeenCalled();
+
+    registry.unregister('session_2_abc', controller);
+  });
+
+  it('should return false for unknown sessions', () => {
+    expect(registry.cancel('session_404_abc', 'alice')).toBe(false);
+  });
+
+  it('should abort the previous stream when a session key is reused', () => {
+    const first = registry.register('session_3_abc', 'alice');
+    const second = registry.register('session_3_abc', 'alice');
+
+    expect(first.abort).toHaveBeenCalled();
+
+    // A late unregister from the replaced stream must not drop the new one
+    registry.unregister('session_3_abc', first);
+    expect(registry.isActive('session_3_abc')).toBe(true);
+
+    registry.unregister('session_3_abc', second);
+    expect(registry.isActive('session_3_abc')).toBe(false);
+  });
+
+  it("should refuse a session key that belongs to another user's stream", () => {
+    const controller = registry.register('session_4_abc', 'alice');
+
+    expect(() => registry.register('session_4_abc', 'bob')).toThrow(SessionKeyInUseError);
+    expect(controller.abort).not.toHaveBeenCalled();
+    expect(registry.cancel('session_4_abc', 'alice')).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+
+import { Readable } from 'stream';
+
+import { StreamEventBuffer } from '@/lib/stream-event-buffer';
+import type { StreamingRequest } from '@/types';
+
+const mockCreateStreamingConnection = jest.fn();
+jest.mock('@/lib/n8n-streaming-client', () => ({
+  N8NStreamingClient: { createStreamingConnection: (...args: unknown[]) => mockCreateStreamingConnection(...args) },
+}));
+
+jest.mock('@/lib/prompt-experiments', () => ({
+  PromptExperimentManager: jest.fn(() => ({ getPromptsForRequest: jest.fn().mockResolvedValue(undefined) })),
+}));
+
+const mockRecordUsage = jest.fn();
+jest.mock('@/lib/usage', () => ({
+  UsageManager: jest.fn(() => ({ recordUsage: mockRecordUsage })),
+}));
+
+import { StreamingResponseHandler } from '@/lib/streaming-response-handler';
+
+let sessionCounter = 0;
+
+const createRequest = (): StreamingRequest => ({
+  question: 'How do I create an incident?',
+  type: 'documentation',
+  sessionkey: `session_handler_${++sessionCounter}`,
+  searching: false,
+  aiModel: 'anthropic/claude-sonnet-4',
+  agentModels: [{ agent: 'orchestration', model: 'openai/gpt-4.1' }],
+});
+
+// Stream the chunks as n8n's newline-delimited JSON
+const connectWith = (chunks: object[]) => {
+  mockCreateStreamingConnection.mockImplementation(async (body: StreamingRequest, ...args: unknown[]) => {
+    const onAdmitted = args[4] as () => void;
+    onAdmitted();
+    return {
+      stream: Readable.from(chunks.map(chunk => `${JSON.stringify(chunk)}\n`)),
+      request: body,
+      provider: null,
+    };
+  });
+};
+
+// Run a request to the end and return the events sent to the client
+const runStream = async (body: StreamingRequest) => {
+  await StreamingResponseHandler.createStreamingResponse(body, 'member');
+  const stream = StreamEventBuffer.getInstance().get(body.sessionkey, 'member');
+  await new Promise<void>(resolve => {
+    const poll = () => (stream?.isFinished() ? resolve() : setTimeout(poll, 5));
+    poll();
+  });
+
+  const events: { type: string; content: string; data?: Record<string, unknown> }[] = [];
+  stream?.subscribe(0, event => events.push(JSON.parse(event.data)), () => {});
+  return events;
+};
+
+const nodeMetadata = { nodeId: 'agent-node', nodeName: 'Orchestration Agent' };
+
+describe('StreamingResponseHandler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRecordUsage.mockResolvedValue(1);
+  });
+
+  it('should report a streaming workflow node as agent activity', async () => {
+    connectWith([
+      { type: 'begin', metadata: nodeMetadata },
+      { type: 'item', content: 'Use GlideRecord.', metadata: nodeMetadata },
+      { type: 'end', metadata: nodeMetadata },
+    ]);
+
+    const events = await runStream(createRequest());
+
+    expect(events.map(event => event.type)).toEqual(['connecting', 'begin', 'agent_start', 'chunk', 'agent_end', 'complete']);
+    expect(events.find(event => event.type === 'agent_start')?.data).toEqual({ agent: 'orchestration' });
+  });
+
+  it('should not invent activity for chunks without node metadata', async () => {
+    connectWith([
+      { type: 'begin' },
+      { type: 'item', content: 'Use GlideRecord.' },
+      { type: 'end' },
+    ]);
+
+    const events = await runStream(createRequest());
+
+    expect(events.map(event => event.type)).toEqual(['connecting', 'begin', 'chunk', 'complete']);
+  });
+
+  it('should record the usage events the workflow sends', async () => {
+    connectWith([
+      { type: 'begin' },
+      { type: 'item', content: 'Use GlideRecord.' },
+      { type: 'usage', content: { agent: 'orchestration', model: 'openai/gpt-4.1', prompt_tokens: 1200, completion_tokens: 300 } },
+      { type: 'end' },
+    ]);
+
+    const body = createRequest();
+    await runStream(body);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(mockRecordUsage).toHaveBeenCalledWith([expect.objectContaining({
+      session_key: body.sessionkey,
+      agent_name: 'orchestration',
+      model_name: 'openai/gpt-4.1',
+      prompt_tokens: 1200,
+      completion_tokens: 300,
+      total_tokens: 1500,
+    })]);
+  });
+
+  it('should estimate usage from the question and answer when the workflow reports none', async () => {
+    connectWith([
+      { type: 'begin' },
+      { type: 'item', content: 'x'.repeat(400) },
+      { type: 'end' },
+    ]);
+
+    await runStream(createRequest());
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // 28 characters of question and 400 of answer at 4 characters per token
+    expect(mockRecordUsage).toHaveBeenCalledWith([expect.objectContaining({
+      agent_name: 'orchestration',
+      model_name: 'openai/gpt-4.1',
+      prompt_tokens: 7,
+      completion_tokens: 100,
+      total_tokens: 107,
+    })]);
+  });
+
+  it('should record nothing when no answer was streamed', async () => {
+    connectWith([{ type: 'begin' }, { type: 'end' }]);
+
+    await runStream(createRequest());
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(mockRecordUsage).not.toHaveBeenCalled();
+  });
+});
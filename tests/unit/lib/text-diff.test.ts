@@ -0,0 +1,44 @@
+import { diffLines, countChanges } from '../../../src/lib/text-diff';
+
+describe('diffLines', () => {
+  it('should mark identical text as unchanged', () => {
+    const diff = diffLines('a\nb', 'a\nb');
+
+    expect(diff.map(line => line.type)).toEqual(['unchanged', 'unchanged']);
+    expect(countChanges(diff)).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('should show a changed line as removed then added', () => {
+    const diff = diffLines('intro\nold rule\noutro', 'intro\nnew rule\noutro');
+
+    expect(diff).toEqual([
+      { type: 'unchanged', text: 'intro', oldLineNumber: 1, newLineNumber: 1 },
+      { type: 'removed', text: 'old rule', oldLineNumber: 2 },
+      { type: 'added', text: 'new rule', newLineNumber: 2 },
+      { type: 'unchanged', text: 'outro', oldLineNumber: 3, newLineNumber: 3 },
+    ]);
+  });
+
+  it('should keep common lines around insertions and deletions', () => {
+    const diff = diffLines('a\nb\nc\nd', 'a\nc\nd\ne');
+
+    expect(diff.map(line => `${line.type}:${line.text}`)).toEqual([
+      'unchanged:a',
+      'removed:b',
+      'unchanged:c',
+      'unchanged:d',
+      'added:e',
+    ]);
+    expect(countChanges(diff)).toEqual({ added: 1, removed: 1 });
+  });
+
+  it('should treat empty text as having no lines', () => {
+    expect(diffLines('', 'first prompt').map(line => line.type)).toEqual(['added']);
+    expect(diffLines('old prompt', '').map(line => line.type)).toEqual(['removed']);
+    expect(diffLines('', '')).toEqual([]);
+  });
+
+  it('should ignore Windows line endings', () => {
+    expect(countChanges(diffLines('a\r\nb', 'a\nb'))).toEqual({ added: 0, removed: 0 });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+import { buildUpdateSetXml, extractUpdateSetArtifacts, validateUpdateSetOptions } from '../../../src/lib/update-set-xml';
+
+const answer = [
+  '### Set VIP priority',
+  '',
+  '- **Name:** Set VIP priority',
+  '- **Table:** incident',
+  '- **When:** Before',
+  '',
+  '```javascript',
+  '(function executeRule(current, previous /*null when async*/) {',
+  '  if (current.caller_id.vip && current.priority > 1) current.priority = 1;',
+  '})(current, previous);',
+  '```',
+  '',
+  'And a helper:',
+  '',
+  '```js',
+  'var IncidentUtils = Class.create();',
+  'IncidentUtils.prototype = { type: "IncidentUtils" };',
+  '```',
+  '',
+  '```json',
+  '{ "not": "a script" }',
+  '```',
+  '',
+  '```javascript',
+  'gs.info("cleanup");',
+  '```',
+].join('\n');
+
+describe('extractUpdateSetArtifacts', () => {
+  it('should map each JavaScript block to its record type and fields', () => {
+    const artifacts = extractUpdateSetArtifacts(answer, 'VIP handling');
+
+    expect(artifacts.map(artifact => [artifact.type, artifact.metadata.name, artifact.recognized])).toEqual([
+      ['business_rule', 'Set VIP priority', true],
+      ['script_include', 'IncidentUtils', true],
+      ['fix_script', 'VIP handling - Script 3', false],
+    ]);
+    expect(artifacts[0].metadata).toMatchObject({ table: 'incident', when: 'before' });
+    expect(artifacts[2].script).toBe('gs.info("cleanup");');
+  });
+});
+
+describe('buildUpdateSetXml', () => {
+  const now = new Date('2026-03-01T09:30:00Z');
+
+  it('should build a retrieved update set with one escaped record payload per artifact', () => {
+    const artifacts = extractUpdateSetArtifacts(answer, 'VIP handling');
+
+    const xml = buildUpdateSetXml(artifacts, { name: 'VIP <handling>', scope: 'global' }, now);
+
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?><unload unload_date="2026-03-01 09:30:00">')).toBe(true);
+    expect(xml).toContain('<name>VIP &lt;handling&gt;</name>');
+    expect(xml).toContain('<state>loaded</state>');
+    expect(xml).toContain('<application_scope>global</application_scope>');
+    expect(xml.match(/<sys_update_xml action="INSERT_OR_UPDATE">/g)).toHaveLength(3);
+    expect(xml).toContain('<type>Business Rule</type>');
+    expect(xml).toContain('<record_update table="sys_script"><sys_script action="INSERT_OR_UPDATE">');
+    expect(xml).toContain('<collection>incident</collection>');
+    expect(xml).toContain('current.priority &gt; 1');
+    expect(xml).toContain('<record_update table="sys_script_include">');
+    expect(xml).toContain('<record_update table="sys_script_fix">');
+
+    // Every update points at the update set in the same file
+    const updateSetId = xml.match(/<sys_remote_update_set[^>]*>.*?<sys_id>([0-9a-f]{32})<\/sys_id>/)?.[1];
+    expect(xml.match(new RegExp(`<remote_update_set display_value="VIP &lt;handling&gt;">${updateSetId}</remote_update_set>`, 'g'))).toHaveLength(3);
+  });
+
+  it('should keep a CDATA terminator in a script from breaking the payload', () => {
+    const xml = buildUpdateSetXml(
+      [{ type: 'fix_script', script: 'var s = "]]>";', metadata: { name: 'Edge' }, recognized: true }],
+      { name: 'Edge', scope: 'x_acme_app' },
+      now
+    );
+
+    expect(xml.match(/]]>/g)).toHaveLength(1);
+    expect(xml).toContain('<application display_value="x_acme_app"/>');
+  });
+
+  it('should reject invalid options and empty exports', () => {
+    expect(validateUpdateSetOptions({ name: ' ', scope: 'global' })).toBe('Update set name is required');
+    expect(validateUpdateSetOptions({ name: 'Set', scope: 'Global App' })).toMatch(/^Scope must be/);
+    expect(() => buildUpdateSetXml([], { name: 'Empty', scope: 'global' })).toThrow('no JavaScript code blocks');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * In-memory ServiceNow instance for tests: the Table API (GET/POST/PATCH /api/now/table) and the
+ * OAuth client credentials endpoint, listening on a random local port.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockServiceNowRecord {
+  sys_id: string;
+  [column: string]: unknown;
+}
+
+export interface MockServiceNowRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  authorization?: string;
+  body?: unknown;
+}
+
+export interface MockServiceNowOptions {
+  username?: string;
+  password?: string;
+  clientId?: string;
+  clientSecret?: string;
+  accessToken?: string;
+}
+
+export interface MockServiceNowServer {
+  url: string;
+  tables: Map<string, MockServiceNowRecord[]>;
+  requests: MockServiceNowRequest[];
+  // Makes the next Table API request fail with this status and ServiceNow error body
+  failNext: (status: number, message: string, detail?: string) => void;
+  close: () => Promise<void>;
+}
+
+// Supports the simple "column=value^column=value" queries the client sends; dot-walked columns compare
+// against the column itself
+function matchesQuery(record: MockServiceNowRecord, query: string): boolean {
+  return query
+    .split(/\^(?!\^)/)
+    .filter(Boolean)
+    .every(condition => {
+      const [column, ...rest] = condition.split('=');
+      const value = rest.join('=').replace(/\^\^/g, '^');
+      return String(record[column.split('.')[0]]) === value;
+    });
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+export async function startMockServiceNow(options: MockServiceNowOptions = {}): Promise<MockServiceNowServer> {
+  const {
+    username = 'admin',
+    password = 'secret',
+    clientId = 'client-id',
+    clientSecret = 'client-secret',
+    accessToken = 'mock-access-token',
+  } = options;
+
+  const tables = new Map<string, MockServiceNowRecord[]>();
+  const requests: MockServiceNowRequest[] = [];
+  let nextFailure: { status: number; message: string; detail?: string } | null = null;
+  let sequence = 0;
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const raw = await readBody(request);
+    const isJson = (request.headers['content-type'] ?? '').includes('application/json');
+    const body = raw ? (isJson ? JSON.parse(raw) : Object.fromEntries(new URLSearchParams(raw))) : undefined;
+    requests.push({
+      method: request.method ?? 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      authorization: request.headers.authorization,
+      body,
+    });
+
+    const send = (status: number, payload: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(payload));
+    };
+
+    if (url.pathname === '/oauth_token.do') {
+      if (body?.grant_type === 'client_credentials' && body.client_id === clientId && body.client_secret === clientSecret) {
+        return send(200, { access_token: accessToken, token_type: 'Bearer', expires_in: 1799 });
+      }
+      return send(401, { error: 'access_denied', error_description: 'Invalid client credentials' });
+    }
+
+    const authorized = request.headers.authorization === `Bearer ${accessToken}`
+      || request.headers.authorization === `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    if (!authorized) {
+      return send(401, { error: { message: 'User Not Authenticated', detail: 'Required to provide Auth information' }, status: 'failure' });
+    }
+
+    const match = url.pathname.match(/^\/api\/now\/table\/([a-z0-9_]+)(?:\/([a-z0-9]+))?$/);
+    if (!match) {
+      return send(400, { error: { message: 'Requested URI does not represent any resource' }, status: 'failure' });
+    }
+    if (nextFailure) {
+      const failure = nextFailure;
+      nextFailure = null;
+      return send(failure.status, { error: { message: failure.message, detail: failure.detail ?? null }, status: 'failure' });
+    }
+
+    const [, table, sysId] = match;
+    const records = tables.get(table) ?? [];
+    tables.set(table, records);
+
+    if (request.method === 'GET' && !sysId) {
+      const query = url.searchParams.get('sysparm_query') ?? '';
+      const limit = Number(url.searchParams.get('sysparm_limit') ?? records.length);
+      return send(200, { result: records.filter(record => matchesQuery(record, query)).slice(0, limit) });
+    }
+    if (request.method === 'POST' && !sysId) {
+      sequence += 1;
+      const record = { ...(body as object), sys_id: `${sequence}`.padStart(32, '0') };
+      records.push(record);
+      return send(201, { result: record });
+    }
+    if (request.method === 'PATCH' && sysId) {
+      const record = records.find(candidate => candidate.sys_id === sysId);
+      if (!record) {
+        return send(404, { error: { message: 'No Record found', detail: 'Record doesn\'t exist or ACL restricts the record retrieval' }, status: 'failure' });
+      }
+      Object.assign(record, body);
+      return send(200, { result: record });
+    }
+    return send(405, { error: { message: 'Method not Supported' }, status: 'failure' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    tables,
+    requests,
+    failNext: (status, message, detail) => { nextFailure = { status, message, detail }; },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}